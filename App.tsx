@@ -1,11 +1,24 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import IntroGlobe from './components/IntroGlobe';
 import Dashboard from './components/Dashboard';
 import { ViewState } from './types';
 import { AnimatePresence, motion } from 'framer-motion';
+import { currentView, navigateTo } from './services/routeService';
 
 const App: React.FC = () => {
-  const [viewState, setViewState] = useState<ViewState['view']>('intro');
+  // A /dashboard link skips the intro; Back from the dashboard returns to it
+  const [viewState, setViewState] = useState<ViewState['view']>(currentView);
+
+  useEffect(() => {
+    const onPopState = () => setViewState(currentView());
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  }, []);
+
+  const enterDashboard = () => {
+    navigateTo('dashboard');
+    setViewState('dashboard');
+  };
 
   return (
     <div className="bg-black min-h-screen text-white">
@@ -19,7 +32,7 @@ const App: React.FC = () => {
             transition={{ duration: 1.2, ease: "easeInOut" }}
             className="absolute inset-0 z-50"
           >
-            <IntroGlobe onEnter={() => setViewState('dashboard')} />
+            <IntroGlobe onEnter={enterDashboard} />
           </motion.div>
         )}
 
@@ -0,0 +1,256 @@
+import React, { useState } from 'react';
+import { Bell, Plus, Trash2 } from 'lucide-react';
+import { AlertCondition, AlertEvent, AlertRule, ClimateVariable, Prediction } from '../types';
+import { CLIMATE_VARIABLES, RISK_LEVELS } from '../constants';
+import {
+  RULE_PRESETS, createRule, describeCondition, saveAlertRule, deleteAlertRule, markAlertsRead, clearAlerts
+} from '../services/alertService';
+
+interface AlertCenterProps {
+  rules: AlertRule[];
+  alerts: AlertEvent[]; // newest first
+  onChange: () => void; // rules or inbox were modified
+}
+
+type SeriesCondition = Extract<AlertCondition, { kind: 'series' }>;
+
+const METRIC_LABELS: Record<SeriesCondition['metric'], string> = {
+  value: 'value',
+  z: 'anomaly (σ)',
+  percentile: 'baseline percentile'
+};
+
+const NEW_SERIES_CONDITION: SeriesCondition = {
+  kind: 'series', variable: 'T2M', metric: 'value', comparator: 'above', threshold: 35, consecutive: 1
+};
+
+// Bell button with an unread count, opening the inbox and the rule editor.
+const AlertCenter: React.FC<AlertCenterProps> = ({ rules, alerts, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const [tab, setTab] = useState<'inbox' | 'rules'>('inbox');
+  const [name, setName] = useState('');
+  const [condition, setCondition] = useState<AlertCondition>(NEW_SERIES_CONDITION);
+  const unread = alerts.filter(a => !a.read).length;
+
+  const toggle = async () => {
+    if (open && unread) {
+      await markAlertsRead(alerts);
+      onChange();
+    }
+    setOpen(o => !o);
+  };
+
+  const addRule = async (ruleName: string, ruleCondition: AlertCondition) => {
+    await saveAlertRule(createRule(ruleName, ruleCondition));
+    setName('');
+    onChange();
+  };
+
+  const updateRule = async (rule: AlertRule) => {
+    await saveAlertRule(rule);
+    onChange();
+  };
+
+  const removeRule = async (id: string) => {
+    await deleteAlertRule(id);
+    onChange();
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('Delete every alert in the inbox?')) return;
+    await clearAlerts();
+    onChange();
+  };
+
+  const series = condition.kind === 'series' ? condition : null;
+  const setSeries = (patch: Partial<SeriesCondition>) => setCondition({ ...(series ?? NEW_SERIES_CONDITION), ...patch });
+  const inputClass = 'bg-black/50 border border-cyan-900 rounded px-2 py-1';
+
+  return (
+    <div className="relative">
+      <button
+        onClick={toggle}
+        className="relative p-2 glass-panel rounded-full hover:bg-cyan-900/40 text-cyan-400 transition-colors"
+        title="Alerts"
+      >
+        <Bell size={20} />
+        {unread > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[18px] h-[18px] px-1 rounded-full bg-red-500 text-white text-[10px] font-bold flex items-center justify-center">
+            {unread > 99 ? '99+' : unread}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-[28rem] max-h-[32rem] overflow-y-auto z-50 bg-black/95 border border-cyan-900 rounded-lg shadow-lg text-sm">
+          <div className="flex border-b border-cyan-900 text-xs font-exo">
+            {(['inbox', 'rules'] as const).map(t => (
+              <button
+                key={t}
+                onClick={() => setTab(t)}
+                className={`flex-1 py-2 ${tab === t ? 'text-cyan-300 bg-cyan-900/30' : 'text-gray-400 hover:text-cyan-400'}`}
+              >
+                {t === 'inbox' ? `INBOX (${alerts.length})` : `RULES (${rules.length})`}
+              </button>
+            ))}
+          </div>
+
+          {tab === 'inbox' && (
+            <div className="p-3 space-y-2">
+              {alerts.length === 0 ? (
+                <div className="text-gray-500 italic text-xs">
+                  No alerts yet. Rules are checked every time data loads.
+                </div>
+              ) : (
+                <>
+                  <div className="flex justify-end">
+                    <button onClick={handleClear} className="flex items-center text-xs text-gray-500 hover:text-red-400">
+                      <Trash2 size={12} className="mr-1" /> Clear inbox
+                    </button>
+                  </div>
+                  {alerts.map(alert => (
+                    <div
+                      key={alert.id}
+                      className={`p-2 rounded border ${alert.read ? 'border-gray-800 bg-black/40' : 'border-red-500/40 bg-red-900/20'}`}
+                    >
+                      <div className="flex justify-between text-xs">
+                        <span className="text-white font-exo font-bold">{alert.ruleName}</span>
+                        <span className="text-gray-500 font-mono">{new Date(alert.triggeredAt).toLocaleString()}</span>
+                      </div>
+                      <div className="text-xs text-gray-300 mt-1">{alert.message}</div>
+                      <div className="text-[10px] text-gray-500 font-mono mt-1">
+                        {alert.location.lat.toFixed(2)}°N, {alert.location.lon.toFixed(2)}°E ·{' '}
+                        {alert.points.slice(0, 6).map(p => `${p.date}: ${typeof p.value === 'number' ? p.value.toFixed(2) : p.value}`).join(' · ')}
+                        {alert.points.length > 6 && ` · +${alert.points.length - 6} more`}
+                      </div>
+                    </div>
+                  ))}
+                </>
+              )}
+            </div>
+          )}
+
+          {tab === 'rules' && (
+            <div className="p-3 space-y-3">
+              {rules.length === 0 && <div className="text-gray-500 italic text-xs">No rules defined.</div>}
+              {rules.map(rule => (
+                <div key={rule.id} className="flex items-center gap-2 text-xs">
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    onChange={() => updateRule({ ...rule, enabled: !rule.enabled })}
+                    title={rule.enabled ? 'Disable' : 'Enable'}
+                  />
+                  <div className={`flex-1 ${rule.enabled ? '' : 'opacity-50'}`}>
+                    <div className="text-white">{rule.name}</div>
+                    <div className="text-gray-500">{describeCondition(rule.condition)}</div>
+                  </div>
+                  <button onClick={() => removeRule(rule.id)} className="text-gray-500 hover:text-red-400" title="Delete rule">
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              ))}
+
+              <div className="border-t border-cyan-900 pt-3 space-y-2 text-xs">
+                <div className="text-gray-400 font-exo">NEW RULE</div>
+                <div className="flex flex-wrap gap-2">
+                  {RULE_PRESETS.map(preset => (
+                    <button
+                      key={preset.name}
+                      onClick={() => addRule(preset.name, preset.condition)}
+                      className="bg-black/40 border border-gray-700 text-gray-400 hover:border-cyan-800 px-2 py-1 rounded"
+                      title={describeCondition(preset.condition)}
+                    >
+                      + {preset.name}
+                    </button>
+                  ))}
+                </div>
+                <input
+                  type="text"
+                  value={name}
+                  placeholder="Rule name (optional)"
+                  onChange={e => setName(e.target.value)}
+                  className={`${inputClass} w-full`}
+                />
+                <div className="flex flex-wrap items-center gap-2">
+                  <select
+                    value={condition.kind}
+                    onChange={e => setCondition(e.target.value === 'prediction' ? { kind: 'prediction', minRisk: 'High' } : NEW_SERIES_CONDITION)}
+                    className={inputClass}
+                  >
+                    <option value="series">Data series</option>
+                    <option value="prediction">Predicted risk</option>
+                  </select>
+                  {series ? (
+                    <>
+                      <select
+                        value={series.variable}
+                        onChange={e => setSeries({ variable: e.target.value as ClimateVariable })}
+                        className={inputClass}
+                      >
+                        {Object.values(CLIMATE_VARIABLES).map(def => <option key={def.id} value={def.id}>{def.label}</option>)}
+                      </select>
+                      <select
+                        value={series.metric}
+                        onChange={e => setSeries({ metric: e.target.value as SeriesCondition['metric'] })}
+                        className={inputClass}
+                      >
+                        {(Object.keys(METRIC_LABELS) as SeriesCondition['metric'][]).map(m => <option key={m} value={m}>{METRIC_LABELS[m]}</option>)}
+                      </select>
+                      <select
+                        value={series.comparator}
+                        onChange={e => setSeries({ comparator: e.target.value as SeriesCondition['comparator'] })}
+                        className={inputClass}
+                      >
+                        <option value="above">&gt;</option>
+                        <option value="below">&lt;</option>
+                      </select>
+                      <input
+                        type="number"
+                        step="any"
+                        value={series.threshold}
+                        onChange={e => setSeries({ threshold: Number(e.target.value) })}
+                        className={`${inputClass} w-20`}
+                      />
+                      <span className="text-gray-400">for</span>
+                      <input
+                        type="number"
+                        min={1}
+                        value={series.consecutive}
+                        onChange={e => setSeries({ consecutive: Math.max(1, Math.round(Number(e.target.value))) })}
+                        className={`${inputClass} w-14`}
+                      />
+                      <span className="text-gray-400">consecutive periods</span>
+                    </>
+                  ) : (
+                    <>
+                      <span className="text-gray-400">at or above</span>
+                      <select
+                        value={condition.kind === 'prediction' ? condition.minRisk : 'High'}
+                        onChange={e => setCondition({ kind: 'prediction', minRisk: e.target.value as Prediction['riskLevel'] })}
+                        className={inputClass}
+                      >
+                        {RISK_LEVELS.map(level => <option key={level} value={level}>{level}</option>)}
+                      </select>
+                    </>
+                  )}
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-gray-500">{describeCondition(condition)}</span>
+                  <button
+                    onClick={() => addRule(name, condition)}
+                    className="flex items-center bg-cyan-600 hover:bg-cyan-500 text-black font-bold font-exo py-1 px-3 rounded"
+                  >
+                    <Plus size={12} className="mr-1" /> ADD
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AlertCenter;
@@ -0,0 +1,90 @@
+import React, { useEffect, useState } from 'react';
+import { KeyRound, Trash2 } from 'lucide-react';
+import { ApiKeyName } from '../types';
+import { deleteApiKey, listApiKeys, saveApiKey } from '../services/keyService';
+
+const KEY_FIELDS: { name: ApiKeyName; label: string }[] = [
+  { name: 'gemini', label: 'Gemini' },
+  { name: 'openai', label: 'OpenAI-compatible' },
+  { name: 'nasa', label: 'NASA' }
+];
+
+interface ApiKeySettingsProps {
+  onChange: (message: string) => void;
+}
+
+// Personal keys for local use. A stored key replaces the server proxy for
+// its service; removing it switches back.
+const ApiKeySettings: React.FC<ApiKeySettingsProps> = ({ onChange }) => {
+  const [stored, setStored] = useState<Partial<Record<ApiKeyName, number>>>({});
+  const [drafts, setDrafts] = useState<Partial<Record<ApiKeyName, string>>>({});
+
+  const refresh = async () => setStored(await listApiKeys());
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleSave = async (name: ApiKeyName, label: string) => {
+    const value = drafts[name]?.trim();
+    if (!value) return;
+    try {
+      await saveApiKey(name, value);
+      setDrafts(prev => ({ ...prev, [name]: '' }));
+      onChange(`${label} key saved; requests now skip the proxy.`);
+    } catch (e) {
+      onChange(`Could not save the ${label} key: ${e instanceof Error ? e.message : e}`);
+    }
+    refresh();
+  };
+
+  const handleRemove = async (name: ApiKeyName, label: string) => {
+    await deleteApiKey(name).catch(error => console.error('Failed to delete API key', error));
+    onChange(`${label} key removed; requests go through the proxy.`);
+    refresh();
+  };
+
+  return (
+    <div className="border-t border-cyan-900 pt-3 space-y-2">
+      <div className="flex items-center text-cyan-300 font-exo font-bold">
+        <KeyRound size={12} className="mr-1" /> PERSONAL API KEYS
+      </div>
+      <p className="text-gray-500">
+        For local use only. Keys are encrypted in this browser and sent straight to the provider instead of through the server.
+      </p>
+      {KEY_FIELDS.map(({ name, label }) => (
+        <div key={name} className="space-y-1">
+          <div className="flex items-center justify-between">
+            <span className="text-gray-400">{label}</span>
+            {stored[name] ? (
+              <button onClick={() => handleRemove(name, label)} className="flex items-center text-gray-500 hover:text-red-400">
+                <Trash2 size={12} className="mr-1" /> Remove
+              </button>
+            ) : (
+              <span className="text-gray-600">via proxy</span>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <input
+              type="password"
+              autoComplete="off"
+              value={drafts[name] ?? ''}
+              placeholder={stored[name] ? `Saved ${new Date(stored[name]!).toLocaleDateString()}` : 'Paste key'}
+              onChange={e => setDrafts(prev => ({ ...prev, [name]: e.target.value }))}
+              className="flex-1 bg-black/50 border border-cyan-900 rounded px-2 py-1 text-xs text-cyan-100"
+            />
+            <button
+              onClick={() => handleSave(name, label)}
+              disabled={!drafts[name]?.trim()}
+              className="px-2 border border-cyan-800 rounded text-cyan-300 hover:bg-cyan-900/40 disabled:opacity-40"
+            >
+              {stored[name] ? 'Replace' : 'Save'}
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ApiKeySettings;
@@ -0,0 +1,31 @@
+import React from 'react';
+import { Database } from 'lucide-react';
+
+interface CacheBadgeProps {
+  cachedAt?: number | null;
+}
+
+const formatAge = (ms: number) => {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `${hours}h ago`;
+  return `${Math.round(hours / 24)}d ago`;
+};
+
+// Shown next to any result that was served from the local cache.
+const CacheBadge: React.FC<CacheBadgeProps> = ({ cachedAt }) => {
+  if (!cachedAt) return null;
+  return (
+    <span
+      title={`Cached at ${new Date(cachedAt).toLocaleString()}`}
+      className="inline-flex items-center text-[10px] font-mono px-2 py-0.5 rounded bg-purple-900/30 text-purple-300 border border-purple-800"
+    >
+      <Database size={10} className="mr-1" />
+      CACHED {formatAge(Date.now() - cachedAt)}
+    </span>
+  );
+};
+
+export default CacheBadge;
@@ -0,0 +1,98 @@
+import React, { useRef, useState } from 'react';
+import { Upload, Trash2 } from 'lucide-react';
+import { CalamityMatch } from '../types';
+import { importCalamityFile, clearImportedCalamities } from '../services/calamityService';
+
+interface CalamityImporterProps {
+  match: CalamityMatch;
+  onMatchChange: (match: CalamityMatch) => void;
+  importedCount: number;
+  onChange: () => void; // events were imported or cleared
+}
+
+const CalamityImporter: React.FC<CalamityImporterProps> = ({ match, onMatchChange, importedCount, onChange }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setBusy(true);
+    const messages: string[] = [];
+    for (const file of Array.from(files)) {
+      try {
+        const summary = await importCalamityFile(file);
+        messages.push(`${file.name}: ${summary.imported} ${summary.source} events (${summary.skipped} other types skipped)`);
+      } catch (e) {
+        messages.push(`${file.name}: ${e instanceof Error ? e.message : e}`);
+      }
+    }
+    setStatus(messages.join(' · '));
+    setBusy(false);
+    if (inputRef.current) inputRef.current.value = '';
+    onChange();
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('Remove all imported disaster events?')) return;
+    await clearImportedCalamities();
+    setStatus('Imported events cleared.');
+    onChange();
+  };
+
+  return (
+    <div className="glass-panel p-4 rounded-lg text-sm">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-red-400 font-exo font-bold">Disaster Records</span>
+        <span className="text-xs text-gray-400 font-mono">{importedCount} imported</span>
+        <button
+          onClick={() => inputRef.current?.click()}
+          disabled={busy}
+          className="flex items-center text-xs bg-red-900/40 hover:bg-red-900/70 text-red-200 px-3 py-1 rounded border border-red-800 disabled:opacity-50"
+        >
+          <Upload size={12} className="mr-1" /> {busy ? 'Importing...' : 'Import EM-DAT / NOAA'}
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept=".csv,.xlsx,.xls"
+          className="hidden"
+          onChange={e => handleFiles(e.target.files)}
+        />
+        {importedCount > 0 && (
+          <button onClick={handleClear} className="text-gray-500 hover:text-red-400" title="Clear imported events">
+            <Trash2 size={14} />
+          </button>
+        )}
+
+        <div className="flex items-center gap-2 ml-auto text-xs text-gray-400">
+          MATCH BY
+          <select
+            value={match.mode}
+            onChange={e => onMatchChange({ ...match, mode: e.target.value as CalamityMatch['mode'] })}
+            className="bg-black/50 border border-cyan-900 rounded px-2 py-1"
+          >
+            <option value="region">Country / US state</option>
+            <option value="radius">Radius</option>
+          </select>
+          {match.mode === 'radius' && (
+            <>
+              <input
+                type="number"
+                min={1}
+                value={match.radiusKm}
+                onChange={e => onMatchChange({ ...match, radiusKm: Number(e.target.value) })}
+                className="bg-black/50 border border-cyan-900 rounded px-2 py-1 w-20 text-center"
+              />
+              km
+            </>
+          )}
+        </div>
+      </div>
+      {status && <div className="text-xs text-gray-400 mt-2">{status}</div>}
+    </div>
+  );
+};
+
+export default CalamityImporter;
@@ -1,55 +1,169 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { MessageSquare, X, Send, Bot, User } from 'lucide-react';
-import { Chat } from "@google/genai";
-import { createChatSession } from '../services/geminiService';
-import { ChatMessage } from '../types';
-
-const ChatAssistant: React.FC = () => {
-  const [isOpen, setIsOpen] = useState(false);
-  const [messages, setMessages] = useState<ChatMessage[]>([
-    { role: 'model', text: 'Hello! I am your Climate AI. Ask me about weather patterns or analysis.' }
-  ]);
+import { MessageSquare, X, Send, Bot, Wrench, Plus, Pencil, Trash2, Download } from 'lucide-react';
+import { createChatSession, getLlmProvider, streamChatMessage } from '../services/llmService';
+import {
+  CHAT_SYSTEM_INSTRUCTION, CHAT_TOOLS, ChatActions, DashboardContext, describeContext, extractCitations, runChatTool
+} from '../services/chatTools';
+import {
+  createThread, deleteThread, loadThreads, saveThread, threadFileName, threadToMarkdown, titleFromMessage, WELCOME_MESSAGE
+} from '../services/chatHistoryService';
+import { ChatMessage, ChatThread, LlmChat, LlmProvider } from '../types';
+import ChatMarkdown from './ChatMarkdown';
+
+interface ChatAssistantProps {
+  context: DashboardContext;
+  actions: ChatActions;
+  isOpen: boolean; // owned by the dashboard so links can open the chat
+  onOpenChange: (open: boolean) => void;
+}
+
+const ChatAssistant: React.FC<ChatAssistantProps> = ({ context, actions, isOpen, onOpenChange }) => {
+  const [threads, setThreads] = useState<ChatThread[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
   const [input, setInput] = useState('');
   const [isTyping, setIsTyping] = useState(false);
-  const chatSessionRef = useRef<Chat | null>(null);
+  const [streamingText, setStreamingText] = useState('');
+  // One model session per thread, rebuilt from the transcript when first used
+  // and whenever the model settings change
+  const sessionsRef = useRef<Record<string, { provider: LlmProvider; chat: LlmChat }>>({});
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  // Tools run between renders and must see the dashboard as it is now
+  const contextRef = useRef(context);
+  contextRef.current = context;
+  const actionsRef = useRef(actions);
+  actionsRef.current = actions;
+
+  const active = threads.find(t => t.id === activeId) ?? null;
+  const messages = active?.messages ?? [WELCOME_MESSAGE];
+
+  useEffect(() => {
+    if (!isOpen || activeId) return;
+    loadThreads()
+      .then(stored => {
+        const list = stored.length ? stored : [createThread()];
+        setThreads(list);
+        setActiveId(list[0].id);
+      })
+      .catch(error => {
+        console.error("Failed to load chat threads", error);
+        const thread = createThread();
+        setThreads([thread]);
+        setActiveId(thread.id);
+      });
+  }, [isOpen, activeId]);
 
   useEffect(() => {
-    if (isOpen && !chatSessionRef.current) {
-      chatSessionRef.current = createChatSession();
-    }
     scrollToBottom();
-  }, [isOpen, messages]);
+  }, [isOpen, messages, streamingText]);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   };
 
+  // Applies a change to a thread and stores the result
+  const updateThread = (id: string, change: (thread: ChatThread) => ChatThread) => {
+    setThreads(prev => prev.map(t => {
+      if (t.id !== id) return t;
+      const next = { ...change(t), updatedAt: Date.now() };
+      saveThread(next).catch(error => console.error("Failed to save chat thread", error));
+      return next;
+    }));
+  };
+
+  const sessionFor = async (thread: ChatThread): Promise<LlmChat> => {
+    const provider = await getLlmProvider();
+    if (sessionsRef.current[thread.id]?.provider !== provider) {
+      // The greeting is local; the model's history starts with the first question
+      const history = thread.messages.filter(m => m.text !== WELCOME_MESSAGE.text);
+      sessionsRef.current[thread.id] = { provider, chat: await createChatSession(CHAT_SYSTEM_INSTRUCTION, CHAT_TOOLS, history) };
+    }
+    return sessionsRef.current[thread.id].chat;
+  };
+
   const handleSend = async () => {
-    if (!input.trim() || !chatSessionRef.current) return;
+    if (!input.trim() || !active || isTyping) return;
 
     const userMsg = input;
+    const thread = active;
+    const threadId = active.id;
     setInput('');
-    setMessages(prev => [...prev, { role: 'user', text: userMsg }]);
+    updateThread(threadId, t => ({
+      ...t,
+      title: t.messages.some(m => m.role === 'user') ? t.title : titleFromMessage(userMsg),
+      messages: [...t.messages, { role: 'user', text: userMsg }]
+    }));
     setIsTyping(true);
+    setStreamingText('');
 
+    const toolCalls: string[] = [];
+    const usedDates: string[] = [];
+    let reply: ChatMessage;
     try {
-      const result = await chatSessionRef.current.sendMessage({ message: userMsg });
-      const text = result.text;
-      setMessages(prev => [...prev, { role: 'model', text: text || "I couldn't process that." }]);
+      const chat = await sessionFor(thread);
+      const message = `[Dashboard state]\n${describeContext(contextRef.current)}\n\n[User]\n${userMsg}`;
+      const text = await streamChatMessage(chat, message, async call => {
+        const outcome = await runChatTool(call.name ?? '', call.args ?? {}, contextRef.current, actionsRef.current);
+        toolCalls.push(outcome.summary);
+        usedDates.push(...outcome.dates);
+        return outcome.response;
+      }, setStreamingText);
+      reply = {
+        role: 'model',
+        text: text || "I couldn't process that.",
+        toolCalls,
+        citations: extractCitations(text, usedDates)
+      };
     } catch (error) {
-      setMessages(prev => [...prev, { role: 'model', text: "Sorry, I encountered an error." }]);
-    } finally {
-      setIsTyping(false);
+      console.error("Chat Error", error);
+      reply = { role: 'model', text: `Sorry, I encountered an error: ${error instanceof Error ? error.message : String(error)}`, toolCalls };
     }
+    updateThread(threadId, t => ({ ...t, messages: [...t.messages, reply] }));
+    setStreamingText('');
+    setIsTyping(false);
   };
 
+  const handleNewThread = () => {
+    const thread = createThread();
+    setThreads(prev => [thread, ...prev]);
+    setActiveId(thread.id);
+  };
+
+  const handleRename = () => {
+    if (!active) return;
+    const title = window.prompt('Conversation name', active.title)?.trim();
+    if (title) updateThread(active.id, t => ({ ...t, title }));
+  };
+
+  const handleDelete = async () => {
+    if (!active || !window.confirm(`Delete "${active.title}"?`)) return;
+    await deleteThread(active.id).catch(error => console.error("Failed to delete chat thread", error));
+    delete sessionsRef.current[active.id];
+    const rest = threads.filter(t => t.id !== active.id);
+    const next = rest.length ? rest : [createThread()];
+    setThreads(next);
+    setActiveId(next[0].id);
+  };
+
+  const handleExport = () => {
+    if (!active) return;
+    const blob = new Blob([threadToMarkdown(active)], { type: 'text/markdown;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.setAttribute('download', threadFileName(active));
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const iconButton = 'text-gray-400 hover:text-cyan-300 disabled:opacity-40';
+
   return (
     <>
       {/* Floating Button */}
       {!isOpen && (
         <button
-          onClick={() => setIsOpen(true)}
+          onClick={() => onOpenChange(true)}
           className="fixed bottom-6 right-6 bg-cyan-500 hover:bg-cyan-400 text-black p-4 rounded-full shadow-[0_0_20px_rgba(0,240,255,0.5)] transition-all z-50 group"
         >
           <MessageSquare size={24} className="group-hover:scale-110 transition-transform" />
@@ -58,37 +172,80 @@ const ChatAssistant: React.FC = () => {
 
       {/* Chat Window */}
       {isOpen && (
-        <div className="fixed bottom-6 right-6 w-80 md:w-96 h-[500px] glass-panel rounded-xl flex flex-col shadow-2xl z-50 border border-cyan-500/30">
-          
+        <div className="fixed bottom-6 right-6 w-80 md:w-[28rem] h-[560px] glass-panel rounded-xl flex flex-col shadow-2xl z-50 border border-cyan-500/30">
+
           {/* Header */}
           <div className="p-4 border-b border-cyan-500/30 flex justify-between items-center bg-cyan-900/20 rounded-t-xl">
             <div className="flex items-center space-x-2">
               <Bot size={20} className="text-cyan-400" />
               <span className="font-orbitron font-bold text-white">AI Assistant</span>
             </div>
-            <button onClick={() => setIsOpen(false)} className="text-gray-400 hover:text-white">
+            <button onClick={() => onOpenChange(false)} className="text-gray-400 hover:text-white">
               <X size={20} />
             </button>
           </div>
 
+          {/* Threads */}
+          <div className="px-3 py-2 border-b border-cyan-500/20 flex items-center gap-2 bg-black/30">
+            <select
+              value={activeId ?? ''}
+              onChange={e => setActiveId(e.target.value)}
+              disabled={isTyping}
+              className="flex-1 min-w-0 bg-black/50 border border-cyan-900 rounded px-2 py-1 text-xs text-cyan-300"
+            >
+              {threads.map(t => <option key={t.id} value={t.id}>{t.title}</option>)}
+            </select>
+            <button onClick={handleNewThread} disabled={isTyping} className={iconButton} title="New conversation"><Plus size={16} /></button>
+            <button onClick={handleRename} disabled={!active} className={iconButton} title="Rename"><Pencil size={14} /></button>
+            <button onClick={handleExport} disabled={!active} className={iconButton} title="Export as Markdown"><Download size={14} /></button>
+            <button onClick={handleDelete} disabled={!active || isTyping} className="text-gray-400 hover:text-red-400 disabled:opacity-40" title="Delete conversation"><Trash2 size={14} /></button>
+          </div>
+
           {/* Messages */}
           <div className="flex-1 overflow-y-auto p-4 space-y-4">
             {messages.map((msg, idx) => (
               <div key={idx} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-                <div className={`max-w-[80%] p-3 rounded-lg text-sm ${
-                  msg.role === 'user' 
-                    ? 'bg-cyan-600 text-white rounded-br-none' 
+                <div className={`max-w-[85%] p-3 rounded-lg text-sm ${
+                  msg.role === 'user'
+                    ? 'bg-cyan-600 text-white rounded-br-none'
                     : 'bg-gray-800 text-gray-200 rounded-bl-none border border-gray-700'
                 }`}>
-                  {msg.text}
+                  {msg.toolCalls && msg.toolCalls.length > 0 && (
+                    <div className="mb-2 space-y-0.5 text-[10px] font-mono text-cyan-600">
+                      {msg.toolCalls.map((call, i) => (
+                        <div key={i} className="flex items-center"><Wrench size={10} className="mr-1 shrink-0" />{call}</div>
+                      ))}
+                    </div>
+                  )}
+                  {msg.role === 'user' ? <div className="whitespace-pre-wrap">{msg.text}</div> : <ChatMarkdown text={msg.text} />}
+                  {msg.citations && msg.citations.length > 0 && (
+                    <div className="mt-2 pt-2 border-t border-gray-700 flex flex-wrap gap-1 text-[10px] font-mono">
+                      <span className="text-gray-500">Cited:</span>
+                      {msg.citations.map(c => (
+                        <span
+                          key={c.date}
+                          className={`px-1 rounded ${c.verified ? 'bg-cyan-900/40 text-cyan-300' : 'bg-red-900/30 text-red-300 line-through'}`}
+                          title={c.verified ? 'Read from the loaded data' : 'Not returned by any data query in this answer'}
+                        >
+                          {c.date}
+                        </span>
+                      ))}
+                    </div>
+                  )}
                 </div>
               </div>
             ))}
             {isTyping && (
               <div className="flex justify-start">
-                <div className="bg-gray-800 text-gray-400 p-3 rounded-lg rounded-bl-none text-xs animate-pulse border border-gray-700">
-                  Thinking...
-                </div>
+                {streamingText ? (
+                  <div className="max-w-[85%] bg-gray-800 text-gray-200 p-3 rounded-lg rounded-bl-none text-sm border border-gray-700">
+                    <ChatMarkdown text={streamingText} streaming />
+                  </div>
+                ) : (
+                  <div className="bg-gray-800 text-gray-400 p-3 rounded-lg rounded-bl-none text-xs animate-pulse border border-gray-700">
+                    Thinking...
+                  </div>
+                )}
               </div>
             )}
             <div ref={messagesEndRef} />
@@ -104,9 +261,9 @@ const ChatAssistant: React.FC = () => {
               placeholder="Ask about climate..."
               className="flex-1 bg-gray-900 border border-gray-700 rounded px-3 py-2 text-sm text-white focus:outline-none focus:border-cyan-500"
             />
-            <button 
+            <button
               onClick={handleSend}
-              disabled={isTyping}
+              disabled={isTyping || !active}
               className="bg-cyan-600 hover:bg-cyan-500 text-white p-2 rounded transition-colors disabled:opacity-50"
             >
               <Send size={18} />
@@ -118,4 +275,4 @@ const ChatAssistant: React.FC = () => {
   );
 };
 
-export default ChatAssistant;
\ No newline at end of file
+export default ChatAssistant;
@@ -0,0 +1,80 @@
+import React from 'react';
+import Markdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { CLIMATE_VARIABLES } from '../constants';
+import { ChartSpec, parseChartSpec } from '../services/chatTools';
+import { ClimateVariable } from '../types';
+
+interface ChatMarkdownProps {
+  text: string;
+  streaming?: boolean; // the reply is still arriving, so blocks may be incomplete
+}
+
+const FALLBACK_COLORS = ['#22d3ee', '#f97316', '#a78bfa', '#22c55e', '#f43f5e'];
+
+const seriesColor = (key: string, index: number) =>
+  CLIMATE_VARIABLES[key as ClimateVariable]?.color ?? FALLBACK_COLORS[index % FALLBACK_COLORS.length];
+
+const MiniChart: React.FC<{ spec: ChartSpec }> = ({ spec }) => (
+  <div className="my-2 bg-black/40 rounded border border-gray-700 p-2">
+    {spec.title && <div className="text-[11px] text-cyan-300 font-exo mb-1">{spec.title}{spec.unit ? ` (${spec.unit})` : ''}</div>}
+    <div className="h-36">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={spec.data} margin={{ top: 4, right: 4, bottom: 0, left: -20 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+          <XAxis dataKey="date" stroke="#94a3b8" fontSize={9} tickFormatter={(str) => String(str).slice(2)} />
+          <YAxis stroke="#94a3b8" fontSize={9} />
+          <Tooltip contentStyle={{ backgroundColor: '#0f172a', borderColor: '#1e293b', fontSize: 11 }} />
+          {spec.series.length > 1 && <Legend wrapperStyle={{ fontSize: 10 }} />}
+          {spec.series.map((key, i) => (
+            <Line key={key} type="monotone" dataKey={key} stroke={seriesColor(key, i)} strokeWidth={1.5} dot={false} connectNulls={false} />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  </div>
+);
+
+// Element overrides for assistant replies; ```chart blocks become line charts.
+const chatComponents = (streaming?: boolean): Components => ({
+  a: ({ node, ...props }) => <a {...props} target="_blank" rel="noopener noreferrer" className="text-cyan-400 underline" />,
+  table: ({ node, ...props }) => (
+    <div className="overflow-x-auto">
+      <table {...props} className="text-xs border-collapse my-1" />
+    </div>
+  ),
+  th: ({ node, ...props }) => <th {...props} className="border border-gray-700 px-2 py-1 text-left text-cyan-300 bg-black/30" />,
+  td: ({ node, ...props }) => <td {...props} className="border border-gray-700 px-2 py-1 font-mono" />,
+  ul: ({ node, ...props }) => <ul {...props} className="list-disc pl-5 space-y-0.5" />,
+  ol: ({ node, ...props }) => <ol {...props} className="list-decimal pl-5 space-y-0.5" />,
+  h1: ({ node, ...props }) => <h4 {...props} className="font-bold text-white" />,
+  h2: ({ node, ...props }) => <h4 {...props} className="font-bold text-white" />,
+  h3: ({ node, ...props }) => <h5 {...props} className="font-bold text-gray-100" />,
+  pre: ({ node, ...props }) => {
+    const first = node?.children[0];
+    const isChart = first?.type === 'element' && [first.properties.className].flat().includes('language-chart');
+    return isChart
+      ? <>{props.children}</>
+      : <pre {...props} className="bg-black/50 rounded p-2 overflow-x-auto text-xs" />;
+  },
+  code: ({ node, className, children, ...props }) => {
+    if (className === 'language-chart') {
+      const spec = parseChartSpec(String(children));
+      if (spec) return <MiniChart spec={spec} />;
+      if (streaming) return <span className="block text-xs text-gray-500 animate-pulse">Preparing chart...</span>;
+    }
+    return <code {...props} className={`${className ?? ''} font-mono text-xs text-cyan-200`}>{children}</code>;
+  }
+});
+
+// Markdown (with GFM tables) for assistant replies.
+const ChatMarkdown: React.FC<ChatMarkdownProps> = ({ text, streaming }) => (
+  <div className="space-y-2 break-words">
+    <Markdown remarkPlugins={[remarkGfm]} components={chatComponents(streaming)}>
+      {text}
+    </Markdown>
+  </div>
+);
+
+export default ChatMarkdown;
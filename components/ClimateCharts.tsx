@@ -1,27 +1,220 @@
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import {
   LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer,
-  BarChart, Bar, AreaChart, Area
+  BarChart, Bar, AreaChart, Area, ComposedChart, Cell, ReferenceLine, ReferenceArea, Legend
 } from 'recharts';
-import { ClimateStats, Calamity } from '../types';
+import {
+  ClimateStats, Calamity, ForecastResult, BaselinePeriod, ClimateVariable, ClimateIndices, IndexScale, TrendResult, ChangePoint, ExtremeValueFit
+} from '../types';
+import { CLIMATE_VARIABLES } from '../constants';
+import { formatBaseline } from '../services/climatologyService';
+import { SiteSeries, mergeSiteSeries } from '../services/comparisonService';
+import { INDEX_SCALES, DROUGHT_THRESHOLD } from '../services/indicesService';
+import { PROJECTION_PERIODS, ProjectionSummary, SSP_SCENARIOS } from '../services/projectionService';
+import { SIGNIFICANCE_LEVEL, formatPValue, formatShift, formatSlope, isSignificant, trendValueAt } from '../services/trendService';
+import ExtremesPanel from './ExtremesPanel';
 
 interface ClimateChartsProps {
   data: ClimateStats[];
+  variables: ClimateVariable[];
+  units: Partial<Record<ClimateVariable, string>>;
   calamities: Calamity[];
+  forecast?: ForecastResult | null;
+  baseline?: BaselinePeriod; // set only when anomalies were computed
+  comparison?: SiteSeries[]; // pinned sites, overlaid with one line per site
+  indices?: ClimateIndices; // SPI/SPEI panels and drought shading
+  projections?: ProjectionSummary | null; // imported CMIP6 scenario runs
+  trends?: TrendResult[]; // Sen's slope lines, change-point markers and the statistics table
+  extremes?: ExtremeValueFit[]; // return-level curves and the return period calculator
 }
 
-const ClimateCharts: React.FC<ClimateChartsProps> = ({ data, calamities }) => {
+// Variables that get the fixed panels; anything else selected gets its own line chart
+const PRIMARY_VARIABLES: ClimateVariable[] = ['T2M', 'PRECTOTCORR', 'NDVI'];
+
+const compactNumber = (n: number) => new Intl.NumberFormat('en', { notation: 'compact' }).format(n);
+
+type ChartRow = { date: string } & Record<string, number | null | string | number[]>;
+
+// Recharts wants flat rows: one key per variable plus `z_<variable>` anomalies,
+// and for area analyses `range_<variable>` (min, max) and `p_<variable>`
+// (10th, 90th percentile) bands across the sample points
+const flattenStats = (data: ClimateStats[]): ChartRow[] =>
+  data.map(s => {
+    const row: ChartRow = { date: s.date };
+    (Object.keys(s.values) as ClimateVariable[]).forEach(v => { row[v] = s.values[v] ?? null; });
+    (Object.keys(s.anomalies) as ClimateVariable[]).forEach(v => { row[`z_${v}`] = s.anomalies[v]!.z; });
+    (Object.keys(s.spread ?? {}) as ClimateVariable[]).forEach(v => {
+      const { min, p10, p90, max } = s.spread![v]!;
+      row[`range_${v}`] = [min, max];
+      row[`p_${v}`] = [p10, p90];
+    });
+    return row;
+  });
+
+// Spread of an area mean as two nested bands behind its line
+const spreadBands = (v: ClimateVariable, color: string, yAxisId?: string) => [
+  <Area key={`range_${v}`} yAxisId={yAxisId} type="monotone" dataKey={`range_${v}`} stroke="none" fill={color} fillOpacity={0.1} name="Min–max across area" />,
+  <Area key={`p_${v}`} yAxisId={yAxisId} type="monotone" dataKey={`p_${v}`} stroke="none" fill={color} fillOpacity={0.2} name="P10–P90 across area" />
+];
+
+// Change points drawn on a variable's chart: a significant Pettitt shift and
+// the PELT segmentation, without repeating a month both methods found
+const chartedChangePoints = (trend: TrendResult): ChangePoint[] => {
+  const pettitt = trend.pettitt && isSignificant(trend.pettitt.pValue) ? [trend.pettitt] : [];
+  return [...pettitt, ...trend.changePoints.filter(c => !pettitt.some(p => p.date === c.date))];
+};
+
+const formatDelta = (v: number) => `${v > 0 ? '+' : ''}${v.toFixed(v !== 0 && Math.abs(v) < 0.1 ? 3 : 2)}`;
+
+const REFERENCE_NOTES = {
+  'model historical': "each model's own historical run",
+  observed: 'the observed baseline',
+  mixed: "each model's historical run where imported, else the observed baseline"
+};
+
+const ClimateCharts: React.FC<ClimateChartsProps> = ({ data, variables, units, calamities, forecast, baseline, comparison, indices, projections, trends, extremes }) => {
+  const unitOf = (v: ClimateVariable) => units[v] ?? CLIMATE_VARIABLES[v].unit;
+  const extraVariables = variables.filter(v => !PRIMARY_VARIABLES.includes(v));
+  const hasSpread = (v: ClimateVariable) => data.some(s => s.spread?.[v]);
+  const trendOf = (v: ClimateVariable) => trends?.find(t => t.variable === v);
+
+  // Trend lines are straight, so `trend_<variable>` is set on the first and
+  // last rows only and drawn with connectNulls
+  const rows = useMemo(() => {
+    const flat = flattenStats(data);
+    if (flat.length < 2) return flat;
+    const [first, last] = [flat[0], flat[flat.length - 1]];
+    (trends ?? []).forEach(t => {
+      first[`trend_${t.variable}`] = parseFloat(trendValueAt(t, first.date).toFixed(3));
+      last[`trend_${t.variable}`] = parseFloat(trendValueAt(t, last.date).toFixed(3));
+    });
+    return flat;
+  }, [data, trends]);
+
+  const trendLine = (v: ClimateVariable, color: string, yAxisId?: string) =>
+    trendOf(v) && (
+      <Line yAxisId={yAxisId} type="linear" dataKey={`trend_${v}`} stroke={color} strokeDasharray="6 4" dot={false} strokeWidth={1.5} name={`${CLIMATE_VARIABLES[v].label} trend`} connectNulls />
+    );
+
+  const changeMarkers = (v: ClimateVariable, color: string, yAxisId?: string) => {
+    const trend = trendOf(v);
+    if (!trend) return [];
+    return chartedChangePoints(trend).flatMap(c => {
+      const x = rows.find(r => r.date.startsWith(c.date))?.date;
+      if (!x) return [];
+      const label = c.method === 'Pettitt' ? `Pettitt ${formatPValue(c.pValue!)}` : 'PELT';
+      return [
+        <ReferenceLine key={`${v}_${c.method}_${c.date}`} yAxisId={yAxisId} x={x} stroke={color} strokeDasharray={c.method === 'Pettitt' ? '6 3' : '2 4'} label={{ value: label, fill: color, fontSize: 10, position: 'insideTopLeft' }} />
+      ];
+    });
+  };
+
+  // Sen's slope and Mann-Kendall p-value for a chart header
+  const trendBadge = (v: ClimateVariable) => {
+    const trend = trendOf(v);
+    if (!trend) return null;
+    return (
+      <span className={`ml-2 text-xs font-mono ${isSignificant(trend.pValue) ? 'text-cyan-300' : 'text-gray-500'}`} title="Seasonal Sen's slope and Mann-Kendall p-value">
+        {formatSlope(trend, unitOf(v))} · {formatPValue(trend.pValue)}
+      </span>
+    );
+  };
+
+  // History followed by the forecast horizon; the band is a [lower, upper] range
+  const temperatureSeries = useMemo((): ChartRow[] => {
+    if (!forecast) return rows;
+    return [
+      ...rows,
+      ...forecast.temperature.points.map(p => ({
+        date: p.date,
+        forecastTemp: parseFloat(p.value.toFixed(2)),
+        forecastBand: [parseFloat(p.lower.toFixed(2)), parseFloat(p.upper.toFixed(2))]
+      }))
+    ];
+  }, [rows, forecast]);
+
+  // One drought index panel per index that could be computed, at a shared scale
+  const [scale, setScale] = useState<IndexScale>(3);
+  const indexPanels = useMemo(() => {
+    if (!indices) return [];
+    // Drought episodes are shaded as a full-height band
+    const droughts = indices.episodes.filter(e => e.type === 'Drought');
+    const rows = indices.series.map(p => ({
+      date: p.date,
+      spi: p.spi[scale] ?? null,
+      spei: p.spei[scale] ?? null,
+      drought: droughts.some(d => p.date >= d.start && p.date <= d.end) ? [-3, 3] : null
+    }));
+    return [
+      { key: 'spi' as const, title: `SPI-${scale}`, subtitle: 'gamma fit to precipitation' },
+      { key: 'spei' as const, title: `SPEI-${scale}`, subtitle: `P − PET (${indices.petMethod})` }
+    ]
+      .filter(panel => rows.some(r => r[panel.key] !== null))
+      .map(panel => ({ ...panel, rows }));
+  }, [indices, scale]);
+
+  // Scenario panel for one variable at a time, temperature by default
+  const [projectionChoice, setProjectionChoice] = useState<ClimateVariable>('T2M');
+  const projectionVariable = projections?.variables.includes(projectionChoice) ? projectionChoice : projections?.variables[0];
+  const projectionScenarios = SSP_SCENARIOS.filter(s => projections?.scenarios.includes(s.id));
+
+  // Overlay panels: each variable any compared site returned, plus temperature anomalies
+  const loadedSites = useMemo(() => (comparison ?? []).filter(c => c.dataset), [comparison]);
+  const comparisonPanels = useMemo(() => {
+    const available = new Set(loadedSites.flatMap(c => c.dataset!.variables));
+    const panels = (Object.keys(CLIMATE_VARIABLES) as ClimateVariable[])
+      .filter(v => available.has(v))
+      .map(v => ({
+        key: v as string,
+        title: `${CLIMATE_VARIABLES[v].label} (${loadedSites.find(c => c.dataset!.units[v])?.dataset!.units[v] ?? CLIMATE_VARIABLES[v].unit})`,
+        rows: mergeSiteSeries(loadedSites, v)
+      }));
+    if (loadedSites.some(c => c.dataset!.climatology.length)) {
+      panels.push({ key: 'z_T2M', title: 'Temperature Anomaly (σ)', rows: mergeSiteSeries(loadedSites, 'T2M', true) });
+    }
+    return panels;
+  }, [loadedSites]);
+
   return (
     <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mt-6">
+
+      {/* Site comparison overlays */}
+      {comparisonPanels.map(panel => (
+        <div key={panel.key} className="glass-panel p-4 rounded-lg h-72">
+          <h3 className="text-cyan-400 font-exo font-bold mb-4 flex items-center">
+            <span className="w-2 h-2 bg-cyan-400 rounded-full mr-2"></span>
+            {panel.title}
+            <span className="ml-2 text-xs text-gray-400 font-mono">{loadedSites.length} sites</span>
+          </h3>
+          <ResponsiveContainer width="100%" height="85%">
+            <LineChart data={panel.rows}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+              <XAxis dataKey="date" stroke="#94a3b8" fontSize={12} tickFormatter={(str) => str.slice(2)} />
+              <YAxis stroke="#94a3b8" fontSize={12} />
+              <Tooltip 
+                contentStyle={{ backgroundColor: '#0f172a', borderColor: '#1e293b' }} 
+              />
+              {loadedSites.map(({ site }) => (
+                <Line key={site.id} type="monotone" dataKey={site.id} stroke={site.color} dot={false} strokeWidth={2} name={site.name} />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      ))}
       
       {/* Temperature Trend */}
-      <div className="glass-panel p-4 rounded-lg h-80">
+      {variables.includes('T2M') && (
+      <div className="glass-panel p-4 rounded-lg h-80" data-report-chart={`Temperature (${unitOf('T2M')})${forecast ? ` with ${forecast.model} forecast` : ''}`}>
         <h3 className="text-cyan-400 font-exo font-bold mb-4 flex items-center">
           <span className="w-2 h-2 bg-cyan-400 rounded-full mr-2"></span>
-          Temperature Analysis (°C)
+          Temperature Analysis ({unitOf('T2M')})
+          {trendBadge('T2M')}
+          {forecast && (
+            <span className="ml-2 text-xs text-gray-400 font-mono">+ {forecast.model} forecast</span>
+          )}
         </h3>
         <ResponsiveContainer width="100%" height="100%">
-          <AreaChart data={data}>
+          <ComposedChart data={temperatureSeries}>
             <defs>
               <linearGradient id="colorTemp" x1="0" y1="0" x2="0" y2="1">
                 <stop offset="5%" stopColor="#ff9900" stopOpacity={0.8}/>
@@ -35,19 +228,32 @@ const ClimateCharts: React.FC<ClimateChartsProps> = ({ data, calamities }) => {
               contentStyle={{ backgroundColor: '#0f172a', borderColor: '#1e293b' }} 
               itemStyle={{ color: '#ff9900' }}
             />
-            <Area type="monotone" dataKey="temperature" stroke="#ff9900" fillOpacity={1} fill="url(#colorTemp)" />
-          </AreaChart>
+            {hasSpread('T2M') && spreadBands('T2M', '#ff9900')}
+            <Area type="monotone" dataKey="T2M" stroke="#ff9900" fillOpacity={hasSpread('T2M') ? 0 : 1} fill="url(#colorTemp)" name="Temperature" />
+            {trendLine('T2M', '#fde68a')}
+            {changeMarkers('T2M', '#fde68a')}
+            {forecast && (
+              <Area type="monotone" dataKey="forecastBand" stroke="none" fill="#00f0ff" fillOpacity={0.15} name={`${Math.round(forecast.confidenceLevel * 100)}% interval`} />
+            )}
+            {forecast && (
+              <Line type="monotone" dataKey="forecastTemp" stroke="#00f0ff" strokeDasharray="4 3" dot={false} strokeWidth={2} name="Forecast" />
+            )}
+          </ComposedChart>
         </ResponsiveContainer>
       </div>
+      )}
 
       {/* Rainfall & NDVI */}
-      <div className="glass-panel p-4 rounded-lg h-80">
+      {(variables.includes('PRECTOTCORR') || variables.includes('NDVI')) && (
+      <div className="glass-panel p-4 rounded-lg h-80" data-report-chart={`Rainfall (${unitOf('PRECTOTCORR')}, blue) and NDVI (green)`}>
         <h3 className="text-cyan-400 font-exo font-bold mb-4 flex items-center">
           <span className="w-2 h-2 bg-green-400 rounded-full mr-2"></span>
           Rainfall & Vegetation (NDVI)
+          {trendBadge('PRECTOTCORR')}
+          {trendBadge('NDVI')}
         </h3>
         <ResponsiveContainer width="100%" height="100%">
-          <LineChart data={data}>
+          <ComposedChart data={rows}>
             <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
             <XAxis dataKey="date" stroke="#94a3b8" fontSize={12} tickFormatter={(str) => str.slice(2)} />
             <YAxis yAxisId="left" stroke="#3b82f6" fontSize={12} />
@@ -55,29 +261,264 @@ const ClimateCharts: React.FC<ClimateChartsProps> = ({ data, calamities }) => {
             <Tooltip 
               contentStyle={{ backgroundColor: '#0f172a', borderColor: '#1e293b' }} 
             />
-            <Line yAxisId="left" type="monotone" dataKey="rainfall" stroke="#3b82f6" dot={false} strokeWidth={2} name="Rainfall (mm)" />
-            <Line yAxisId="right" type="monotone" dataKey="ndvi" stroke="#22c55e" dot={false} strokeWidth={2} name="NDVI" />
-          </LineChart>
+            {hasSpread('PRECTOTCORR') && spreadBands('PRECTOTCORR', '#3b82f6', 'left')}
+            {hasSpread('NDVI') && spreadBands('NDVI', '#22c55e', 'right')}
+            <Line yAxisId="left" type="monotone" dataKey="PRECTOTCORR" stroke="#3b82f6" dot={false} strokeWidth={2} name={`Rainfall (${unitOf('PRECTOTCORR')})`} />
+            <Line yAxisId="right" type="monotone" dataKey="NDVI" stroke="#22c55e" dot={false} strokeWidth={2} name="NDVI" />
+            {trendLine('PRECTOTCORR', '#93c5fd', 'left')}
+            {trendLine('NDVI', '#86efac', 'right')}
+            {changeMarkers('PRECTOTCORR', '#93c5fd', 'left')}
+            {changeMarkers('NDVI', '#86efac', 'right')}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+      )}
+
+      {/* Additional selected variables */}
+      {extraVariables.map(v => (
+        <div key={v} className="glass-panel p-4 rounded-lg h-72" data-report-chart={`${CLIMATE_VARIABLES[v].label} (${unitOf(v)})`}>
+          <h3 className="text-cyan-400 font-exo font-bold mb-4 flex items-center">
+            <span className="w-2 h-2 rounded-full mr-2" style={{ backgroundColor: CLIMATE_VARIABLES[v].color }}></span>
+            {CLIMATE_VARIABLES[v].label} ({unitOf(v)})
+            {trendBadge(v)}
+          </h3>
+          <ResponsiveContainer width="100%" height="85%">
+            <ComposedChart data={rows}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+              <XAxis dataKey="date" stroke="#94a3b8" fontSize={12} tickFormatter={(str) => str.slice(2)} />
+              <YAxis stroke="#94a3b8" fontSize={12} />
+              <Tooltip 
+                contentStyle={{ backgroundColor: '#0f172a', borderColor: '#1e293b' }} 
+              />
+              {hasSpread(v) && spreadBands(v, CLIMATE_VARIABLES[v].color)}
+              <Line type="monotone" dataKey={v} stroke={CLIMATE_VARIABLES[v].color} dot={false} strokeWidth={2} name={CLIMATE_VARIABLES[v].label} />
+              {trendLine(v, '#e2e8f0')}
+              {changeMarkers(v, '#e2e8f0')}
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      ))}
+
+      {/* Trend and change-point statistics */}
+      {trends && trends.length > 0 && (
+      <div className="glass-panel p-4 rounded-lg lg:col-span-2">
+        <h3 className="text-cyan-400 font-exo font-bold mb-4 flex items-center">
+          <span className="w-2 h-2 bg-cyan-400 rounded-full mr-2"></span>
+          Trend &amp; Change-Point Statistics
+          <span className="ml-2 text-xs text-gray-400 font-mono">monthly means · significant at p &lt; {SIGNIFICANCE_LEVEL}</span>
+        </h3>
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead className="text-gray-500">
+              <tr>
+                <th className="text-left font-normal py-1">Variable</th>
+                <th className="text-left font-normal py-1">Sen's slope</th>
+                <th className="text-left font-normal py-1">Mann-Kendall</th>
+                <th className="text-left font-normal py-1">Pettitt shift</th>
+                <th className="text-left font-normal py-1">PELT change points</th>
+              </tr>
+            </thead>
+            <tbody>
+              {trends.map(t => (
+                <tr key={t.variable} className="border-t border-gray-800 font-mono text-gray-300">
+                  <td className="py-1 pr-2 font-exo" style={{ color: CLIMATE_VARIABLES[t.variable].color }}>{CLIMATE_VARIABLES[t.variable].label}</td>
+                  <td className="py-1 pr-2">{formatSlope(t, unitOf(t.variable))}</td>
+                  <td className={`py-1 pr-2 ${isSignificant(t.pValue) ? 'text-cyan-300' : ''}`}>
+                    τ {t.tau.toFixed(2)} · z {t.z.toFixed(2)} · {formatPValue(t.pValue)}
+                    <span className="text-gray-500"> · n={t.months}</span>
+                  </td>
+                  <td className={`py-1 pr-2 ${t.pettitt && isSignificant(t.pettitt.pValue) ? 'text-cyan-300' : 'text-gray-500'}`}>
+                    {t.pettitt ? `${t.pettitt.date} · ${formatShift(t, t.pettitt, unitOf(t.variable))} · ${formatPValue(t.pettitt.pValue!)}` : '—'}
+                  </td>
+                  <td className="py-1">
+                    {t.changePoints.length
+                      ? t.changePoints.map(c => `${c.date} (${formatShift(t, c, unitOf(t.variable))})`).join(', ')
+                      : <span className="text-gray-500">none</span>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div className="text-[10px] text-gray-500 mt-2">
+          Seasonal Mann-Kendall test and Sen's slope compare each calendar month across years. Shifts are in the mean
+          anomaly from the window's monthly means; PELT uses a BIC penalty and segments of at least 12 months.
+        </div>
+      </div>
+      )}
+
+      {/* Extreme values and return periods */}
+      {extremes && extremes.length > 0 && <ExtremesPanel extremes={extremes} data={data} units={units} />}
+
+      {/* Drought indices */}
+      {indexPanels.map(panel => (
+        <div key={panel.key} className="glass-panel p-4 rounded-lg h-72" data-report-chart={`${panel.title} (${panel.subtitle})`}>
+          <h3 className="text-cyan-400 font-exo font-bold mb-4 flex items-center">
+            <span className="w-2 h-2 bg-amber-400 rounded-full mr-2"></span>
+            {panel.title}
+            <span className="ml-2 text-xs text-gray-400 font-mono">{panel.subtitle} · {formatBaseline(indices!.calibration)}</span>
+            <select
+              value={scale}
+              onChange={e => setScale(Number(e.target.value) as IndexScale)}
+              className="ml-auto bg-black/50 border border-cyan-900 rounded px-1 text-xs font-mono text-gray-300"
+              title="Accumulation period"
+            >
+              {INDEX_SCALES.map(k => <option key={k} value={k}>{k} mo</option>)}
+            </select>
+          </h3>
+          <ResponsiveContainer width="100%" height="85%">
+            <ComposedChart data={panel.rows}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+              <XAxis dataKey="date" stroke="#94a3b8" fontSize={12} tickFormatter={(str) => str.slice(2)} />
+              <YAxis stroke="#94a3b8" fontSize={12} domain={[-3, 3]} />
+              <Tooltip 
+                contentStyle={{ backgroundColor: '#0f172a', borderColor: '#1e293b' }} 
+              />
+              <Area type="step" dataKey="drought" stroke="none" fill="#f59e0b" fillOpacity={0.12} name="Drought episode" />
+              <ReferenceLine y={DROUGHT_THRESHOLD} stroke="#f59e0b" strokeDasharray="4 3" />
+              <Bar dataKey={panel.key} name={panel.title}>
+                {panel.rows.map(r => (
+                  <Cell key={r.date} fill={(r[panel.key] ?? 0) < 0 ? '#ef4444' : '#3b82f6'} />
+                ))}
+              </Bar>
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      ))}
+
+      {/* CMIP6 scenario projections */}
+      {projections && projectionVariable && (
+      <div
+        className="glass-panel p-4 rounded-lg lg:col-span-2"
+        data-report-chart={`${CLIMATE_VARIABLES[projectionVariable].label} (${unitOf(projectionVariable)}) projections, CMIP6 ensemble median and P10–P90`}
+      >
+        <h3 className="text-orange-400 font-exo font-bold mb-4 flex items-center">
+          <span className="w-2 h-2 bg-orange-400 rounded-full mr-2"></span>
+          Climate Projections · {CLIMATE_VARIABLES[projectionVariable].label} ({unitOf(projectionVariable)})
+          <span className="ml-2 text-xs text-gray-400 font-mono">
+            {projections.models.length} model{projections.models.length === 1 ? '' : 's'} · median and P10–P90
+          </span>
+          <select
+            value={projectionVariable}
+            onChange={e => setProjectionChoice(e.target.value as ClimateVariable)}
+            className="ml-auto bg-black/50 border border-cyan-900 rounded px-1 text-xs font-mono text-gray-300"
+          >
+            {projections.variables.map(v => <option key={v} value={v}>{CLIMATE_VARIABLES[v].label}</option>)}
+          </select>
+        </h3>
+        <div className="h-72">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={projections.rows[projectionVariable]}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+              <XAxis dataKey="year" type="number" domain={['dataMin', 'dataMax']} stroke="#94a3b8" fontSize={12} />
+              <YAxis stroke="#94a3b8" fontSize={12} domain={['auto', 'auto']} />
+              <Tooltip 
+                contentStyle={{ backgroundColor: '#0f172a', borderColor: '#1e293b' }} 
+              />
+              <Legend wrapperStyle={{ fontSize: 12 }} />
+              {PROJECTION_PERIODS.map(p => (
+                <ReferenceArea key={p.id} x1={p.startYear} x2={p.endYear} fill="#94a3b8" fillOpacity={0.08} label={{ value: p.label, fill: '#94a3b8', fontSize: 10, position: 'insideTop' }} />
+              ))}
+              {projectionScenarios.map(s => (
+                <Area key={`${s.id}_band`} type="monotone" dataKey={`${s.id}_band`} stroke="none" fill={s.color} fillOpacity={0.15} name={`${s.label} P10–P90`} legendType="none" />
+              ))}
+              <Line type="monotone" dataKey="observed" stroke="#e2e8f0" dot={false} strokeWidth={2} name="Observed" />
+              {projectionScenarios.map(s => (
+                <Line key={s.id} type="monotone" dataKey={s.id} stroke={s.color} dot={false} strokeWidth={2} name={s.label} connectNulls />
+              ))}
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+        <table className="w-full text-xs mt-3">
+          <thead className="text-gray-500">
+            <tr>
+              <th className="text-left font-normal py-1">Change vs {formatBaseline(projections.baseline)}</th>
+              {PROJECTION_PERIODS.map(p => <th key={p.id} className="text-left font-normal py-1">{p.label}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {projectionScenarios.map(s => (
+              <tr key={s.id} className="border-t border-gray-800">
+                <td className="py-1 font-exo" style={{ color: s.color }}>{s.label}</td>
+                {PROJECTION_PERIODS.map(p => {
+                  const delta = projections.deltas.find(d => d.variable === projectionVariable && d.scenario === s.id && d.period === p.label);
+                  return (
+                    <td key={p.id} className="py-1 font-mono text-gray-300">
+                      {delta ? (
+                        <>
+                          {formatDelta(delta.median)} {unitOf(projectionVariable)}
+                          {delta.percent !== null && ` (${delta.percent > 0 ? '+' : ''}${delta.percent}%)`}
+                          <span className="text-gray-500">
+                            {delta.models > 1 ? ` · ${formatDelta(delta.p10)} to ${formatDelta(delta.p90)}` : ''} · n={delta.models}
+                          </span>
+                        </>
+                      ) : '—'}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="text-[10px] text-gray-500 mt-2">
+          {projections.reference[projectionVariable]
+            ? `Changes are against ${REFERENCE_NOTES[projections.reference[projectionVariable]!]}.`
+            : 'No historical run or observed baseline to measure change against.'}
+          {projections.adjusted && ' Runs with a historical run are shifted onto the observed baseline in the chart.'}
+        </div>
+      </div>
+      )}
+
+      {/* Standardized Anomalies */}
+      {baseline && (
+      <div className="glass-panel p-4 rounded-lg h-72 lg:col-span-2" data-report-chart={`Standardized anomalies (sigma) vs ${formatBaseline(baseline)}`}>
+        <h3 className="text-cyan-400 font-exo font-bold mb-4 flex items-center">
+          <span className="w-2 h-2 bg-purple-400 rounded-full mr-2"></span>
+          Standardized Anomalies (σ)
+          <span className="ml-2 text-xs text-gray-400 font-mono">vs {formatBaseline(baseline)} baseline</span>
+        </h3>
+        <ResponsiveContainer width="100%" height="85%">
+          <BarChart data={rows}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+            <XAxis dataKey="date" stroke="#94a3b8" fontSize={12} tickFormatter={(str) => str.slice(2)} />
+            <YAxis stroke="#94a3b8" fontSize={12} />
+            <Tooltip 
+              contentStyle={{ backgroundColor: '#0f172a', borderColor: '#1e293b' }} 
+            />
+            {variables.includes('T2M') && <Bar dataKey="z_T2M" fill="#ff9900" name="Temperature z" />}
+            {variables.includes('PRECTOTCORR') && <Bar dataKey="z_PRECTOTCORR" fill="#3b82f6" name="Rainfall z" />}
+          </BarChart>
         </ResponsiveContainer>
       </div>
+      )}
 
       {/* Calamity History Timeline */}
-      <div className="glass-panel p-4 rounded-lg h-60 lg:col-span-2">
+      <div className="glass-panel p-4 rounded-lg h-64 lg:col-span-2">
         <h3 className="text-red-400 font-exo font-bold mb-4 flex items-center">
           <span className="w-2 h-2 bg-red-400 rounded-full mr-2"></span>
           Calamity Event Log
         </h3>
         <div className="flex items-center space-x-8 overflow-x-auto pb-4">
           {calamities.length === 0 ? (
-            <div className="text-gray-500 italic">No significant events recorded in this range.</div>
+            <div className="text-gray-500 italic">No imported or detected events for this location and range.</div>
           ) : (
             calamities.map((event, idx) => (
-              <div key={idx} className="flex-shrink-0 relative group">
+              <div key={event.id ?? idx} className="flex-shrink-0 relative group" title={`${event.location ?? ''} [${event.source}]`}>
                 <div className="absolute -top-3 left-1/2 transform -translate-x-1/2 w-3 h-3 bg-red-500 rounded-full border-2 border-black"></div>
-                <div className="bg-red-900/20 border border-red-500/30 p-4 rounded hover:bg-red-900/40 transition-colors w-40 text-center">
+                <div className="bg-red-900/20 border border-red-500/30 p-4 rounded hover:bg-red-900/40 transition-colors w-44 text-center">
                   <div className="text-lg font-bold text-red-300">{event.year}</div>
                   <div className="text-white font-exo">{event.type}</div>
                   <div className="text-xs text-red-200 mt-1">{event.intensity}</div>
+                  <div className="text-[10px] text-gray-400 font-mono mt-1">
+                    {event.startDate}{event.endDate && event.endDate !== event.startDate ? ` → ${event.endDate}` : ''}
+                  </div>
+                  <div className="text-[10px] text-gray-400 mt-1">
+                    {[
+                      event.deaths !== undefined ? `${compactNumber(event.deaths)} deaths` : null,
+                      event.affected !== undefined ? `${compactNumber(event.affected)} affected` : null,
+                      event.damageUsd !== undefined ? `$${compactNumber(event.damageUsd)}` : null
+                    ].filter(Boolean).join(' · ')}
+                  </div>
                 </div>
               </div>
             ))
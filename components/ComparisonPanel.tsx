@@ -0,0 +1,123 @@
+import React, { useMemo } from 'react';
+import { MapPin, X } from 'lucide-react';
+import { ComparisonSite } from '../types';
+import { MOCK_LOCATIONS } from '../constants';
+import {
+  SiteSeries, summarizeSite, ANOMALY_Z_THRESHOLD, MIN_COMPARISON_SITES, MAX_COMPARISON_SITES
+} from '../services/comparisonService';
+
+interface ComparisonPanelProps {
+  sites: ComparisonSite[];
+  results: SiteSeries[];
+  loading: boolean;
+  onAdd: (name: string, lat: number, lon: number) => void;
+  onAddTarget: () => void; // pin the current TARGET
+  onRemove: (id: string) => void;
+  onCompare: () => void;
+}
+
+const formatValue = (n: number | null, unit = '') => (n === null ? '—' : `${n.toLocaleString()}${unit}`);
+
+const ComparisonPanel: React.FC<ComparisonPanelProps> = ({
+  sites, results, loading, onAdd, onAddTarget, onRemove, onCompare
+}) => {
+  const full = sites.length >= MAX_COMPARISON_SITES;
+  const summaries = useMemo(
+    () => results.map(r => ({ ...r, summary: r.dataset ? summarizeSite(r.dataset.stats) : null })),
+    [results]
+  );
+
+  return (
+    <div className="glass-panel p-4 rounded-lg text-sm space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-cyan-400 font-exo font-bold mr-2">Compare Sites</span>
+        <span className="text-xs text-gray-400 font-mono">{sites.length}/{MAX_COMPARISON_SITES}</span>
+        <button
+          onClick={onAddTarget}
+          disabled={full}
+          className="flex items-center text-xs bg-cyan-900/40 hover:bg-cyan-900/70 text-cyan-200 px-2 py-1 rounded border border-cyan-800 disabled:opacity-40"
+        >
+          <MapPin size={12} className="mr-1" /> Pin target
+        </button>
+        {MOCK_LOCATIONS.map(loc => (
+          <button
+            key={loc.name}
+            onClick={() => onAdd(loc.name, loc.lat, loc.lon)}
+            disabled={full}
+            className="text-xs bg-black/40 border border-gray-700 text-gray-400 hover:border-cyan-800 px-2 py-1 rounded disabled:opacity-40"
+          >
+            + {loc.name}
+          </button>
+        ))}
+        <button
+          onClick={onCompare}
+          disabled={loading || sites.length < MIN_COMPARISON_SITES}
+          className="ml-auto bg-cyan-600 hover:bg-cyan-500 text-black font-bold font-exo py-1 px-4 rounded disabled:opacity-50"
+        >
+          {loading ? 'ACQUIRING...' : 'COMPARE'}
+        </button>
+      </div>
+
+      {sites.length === 0 ? (
+        <div className="text-xs text-gray-500">
+          Click the map or use the presets to pin {MIN_COMPARISON_SITES}–{MAX_COMPARISON_SITES} sites.
+        </div>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {sites.map(site => (
+            <span key={site.id} className="flex items-center text-xs bg-black/40 border border-gray-700 rounded px-2 py-1">
+              <span className="w-2 h-2 rounded-full mr-2" style={{ backgroundColor: site.color }}></span>
+              {site.name}
+              <button onClick={() => onRemove(site.id)} className="ml-2 text-gray-500 hover:text-red-400" title="Unpin">
+                <X size={12} />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {summaries.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs font-mono">
+            <thead>
+              <tr className="text-gray-400 border-b border-cyan-900/50 text-right">
+                <th className="text-left py-1">SITE</th>
+                <th>MEAN TEMP</th>
+                <th>TOTAL RAIN</th>
+                <th>TREND</th>
+                <th title={`Months at or beyond ±${ANOMALY_Z_THRESHOLD}σ`}>HOT / COLD</th>
+                <th title={`Months at or beyond ±${ANOMALY_Z_THRESHOLD}σ`}>WET / DRY</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summaries.map(({ site, summary, error }) => (
+                <tr key={site.id} className="border-b border-gray-800 text-right">
+                  <td className="text-left py-1">
+                    <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ backgroundColor: site.color }}></span>
+                    {site.name}
+                  </td>
+                  {summary ? (
+                    <>
+                      <td>{formatValue(summary.meanTemp, ' °C')}</td>
+                      <td>{formatValue(summary.totalRain, ' mm')}</td>
+                      <td>{summary.tempTrend === null ? '—' : `${summary.tempTrend > 0 ? '+' : ''}${summary.tempTrend} °C/dec`}</td>
+                      <td>{summary.anomalies.hot} / {summary.anomalies.cold}</td>
+                      <td>{summary.anomalies.wet} / {summary.anomalies.dry}</td>
+                    </>
+                  ) : (
+                    <td colSpan={5} className="text-red-400 text-left pl-4">{error}</td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="text-[10px] text-gray-500 mt-1">
+            Anomaly counts are months at or beyond ±{ANOMALY_Z_THRESHOLD}σ from each site's own baseline.
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ComparisonPanel;
@@ -1,24 +1,160 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { Search, Bell, Download, Activity, Cpu, MapPin, Newspaper, ExternalLink } from 'lucide-react';
-import MapViz from './MapViz';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Download, MapPin, Newspaper, ExternalLink, GitCompare, Link2, Check } from 'lucide-react';
+import MapViz, { DrawMode } from './MapViz';
 import ClimateCharts from './ClimateCharts';
 import ChatAssistant from './ChatAssistant';
-import { fetchClimateData, fetchCalamityHistory } from '../services/nasaService';
-import { getClimateInsights, getLocalNews, getNearbyResources } from '../services/geminiService';
-import { ClimateStats, Calamity, Prediction, NewsResult, MapResult } from '../types';
+import ForecastPanel from './ForecastPanel';
+import CacheBadge from './CacheBadge';
+import ProvenanceBanner from './ProvenanceBanner';
+import CalamityImporter from './CalamityImporter';
+import NdviImporter from './NdviImporter';
+import ProjectionImporter from './ProjectionImporter';
+import ComparisonPanel from './ComparisonPanel';
+import LocationSearch from './LocationSearch';
+import RegionPanel from './RegionPanel';
+import AlertCenter from './AlertCenter';
+import LlmSettingsPanel from './LlmSettingsPanel';
+import InsightsPanel from './InsightsPanel';
+import ReportDialog from './ReportDialog';
+import ExportDialog from './ExportDialog';
+import WorkspacePanel from './WorkspacePanel';
+import { fetchCalamityHistory, countImportedCalamities, DEFAULT_CALAMITY_MATCH } from '../services/calamityService';
+import { countImportedNdvi } from '../services/ndviService';
+import { countImportedProjections, loadProjections, summarizeProjections } from '../services/projectionService';
+import { SiteSeries, createSite, loadComparison, MAX_COMPARISON_SITES } from '../services/comparisonService';
+import { reverseGeocode } from '../services/geocodingService';
+import { regionCentroid } from '../services/regionService';
+import { checkAlerts, loadAlertRules, loadAlerts, PredictionSet } from '../services/alertService';
+import { episodesToCalamities } from '../services/indicesService';
+import { ChatActions, DashboardContext } from '../services/chatTools';
+import {
+  fetchClimateData, fetchAreaClimateData, generateSyntheticDataset, aggregateToMonthly, fetchRegionalOverlay, supportsRegionalOverlay
+} from '../services/climateDataService';
+import { getClimateInsights, getLlmProvider, getLocalNews, getNearbyResources, InsightsProgress, isAbortError } from '../services/llmService';
+import { ReportContent, captureCharts, captureSvg, renderReportHtml, renderReportPdf, reportFileName } from '../services/reportService';
+import { forecastClimate } from '../services/forecastService';
+import { clearCache } from '../services/cacheService';
+import { DEFAULT_BASELINE, EARLIEST_BASELINE_YEAR } from '../services/climatologyService';
+import { recordRun, updateRun } from '../services/workspaceService';
+import { DashboardPanel, readDashboardState, replaceDashboardUrl, shareableUrl } from '../services/routeService';
+import { CLIMATE_VARIABLES, DEFAULT_VARIABLES } from '../constants';
+import {
+  ClimateDataset, Calamity, CalamityMatch, ClimateInsights, NewsResult, MapResult, ClimateModel, ForecastResult, BaselinePeriod,
+  ClimateVariable, TemporalResolution, ComparisonSite, LocationData, RegionalGrid, AnalysisRegion, AlertRule, AlertEvent,
+  ReportTemplate, AnalysisRun, AnalysisSnapshot, ProjectionSeries
+} from '../types';
 
 const Dashboard: React.FC = () => {
-  const [lat, setLat] = useState<number>(20.5937); // Default India center
-  const [lon, setLon] = useState<number>(78.9629);
-  const [startYear, setStartYear] = useState<number>(2020);
-  const [endYear, setEndYear] = useState<number>(2023);
+  // Settings from a shared link win over the defaults
+  const [initial] = useState(readDashboardState);
+  const [lat, setLat] = useState<number>(initial.lat ?? 20.5937); // Default India center
+  const [lon, setLon] = useState<number>(initial.lon ?? 78.9629);
+  const [locationName, setLocationName] = useState<string | null>(null);
+  const location = useMemo((): LocationData => ({ lat, lon, name: locationName ?? undefined }), [lat, lon, locationName]);
+  const [startYear, setStartYear] = useState<number>(initial.startYear ?? 2020);
+  const [endYear, setEndYear] = useState<number>(initial.endYear ?? 2023);
+  const [baseline, setBaseline] = useState<BaselinePeriod>(initial.baseline ?? DEFAULT_BASELINE);
+  const [variables, setVariables] = useState<ClimateVariable[]>(initial.variables ?? DEFAULT_VARIABLES);
+  const [resolution, setResolution] = useState<TemporalResolution>(initial.resolution ?? 'monthly');
+  // Area analysis: when a region is set the target is its centroid
+  const [region, setRegion] = useState<AnalysisRegion | null>(null);
+  const [drawMode, setDrawMode] = useState<DrawMode | null>(null);
   
-  const [data, setData] = useState<ClimateStats[]>([]);
+  const [dataset, setDataset] = useState<ClimateDataset | null>(null);
+  const data = useMemo(() => dataset?.stats ?? [], [dataset]);
+  // Forecasts and the AI prompt work on calendar months whatever was fetched
+  const monthlyData = useMemo(() => {
+    if (!dataset) return [];
+    return dataset.resolution === 'monthly' ? dataset.stats : aggregateToMonthly(dataset.stats, dataset.variables);
+  }, [dataset]);
+  const [dataError, setDataError] = useState<string | null>(null);
   const [calamities, setCalamities] = useState<Calamity[]>([]);
+  // Imported events plus heat and drought episodes found in the data
+  const timeline = useMemo(
+    () => [...calamities, ...episodesToCalamities(dataset?.indices?.episodes ?? [])]
+      .sort((a, b) => a.startDate.localeCompare(b.startDate)),
+    [calamities, dataset]
+  );
+  const [calamityMatch, setCalamityMatch] = useState<CalamityMatch>(DEFAULT_CALAMITY_MATCH);
+  const [importedCount, setImportedCount] = useState(0);
+  const [ndviCount, setNdviCount] = useState(0);
+  const [projectionCount, setProjectionCount] = useState(0);
+  const [projectionSeries, setProjectionSeries] = useState<ProjectionSeries[]>([]);
+  // Scenario runs are measured against the loaded dataset's baseline
+  const projections = useMemo(() => {
+    if (!projectionSeries.length) return null;
+    const summary = summarizeProjections(projectionSeries, dataset, dataset?.baseline ?? baseline);
+    return summary.variables.length ? summary : null;
+  }, [projectionSeries, dataset, baseline]);
   const [loading, setLoading] = useState<boolean>(false);
   
-  const [prediction, setPrediction] = useState<{ summary: string, predictions: Prediction[] } | null>(null);
+  const [prediction, setPrediction] = useState<ClimateInsights | null>(null);
   const [analyzing, setAnalyzing] = useState(false);
+  const [insightsProgress, setInsightsProgress] = useState<InsightsProgress | null>(null);
+  const [insightsError, setInsightsError] = useState<string | null>(null);
+  const insightsAbort = useRef<AbortController | null>(null);
+
+  // Local statistical forecast, refitted whenever the data or model changes
+  const [forecastModel, setForecastModel] = useState<ClimateModel>(initial.model ?? ClimateModel.ARIMA);
+  const { forecast, forecastError } = useMemo((): { forecast: ForecastResult | null; forecastError: string | null } => {
+    if (monthlyData.length === 0) return { forecast: null, forecastError: null };
+    try {
+      return { forecast: forecastClimate(monthlyData, forecastModel), forecastError: null };
+    } catch (e) {
+      return { forecast: null, forecastError: e instanceof Error ? e.message : String(e) };
+    }
+  }, [monthlyData, forecastModel]);
+
+  // Comparison workspace: pinned sites and their last fetched series
+  const [compareMode, setCompareMode] = useState(initial.panel === 'compare');
+  const [sites, setSites] = useState<ComparisonSite[]>([]);
+  const [siteSeries, setSiteSeries] = useState<SiteSeries[]>([]);
+  const [comparing, setComparing] = useState(false);
+
+  // Map choropleth of one loaded variable, refetched with each dataset
+  const [overlayVariable, setOverlayVariable] = useState<ClimateVariable | null>(null);
+  const [overlay, setOverlay] = useState<RegionalGrid | null>(null);
+  const [overlayStatus, setOverlayStatus] = useState<string | null>(null);
+  const overlayVariables = useMemo(
+    () => (dataset && dataset.provenance.status !== 'synthetic' ? dataset.variables.filter(supportsRegionalOverlay) : []),
+    [dataset]
+  );
+
+  useEffect(() => {
+    if (!overlayVariable || !overlayVariables.includes(overlayVariable)) {
+      setOverlay(null);
+      setOverlayStatus(null);
+      return;
+    }
+    let cancelled = false;
+    setOverlayStatus('Loading regional grid...');
+    fetchRegionalOverlay(lat, lon, overlayVariable, startYear, endYear)
+      .then(result => {
+        if (cancelled) return;
+        setOverlay(result.value);
+        setOverlayStatus(null);
+      })
+      .catch(e => {
+        if (cancelled) return;
+        setOverlay(null);
+        setOverlayStatus(`Overlay unavailable: ${e instanceof Error ? e.message : e}`);
+      });
+    return () => { cancelled = true; };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [overlayVariable, overlayVariables]); // follows the loaded dataset, not unsubmitted inputs
+
+  // Alert rules and inbox, persisted; rules are checked on every load
+  const [alertRules, setAlertRules] = useState<AlertRule[]>([]);
+  const [alerts, setAlerts] = useState<AlertEvent[]>([]);
+  const refreshAlerts = useCallback(async () => {
+    try {
+      const [rules, inbox] = await Promise.all([loadAlertRules(), loadAlerts()]);
+      setAlertRules(rules);
+      setAlerts(inbox);
+    } catch (e) {
+      console.error('Failed to load alerts', e);
+    }
+  }, []);
 
   // Grounding State
   const [news, setNews] = useState<NewsResult | null>(null);
@@ -26,35 +162,279 @@ const Dashboard: React.FC = () => {
   const [resources, setResources] = useState<MapResult | null>(null);
   const [resourcesLoading, setResourcesLoading] = useState(false);
 
+  // Report generation captures the map and charts from these containers
+  // Dialogs opened from a link appear once there is data to fill them
+  const [reportOpen, setReportOpen] = useState(initial.panel === 'report');
+  const [exportOpen, setExportOpen] = useState(initial.panel === 'export');
+  const [chatOpen, setChatOpen] = useState(initial.panel === 'chat');
+  const [linkCopied, setLinkCopied] = useState(false);
+  // The latest ANALYZE run in the history, which later news and relief lookups join
+  const [currentRun, setCurrentRun] = useState<AnalysisRun | null>(null);
+  const mapRef = useRef<HTMLDivElement>(null);
+  const chartsRef = useRef<HTMLDivElement>(null);
+
+  const cancelInsights = useCallback(() => insightsAbort.current?.abort(), []);
+
+  // Drops any running analysis without reporting it as cancelled
+  const resetInsights = useCallback(() => {
+    const running = insightsAbort.current;
+    insightsAbort.current = null;
+    running?.abort();
+    setPrediction(null);
+    setInsightsError(null);
+    setInsightsProgress(null);
+    setAnalyzing(false);
+  }, []);
+
+  // Streams the AI analysis of a dataset. Resolves to null when it fails or
+  // is cancelled; the panel then shows why, with a retry.
+  const runInsights = useCallback(async (result: ClimateDataset): Promise<ClimateInsights | null> => {
+    insightsAbort.current?.abort();
+    const controller = new AbortController();
+    insightsAbort.current = controller;
+    const current = () => insightsAbort.current === controller;
+    setPrediction(null);
+    setInsightsError(null);
+    setInsightsProgress(null);
+    setAnalyzing(true);
+
+    const monthly = result.resolution === 'monthly' ? result.stats : aggregateToMonthly(result.stats, result.variables);
+    try {
+      const insights = await getClimateInsights(monthly, lat, lon, result.area, {
+        trends: result.trends,
+        signal: controller.signal,
+        onProgress: progress => { if (current()) setInsightsProgress(progress); }
+      });
+      if (current()) setPrediction(insights);
+      return insights;
+    } catch (e) {
+      if (current()) {
+        setInsightsError(isAbortError(e) ? 'Analysis cancelled.' : `AI analysis failed: ${e instanceof Error ? e.message : String(e)}`);
+      }
+      if (!isAbortError(e)) console.error("Insights Error", e);
+      return null;
+    } finally {
+      if (current()) {
+        insightsAbort.current = null;
+        setAnalyzing(false);
+        setInsightsProgress(null);
+      }
+    }
+  }, [lat, lon]);
+
   const loadData = useCallback(async () => {
     setLoading(true);
-    setAnalyzing(true);
+    resetInsights();
+    setDataError(null);
     setNews(null);
     setResources(null);
     
     // Fetch Data
-    const stats = await fetchClimateData(lat, lon, startYear, endYear);
-    const events = fetchCalamityHistory(lat, lon);
-    
-    setData(stats);
+    let result: ClimateDataset;
+    try {
+      const requested = variables.filter(v => CLIMATE_VARIABLES[v].resolutions.includes(resolution));
+      const options = { baseline, variables: requested, resolution };
+      result = region
+        ? await fetchAreaClimateData(region, startYear, endYear, options)
+        : await fetchClimateData(lat, lon, startYear, endYear, options);
+    } catch (e) {
+      // Never fall back to generated data silently; the user can opt in below
+      setDataError(e instanceof Error ? e.message : String(e));
+      setDataset(null);
+      setLoading(false);
+      return;
+    }
+    let events: Calamity[] = [];
+    try {
+      events = await fetchCalamityHistory(lat, lon, startYear, endYear, calamityMatch);
+    } catch (e) {
+      console.error('Failed to match calamity history', e);
+    }
+
+    setDataset(result);
     setCalamities(events);
     setLoading(false);
 
+    const target = { location: { lat, lon, name: locationName ?? undefined }, area: result.area?.name };
+    if ((await checkAlerts({ ...target, stats: result.stats, climatology: result.climatology })).length) refreshAlerts();
+
     // Get AI Insights (Deep Think)
-    const insights = await getClimateInsights(stats, lat, lon);
-    setPrediction(insights);
-    setAnalyzing(false);
-  }, [lat, lon, startYear, endYear]);
+    const insights = await runInsights(result);
+
+    try {
+      setCurrentRun(await recordRun({
+        location: { lat, lon, name: locationName ?? undefined }, region, startYear, endYear, baseline, variables, resolution,
+        forecastModel, dataset: result, calamities: events, insights, news: null, resources: null
+      }));
+    } catch (e) {
+      console.error('Failed to record analysis run', e);
+    }
+
+    const monthly = result.resolution === 'monthly' ? result.stats : aggregateToMonthly(result.stats, result.variables);
+    const predictionSets: PredictionSet[] = insights ? [{ source: 'AI analysis', predictions: insights.predictions }] : [];
+    try {
+      const statistical = forecastClimate(monthly, forecastModel);
+      predictionSets.push({ source: `${statistical.model} forecast`, predictions: statistical.predictions });
+    } catch {
+      // too little data to fit; the forecast panel reports why
+    }
+    if ((await checkAlerts({ ...target, predictionSets })).length) refreshAlerts();
+  }, [lat, lon, locationName, region, startYear, endYear, baseline, variables, resolution, calamityMatch, forecastModel, refreshAlerts, runInsights, resetInsights]);
+
+  // Re-match imported events without refetching climate data
+  const refreshCalamities = useCallback(async (match: CalamityMatch) => {
+    setImportedCount(await countImportedCalamities());
+    if (dataset && dataset.provenance.status !== 'synthetic') {
+      try {
+        setCalamities(await fetchCalamityHistory(lat, lon, startYear, endYear, match));
+      } catch (e) {
+        console.error('Failed to match calamity history', e);
+      }
+    }
+  }, [dataset, lat, lon, startYear, endYear]);
+
+  const handleCalamityMatchChange = (match: CalamityMatch) => {
+    setCalamityMatch(match);
+    refreshCalamities(match);
+  };
+
+  // NDVI is merged while loading, so new composites need a reload to show
+  const handleNdviChange = async () => {
+    setNdviCount(await countImportedNdvi());
+    if (variables.includes('NDVI')) loadData();
+    else setVariables(prev => [...prev, 'NDVI']);
+  };
+
+  const refreshProjections = useCallback(async () => {
+    setProjectionCount(await countImportedProjections());
+    setProjectionSeries(await loadProjections(lat, lon));
+  }, [lat, lon]);
 
   useEffect(() => {
+    refreshProjections();
+  }, [refreshProjections]);
+
+  const loadSyntheticData = () => {
+    const requested = variables.filter(v => CLIMATE_VARIABLES[v].resolutions.includes('monthly'));
+    setDataset(generateSyntheticDataset(startYear, endYear, { baseline, variables: requested }));
+    setCalamities([]);
+    resetInsights(); // AI analysis is not run on synthetic data
+    setDataError(null);
+  };
+
+  const toggleVariable = (variable: ClimateVariable) => {
+    setVariables(prev => prev.includes(variable) ? prev.filter(v => v !== variable) : [...prev, variable]);
+  };
+
+  useEffect(() => {
+    countImportedCalamities().then(setImportedCount);
+    countImportedNdvi().then(setNdviCount);
+    refreshAlerts();
     loadData();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []); // Initial load
 
-  const handleLocationSelect = (newLat: number, newLon: number) => {
+  // Name the target from the offline gazetteer whenever it moves
+  useEffect(() => {
+    let cancelled = false;
+    setLocationName(null);
+    reverseGeocode(lat, lon)
+      .then(name => { if (!cancelled) setLocationName(name); })
+      .catch(e => console.error('Reverse geocoding failed', e));
+    return () => { cancelled = true; };
+  }, [lat, lon]);
+
+  // Keep the address bar in step with the settings so it can be shared as is
+  const activePanel: DashboardPanel | null =
+    reportOpen ? 'report' : exportOpen ? 'export' : chatOpen ? 'chat' : compareMode ? 'compare' : null;
+  const urlState = useMemo(() => ({
+    lat, lon, startYear, endYear, variables, resolution, baseline, model: forecastModel, panel: activePanel
+  }), [lat, lon, startYear, endYear, variables, resolution, baseline, forecastModel, activePanel]);
+
+  useEffect(() => {
+    replaceDashboardUrl(urlState);
+  }, [urlState]);
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(shareableUrl(urlState));
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (e) {
+      console.error('Failed to copy link', e);
+      window.prompt('Copy this link', shareableUrl(urlState));
+    }
+  };
+
+  // Loads requested by the chat assistant run once the state they changed has rendered
+  const [loadRequested, setLoadRequested] = useState(false);
+  useEffect(() => {
+    if (!loadRequested) return;
+    setLoadRequested(false);
+    loadData();
+  }, [loadRequested, loadData]);
+
+  const chatContext = useMemo((): DashboardContext => ({
+    location, area: dataset?.area, startYear, endYear, dataset, calamities: timeline, insights: prediction, forecast, loading
+  }), [location, startYear, endYear, dataset, timeline, prediction, forecast, loading]);
+
+  const chatActions = useMemo((): ChatActions => ({
+    setLocation: place => {
+      setLat(place.lat);
+      setLon(place.lon);
+      setRegion(null);
+    },
+    runAnalysis: ({ startYear: start, endYear: end }) => {
+      if (start !== undefined) setStartYear(start);
+      if (end !== undefined) setEndYear(end);
+      setLoadRequested(true);
+    }
+  }), []);
+
+  const handleLocationSelect = async (newLat: number, newLon: number) => {
     setLat(newLat);
     setLon(newLon);
+    setRegion(null); // picking a point leaves area analysis
     // Auto-reload optional, or wait for user to click 'Analyze'
+    if (compareMode) {
+      const name = await reverseGeocode(newLat, newLon).catch(() => null);
+      addSite(name ?? `${newLat.toFixed(2)}, ${newLon.toFixed(2)}`, newLat, newLon);
+    }
+  };
+
+  const handleSearchSelect = (place: LocationData) => {
+    setLat(place.lat);
+    setLon(place.lon);
+    setRegion(null);
+  };
+
+  const handleRegionChange = (next: AnalysisRegion | null) => {
+    setRegion(next);
+    setDrawMode(null);
+    if (!next) return;
+    const centroid = regionCentroid(next);
+    setLat(centroid.lat);
+    setLon(centroid.lon);
+  };
+
+  const addSite = (name: string, siteLat: number, siteLon: number) => {
+    setSites(prev => {
+      const site = createSite(name, siteLat, siteLon, prev);
+      if (prev.length >= MAX_COMPARISON_SITES || prev.some(s => s.id === site.id)) return prev;
+      return [...prev, site];
+    });
+  };
+
+  const removeSite = (id: string) => {
+    setSites(prev => prev.filter(s => s.id !== id));
+    setSiteSeries(prev => prev.filter(r => r.site.id !== id));
+  };
+
+  const runComparison = async () => {
+    setComparing(true);
+    const monthlyVariables = variables.filter(v => CLIMATE_VARIABLES[v].resolutions.includes('monthly'));
+    setSiteSeries(await loadComparison(sites, startYear, endYear, monthlyVariables, baseline));
+    setComparing(false);
   };
 
   const fetchNews = async () => {
@@ -62,6 +442,7 @@ const Dashboard: React.FC = () => {
     const result = await getLocalNews(lat, lon);
     setNews(result);
     setNewsLoading(false);
+    attachToRun({ news: result });
   };
 
   const fetchResources = async () => {
@@ -69,83 +450,97 @@ const Dashboard: React.FC = () => {
     const result = await getNearbyResources(lat, lon);
     setResources(result);
     setResourcesLoading(false);
+    attachToRun({ resources: result });
+  };
+
+  // Only while the target is still the one the run analysed
+  const attachToRun = async (patch: Partial<AnalysisSnapshot>) => {
+    if (!currentRun || currentRun.snapshot.location.lat !== lat || currentRun.snapshot.location.lon !== lon) return;
+    try {
+      setCurrentRun(await updateRun(currentRun, patch));
+    } catch (e) {
+      console.error('Failed to update analysis run', e);
+    }
+  };
+
+  const snapshot = useMemo((): AnalysisSnapshot | null => dataset && ({
+    location, region, startYear, endYear, baseline, variables, resolution, forecastModel,
+    dataset, calamities, insights: prediction, news, resources
+  }), [location, region, startYear, endYear, baseline, variables, resolution, forecastModel, dataset, calamities, prediction, news, resources]);
+
+  // Puts a saved workspace or past run back on screen without refetching
+  const restoreSnapshot = (saved: AnalysisSnapshot) => {
+    resetInsights();
+    setLat(saved.location.lat);
+    setLon(saved.location.lon);
+    setRegion(saved.region);
+    setStartYear(saved.startYear);
+    setEndYear(saved.endYear);
+    setBaseline(saved.baseline);
+    setVariables(saved.variables);
+    setResolution(saved.resolution);
+    setForecastModel(saved.forecastModel);
+    setDataset(saved.dataset);
+    setCalamities(saved.calamities);
+    setPrediction(saved.insights);
+    setNews(saved.news);
+    setResources(saved.resources);
+    setDataError(null);
+    setCurrentRun(null);
+  };
+
+  const handleClearCache = async () => {
+    try {
+      await clearCache();
+      alert("Offline cache cleared.");
+    } catch (e) {
+      alert(`Could not clear cache: ${e instanceof Error ? e.message : e}`);
+    }
   };
 
-  const handleDownloadCSV = () => {
-    if (data.length === 0) {
+  // Synthetic data may only leave the app clearly labelled as such
+  const isSynthetic = dataset?.provenance.status === 'synthetic';
+  const confirmExport = () =>
+    !isSynthetic || window.confirm(
+      "This dataset is SYNTHETIC (generated, not observed). Export it anyway, with every file labelled SYNTHETIC?"
+    );
+
+  const handleExportData = () => {
+    if (!dataset || data.length === 0) {
       alert("No data available to download.");
       return;
     }
-    
-    const headers = ['Date', 'Temperature (C)', 'Rainfall (mm)', 'NDVI', 'Anomaly'];
-    const csvContent = [
-      headers.join(','),
-      ...data.map(row => `${row.date},${row.temperature.toFixed(2)},${row.rainfall.toFixed(2)},${row.ndvi.toFixed(2)},${row.anomaly.toFixed(2)}`)
-    ].join('\n');
-  
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.setAttribute('download', `climate_data_${lat.toFixed(2)}_${lon.toFixed(2)}.csv`);
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    if (!confirmExport()) return;
+    setExportOpen(true);
   };
 
   const handleExportReport = () => {
-    if (!prediction) {
+    if (!prediction && !isSynthetic) {
       alert("Please run analysis first to generate a report.");
       return;
     }
-  
-    let reportContent = `ROTATER INTELLIGENCE REPORT\n`;
-    reportContent += `Generated: ${new Date().toLocaleString()}\n`;
-    reportContent += `Location: ${lat.toFixed(4)}, ${lon.toFixed(4)}\n`;
-    reportContent += `Date Range: ${startYear} - ${endYear}\n\n`;
-    
-    reportContent += `==============================\n`;
-    reportContent += `AI ANALYSIS SUMMARY\n`;
-    reportContent += `==============================\n`;
-    reportContent += `${prediction.summary}\n\n`;
-    
-    reportContent += `==============================\n`;
-    reportContent += `RISK PREDICTIONS (Next 12 Months)\n`;
-    reportContent += `==============================\n`;
-    prediction.predictions.forEach(p => {
-      reportContent += `[${p.month}] ${p.riskLevel.toUpperCase()}\n`;
-      reportContent += `   Temp: ${p.predictedTemp}°C\n`;
-      reportContent += `   Note: ${p.description}\n`;
-      reportContent += `------------------------------\n`;
-    });
-    
-    reportContent += `\n==============================\n`;
-    reportContent += `RECORDED CALAMITIES\n`;
-    reportContent += `==============================\n`;
-    if (calamities.length > 0) {
-      calamities.forEach(c => {
-        reportContent += `${c.year}: ${c.type} (${c.intensity})\n`;
-      });
-    } else {
-      reportContent += `No significant calamities recorded in recent history or simulated data.\n`;
-    }
+    if (!confirmExport()) return;
+    setReportOpen(true);
+  };
 
-    if (news) {
-      reportContent += `\n==============================\n`;
-      reportContent += `RECENT LOCAL NEWS\n`;
-      reportContent += `==============================\n`;
-      reportContent += `${news.summary}\n`;
-      if (news.sources.length > 0) {
-        reportContent += `\nSources:\n`;
-        news.sources.forEach(s => reportContent += `- ${s.title}: ${s.uri}\n`);
-      }
-    }
-  
-    const blob = new Blob([reportContent], { type: 'text/plain;charset=utf-8;' });
+  // Charts and the map are captured as they are on screen right now
+  const generateReport = async (template: ReportTemplate, format: 'pdf' | 'html') => {
+    const mapSvg = mapRef.current?.querySelector('svg');
+    // A misconfigured provider should not block exporting the data
+    const provider = await getLlmProvider().catch(() => null);
+    const content: ReportContent = {
+      location, startYear, endYear, generatedAt: Date.now(), dataset, insights: prediction, forecast, calamities: timeline, news,
+      llm: provider ? `${provider.id} · ${provider.model('insights')}` : 'the AI model',
+      map: template.sections.includes('cover') && mapSvg ? await captureSvg(mapSvg, 'Analysis location').catch(() => null) : null,
+      charts: template.sections.includes('charts') ? await captureCharts(chartsRef.current) : []
+    };
+    const blob = format === 'pdf'
+      ? renderReportPdf(content, template)
+      : new Blob([renderReportHtml(content, template)], { type: 'text/html;charset=utf-8;' });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
-    link.setAttribute('download', `climate_report_${lat.toFixed(2)}_${lon.toFixed(2)}.txt`);
+    link.setAttribute('download', reportFileName(content, format));
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
@@ -166,30 +561,28 @@ const Dashboard: React.FC = () => {
         </div>
         
         <div className="flex items-center space-x-4">
-          <div className="glass-panel px-4 py-2 rounded-full flex items-center">
-            <Search size={16} className="text-cyan-400 mr-2" />
-            <input 
-              type="text" 
-              placeholder="Search Lat, Lon..." 
-              className="bg-transparent border-none outline-none text-sm text-white w-40"
-              onKeyDown={(e) => {
-                if (e.key === 'Enter') {
-                  const parts = e.currentTarget.value.split(',');
-                  if (parts.length === 2) {
-                    setLat(parseFloat(parts[0]));
-                    setLon(parseFloat(parts[1]));
-                  }
-                }
-              }}
-            />
-          </div>
-          <button className="p-2 glass-panel rounded-full hover:bg-cyan-900/40 text-cyan-400 transition-colors">
-            <Bell size={20} />
+          <LocationSearch onSelect={handleSearchSelect} />
+          <button
+            onClick={() => setCompareMode(m => !m)}
+            className={`p-2 glass-panel rounded-full hover:bg-cyan-900/40 transition-colors ${compareMode ? 'text-black bg-cyan-500' : 'text-cyan-400'}`}
+            title="Compare sites"
+          >
+            <GitCompare size={20} />
           </button>
+          <button
+            onClick={handleCopyLink}
+            className="p-2 glass-panel rounded-full hover:bg-cyan-900/40 text-cyan-400 transition-colors"
+            title={linkCopied ? 'Link copied' : 'Copy link to this analysis'}
+          >
+            {linkCopied ? <Check size={20} /> : <Link2 size={20} />}
+          </button>
+          <WorkspacePanel current={snapshot} latestRunId={currentRun?.id ?? null} onOpen={restoreSnapshot} />
+          <AlertCenter rules={alertRules} alerts={alerts} onChange={refreshAlerts} />
+          <LlmSettingsPanel />
           <button 
-            onClick={handleDownloadCSV}
+            onClick={handleExportData}
             className="p-2 glass-panel rounded-full hover:bg-cyan-900/40 text-cyan-400 transition-colors"
-            title="Download Data"
+            title="Export Data"
           >
             <Download size={20} />
           </button>
@@ -220,11 +613,33 @@ const Dashboard: React.FC = () => {
                 className="bg-black/50 border border-cyan-900 rounded px-2 py-1 w-20 text-center"
               />
             </div>
+
+            <div className="flex items-center space-x-2">
+              <label className="text-xs text-gray-400 font-exo">BASELINE</label>
+              <input 
+                type="number" 
+                min={EARLIEST_BASELINE_YEAR}
+                value={baseline.startYear} 
+                onChange={e => setBaseline(b => ({ ...b, startYear: Number(e.target.value) }))}
+                className="bg-black/50 border border-cyan-900 rounded px-2 py-1 w-20 text-center"
+              />
+              <span className="text-gray-500">-</span>
+              <input 
+                type="number" 
+                min={EARLIEST_BASELINE_YEAR}
+                value={baseline.endYear} 
+                onChange={e => setBaseline(b => ({ ...b, endYear: Number(e.target.value) }))}
+                className="bg-black/50 border border-cyan-900 rounded px-2 py-1 w-20 text-center"
+              />
+            </div>
             
             <div className="flex items-center space-x-4">
               <div className="text-right">
-                <div className="text-xs text-gray-400">TARGET</div>
+                <div className="text-xs text-gray-400">{region ? 'AREA' : 'TARGET'}</div>
+                {region && <div className="text-yellow-300 font-exo text-sm">{region.name}</div>}
+                {locationName && <div className="text-white font-exo text-sm">{region ? `near ${locationName}` : locationName}</div>}
                 <div className="text-cyan-400 font-mono">{lat.toFixed(2)}°N, {lon.toFixed(2)}°E</div>
+                <CacheBadge cachedAt={dataset?.cachedAt} />
               </div>
               <button 
                 onClick={loadData}
@@ -236,13 +651,125 @@ const Dashboard: React.FC = () => {
             </div>
           </div>
 
+          {/* Variable Picker */}
+          <div className="glass-panel p-4 rounded-lg flex flex-wrap items-center gap-3">
+            <label className="text-xs text-gray-400 font-exo">RESOLUTION</label>
+            <select
+              value={resolution}
+              onChange={e => setResolution(e.target.value as TemporalResolution)}
+              className="bg-black/50 border border-cyan-900 rounded px-2 py-1 text-sm"
+            >
+              <option value="monthly">Monthly</option>
+              <option value="daily">Daily</option>
+              <option value="hourly">Hourly</option>
+            </select>
+            <label className="text-xs text-gray-400 font-exo ml-2">VARIABLES</label>
+            {Object.values(CLIMATE_VARIABLES).map(def => {
+              const available = def.resolutions.includes(resolution);
+              const active = variables.includes(def.id);
+              return (
+                <button
+                  key={def.id}
+                  onClick={() => toggleVariable(def.id)}
+                  disabled={!available}
+                  title={available ? def.unit : `Not available at ${resolution} resolution`}
+                  className={`text-xs px-2 py-1 rounded border transition-colors disabled:opacity-30 ${
+                    active && available
+                      ? 'bg-cyan-900/50 border-cyan-500 text-cyan-300'
+                      : 'bg-black/40 border-gray-700 text-gray-400 hover:border-cyan-800'
+                  }`}
+                >
+                  {def.label}
+                </button>
+              );
+            })}
+          </div>
+
+          {dataError && (
+            <div className="glass-panel p-3 rounded-lg border border-red-500/40 text-sm text-red-400 flex justify-between items-center gap-4">
+              <span>Could not load observed data: {dataError}</span>
+              <button
+                onClick={loadSyntheticData}
+                className="text-xs flex-shrink-0 bg-red-900/40 hover:bg-red-900/70 text-red-200 px-3 py-1 rounded border border-red-700"
+              >
+                Load synthetic demo data
+              </button>
+            </div>
+          )}
+
+          {dataset && <ProvenanceBanner provenance={dataset.provenance} />}
+
+          {compareMode && (
+            <ComparisonPanel
+              sites={sites}
+              results={siteSeries}
+              loading={comparing}
+              onAdd={addSite}
+              onAddTarget={() => addSite(locationName ?? `${lat.toFixed(2)}, ${lon.toFixed(2)}`, lat, lon)}
+              onRemove={removeSite}
+              onCompare={runComparison}
+            />
+          )}
+
+          <RegionPanel
+            region={region}
+            drawMode={drawMode}
+            onDrawModeChange={setDrawMode}
+            onRegionChange={handleRegionChange}
+          />
+
           {/* Map Visualization */}
-          <div className="h-96 w-full">
-            <MapViz lat={lat} lon={lon} onLocationSelect={handleLocationSelect} />
+          <div ref={mapRef} className="h-96 w-full">
+            <MapViz
+              lat={lat}
+              lon={lon}
+              onLocationSelect={handleLocationSelect}
+              pins={compareMode ? sites : undefined}
+              overlay={overlay}
+              overlayVariables={overlayVariables}
+              overlayVariable={overlayVariable}
+              onOverlayChange={setOverlayVariable}
+              overlayStatus={overlayStatus}
+              region={region}
+              drawMode={drawMode}
+              onRegionDrawn={handleRegionChange}
+              onDrawCancel={() => setDrawMode(null)}
+            />
           </div>
 
           {/* Charts Section */}
-          <ClimateCharts data={data} calamities={calamities} />
+          <div ref={chartsRef}>
+            <ClimateCharts
+              data={data}
+              variables={dataset?.variables ?? []}
+              units={dataset?.units ?? {}}
+              calamities={timeline}
+              forecast={forecast}
+              baseline={dataset?.climatology.length ? dataset.baseline : undefined}
+              comparison={compareMode ? siteSeries : undefined}
+              indices={dataset?.indices}
+              projections={projections}
+              trends={dataset?.trends}
+              extremes={dataset?.extremes}
+            />
+          </div>
+
+          <CalamityImporter
+            match={calamityMatch}
+            onMatchChange={handleCalamityMatchChange}
+            importedCount={importedCount}
+            onChange={() => refreshCalamities(calamityMatch)}
+          />
+
+          <NdviImporter lat={lat} lon={lon} importedCount={ndviCount} onChange={handleNdviChange} />
+
+          <ProjectionImporter
+            lat={lat}
+            lon={lon}
+            importedCount={projectionCount}
+            matchedModels={projections?.models.length ?? 0}
+            onChange={refreshProjections}
+          />
 
           {/* New Grounding Features Section */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -252,6 +779,7 @@ const Dashboard: React.FC = () => {
               <div className="flex justify-between items-center mb-4">
                 <h3 className="text-cyan-400 font-exo font-bold flex items-center">
                   <Newspaper size={18} className="mr-2" /> Local News (Google Search)
+                  <span className="ml-2"><CacheBadge cachedAt={news?.cachedAt} /></span>
                 </h3>
                 <button 
                   onClick={fetchNews} 
@@ -284,6 +812,7 @@ const Dashboard: React.FC = () => {
                <div className="flex justify-between items-center mb-4">
                 <h3 className="text-green-400 font-exo font-bold flex items-center">
                   <MapPin size={18} className="mr-2" /> Relief Centers (Google Maps)
+                  <span className="ml-2"><CacheBadge cachedAt={resources?.cachedAt} /></span>
                 </h3>
                 <button 
                    onClick={fetchResources}
@@ -319,69 +848,33 @@ const Dashboard: React.FC = () => {
         <div className="lg:col-span-4 flex flex-col space-y-6">
           
           {/* AI Insights Panel */}
-          <div className="glass-panel p-6 rounded-lg min-h-[400px] border-t-2 border-t-cyan-500 relative overflow-hidden">
-            <div className="absolute top-0 right-0 p-2 opacity-20">
-              <Cpu size={100} />
-            </div>
-            
-            <h3 className="text-xl font-orbitron font-bold text-white mb-4 flex items-center">
-              <Activity className="mr-2 text-cyan-400" />
-              DEEP INTELLIGENCE
-            </h3>
-
-            {analyzing ? (
-              <div className="space-y-4 animate-pulse">
-                <div className="h-4 bg-cyan-900/30 rounded w-3/4"></div>
-                <div className="h-4 bg-cyan-900/30 rounded w-full"></div>
-                <div className="h-4 bg-cyan-900/30 rounded w-5/6"></div>
-                <div className="text-cyan-500 font-mono text-sm mt-4">Running Logic Stream... (Budget: 32k tokens)</div>
-              </div>
-            ) : prediction ? (
-              <div className="space-y-6">
-                <div className="bg-black/40 p-4 rounded border-l-2 border-cyan-500">
-                  <h4 className="text-cyan-400 text-sm font-bold mb-2 uppercase">Analysis Summary</h4>
-                  <p className="text-gray-300 text-sm leading-relaxed">
-                    {prediction.summary}
-                  </p>
-                </div>
-
-                <div>
-                  <h4 className="text-orange-400 text-sm font-bold mb-3 uppercase">Forward Risk Prediction</h4>
-                  <div className="space-y-3">
-                    {prediction.predictions.map((pred, i) => (
-                      <div key={i} className="flex justify-between items-center p-3 bg-white/5 rounded hover:bg-white/10 transition-colors">
-                        <div>
-                          <div className="text-sm font-bold text-white">{pred.month}</div>
-                          <div className="text-xs text-gray-400">{pred.description}</div>
-                        </div>
-                        <span className={`px-2 py-1 rounded text-xs font-bold ${
-                          pred.riskLevel === 'High' ? 'bg-red-500/20 text-red-400' :
-                          pred.riskLevel === 'Medium' ? 'bg-yellow-500/20 text-yellow-400' :
-                          'bg-green-500/20 text-green-400'
-                        }`}>
-                          {pred.riskLevel.toUpperCase()}
-                        </span>
-                      </div>
-                    ))}
-                  </div>
-                </div>
-              </div>
-            ) : (
-              <div className="text-gray-500 text-center mt-10">
-                Run analysis to generate predictions.
-              </div>
-            )}
-          </div>
+          <InsightsPanel
+            insights={prediction}
+            progress={insightsProgress}
+            analyzing={analyzing}
+            error={insightsError}
+            isSynthetic={isSynthetic}
+            onCancel={cancelInsights}
+            onRetry={dataset && !isSynthetic ? () => runInsights(dataset) : null}
+          />
+
+          {/* Local Forecast */}
+          <ForecastPanel
+            model={forecastModel}
+            onModelChange={setForecastModel}
+            forecast={forecast}
+            error={forecastError}
+          />
 
           {/* Research / Export */}
           <div className="glass-panel p-6 rounded-lg">
              <h3 className="text-lg font-exo font-bold text-white mb-4">Research Tools</h3>
              <div className="flex gap-4">
                <button 
-                 onClick={handleDownloadCSV}
+                 onClick={handleExportData}
                  className="flex-1 bg-gray-800 hover:bg-gray-700 py-2 rounded text-sm text-cyan-400 border border-gray-700 transition-colors"
                >
-                 Download CSV
+                 Export Data
                </button>
                <button 
                  onClick={handleExportReport}
@@ -390,13 +883,30 @@ const Dashboard: React.FC = () => {
                  Export Report
                </button>
              </div>
+             <button 
+               onClick={handleClearCache}
+               className="w-full mt-3 text-xs text-gray-500 hover:text-gray-300 transition-colors"
+             >
+               Clear offline cache
+             </button>
           </div>
 
         </div>
       </div>
       
+      {reportOpen && dataset && (
+        <ReportDialog isSynthetic={isSynthetic} onGenerate={generateReport} onClose={() => setReportOpen(false)} />
+      )}
+
+      {exportOpen && dataset && (
+        <ExportDialog
+          source={{ dataset, location, aiPredictions: prediction?.predictions ?? [], forecast, calamities: timeline }}
+          onClose={() => setExportOpen(false)}
+        />
+      )}
+
       {/* Chat Bot */}
-      <ChatAssistant />
+      <ChatAssistant context={chatContext} actions={chatActions} isOpen={chatOpen} onOpenChange={setChatOpen} />
     </div>
   );
 };
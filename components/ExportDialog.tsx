@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { Download, X } from 'lucide-react';
+import { ClimateVariable } from '../types';
+import { CLIMATE_VARIABLES } from '../constants';
+import { EXPORT_FORMATS, ExportOptions, ExportSource, datasetRange, exportDataset, exportFileName } from '../services/exportService';
+
+interface ExportDialogProps {
+  source: ExportSource;
+  onClose: () => void;
+}
+
+const PRECISIONS = [0, 1, 2, 3, 4, 6];
+
+// Chooses the format, variables, period and extras, then downloads the file.
+const ExportDialog: React.FC<ExportDialogProps> = ({ source, onClose }) => {
+  const { dataset } = source;
+  const hasPredictions = source.aiPredictions.length > 0 || (source.forecast?.predictions.length ?? 0) > 0;
+  const hasAnomalies = dataset.climatology.length > 0;
+  const [options, setOptions] = useState<ExportOptions>(() => ({
+    format: 'csv',
+    variables: dataset.variables,
+    ...datasetRange(dataset),
+    precision: 2,
+    anomalies: hasAnomalies,
+    predictions: hasPredictions,
+    calamities: source.calamities.length > 0
+  }));
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (patch: Partial<ExportOptions>) => setOptions(prev => ({ ...prev, ...patch }));
+
+  // Variables keep the dataset's order whichever way they are toggled
+  const toggleVariable = (id: ClimateVariable) => {
+    const enabled = new Set(options.variables);
+    if (enabled.has(id)) enabled.delete(id);
+    else enabled.add(id);
+    update({ variables: dataset.variables.filter(v => enabled.has(v)) });
+  };
+
+  const handleDownload = () => {
+    setError(null);
+    try {
+      const blob = exportDataset(source, options);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.setAttribute('download', exportFileName(source, options.format));
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      onClose();
+    } catch (e) {
+      console.error("Export Error", e);
+      setError(`Could not export the data: ${e instanceof Error ? e.message : e}`);
+    }
+  };
+
+  const inputClass = 'w-full bg-black/50 border border-cyan-900 rounded px-2 py-1 text-sm text-cyan-100';
+  const invalidRange = options.from > options.to;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="glass-panel bg-black/95 rounded-lg w-full max-w-lg p-6 space-y-4 text-sm max-h-full overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-exo font-bold text-white">Export Data</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-white" title="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        {dataset.provenance.status === 'synthetic' && (
+          <div className="bg-red-900/30 border border-red-500/40 text-red-300 rounded p-2 text-xs">
+            This dataset is synthetic; the file name and metadata will say so.
+          </div>
+        )}
+
+        <div>
+          <span className="text-gray-400 text-xs">Format</span>
+          <div className="space-y-1 mt-1">
+            {EXPORT_FORMATS.map(f => (
+              <label key={f.id} className="flex items-start gap-2 text-gray-300 cursor-pointer">
+                <input
+                  type="radio"
+                  name="export-format"
+                  className="mt-1"
+                  checked={options.format === f.id}
+                  onChange={() => update({ format: f.id })}
+                />
+                <span>
+                  {f.name} <span className="text-gray-500 text-xs">.{f.extension} · {f.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <span className="text-gray-400 text-xs">Variables</span>
+          <div className="grid grid-cols-2 gap-1 mt-1">
+            {dataset.variables.map(v => (
+              <label key={v} className="flex items-center gap-2 text-gray-300 cursor-pointer">
+                <input type="checkbox" checked={options.variables.includes(v)} onChange={() => toggleVariable(v)} />
+                {CLIMATE_VARIABLES[v].label}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <label className="flex-1 space-y-1">
+            <span className="text-gray-400 text-xs">From</span>
+            <input type="date" value={options.from} onChange={e => update({ from: e.target.value })} className={inputClass} />
+          </label>
+          <label className="flex-1 space-y-1">
+            <span className="text-gray-400 text-xs">To</span>
+            <input type="date" value={options.to} onChange={e => update({ to: e.target.value })} className={inputClass} />
+          </label>
+          <label className="space-y-1">
+            <span className="text-gray-400 text-xs">Decimals</span>
+            <select
+              value={options.precision ?? 'full'}
+              onChange={e => update({ precision: e.target.value === 'full' ? null : Number(e.target.value) })}
+              className={inputClass}
+            >
+              {PRECISIONS.map(p => <option key={p} value={p}>{p}</option>)}
+              <option value="full">Full</option>
+            </select>
+          </label>
+        </div>
+
+        <div className="space-y-1">
+          <label className={`flex items-center gap-2 cursor-pointer ${hasAnomalies ? 'text-gray-300' : 'text-gray-600'}`}>
+            <input type="checkbox" disabled={!hasAnomalies} checked={options.anomalies} onChange={e => update({ anomalies: e.target.checked })} />
+            Anomalies and z-scores against the baseline
+          </label>
+          <label className={`flex items-center gap-2 cursor-pointer ${hasPredictions ? 'text-gray-300' : 'text-gray-600'}`}>
+            <input type="checkbox" disabled={!hasPredictions} checked={options.predictions} onChange={e => update({ predictions: e.target.checked })} />
+            AI and statistical predictions
+          </label>
+          <label className={`flex items-center gap-2 cursor-pointer ${source.calamities.length ? 'text-gray-300' : 'text-gray-600'}`}>
+            <input type="checkbox" disabled={!source.calamities.length} checked={options.calamities} onChange={e => update({ calamities: e.target.checked })} />
+            Calamity events ({source.calamities.length})
+          </label>
+        </div>
+
+        {invalidRange && <div className="text-red-400 text-xs">The start date is after the end date.</div>}
+        {error && <div className="text-red-400 text-xs">{error}</div>}
+
+        <button
+          onClick={handleDownload}
+          disabled={options.variables.length === 0 || invalidRange}
+          className="w-full flex items-center justify-center bg-cyan-600 hover:bg-cyan-500 disabled:opacity-50 text-black font-exo font-bold py-2 rounded"
+        >
+          <Download size={16} className="mr-2" /> DOWNLOAD {EXPORT_FORMATS.find(f => f.id === options.format)!.name.toUpperCase()}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,146 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ComposedChart, Area, Line, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Calculator } from 'lucide-react';
+import { ClimateStats, ClimateVariable, ExtremeValueFit } from '../types';
+import { CLIMATE_VARIABLES } from '../constants';
+import { RETURN_PERIODS, describeReturnPeriod, empiricalReturnPeriods } from '../services/extremesService';
+
+interface ExtremesPanelProps {
+  extremes: ExtremeValueFit[];
+  data: ClimateStats[]; // analysis window, for the calculator
+  units: Partial<Record<ClimateVariable, string>>;
+}
+
+const PERIOD_TICKS = [1, 2, 5, 10, 25, 50, 100, 200];
+
+// Return-level curves of the fitted annual maxima, with a calculator that
+// places a month (or day) of the analysis window on the curve.
+const ExtremesPanel: React.FC<ExtremesPanelProps> = ({ extremes, data, units }) => {
+  const [choice, setChoice] = useState<ClimateVariable>(extremes[0].variable);
+  const fit = extremes.find(f => f.variable === choice) ?? extremes[0];
+  const unit = units[fit.variable] ?? CLIMATE_VARIABLES[fit.variable].unit;
+  const label = CLIMATE_VARIABLES[fit.variable].label;
+  const blockLabel = fit.block === 'day' ? 'daily value' : 'monthly mean';
+
+  const curve = useMemo(() => fit.returnLevels.map(r => ({ period: r.period, level: r.level, band: [r.lower, r.upper] })), [fit]);
+  const observed = useMemo(() => empiricalReturnPeriods(fit), [fit]);
+
+  // Calculator: a date from the window, or a typed value
+  const candidates = useMemo(
+    () => data.filter(s => typeof s.values[fit.variable] === 'number'),
+    [data, fit.variable]
+  );
+  const [date, setDate] = useState('');
+  const [custom, setCustom] = useState('');
+  // A date picked in an earlier dataset may lie outside this one
+  useEffect(() => {
+    setDate('');
+    setCustom('');
+  }, [data, extremes]);
+  const row = date ? candidates.find(s => s.date === date) : candidates[candidates.length - 1];
+  const value = custom.trim() !== '' ? parseFloat(custom) : (row?.values[fit.variable] as number | undefined);
+  const subject = custom.trim() !== '' ? `A ${blockLabel} of ${value} ${unit}` : row ? `${label} of ${value} ${unit} in ${row.date}` : null;
+
+  return (
+    <div
+      className="glass-panel p-4 rounded-lg lg:col-span-2"
+      data-report-chart={`${label} (${unit}) return levels, ${fit.distribution} fit to annual maxima with 95% interval`}
+    >
+      <h3 className="text-red-400 font-exo font-bold mb-4 flex items-center">
+        <span className="w-2 h-2 bg-red-400 rounded-full mr-2"></span>
+        Extreme Values · {label} ({unit})
+        <span className="ml-2 text-xs text-gray-400 font-mono">
+          {fit.distribution}{fit.distribution === 'GEV' ? ` ξ=${fit.shape.toFixed(2)}` : ''} · annual max {blockLabel} · {fit.maxima.length} years
+        </span>
+        <select
+          value={fit.variable}
+          onChange={e => { setChoice(e.target.value as ClimateVariable); setDate(''); setCustom(''); }}
+          className="ml-auto bg-black/50 border border-cyan-900 rounded px-1 text-xs font-mono text-gray-300"
+        >
+          {extremes.map(f => <option key={f.variable} value={f.variable}>{CLIMATE_VARIABLES[f.variable].label}</option>)}
+        </select>
+      </h3>
+      <div className="h-72">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={curve}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+            <XAxis
+              dataKey="period"
+              type="number"
+              scale="log"
+              domain={[1, 200]}
+              ticks={PERIOD_TICKS}
+              allowDataOverflow
+              stroke="#94a3b8"
+              fontSize={12}
+              label={{ value: 'Return period (years)', position: 'insideBottom', offset: -2, fill: '#94a3b8', fontSize: 10 }}
+            />
+            <YAxis stroke="#94a3b8" fontSize={12} domain={['auto', 'auto']} />
+            <Tooltip
+              contentStyle={{ backgroundColor: '#0f172a', borderColor: '#1e293b' }}
+            />
+            <Area type="monotone" dataKey="band" stroke="none" fill="#f87171" fillOpacity={0.15} name="95% interval" />
+            <Line type="monotone" dataKey="level" stroke="#f87171" dot={false} strokeWidth={2} name="Return level" />
+            <Scatter data={observed} dataKey="value" fill="#e2e8f0" name="Observed annual maximum" />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      <table className="w-full text-xs mt-3">
+        <thead className="text-gray-500">
+          <tr>
+            <th className="text-left font-normal py-1">Return period</th>
+            {RETURN_PERIODS.map(p => <th key={p} className="text-left font-normal py-1">{p} yr</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          <tr className="border-t border-gray-800 font-mono text-gray-300">
+            <td className="py-1 font-sans text-gray-400">Level ({unit})</td>
+            {RETURN_PERIODS.map(p => {
+              const r = fit.returnLevels.find(l => l.period === p);
+              return (
+                <td key={p} className="py-1">
+                  {r ? <>{r.level.toFixed(1)} <span className="text-gray-500">({r.lower.toFixed(1)}–{r.upper.toFixed(1)})</span></> : '—'}
+                </td>
+              );
+            })}
+          </tr>
+        </tbody>
+      </table>
+
+      <div className="mt-3 p-3 rounded border border-gray-800 bg-black/40 text-xs space-y-2">
+        <div className="flex flex-wrap items-center gap-2 text-gray-400">
+          <Calculator size={14} className="text-red-400" />
+          <span>How rare was</span>
+          <input
+            type={fit.block === 'day' ? 'date' : 'month'}
+            value={date || row?.date || ''}
+            min={candidates[0]?.date}
+            max={candidates[candidates.length - 1]?.date}
+            onChange={e => { setDate(e.target.value); setCustom(''); }}
+            className="bg-black/50 border border-cyan-900 rounded px-1 font-mono text-gray-300"
+          />
+          <span>or a {blockLabel} of</span>
+          <input
+            type="number"
+            value={custom}
+            placeholder={unit}
+            onChange={e => setCustom(e.target.value)}
+            className="w-20 bg-black/50 border border-cyan-900 rounded px-1 font-mono text-gray-300"
+          />
+        </div>
+        <div className="text-white">
+          {subject && value !== undefined && Number.isFinite(value)
+            ? `${subject} is ${describeReturnPeriod(fit, value)}.`
+            : 'No value for this date.'}
+        </div>
+        <div className="text-[10px] text-gray-500">
+          Compared with the highest {blockLabel} of each year, {fit.maxima[0].year}–{fit.maxima[fit.maxima.length - 1].year}.
+          Intervals come from refitting {fit.distribution} to resampled maxima.
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExtremesPanel;
@@ -0,0 +1,79 @@
+import React from 'react';
+import { TrendingUp } from 'lucide-react';
+import { ClimateModel, ForecastResult } from '../types';
+import { FORECAST_MODELS } from '../services/forecastService';
+
+interface ForecastPanelProps {
+  model: ClimateModel;
+  onModelChange: (model: ClimateModel) => void;
+  forecast: ForecastResult | null;
+  error: string | null;
+}
+
+const riskClass = (level: string) =>
+  level === 'Critical' ? 'bg-red-600/30 text-red-300' :
+  level === 'High' ? 'bg-red-500/20 text-red-400' :
+  level === 'Medium' ? 'bg-yellow-500/20 text-yellow-400' :
+  'bg-green-500/20 text-green-400';
+
+const ForecastPanel: React.FC<ForecastPanelProps> = ({ model, onModelChange, forecast, error }) => {
+  return (
+    <div className="glass-panel p-6 rounded-lg border-t-2 border-t-orange-500">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-orbitron font-bold text-white flex items-center">
+          <TrendingUp className="mr-2 text-orange-400" size={20} />
+          STATISTICAL FORECAST
+        </h3>
+        <select
+          value={model}
+          onChange={e => onModelChange(e.target.value as ClimateModel)}
+          className="bg-black/50 border border-cyan-900 rounded px-2 py-1 text-xs text-cyan-300"
+        >
+          {Object.values(ClimateModel).map(m => (
+            <option key={m} value={m} disabled={!FORECAST_MODELS.includes(m)}>
+              {m}{FORECAST_MODELS.includes(m) ? '' : ' (unavailable offline)'}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error ? (
+        <div className="text-sm text-red-400">{error}</div>
+      ) : !forecast ? (
+        <div className="text-sm text-gray-500 italic">Load data to fit a local model.</div>
+      ) : (
+        <>
+          <div className="text-xs font-mono text-gray-400 mb-3 space-y-1">
+            <div>T: {forecast.temperature.label} · RMSE {forecast.temperature.diagnostics.rmse.toFixed(2)}°C</div>
+            <div>R: {forecast.rainfall.label} · RMSE {forecast.rainfall.diagnostics.rmse.toFixed(2)}</div>
+            <div>
+              {forecast.temperature.diagnostics.observations} months fitted
+              {forecast.temperature.diagnostics.imputed > 0 && ` (${forecast.temperature.diagnostics.imputed} imputed)`}
+              {' '}· {Math.round(forecast.confidenceLevel * 100)}% intervals
+            </div>
+          </div>
+          <div className="space-y-2 max-h-80 overflow-y-auto">
+            {forecast.predictions.map(p => (
+              <div key={p.month} className="flex justify-between items-center p-2 bg-white/5 rounded text-xs">
+                <div>
+                  <div className="font-bold text-white font-mono">{p.month}</div>
+                  <div className="text-gray-400">
+                    {p.predictedTemp.toFixed(1)}°C
+                    {p.tempInterval && ` [${p.tempInterval[0].toFixed(1)}, ${p.tempInterval[1].toFixed(1)}]`}
+                    {p.predictedRainfall !== undefined && ` · ${p.predictedRainfall.toFixed(1)} mm`}
+                  </div>
+                  <div className="text-gray-500">{p.description}</div>
+                </div>
+                <span className={`px-2 py-1 rounded font-bold ${riskClass(p.riskLevel)}`}>
+                  {p.riskLevel.toUpperCase()}
+                </span>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ForecastPanel;
@@ -0,0 +1,133 @@
+import React from 'react';
+import { Activity, Cpu, RotateCcw, Square, AlertTriangle } from 'lucide-react';
+import { ClimateInsights, Prediction } from '../types';
+import { InsightsProgress } from '../services/llmService';
+import CacheBadge from './CacheBadge';
+
+interface InsightsPanelProps {
+  insights: ClimateInsights | null;
+  progress: InsightsProgress | null; // set while the analysis is running
+  analyzing: boolean;
+  error: string | null;
+  isSynthetic: boolean;
+  onCancel: () => void;
+  onRetry: (() => void) | null; // null when there is no data to analyse
+}
+
+const PHASE_LABELS: Record<InsightsProgress['phase'], string> = {
+  thinking: 'Reasoning over the data...',
+  streaming: 'Writing analysis...',
+  validating: 'Checking response...',
+  repairing: 'Response malformed, asking for a corrected version...'
+};
+
+const riskClass = (level: Prediction['riskLevel']) =>
+  level === 'Critical' ? 'bg-red-600/30 text-red-300' :
+  level === 'High' ? 'bg-red-500/20 text-red-400' :
+  level === 'Medium' ? 'bg-yellow-500/20 text-yellow-400' :
+  'bg-green-500/20 text-green-400';
+
+const PredictionList: React.FC<{ predictions: Prediction[] }> = ({ predictions }) => (
+  <div className="space-y-3">
+    {predictions.map((pred, i) => (
+      <div key={i} className="flex justify-between items-center p-3 bg-white/5 rounded hover:bg-white/10 transition-colors">
+        <div>
+          <div className="text-sm font-bold text-white">{pred.month}</div>
+          <div className="text-xs text-gray-400">{pred.description}</div>
+        </div>
+        <span className={`px-2 py-1 rounded text-xs font-bold ${riskClass(pred.riskLevel)}`}>
+          {pred.riskLevel.toUpperCase()}
+        </span>
+      </div>
+    ))}
+  </div>
+);
+
+// AI analysis of the loaded data: streamed while running, with cancel and retry.
+const InsightsPanel: React.FC<InsightsPanelProps> = ({ insights, progress, analyzing, error, isSynthetic, onCancel, onRetry }) => {
+  const summary = analyzing ? progress?.summary ?? '' : insights?.summary ?? '';
+  const predictions = analyzing ? progress?.predictions ?? [] : insights?.predictions ?? [];
+
+  return (
+    <div className="glass-panel p-6 rounded-lg min-h-[400px] border-t-2 border-t-cyan-500 relative overflow-hidden">
+      <div className="absolute top-0 right-0 p-2 opacity-20">
+        <Cpu size={100} />
+      </div>
+
+      <h3 className="text-xl font-orbitron font-bold text-white mb-4 flex items-center">
+        <Activity className="mr-2 text-cyan-400" />
+        DEEP INTELLIGENCE
+      </h3>
+
+      {analyzing && (
+        <div className="relative flex items-center justify-between mb-4 text-sm font-mono text-cyan-500">
+          <span className="animate-pulse">{PHASE_LABELS[progress?.phase ?? 'thinking']}</span>
+          <button
+            onClick={onCancel}
+            className="flex items-center text-xs text-gray-400 hover:text-red-400 border border-gray-700 hover:border-red-500/50 rounded px-2 py-1"
+          >
+            <Square size={10} className="mr-1" /> CANCEL
+          </button>
+        </div>
+      )}
+
+      {analyzing && !summary && (
+        <div className="space-y-4">
+          <div className="space-y-4 animate-pulse">
+            <div className="h-4 bg-cyan-900/30 rounded w-3/4"></div>
+            <div className="h-4 bg-cyan-900/30 rounded w-full"></div>
+            <div className="h-4 bg-cyan-900/30 rounded w-5/6"></div>
+          </div>
+          {progress?.thought && (
+            <div className="text-xs text-gray-500 italic line-clamp-4">{progress.thought}</div>
+          )}
+        </div>
+      )}
+
+      {!analyzing && error && (
+        <div className="relative bg-red-900/20 border border-red-500/40 rounded p-4 text-sm">
+          <div className="flex items-start text-red-300">
+            <AlertTriangle size={16} className="mr-2 mt-0.5 shrink-0" />
+            <span>{error}</span>
+          </div>
+          {onRetry && (
+            <button
+              onClick={onRetry}
+              className="mt-3 flex items-center text-xs font-exo font-bold bg-cyan-600 hover:bg-cyan-500 text-black py-1 px-3 rounded"
+            >
+              <RotateCcw size={12} className="mr-1" /> RETRY
+            </button>
+          )}
+        </div>
+      )}
+
+      {summary ? (
+        <div className="space-y-6">
+          <div className="bg-black/40 p-4 rounded border-l-2 border-cyan-500">
+            <h4 className="text-cyan-400 text-sm font-bold mb-2 uppercase flex items-center justify-between">
+              Analysis Summary {!analyzing && <CacheBadge cachedAt={insights?.cachedAt} />}
+            </h4>
+            <p className="text-gray-300 text-sm leading-relaxed">
+              {summary}
+              {analyzing && progress?.phase === 'streaming' && <span className="animate-pulse text-cyan-400">▍</span>}
+            </p>
+          </div>
+
+          {(predictions.length > 0 || analyzing) && (
+            <div>
+              <h4 className="text-orange-400 text-sm font-bold mb-3 uppercase">Forward Risk Prediction</h4>
+              <PredictionList predictions={predictions} />
+              {analyzing && <div className="h-12 mt-3 bg-white/5 rounded animate-pulse"></div>}
+            </div>
+          )}
+        </div>
+      ) : !analyzing && !error && (
+        <div className="text-gray-500 text-center mt-10">
+          {isSynthetic ? 'AI analysis is disabled for synthetic data.' : 'Run analysis to generate predictions.'}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InsightsPanel;
@@ -0,0 +1,170 @@
+import React, { useRef, useState } from 'react';
+import { Settings, Upload, Download, Trash2 } from 'lucide-react';
+import { LlmProviderId, LlmSettings } from '../types';
+import { LLM_PROVIDERS, getLlmProvider, loadLlmSettings, resetLlmProvider, saveLlmSettings } from '../services/llmService';
+import { DEFAULT_OPENAI_BASE_URL } from '../services/openAiService';
+import { clearFixtures, countFixtures, exportFixtures, importFixtures } from '../services/fixtureService';
+import ApiKeySettings from './ApiKeySettings';
+
+const MODEL_PLACEHOLDERS: Record<LlmProviderId, string> = {
+  gemini: 'gemini-3-pro-preview',
+  openai: 'required, e.g. gpt-4o-mini or llama3.1',
+  fixture: 'replay'
+};
+
+// Header button opening the model settings: provider, model, endpoint, the
+// fixture store used for offline replay and personal API keys.
+const LlmSettingsPanel: React.FC = () => {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<LlmSettings>(loadLlmSettings);
+  const [fixtureCount, setFixtureCount] = useState(0);
+  const [status, setStatus] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const toggle = async () => {
+    if (!open) {
+      setDraft(loadLlmSettings());
+      setFixtureCount(await countFixtures());
+      setStatus(null);
+    }
+    setOpen(o => !o);
+  };
+
+  const update = (patch: Partial<LlmSettings>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const handleSave = async () => {
+    if (draft.provider === 'openai' && !draft.model) {
+      setStatus('Enter the model to request from the OpenAI-compatible endpoint.');
+      return;
+    }
+    saveLlmSettings(draft);
+    const provider = await getLlmProvider();
+    setStatus(`Using ${LLM_PROVIDERS.find(p => p.id === provider.id)?.name} · ${provider.model('insights')}`);
+  };
+
+  const handleImport = async (files: FileList | null) => {
+    const file = files?.[0];
+    if (!file) return;
+    try {
+      const count = await importFixtures(file);
+      setStatus(`Imported ${count} fixtures from ${file.name}`);
+      resetLlmProvider();
+    } catch (e) {
+      setStatus(`Import failed: ${e instanceof Error ? e.message : e}`);
+    }
+    setFixtureCount(await countFixtures());
+    if (inputRef.current) inputRef.current.value = '';
+  };
+
+  const handleExport = async () => {
+    const blob = new Blob([await exportFixtures()], { type: 'application/json;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.setAttribute('download', 'llm_fixtures.json');
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('Delete every recorded fixture?')) return;
+    await clearFixtures();
+    resetLlmProvider();
+    setFixtureCount(0);
+    setStatus('Fixtures cleared.');
+  };
+
+  const inputClass = 'w-full bg-black/50 border border-cyan-900 rounded px-2 py-1 text-xs text-cyan-100';
+
+  return (
+    <div className="relative">
+      <button
+        onClick={toggle}
+        className="p-2 glass-panel rounded-full hover:bg-cyan-900/40 text-cyan-400 transition-colors"
+        title="Settings"
+      >
+        <Settings size={20} />
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 max-h-[80vh] overflow-y-auto z-50 bg-black/95 border border-cyan-900 rounded-lg shadow-lg p-4 space-y-3 text-xs">
+          <div className="text-cyan-300 font-exo font-bold">AI MODEL</div>
+          <div className="space-y-1">
+            {LLM_PROVIDERS.map(p => (
+              <label key={p.id} className="flex items-start gap-2 cursor-pointer">
+                <input type="radio" name="llm-provider" checked={draft.provider === p.id} onChange={() => update({ provider: p.id })} className="mt-0.5" />
+                <span>
+                  <span className="text-white">{p.name}</span>
+                  <span className="block text-gray-500">{p.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          {draft.provider !== 'fixture' && (
+            <label className="block space-y-1">
+              <span className="text-gray-400">Model (analysis and chat)</span>
+              <input
+                type="text"
+                value={draft.model}
+                placeholder={MODEL_PLACEHOLDERS[draft.provider]}
+                onChange={e => update({ model: e.target.value.trim() })}
+                className={inputClass}
+              />
+            </label>
+          )}
+
+          {draft.provider === 'openai' && (
+            <label className="block space-y-1">
+              <span className="text-gray-400">Base URL (blank: server proxy, or {DEFAULT_OPENAI_BASE_URL} with a personal key)</span>
+              <input
+                type="text"
+                value={draft.baseUrl}
+                placeholder="http://localhost:11434/v1"
+                onChange={e => update({ baseUrl: e.target.value.trim() })}
+                className={inputClass}
+              />
+            </label>
+          )}
+
+          {draft.provider !== 'fixture' && (
+            <label className="flex items-center gap-2 text-gray-300">
+              <input type="checkbox" checked={draft.record} onChange={e => update({ record: e.target.checked })} />
+              Record responses for offline replay
+            </label>
+          )}
+
+          <button onClick={handleSave} className="w-full bg-cyan-600 hover:bg-cyan-500 text-black font-bold font-exo py-1 rounded">
+            SAVE
+          </button>
+
+          <div className="border-t border-cyan-900 pt-3 space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-gray-400">Replay fixtures</span>
+              <span className="font-mono text-gray-500">{fixtureCount} recorded</span>
+            </div>
+            <div className="flex gap-2">
+              <button onClick={() => inputRef.current?.click()} className="flex items-center text-gray-300 hover:text-cyan-300">
+                <Upload size={12} className="mr-1" /> Import
+              </button>
+              <button onClick={handleExport} disabled={fixtureCount === 0} className="flex items-center text-gray-300 hover:text-cyan-300 disabled:opacity-40">
+                <Download size={12} className="mr-1" /> Export
+              </button>
+              <button onClick={handleClear} disabled={fixtureCount === 0} className="flex items-center text-gray-500 hover:text-red-400 disabled:opacity-40 ml-auto">
+                <Trash2 size={12} className="mr-1" /> Clear
+              </button>
+              <input ref={inputRef} type="file" accept=".json,application/json" className="hidden" onChange={e => handleImport(e.target.files)} />
+            </div>
+          </div>
+
+          <ApiKeySettings onChange={message => { resetLlmProvider(); setStatus(message); }} />
+
+          {status && <div className="text-gray-400">{status}</div>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LlmSettingsPanel;
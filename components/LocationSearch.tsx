@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import { Search } from 'lucide-react';
+import { LocationData } from '../types';
+import { Place, searchPlaces, parseCoordinates } from '../services/geocodingService';
+
+interface LocationSearchProps {
+  onSelect: (location: LocationData) => void;
+}
+
+const LocationSearch: React.FC<LocationSearchProps> = ({ onSelect }) => {
+  const [query, setQuery] = useState('');
+  const [suggestions, setSuggestions] = useState<Place[]>([]);
+  const [highlighted, setHighlighted] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  // Debounced lookup; typed coordinates skip the gazetteer
+  useEffect(() => {
+    if (parseCoordinates(query)) {
+      setSuggestions([]);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const places = await searchPlaces(query);
+        if (!cancelled) {
+          setSuggestions(places);
+          setHighlighted(0);
+          setError(null);
+        }
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : String(e));
+      }
+    }, 150);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  const choose = (location: LocationData) => {
+    onSelect(location);
+    setQuery(location.name ?? '');
+    setSuggestions([]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlighted(h => (h + step + suggestions.length) % Math.max(suggestions.length, 1));
+    } else if (e.key === 'Enter') {
+      const coords = parseCoordinates(query);
+      if (coords) choose(coords);
+      else if (suggestions[highlighted]) choose(suggestions[highlighted]);
+    } else if (e.key === 'Escape') {
+      setSuggestions([]);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="glass-panel px-4 py-2 rounded-full flex items-center">
+        <Search size={16} className="text-cyan-400 mr-2" />
+        <input
+          type="text"
+          value={query}
+          placeholder="Search place or Lat, Lon..."
+          className="bg-transparent border-none outline-none text-sm text-white w-48"
+          onChange={e => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={() => setTimeout(() => setSuggestions([]), 150)}
+        />
+      </div>
+      {(suggestions.length > 0 || error) && (
+        <ul className="absolute z-50 mt-1 w-72 right-0 bg-black/95 border border-cyan-900 rounded text-sm shadow-lg">
+          {error && <li className="px-3 py-2 text-red-400 text-xs">{error}</li>}
+          {suggestions.map((place, i) => (
+            <li
+              key={`${place.name}-${place.lat}-${place.lon}`}
+              onMouseDown={() => choose(place)}
+              onMouseEnter={() => setHighlighted(i)}
+              className={`px-3 py-2 cursor-pointer flex justify-between ${i === highlighted ? 'bg-cyan-900/50' : ''}`}
+            >
+              <span>{place.name}</span>
+              <span className="text-xs text-gray-500 font-mono">{place.lat.toFixed(1)}, {place.lon.toFixed(1)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default LocationSearch;
@@ -1,101 +1,437 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import * as d3 from 'd3';
+import { geoRobinson } from 'd3-geo-projection';
 import { feature } from 'topojson-client';
-import worldData from 'world-atlas/countries-110m.json'; // Simulating import
+import worldData from 'world-atlas/countries-110m.json';
+import { Maximize } from 'lucide-react';
+import { AnalysisRegion, ComparisonSite, ClimateVariable, RegionalGrid } from '../types';
+import { bboxRegion, polygonRegion } from '../services/regionService';
+import { CLIMATE_VARIABLES } from '../constants';
+
+type ProjectionId = 'equirectangular' | 'robinson' | 'orthographic';
+
+export type DrawMode = 'bbox' | 'polygon';
+
+const PROJECTIONS: { id: ProjectionId; label: string; create: () => any }[] = [
+  { id: 'equirectangular', label: 'Equirectangular', create: () => d3.geoEquirectangular() },
+  { id: 'robinson', label: 'Robinson', create: () => geoRobinson() },
+  { id: 'orthographic', label: 'Globe', create: () => d3.geoOrthographic().clipAngle(90) }
+];
+
+const MAX_ZOOM = 12;
+const GLOBE_DRAG_SENSITIVITY = 0.25; // degrees of rotation per pixel at zoom 1
+
+const NO_PINS: ComparisonSite[] = [];
+
+const countries = (feature(worldData as any, (worldData as any).objects.countries) as any).features;
+const graticule = d3.geoGraticule10();
+
+// Sequential palettes suited to each kind of variable
+const overlayInterpolator = (variable: ClimateVariable) => {
+  if (variable.startsWith('T2M')) return (t: number) => d3.interpolateRdYlBu(1 - t);
+  if (variable === 'PRECTOTCORR' || variable.startsWith('GWET') || variable === 'RH2M') return d3.interpolateBlues;
+  return d3.interpolateViridis;
+};
 
 interface MapVizProps {
   lat: number;
   lon: number;
   onLocationSelect: (lat: number, lon: number) => void;
+  pins?: ComparisonSite[]; // sites pinned for comparison
+  overlay?: RegionalGrid | null; // choropleth of a gridded variable
+  overlayVariables?: ClimateVariable[]; // variables that can be mapped
+  overlayVariable?: ClimateVariable | null;
+  onOverlayChange?: (variable: ClimateVariable | null) => void;
+  overlayStatus?: string | null; // loading or error message for the overlay
+  region?: AnalysisRegion | null; // outlined when an area analysis is active
+  drawMode?: DrawMode | null; // clicks place vertices instead of moving the target
+  onRegionDrawn?: (region: AnalysisRegion) => void;
+  onDrawCancel?: () => void;
 }
 
-const MapViz: React.FC<MapVizProps> = ({ lat, lon, onLocationSelect }) => {
+// The base map is drawn once per projection and size; markers and the
+// overlay redraw on their own. Flat projections zoom by transforming the map
+// group, so clicks are mapped back through the zoom transform before
+// projection.invert. The globe zooms by scaling and drags by rotating the
+// projection itself. While drawing, clicks collect [lon, lat] vertices: a
+// box closes on its second corner, a polygon when Finish is pressed.
+const MapViz: React.FC<MapVizProps> = ({
+  lat, lon, onLocationSelect, pins = NO_PINS, overlay = null,
+  overlayVariables = [], overlayVariable = null, onOverlayChange, overlayStatus,
+  region = null, drawMode = null, onRegionDrawn, onDrawCancel
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
   const svgRef = useRef<SVGSVGElement>(null);
+  const [projectionId, setProjectionId] = useState<ProjectionId>('equirectangular');
+  const [size, setSize] = useState<{ width: number; height: number }>({ width: 0, height: 0 });
+  const draft = useRef<number[][]>([]);
+  const [draftLength, setDraftLength] = useState(0);
+
+  // Latest props for the long-lived d3 handlers
+  const latest = useRef({ lat, lon, pins, overlay, region, drawMode, onLocationSelect, onRegionDrawn });
+  latest.current = { lat, lon, pins, overlay, region, drawMode, onLocationSelect, onRegionDrawn };
+
+  const renderer = useRef<{
+    drawMarkers: () => void;
+    drawOverlay: () => void;
+    drawRegion: () => void;
+    focusTarget: () => void;
+    resetView: () => void;
+  } | null>(null);
 
   useEffect(() => {
-    if (!svgRef.current) return;
+    if (!containerRef.current) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: Math.round(entry.contentRect.width), height: Math.round(entry.contentRect.height) });
+    });
+    observer.observe(containerRef.current);
+    return () => observer.disconnect();
+  }, []);
 
-    const width = svgRef.current.clientWidth;
-    const height = svgRef.current.clientHeight;
+  // Base map, zoom behaviour and click handling
+  useEffect(() => {
+    if (!svgRef.current || size.width === 0 || size.height === 0) return;
+    const { width, height } = size;
     const svg = d3.select(svgRef.current);
-    
-    svg.selectAll("*").remove(); // Clear previous
-
-    // Projection
-    const projection = d3.geoEquirectangular()
-      .scale(width / 6.3) // Adjust scale to fit
-      .translate([width / 2, height / 2]);
+    svg.selectAll('*').remove();
+    svg.on('.zoom', null).on('click', null);
 
+    const isGlobe = projectionId === 'orthographic';
+    const projection = PROJECTIONS.find(p => p.id === projectionId)!.create();
+    if (isGlobe) projection.rotate([-latest.current.lon, -latest.current.lat]);
+    projection.fitExtent([[4, 4], [width - 4, height - 4]], { type: 'Sphere' });
+    const baseScale = projection.scale();
     const path = d3.geoPath().projection(projection);
 
-    // Fetch GeoJSON (using a reliable CDN for topojson/geojson)
-    fetch('https://unpkg.com/world-atlas@2.0.2/countries-110m.json')
-      .then(response => response.json())
-      .then(topology => {
-        const countries = feature(topology, topology.objects.countries);
-
-        // Draw Map
-        const g = svg.append('g');
-
-        g.selectAll('path')
-          .data((countries as any).features)
-          .enter().append('path')
-          .attr('d', path as any)
-          .attr('fill', '#0a192f')
-          .attr('stroke', '#1e3a8a')
-          .attr('stroke-width', 0.5)
-          .style('cursor', 'pointer')
-          .on('mouseover', function() {
-            d3.select(this).attr('fill', '#112240');
-          })
-          .on('mouseout', function() {
-            d3.select(this).attr('fill', '#0a192f');
-          })
-          .on('click', (event, d) => {
-            const [x, y] = d3.pointer(event);
-            const coords = projection.invert?.([x, y]);
-            if (coords) {
-               onLocationSelect(coords[1], coords[0]);
-            }
-          });
-
-        // Draw Selected Point
-        if (lat && lon) {
-          const coords = projection([lon, lat]);
-          if (coords) {
-             // Pulse effect
-             g.append('circle')
-              .attr('cx', coords[0])
-              .attr('cy', coords[1])
-              .attr('r', 8)
-              .attr('fill', 'rgba(0, 240, 255, 0.3)')
-              .append('animate')
-              .attr('attributeName', 'r')
-              .attr('from', 4)
-              .attr('to', 15)
-              .attr('dur', '1.5s')
-              .attr('repeatCount', 'indefinite');
-
-             g.append('circle')
-              .attr('cx', coords[0])
-              .attr('cy', coords[1])
-              .attr('r', 4)
-              .attr('fill', '#00f0ff');
+    let transform = d3.zoomIdentity;
+
+    const g = svg.append('g');
+    const sphere = g.append('path')
+      .datum({ type: 'Sphere' })
+      .attr('fill', '#020617')
+      .attr('stroke', '#1e3a8a')
+      .attr('stroke-width', 0.5)
+      .attr('vector-effect', 'non-scaling-stroke');
+    const grid = g.append('path')
+      .datum(graticule)
+      .attr('fill', 'none')
+      .attr('stroke', '#1e293b')
+      .attr('stroke-width', 0.5)
+      .attr('vector-effect', 'non-scaling-stroke');
+    const land = g.append('g').selectAll('path')
+      .data(countries)
+      .enter().append('path')
+      .attr('fill', '#0a192f')
+      .attr('stroke', '#1e3a8a')
+      .attr('stroke-width', 0.5)
+      .attr('vector-effect', 'non-scaling-stroke')
+      .style('cursor', 'pointer')
+      .on('mouseover', function() {
+        d3.select(this).attr('fill', '#112240');
+      })
+      .on('mouseout', function() {
+        d3.select(this).attr('fill', '#0a192f');
+      });
+    const overlayLayer = g.append('g').attr('opacity', 0.75).style('pointer-events', 'none');
+    const regionLayer = g.append('g').style('pointer-events', 'none');
+    const markerLayer = g.append('g').style('pointer-events', 'none');
+
+    // Markers keep their screen size whatever the zoom level
+    const visible = (pointLon: number, pointLat: number) => {
+      if (!isGlobe) return true;
+      const [rotLon, rotLat] = projection.rotate();
+      return d3.geoDistance([pointLon, pointLat], [-rotLon, -rotLat]) < Math.PI / 2;
+    };
+    const markerTransform = (pointLon: number, pointLat: number) => {
+      const xy = projection([pointLon, pointLat]);
+      if (!xy || !visible(pointLon, pointLat)) return null;
+      const k = isGlobe ? 1 : transform.k;
+      return `translate(${xy[0]},${xy[1]}) scale(${1 / k})`;
+    };
+
+    const drawMarkers = () => {
+      markerLayer.selectAll('*').remove();
+      const { lat: targetLat, lon: targetLon, pins: currentPins } = latest.current;
+
+      currentPins.forEach(pin => {
+        const at = markerTransform(pin.lon, pin.lat);
+        if (!at) return;
+        const marker = markerLayer.append('g').attr('transform', at);
+        marker.append('circle')
+          .attr('r', 5)
+          .attr('fill', pin.color)
+          .attr('stroke', '#000')
+          .attr('stroke-width', 1);
+        marker.append('text')
+          .attr('x', 7)
+          .attr('y', 3)
+          .attr('fill', pin.color)
+          .attr('font-size', 10)
+          .attr('font-family', 'monospace')
+          .text(pin.name);
+      });
+
+      const at = markerTransform(targetLon, targetLat);
+      if (!at) return;
+      const target = markerLayer.append('g').attr('transform', at);
+      // Pulse effect
+      target.append('circle')
+        .attr('r', 8)
+        .attr('fill', 'rgba(0, 240, 255, 0.3)')
+        .append('animate')
+        .attr('attributeName', 'r')
+        .attr('from', 4)
+        .attr('to', 15)
+        .attr('dur', '1.5s')
+        .attr('repeatCount', 'indefinite');
+      target.append('circle')
+        .attr('r', 4)
+        .attr('fill', '#00f0ff');
+    };
+
+    // Each cell is drawn as a lon/lat rectangle so it follows the projection
+    const drawOverlay = () => {
+      overlayLayer.selectAll('*').remove();
+      const field = latest.current.overlay;
+      if (!field) return;
+      const [dLon, dLat] = field.cellSize;
+      const extent = d3.extent(field.cells, (c: { value: number }) => c.value) as [number, number];
+      const color = d3.scaleSequential(overlayInterpolator(field.variable)).domain(extent);
+      overlayLayer.selectAll('path')
+        .data(field.cells)
+        .enter().append('path')
+        .attr('d', (c: { lat: number; lon: number }) => {
+          const [w, s, e, n] = [c.lon - dLon / 2, c.lat - dLat / 2, c.lon + dLon / 2, c.lat + dLat / 2];
+          return path({ type: 'Polygon', coordinates: [[[w, s], [w, n], [e, n], [e, s], [w, s]]] });
+        })
+        .attr('fill', (c: { value: number }) => color(c.value));
+    };
+
+    // Active region outline plus the vertices of a shape being drawn
+    const drawRegion = () => {
+      regionLayer.selectAll('*').remove();
+      const { region: active } = latest.current;
+      if (active) {
+        regionLayer.append('path')
+          .attr('d', path(active.geometry))
+          .attr('fill', 'rgba(250, 204, 21, 0.12)')
+          .attr('stroke', '#facc15')
+          .attr('stroke-width', 1.5)
+          .attr('vector-effect', 'non-scaling-stroke');
+      }
+      const vertices = draft.current;
+      if (vertices.length > 1) {
+        const [[w, s], [e, n]] = [vertices[0], vertices[vertices.length - 1]];
+        const outline = latest.current.drawMode === 'bbox'
+          ? { type: 'Polygon', coordinates: [[[w, s], [w, n], [e, n], [e, s], [w, s]]] }
+          : { type: 'LineString', coordinates: vertices };
+        regionLayer.append('path')
+          .attr('d', path(outline))
+          .attr('fill', 'none')
+          .attr('stroke', '#facc15')
+          .attr('stroke-dasharray', '4 3')
+          .attr('vector-effect', 'non-scaling-stroke');
+      }
+      vertices.forEach(([vLon, vLat]) => {
+        const at = markerTransform(vLon, vLat);
+        if (at) regionLayer.append('circle').attr('transform', at).attr('r', 3).attr('fill', '#facc15');
+      });
+    };
+
+    const drawGeometry = () => {
+      sphere.attr('d', path);
+      grid.attr('d', path);
+      land.attr('d', path);
+    };
+
+    drawGeometry();
+    drawOverlay();
+    drawRegion();
+    drawMarkers();
+
+    let last = d3.zoomIdentity;
+    const zoom = d3.zoom()
+      .scaleExtent([1, MAX_ZOOM])
+      .on('zoom', (event: any) => {
+        if (isGlobe) {
+          const t = event.transform;
+          if (t.k === last.k) {
+            // Dragging rotates the globe instead of panning it
+            const [rotLon, rotLat, roll] = projection.rotate();
+            const step = GLOBE_DRAG_SENSITIVITY / t.k;
+            projection.rotate([rotLon + (t.x - last.x) * step, Math.max(-90, Math.min(90, rotLat - (t.y - last.y) * step)), roll]);
           }
+          projection.scale(baseScale * t.k);
+          last = t;
+          drawGeometry();
+          drawOverlay();
+          drawRegion();
+          drawMarkers();
+        } else {
+          transform = event.transform;
+          g.attr('transform', transform);
+          drawRegion();
+          drawMarkers();
         }
       });
+    if (!isGlobe) zoom.translateExtent([[0, 0], [width, height]]);
+    svg.call(zoom);
+
+    // Screen -> map coordinates: undo the zoom transform, then the projection
+    svg.on('click', (event: MouseEvent) => {
+      const [x, y] = transform.invert(d3.pointer(event, svg.node()));
+      const coords = projection.invert?.([x, y]);
+      if (!coords || !Number.isFinite(coords[0]) || !Number.isFinite(coords[1])) return;
+      if (Math.abs(coords[1]) > 90 || Math.abs(coords[0]) > 180 || !visible(coords[0], coords[1])) return;
+      const { drawMode: mode, onRegionDrawn: onDrawn } = latest.current;
+      if (!mode) {
+        latest.current.onLocationSelect(coords[1], coords[0]);
+        return;
+      }
+      draft.current = [...draft.current, coords];
+      if (mode === 'bbox' && draft.current.length === 2) {
+        const [[x0, y0], [x1, y1]] = draft.current;
+        draft.current = [];
+        onDrawn?.(bboxRegion(Math.min(x0, x1), Math.min(y0, y1), Math.max(x0, x1), Math.max(y0, y1)));
+      }
+      setDraftLength(draft.current.length);
+      drawRegion();
+    });
+
+    renderer.current = {
+      drawMarkers,
+      drawOverlay,
+      drawRegion,
+      // The globe turns to face a new target; flat maps leave the view alone
+      focusTarget: () => {
+        if (!isGlobe) return;
+        const [, , roll] = projection.rotate();
+        projection.rotate([-latest.current.lon, -latest.current.lat, roll]);
+        drawGeometry();
+        drawOverlay();
+        drawRegion();
+      },
+      resetView: () => {
+        last = d3.zoomIdentity;
+        svg.transition().duration(400).call(zoom.transform, d3.zoomIdentity);
+      }
+    };
+    return () => {
+      renderer.current = null;
+    };
+  }, [projectionId, size]);
+
+  useEffect(() => {
+    renderer.current?.focusTarget();
+  }, [lat, lon]);
+
+  useEffect(() => {
+    renderer.current?.drawMarkers();
+  }, [lat, lon, pins]);
+
+  useEffect(() => {
+    renderer.current?.drawOverlay();
+  }, [overlay]);
+
+  // Switching or leaving draw mode discards an unfinished shape
+  useEffect(() => {
+    draft.current = [];
+    setDraftLength(0);
+    renderer.current?.drawRegion();
+  }, [drawMode, region]);
 
-  }, [lat, lon, onLocationSelect]);
+  const finishPolygon = () => {
+    if (draft.current.length < 3) return;
+    const vertices = draft.current;
+    draft.current = [];
+    setDraftLength(0);
+    onRegionDrawn?.(polygonRegion(vertices));
+  };
+
+  // Legend stops sampled from the same palette as the cells
+  const legend = overlay && (() => {
+    const values = overlay.cells.map(c => c.value);
+    const interpolate = overlayInterpolator(overlay.variable);
+    const gradient = `linear-gradient(to right, ${d3.range(0, 1.01, 0.25).map((t: number) => interpolate(t)).join(', ')})`;
+    return { min: Math.min(...values), max: Math.max(...values), gradient };
+  })();
 
   return (
-    <div className="w-full h-full relative overflow-hidden rounded-lg border border-cyan-900 bg-black/40 shadow-inner">
-      <svg ref={svgRef} className="w-full h-full" />
+    <div ref={containerRef} className="w-full h-full relative overflow-hidden rounded-lg border border-cyan-900 bg-black/40 shadow-inner">
+      <svg ref={svgRef} className="w-full h-full cursor-crosshair" />
       <div className="absolute top-4 left-4 font-mono text-xs text-cyan-500 bg-black/80 p-2 border border-cyan-900 rounded">
         LAT: {lat.toFixed(4)} <br/>
         LON: {lon.toFixed(4)}
       </div>
+
+      <div className="absolute top-4 right-4 flex flex-col items-end gap-2 text-xs">
+        <div className="flex items-center gap-2">
+          <select
+            value={projectionId}
+            onChange={e => setProjectionId(e.target.value as ProjectionId)}
+            className="bg-black/80 border border-cyan-900 rounded px-2 py-1 text-cyan-300"
+            title="Projection"
+          >
+            {PROJECTIONS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+          </select>
+          <button
+            onClick={() => renderer.current?.resetView()}
+            className="bg-black/80 border border-cyan-900 rounded p-1 text-cyan-300 hover:bg-cyan-900/40"
+            title="Reset view"
+          >
+            <Maximize size={14} />
+          </button>
+        </div>
+        {onOverlayChange && (
+          <select
+            value={overlayVariable ?? ''}
+            onChange={e => onOverlayChange((e.target.value || null) as ClimateVariable | null)}
+            className="bg-black/80 border border-cyan-900 rounded px-2 py-1 text-cyan-300"
+            title="Overlay"
+          >
+            <option value="">No overlay</option>
+            {overlayVariables.map(v => <option key={v} value={v}>{CLIMATE_VARIABLES[v].label}</option>)}
+          </select>
+        )}
+        {overlayStatus && <div className="bg-black/80 border border-cyan-900 rounded px-2 py-1 text-gray-400 max-w-xs">{overlayStatus}</div>}
+      </div>
+
+      {drawMode && (
+        <div className="absolute bottom-4 right-4 flex items-center gap-2 bg-black/80 border border-yellow-700 rounded px-3 py-2 text-xs text-yellow-300">
+          <span>
+            {drawMode === 'bbox'
+              ? draftLength === 0 ? 'Click the first corner' : 'Click the opposite corner'
+              : `Click to add vertices (${draftLength})`}
+          </span>
+          {drawMode === 'polygon' && (
+            <button
+              onClick={finishPolygon}
+              disabled={draftLength < 3}
+              className="px-2 py-0.5 border border-yellow-600 rounded hover:bg-yellow-900/40 disabled:opacity-40"
+            >
+              Finish
+            </button>
+          )}
+          <button onClick={onDrawCancel} className="px-2 py-0.5 border border-gray-600 rounded text-gray-300 hover:bg-gray-800">
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {overlay && legend && (
+        <div className="absolute bottom-4 left-4 bg-black/80 border border-cyan-900 rounded p-2 text-[10px] font-mono text-gray-300 w-48">
+          <div className="mb-1">{CLIMATE_VARIABLES[overlay.variable].label} · {overlay.period}</div>
+          <div className="h-2 rounded" style={{ background: legend.gradient }}></div>
+          <div className="flex justify-between mt-1">
+            <span>{legend.min.toFixed(1)}</span>
+            <span>{overlay.unit}</span>
+            <span>{legend.max.toFixed(1)}</span>
+          </div>
+          <div className="text-gray-500 mt-1">{overlay.source}</div>
+        </div>
+      )}
     </div>
   );
 };
 
-export default MapViz;
\ No newline at end of file
+export default MapViz;
@@ -0,0 +1,113 @@
+import React, { useRef, useState } from 'react';
+import { Upload, Trash2 } from 'lucide-react';
+import { NdviSampling } from '../types';
+import { importNdviFiles, clearImportedNdvi, DEFAULT_NDVI_SAMPLING, NDVI_MATCH_KM } from '../services/ndviService';
+
+interface NdviImporterProps {
+  lat: number;
+  lon: number;
+  importedCount: number;
+  onChange: () => void; // composites were imported or cleared
+}
+
+const NdviImporter: React.FC<NdviImporterProps> = ({ lat, lon, importedCount, onChange }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [sampling, setSampling] = useState<NdviSampling>(DEFAULT_NDVI_SAMPLING);
+  const [status, setStatus] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [dragging, setDragging] = useState(false);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setBusy(true);
+    const results = await importNdviFiles(Array.from(files), lat, lon, sampling);
+    setStatus(results.map(({ file, summary, error }) => {
+      if (!summary) return `${file}: ${error}`;
+      const far = summary.distanceKm > NDVI_MATCH_KM ? `, site is ${summary.distanceKm.toFixed(0)} km from the selected point` : '';
+      return `${file}: ${summary.imported} ${summary.product} composites (${summary.rejected} failed QA${far})`;
+    }).join(' · '));
+    setBusy(false);
+    if (inputRef.current) inputRef.current.value = '';
+    onChange();
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('Remove all imported NDVI composites?')) return;
+    await clearImportedNdvi();
+    setStatus('Imported NDVI cleared.');
+    onChange();
+  };
+
+  return (
+    <div
+      className={`glass-panel p-4 rounded-lg text-sm ${dragging ? 'border border-green-500' : ''}`}
+      onDragOver={e => { e.preventDefault(); setDragging(true); }}
+      onDragLeave={() => setDragging(false)}
+      onDrop={e => { e.preventDefault(); setDragging(false); handleFiles(e.dataTransfer.files); }}
+    >
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-green-400 font-exo font-bold">Vegetation Index</span>
+        <span className="text-xs text-gray-400 font-mono">{importedCount} composites</span>
+        <button
+          onClick={() => inputRef.current?.click()}
+          disabled={busy}
+          className="flex items-center text-xs bg-green-900/40 hover:bg-green-900/70 text-green-200 px-3 py-1 rounded border border-green-800 disabled:opacity-50"
+        >
+          <Upload size={12} className="mr-1" /> {busy ? 'Importing...' : 'Import MODIS CSV / GeoTIFF'}
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept=".csv,.txt,.tif,.tiff"
+          className="hidden"
+          onChange={e => handleFiles(e.target.files)}
+        />
+        {importedCount > 0 && (
+          <button onClick={handleClear} className="text-gray-500 hover:text-red-400" title="Clear imported NDVI">
+            <Trash2 size={14} />
+          </button>
+        )}
+
+        <div className="flex items-center gap-2 ml-auto text-xs text-gray-400">
+          SAMPLE
+          <select
+            value={sampling.mode}
+            onChange={e => setSampling({ ...sampling, mode: e.target.value as NdviSampling['mode'] })}
+            className="bg-black/50 border border-cyan-900 rounded px-2 py-1"
+          >
+            <option value="point">Pixel at point</option>
+            <option value="buffer">Buffer mean</option>
+          </select>
+          {sampling.mode === 'buffer' && (
+            <>
+              <input
+                type="number"
+                min={0.1}
+                step={0.1}
+                value={sampling.bufferKm}
+                onChange={e => setSampling({ ...sampling, bufferKm: Number(e.target.value) })}
+                className="bg-black/50 border border-cyan-900 rounded px-2 py-1 w-20 text-center"
+              />
+              km
+            </>
+          )}
+          <label className="flex items-center gap-1 ml-2">
+            <input
+              type="checkbox"
+              checked={sampling.allowMarginal}
+              onChange={e => setSampling({ ...sampling, allowMarginal: e.target.checked })}
+            />
+            Keep marginal QA
+          </label>
+        </div>
+      </div>
+      <div className="text-xs text-gray-500 mt-2">
+        ORNL DAAC subset CSVs keep their own site; GeoTIFFs (EPSG:4326, dated by file name) are sampled at the selected point.
+      </div>
+      {status && <div className="text-xs text-gray-400 mt-2">{status}</div>}
+    </div>
+  );
+};
+
+export default NdviImporter;
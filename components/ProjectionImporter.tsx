@@ -0,0 +1,86 @@
+import React, { useRef, useState } from 'react';
+import { Upload, Trash2 } from 'lucide-react';
+import { importProjectionFiles, clearImportedProjections, PROJECTION_MATCH_KM, SSP_SCENARIOS } from '../services/projectionService';
+
+interface ProjectionImporterProps {
+  lat: number;
+  lon: number;
+  importedCount: number; // model runs in storage, all sites
+  matchedModels: number; // models with a scenario run near the point
+  onChange: () => void; // runs were imported or cleared
+}
+
+const experimentLabel = (id: string) => SSP_SCENARIOS.find(s => s.id === id)?.label ?? id;
+
+const ProjectionImporter: React.FC<ProjectionImporterProps> = ({ lat, lon, importedCount, matchedModels, onChange }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [dragging, setDragging] = useState(false);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setBusy(true);
+    const results = await importProjectionFiles(Array.from(files), lat, lon);
+    setStatus(results.map(({ file, summary, error }) => {
+      if (!summary) return `${file}: ${error}`;
+      const far = summary.distanceKm > PROJECTION_MATCH_KM ? `, site is ${summary.distanceKm.toFixed(0)} km from the selected point` : '';
+      return `${file}: ${summary.models.join(', ')} ${summary.experiments.map(experimentLabel).join(', ')}, ` +
+        `${summary.years[0]}–${summary.years[1]} (${summary.series} series${far})`;
+    }).join(' · '));
+    setBusy(false);
+    if (inputRef.current) inputRef.current.value = '';
+    onChange();
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('Remove all imported climate projections?')) return;
+    await clearImportedProjections();
+    setStatus('Imported projections cleared.');
+    onChange();
+  };
+
+  return (
+    <div
+      className={`glass-panel p-4 rounded-lg text-sm ${dragging ? 'border border-orange-500' : ''}`}
+      onDragOver={e => { e.preventDefault(); setDragging(true); }}
+      onDragLeave={() => setDragging(false)}
+      onDrop={e => { e.preventDefault(); setDragging(false); handleFiles(e.dataTransfer.files); }}
+    >
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-orange-400 font-exo font-bold">Climate Projections (CMIP6)</span>
+        <span className="text-xs text-gray-400 font-mono">
+          {importedCount} series · {matchedModels} model{matchedModels === 1 ? '' : 's'} here
+        </span>
+        <button
+          onClick={() => inputRef.current?.click()}
+          disabled={busy}
+          className="flex items-center text-xs bg-orange-900/40 hover:bg-orange-900/70 text-orange-200 px-3 py-1 rounded border border-orange-800 disabled:opacity-50"
+        >
+          <Upload size={12} className="mr-1" /> {busy ? 'Importing...' : 'Import NEX-GDDP CSV'}
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept=".csv,.txt"
+          className="hidden"
+          onChange={e => handleFiles(e.target.files)}
+        />
+        {importedCount > 0 && (
+          <button onClick={handleClear} className="text-gray-500 hover:text-red-400" title="Clear imported projections">
+            <Trash2 size={14} />
+          </button>
+        )}
+      </div>
+      <div className="text-xs text-gray-500 mt-2">
+        Daily or monthly point extracts for historical, SSP1-2.6, SSP2-4.5 and SSP5-8.5 runs, one file per model and
+        scenario (named as in CMIP6) or with model and scenario columns. Extracts without coordinates are taken to be for
+        the selected point.
+      </div>
+      {status && <div className="text-xs text-gray-400 mt-2">{status}</div>}
+    </div>
+  );
+};
+
+export default ProjectionImporter;
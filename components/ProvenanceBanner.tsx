@@ -0,0 +1,43 @@
+import React from 'react';
+import { AlertTriangle, Info } from 'lucide-react';
+import { DataProvenance } from '../types';
+
+interface ProvenanceBannerProps {
+  provenance: DataProvenance;
+}
+
+// Loud for synthetic data, quieter for partial data; silent for clean live/cached.
+const ProvenanceBanner: React.FC<ProvenanceBannerProps> = ({ provenance }) => {
+  if (provenance.status === 'synthetic') {
+    return (
+      <div className="p-4 rounded-lg border-2 border-red-500 bg-red-900/30 text-red-200 flex items-start">
+        <AlertTriangle className="mr-3 flex-shrink-0 text-red-400" />
+        <div>
+          <div className="font-orbitron font-bold text-red-300">SYNTHETIC DATA — NOT OBSERVATIONS</div>
+          <div className="text-sm mt-1">
+            Charts and statistics below are generated by {provenance.source}. Do not cite or export them as real
+            measurements. AI analysis is disabled for this dataset.
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (provenance.status === 'partial') {
+    return (
+      <div className="p-3 rounded-lg border border-yellow-600/50 bg-yellow-900/20 text-yellow-200 text-sm flex items-start">
+        <Info size={18} className="mr-2 flex-shrink-0 text-yellow-400 mt-0.5" />
+        <div>
+          <span className="font-bold">Partial data from {provenance.source}:</span>
+          <ul className="list-disc ml-5 mt-1 text-xs text-yellow-100/80">
+            {provenance.notes.map((note, i) => <li key={i}>{note}</li>)}
+          </ul>
+        </div>
+      </div>
+    );
+  }
+
+  return null;
+};
+
+export default ProvenanceBanner;
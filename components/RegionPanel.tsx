@@ -0,0 +1,89 @@
+import React, { useRef, useState } from 'react';
+import { Square, Hexagon, Upload, X } from 'lucide-react';
+import { AnalysisRegion } from '../types';
+import { DrawMode } from './MapViz';
+import { parseBoundaryFile, regionAreaKm2, sampleRegion, MAX_REGION_SAMPLES } from '../services/regionService';
+
+interface RegionPanelProps {
+  region: AnalysisRegion | null;
+  drawMode: DrawMode | null;
+  onDrawModeChange: (mode: DrawMode | null) => void;
+  onRegionChange: (region: AnalysisRegion | null) => void;
+}
+
+const RegionPanel: React.FC<RegionPanelProps> = ({ region, drawMode, onDrawModeChange, onRegionChange }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    try {
+      onRegionChange(await parseBoundaryFile(files[0]));
+      onDrawModeChange(null);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+    if (inputRef.current) inputRef.current.value = '';
+  };
+
+  const modeButton = (mode: DrawMode, label: string, icon: React.ReactNode) => (
+    <button
+      onClick={() => onDrawModeChange(drawMode === mode ? null : mode)}
+      className={`flex items-center text-xs px-3 py-1 rounded border ${
+        drawMode === mode
+          ? 'bg-yellow-500 text-black border-yellow-400'
+          : 'bg-yellow-900/30 hover:bg-yellow-900/60 text-yellow-200 border-yellow-800'
+      }`}
+    >
+      {icon} {label}
+    </button>
+  );
+
+  const samples = region ? sampleRegion(region).length : 0;
+
+  return (
+    <div className="glass-panel p-4 rounded-lg text-sm">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-yellow-400 font-exo font-bold">Area Analysis</span>
+        {modeButton('bbox', 'Draw box', <Square size={12} className="mr-1" />)}
+        {modeButton('polygon', 'Draw polygon', <Hexagon size={12} className="mr-1" />)}
+        <button
+          onClick={() => inputRef.current?.click()}
+          className="flex items-center text-xs bg-yellow-900/30 hover:bg-yellow-900/60 text-yellow-200 px-3 py-1 rounded border border-yellow-800"
+        >
+          <Upload size={12} className="mr-1" /> Upload boundary
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".geojson,.json,.kml,.zip,.shp"
+          className="hidden"
+          onChange={e => handleFile(e.target.files)}
+        />
+
+        {region ? (
+          <div className="flex items-center gap-2 ml-auto text-xs">
+            <span className="text-white font-exo">{region.name}</span>
+            <span className="text-gray-400 font-mono">
+              {Math.round(regionAreaKm2(region)).toLocaleString()} km² · {samples} sample point{samples === 1 ? '' : 's'}
+            </span>
+            <button onClick={() => onRegionChange(null)} className="text-gray-500 hover:text-red-400" title="Back to single-point analysis">
+              <X size={14} />
+            </button>
+          </div>
+        ) : (
+          <span className="ml-auto text-xs text-gray-500">Single point · GeoJSON, KML or zipped shapefile</span>
+        )}
+      </div>
+      {region && (
+        <p className="text-xs text-gray-500 mt-2">
+          Series are area-weighted means of up to {MAX_REGION_SAMPLES} grid points; charts shade the spread between them.
+        </p>
+      )}
+      {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
+    </div>
+  );
+};
+
+export default RegionPanel;
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { FileText, FileCode, Save, Trash2, X } from 'lucide-react';
+import { ReportSectionId, ReportTemplate } from '../types';
+import { REPORT_SECTIONS, deleteReportTemplate, loadReportTemplates, saveReportTemplate } from '../services/reportService';
+
+interface ReportDialogProps {
+  isSynthetic: boolean;
+  onGenerate: (template: ReportTemplate, format: 'pdf' | 'html') => Promise<void>;
+  onClose: () => void;
+}
+
+// Picks and edits a report template, then generates the PDF or HTML file.
+const ReportDialog: React.FC<ReportDialogProps> = ({ isSynthetic, onGenerate, onClose }) => {
+  const [templates, setTemplates] = useState<ReportTemplate[]>(loadReportTemplates);
+  const [draft, setDraft] = useState<ReportTemplate>(() => templates[0]);
+  const [busy, setBusy] = useState<'pdf' | 'html' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (patch: Partial<ReportTemplate>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const select = (id: string) => {
+    const template = templates.find(t => t.id === id);
+    if (template) setDraft(template);
+  };
+
+  // Sections keep their canonical order whichever way they are toggled
+  const toggleSection = (id: ReportSectionId) => {
+    const enabled = new Set(draft.sections);
+    if (enabled.has(id)) enabled.delete(id);
+    else enabled.add(id);
+    update({ sections: REPORT_SECTIONS.map(s => s.id).filter(s => enabled.has(s)) });
+  };
+
+  const handleSaveTemplate = () => {
+    const name = window.prompt('Template name', draft.builtIn ? `${draft.name} (custom)` : draft.name)?.trim();
+    if (!name) return;
+    const saved = saveReportTemplate({ ...draft, name });
+    setTemplates(loadReportTemplates());
+    setDraft(saved);
+  };
+
+  const handleDeleteTemplate = () => {
+    if (draft.builtIn || !window.confirm(`Delete the "${draft.name}" template?`)) return;
+    deleteReportTemplate(draft.id);
+    const remaining = loadReportTemplates();
+    setTemplates(remaining);
+    setDraft(remaining[0]);
+  };
+
+  const handleGenerate = async (format: 'pdf' | 'html') => {
+    setBusy(format);
+    setError(null);
+    try {
+      await onGenerate(draft, format);
+    } catch (e) {
+      console.error("Report Error", e);
+      setError(`Could not generate the report: ${e instanceof Error ? e.message : e}`);
+    }
+    setBusy(null);
+  };
+
+  const inputClass = 'w-full bg-black/50 border border-cyan-900 rounded px-2 py-1 text-sm text-cyan-100';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="glass-panel bg-black/95 rounded-lg w-full max-w-lg p-6 space-y-4 text-sm" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-exo font-bold text-white">Intelligence Report</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-white" title="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        {isSynthetic && (
+          <div className="bg-red-900/30 border border-red-500/40 text-red-300 rounded p-2 text-xs">
+            This dataset is synthetic; every page of the report will be labelled SYNTHETIC.
+          </div>
+        )}
+
+        <div className="flex items-end gap-2">
+          <label className="flex-1 space-y-1">
+            <span className="text-gray-400 text-xs">Template</span>
+            <select value={draft.id} onChange={e => select(e.target.value)} className={inputClass}>
+              {templates.map(t => <option key={t.id} value={t.id}>{t.name}{t.builtIn ? '' : ' (custom)'}</option>)}
+            </select>
+          </label>
+          <button onClick={handleSaveTemplate} className="flex items-center text-xs text-gray-300 hover:text-cyan-300 py-1.5" title="Save these settings as a template">
+            <Save size={14} className="mr-1" /> Save
+          </button>
+          {!draft.builtIn && (
+            <button onClick={handleDeleteTemplate} className="flex items-center text-xs text-gray-500 hover:text-red-400 py-1.5">
+              <Trash2 size={14} />
+            </button>
+          )}
+        </div>
+
+        <label className="block space-y-1">
+          <span className="text-gray-400 text-xs">Title ({'{location}'} is replaced with the place name)</span>
+          <input type="text" value={draft.title} onChange={e => update({ title: e.target.value })} className={inputClass} />
+        </label>
+
+        <div className="flex gap-2">
+          <label className="flex-1 space-y-1">
+            <span className="text-gray-400 text-xs">Issuing office</span>
+            <input
+              type="text"
+              value={draft.organization}
+              placeholder="e.g. District Disaster Management Authority"
+              onChange={e => update({ organization: e.target.value })}
+              className={inputClass}
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="text-gray-400 text-xs">Paper</span>
+            <select value={draft.pageSize} onChange={e => update({ pageSize: e.target.value as ReportTemplate['pageSize'] })} className={inputClass}>
+              <option value="a4">A4</option>
+              <option value="letter">Letter</option>
+            </select>
+          </label>
+        </div>
+
+        <div>
+          <span className="text-gray-400 text-xs">Sections</span>
+          <div className="grid grid-cols-2 gap-1 mt-1">
+            {REPORT_SECTIONS.map(s => (
+              <label key={s.id} className="flex items-center gap-2 text-gray-300 cursor-pointer">
+                <input type="checkbox" checked={draft.sections.includes(s.id)} onChange={() => toggleSection(s.id)} />
+                {s.label}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {error && <div className="text-red-400 text-xs">{error}</div>}
+
+        <div className="flex gap-3">
+          <button
+            onClick={() => handleGenerate('pdf')}
+            disabled={busy !== null || draft.sections.length === 0}
+            className="flex-1 flex items-center justify-center bg-cyan-600 hover:bg-cyan-500 disabled:opacity-50 text-black font-exo font-bold py-2 rounded"
+          >
+            <FileText size={16} className="mr-2" /> {busy === 'pdf' ? 'GENERATING...' : 'DOWNLOAD PDF'}
+          </button>
+          <button
+            onClick={() => handleGenerate('html')}
+            disabled={busy !== null || draft.sections.length === 0}
+            className="flex-1 flex items-center justify-center bg-gray-800 hover:bg-gray-700 disabled:opacity-50 text-cyan-400 border border-gray-700 font-exo font-bold py-2 rounded"
+          >
+            <FileCode size={16} className="mr-2" /> {busy === 'html' ? 'GENERATING...' : 'DOWNLOAD HTML'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReportDialog;
@@ -0,0 +1,131 @@
+import React, { useMemo } from 'react';
+import { ArrowRight, X } from 'lucide-react';
+import { AnalysisRun, Prediction } from '../types';
+import { CLIMATE_VARIABLES } from '../constants';
+import { diffRuns, snapshotLabel } from '../services/workspaceService';
+
+interface RunDiffViewProps {
+  before: AnalysisRun; // the earlier run
+  after: AnalysisRun;
+  onClose: () => void;
+}
+
+const fmt = (v: number | null, digits = 2) => (v === null ? '—' : v.toFixed(digits));
+
+const describePrediction = (p: Prediction | null) =>
+  p ? `${p.riskLevel} · ${p.predictedTemp.toFixed(1)}°C${p.predictedRainfall !== undefined ? ` · ${p.predictedRainfall.toFixed(1)} mm/day` : ''}` : 'none';
+
+// What changed between two runs of the same location.
+const RunDiffView: React.FC<RunDiffViewProps> = ({ before, after, onClose }) => {
+  const diff = useMemo(() => diffRuns(before.snapshot, after.snapshot), [before, after]);
+  const unchanged = diff.settings.length === 0 && diff.variables.every(v => v.changed === 0)
+    && diff.datesOnlyBefore === 0 && diff.datesOnlyAfter === 0 && diff.predictions.length === 0
+    && diff.calamitiesAdded.length === 0 && diff.calamitiesRemoved.length === 0 && !diff.summaryChanged;
+  const cell = 'px-2 py-1 text-left';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="glass-panel bg-black/95 rounded-lg w-full max-w-2xl max-h-full overflow-y-auto p-6 space-y-4 text-sm" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-exo font-bold text-white">Compare runs · {snapshotLabel(after.snapshot)}</h3>
+            <div className="text-xs text-gray-400 font-mono flex items-center gap-2">
+              {new Date(before.createdAt).toLocaleString()} <ArrowRight size={12} /> {new Date(after.createdAt).toLocaleString()}
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-white" title="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        {unchanged && <div className="text-gray-400 italic">The two runs are identical.</div>}
+
+        {diff.settings.length > 0 && (
+          <section>
+            <h4 className="text-cyan-400 font-exo text-xs mb-1">SETTINGS</h4>
+            <table className="w-full text-xs">
+              <tbody>
+                {diff.settings.map(s => (
+                  <tr key={s.label} className="border-t border-gray-800">
+                    <td className={`${cell} text-gray-400`}>{s.label}</td>
+                    <td className={`${cell} text-red-300`}>{s.before}</td>
+                    <td className={`${cell} text-green-300`}>{s.after}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+        )}
+
+        <section>
+          <h4 className="text-cyan-400 font-exo text-xs mb-1">DATA</h4>
+          {diff.variables.length === 0 ? (
+            <div className="text-gray-500 italic text-xs">The runs share no variables.</div>
+          ) : (
+            <table className="w-full text-xs">
+              <thead className="text-gray-500">
+                <tr>
+                  <th className={cell}>Variable</th>
+                  <th className={cell}>Mean before</th>
+                  <th className={cell}>Mean after</th>
+                  <th className={cell}>Changed dates</th>
+                  <th className={cell}>Largest change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {diff.variables.map(v => (
+                  <tr key={v.variable} className="border-t border-gray-800 font-mono">
+                    <td className={`${cell} font-sans text-gray-300`}>{CLIMATE_VARIABLES[v.variable].label} ({v.unit})</td>
+                    <td className={cell}>{fmt(v.meanBefore)}</td>
+                    <td className={cell}>{fmt(v.meanAfter)}</td>
+                    <td className={`${cell} ${v.changed ? 'text-yellow-300' : 'text-gray-500'}`}>{v.changed} / {v.overlap}</td>
+                    <td className={cell}>{v.maxAbsDelta !== null ? `${fmt(v.maxAbsDelta)} on ${v.maxDeltaDate}` : '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {(diff.datesOnlyBefore > 0 || diff.datesOnlyAfter > 0) && (
+            <div className="text-xs text-gray-400 mt-1">
+              {diff.datesOnlyBefore} date{diff.datesOnlyBefore === 1 ? '' : 's'} only in the earlier run, {diff.datesOnlyAfter} only in the later one.
+            </div>
+          )}
+        </section>
+
+        {(diff.predictions.length > 0 || diff.summaryChanged) && (
+          <section>
+            <h4 className="text-cyan-400 font-exo text-xs mb-1">AI PREDICTIONS</h4>
+            {diff.summaryChanged && <div className="text-xs text-gray-400 mb-1">The written summary changed.</div>}
+            <table className="w-full text-xs">
+              <tbody>
+                {diff.predictions.map(p => (
+                  <tr key={p.month} className="border-t border-gray-800">
+                    <td className={`${cell} font-mono text-gray-300`}>{p.month}</td>
+                    <td className={`${cell} text-red-300`}>{describePrediction(p.before)}</td>
+                    <td className={`${cell} text-green-300`}>{describePrediction(p.after)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+        )}
+
+        {(diff.calamitiesAdded.length > 0 || diff.calamitiesRemoved.length > 0) && (
+          <section>
+            <h4 className="text-cyan-400 font-exo text-xs mb-1">CALAMITIES</h4>
+            <ul className="text-xs space-y-0.5">
+              {diff.calamitiesAdded.map(c => (
+                <li key={`+${c.id}`} className="text-green-300">+ {c.startDate} {c.type} ({c.intensity}, {c.source})</li>
+              ))}
+              {diff.calamitiesRemoved.map(c => (
+                <li key={`-${c.id}`} className="text-red-300">− {c.startDate} {c.type} ({c.intensity}, {c.source})</li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RunDiffView;
@@ -0,0 +1,254 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FolderOpen, Download, Upload, Save, Trash2, GitCompare, X, Pencil } from 'lucide-react';
+import { AnalysisRun, AnalysisSnapshot, Workspace } from '../types';
+import {
+  createWorkspace, deleteRun, deleteWorkspace, importWorkspaces, loadRuns, loadWorkspaces, locationKey, saveWorkspace,
+  snapshotLabel, workspaceFileName, workspacesToJson
+} from '../services/workspaceService';
+import RunDiffView from './RunDiffView';
+
+interface WorkspacePanelProps {
+  current: AnalysisSnapshot | null; // what the dashboard shows now
+  latestRunId: string | null; // changes whenever a run is recorded
+  onOpen: (snapshot: AnalysisSnapshot) => void;
+}
+
+const describeSnapshot = (s: AnalysisSnapshot) =>
+  `${s.startYear}–${s.endYear} · ${s.resolution} · ${s.dataset.variables.length} var${s.dataset.variables.length === 1 ? '' : 's'}` +
+  (s.insights ? ` · ${s.insights.predictions.length} predictions` : '') +
+  (s.dataset.provenance.status === 'synthetic' ? ' · SYNTHETIC' : '');
+
+const download = (text: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.setAttribute('download', fileName);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+// Sidebar with named workspaces and the history of ANALYZE runs. Two runs of
+// the same location can be compared.
+const WorkspacePanel: React.FC<WorkspacePanelProps> = ({ current, latestRunId, onOpen }) => {
+  const [open, setOpen] = useState(false);
+  const [tab, setTab] = useState<'workspaces' | 'history'>('history');
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [runs, setRuns] = useState<AnalysisRun[]>([]);
+  const [selected, setSelected] = useState<string[]>([]); // run ids picked for comparison
+  const [comparing, setComparing] = useState<[AnalysisRun, AnalysisRun] | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const refresh = async () => {
+    try {
+      const [savedWorkspaces, savedRuns] = await Promise.all([loadWorkspaces(), loadRuns()]);
+      setWorkspaces(savedWorkspaces);
+      setRuns(savedRuns);
+      setSelected(prev => prev.filter(id => savedRuns.some(r => r.id === id)));
+    } catch (e) {
+      console.error('Failed to load workspaces', e);
+      setMessage('Saved workspaces are unavailable in this browser.');
+    }
+  };
+
+  useEffect(() => {
+    if (open) refresh();
+  }, [open, latestRunId]);
+
+  const handleSave = async () => {
+    if (!current) return;
+    const name = window.prompt('Workspace name', snapshotLabel(current))?.trim();
+    if (!name) return;
+    await saveWorkspace(createWorkspace(name, current));
+    setMessage(`Saved "${name}".`);
+    setTab('workspaces');
+    refresh();
+  };
+
+  const handleRename = async (workspace: Workspace) => {
+    const name = window.prompt('Rename workspace', workspace.name)?.trim();
+    if (!name || name === workspace.name) return;
+    await saveWorkspace({ ...workspace, name, updatedAt: Date.now() });
+    refresh();
+  };
+
+  const handleDeleteWorkspace = async (workspace: Workspace) => {
+    if (!window.confirm(`Delete the "${workspace.name}" workspace?`)) return;
+    await deleteWorkspace(workspace.id);
+    refresh();
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = await importWorkspaces(await file.text());
+      setMessage(`Imported ${imported.length} workspace${imported.length === 1 ? '' : 's'}.`);
+      setTab('workspaces');
+    } catch (e) {
+      setMessage(`Import failed: ${e instanceof Error ? e.message : e}`);
+    }
+    refresh();
+  };
+
+  const handleOpen = (snapshot: AnalysisSnapshot) => {
+    onOpen(snapshot);
+    setOpen(false);
+  };
+
+  const handleDeleteRun = async (id: string) => {
+    await deleteRun(id);
+    refresh();
+  };
+
+  // Only runs of the same place as the first pick can join it
+  const selectedKey = selected.length ? locationKey(runs.find(r => r.id === selected[0])!.snapshot) : null;
+  const toggleRun = (id: string) =>
+    setSelected(prev => (prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id].slice(-2)));
+
+  const handleCompare = () => {
+    const [a, b] = selected.map(id => runs.find(r => r.id === id)!).sort((x, y) => x.createdAt - y.createdAt);
+    setComparing([a, b]);
+  };
+
+  const rowClass = 'p-2 rounded border border-gray-800 bg-black/40 space-y-1';
+  const actionClass = 'text-gray-500 hover:text-cyan-300';
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(o => !o)}
+        className={`p-2 glass-panel rounded-full hover:bg-cyan-900/40 transition-colors ${open ? 'text-black bg-cyan-500' : 'text-cyan-400'}`}
+        title="Workspaces and history"
+      >
+        <FolderOpen size={20} />
+      </button>
+
+      {open && (
+        <div className="fixed top-0 left-0 h-full w-full sm:w-96 z-40 bg-black/95 border-r border-cyan-900 shadow-lg flex flex-col text-sm">
+          <div className="flex items-center justify-between p-3 border-b border-cyan-900">
+            <span className="font-exo font-bold text-white">Workspaces</span>
+            <button onClick={() => setOpen(false)} className="text-gray-500 hover:text-white" title="Close">
+              <X size={18} />
+            </button>
+          </div>
+          <div className="flex border-b border-cyan-900 text-xs font-exo">
+            {(['history', 'workspaces'] as const).map(t => (
+              <button
+                key={t}
+                onClick={() => setTab(t)}
+                className={`flex-1 py-2 ${tab === t ? 'text-cyan-300 bg-cyan-900/30' : 'text-gray-400 hover:text-cyan-400'}`}
+              >
+                {t === 'history' ? `HISTORY (${runs.length})` : `SAVED (${workspaces.length})`}
+              </button>
+            ))}
+          </div>
+
+          {message && (
+            <div className="px-3 py-2 text-xs text-cyan-200 bg-cyan-900/20 flex justify-between gap-2">
+              <span>{message}</span>
+              <button onClick={() => setMessage(null)} className="text-gray-500 hover:text-white"><X size={12} /></button>
+            </div>
+          )}
+
+          <div className="flex-1 overflow-y-auto p-3 space-y-2">
+            {tab === 'history' && (
+              <>
+                <div className="flex items-center justify-between text-xs">
+                  <span className="text-gray-500">Tick two runs of one place to compare them.</span>
+                  <button
+                    onClick={handleCompare}
+                    disabled={selected.length !== 2}
+                    className="flex items-center text-cyan-300 disabled:text-gray-600"
+                  >
+                    <GitCompare size={12} className="mr-1" /> Compare
+                  </button>
+                </div>
+                {runs.length === 0 && <div className="text-gray-500 italic text-xs">No runs yet. Every ANALYZE is recorded here.</div>}
+                {runs.map(run => {
+                  const comparable = !selectedKey || selected.includes(run.id) || locationKey(run.snapshot) === selectedKey;
+                  return (
+                    <div key={run.id} className={`${rowClass} ${run.id === latestRunId ? 'border-cyan-800' : ''}`}>
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={selected.includes(run.id)}
+                          disabled={!comparable}
+                          onChange={() => toggleRun(run.id)}
+                          title={comparable ? 'Select for comparison' : 'A different location'}
+                        />
+                        <button onClick={() => handleOpen(run.snapshot)} className="flex-1 text-left text-white hover:text-cyan-300 font-exo">
+                          {snapshotLabel(run.snapshot)}
+                        </button>
+                        <button onClick={() => handleDeleteRun(run.id)} className="text-gray-500 hover:text-red-400" title="Delete run">
+                          <Trash2 size={12} />
+                        </button>
+                      </div>
+                      <div className="text-[11px] text-gray-400">{describeSnapshot(run.snapshot)}</div>
+                      <div className="text-[10px] text-gray-500 font-mono">{new Date(run.createdAt).toLocaleString()}</div>
+                    </div>
+                  );
+                })}
+              </>
+            )}
+
+            {tab === 'workspaces' && (
+              <>
+                <div className="flex flex-wrap gap-3 text-xs">
+                  <button onClick={handleSave} disabled={!current} className="flex items-center text-cyan-300 disabled:text-gray-600" title={current ? 'Save the current analysis' : 'Run an analysis first'}>
+                    <Save size={12} className="mr-1" /> Save current
+                  </button>
+                  <button onClick={() => fileInput.current?.click()} className="flex items-center text-gray-300 hover:text-cyan-300">
+                    <Upload size={12} className="mr-1" /> Import JSON
+                  </button>
+                  <button
+                    onClick={() => download(workspacesToJson(workspaces), workspaceFileName(workspaces))}
+                    disabled={workspaces.length === 0}
+                    className="flex items-center text-gray-300 hover:text-cyan-300 disabled:text-gray-600"
+                  >
+                    <Download size={12} className="mr-1" /> Export all
+                  </button>
+                  <input
+                    ref={fileInput}
+                    type="file"
+                    accept=".json,application/json"
+                    className="hidden"
+                    onChange={e => {
+                      const file = e.target.files?.[0];
+                      e.target.value = '';
+                      if (file) handleImport(file);
+                    }}
+                  />
+                </div>
+                {workspaces.length === 0 && <div className="text-gray-500 italic text-xs">No saved workspaces.</div>}
+                {workspaces.map(workspace => (
+                  <div key={workspace.id} className={rowClass}>
+                    <div className="flex items-center gap-2">
+                      <button onClick={() => handleOpen(workspace.snapshot)} className="flex-1 text-left text-white hover:text-cyan-300 font-exo">
+                        {workspace.name}
+                      </button>
+                      <button onClick={() => handleRename(workspace)} className={actionClass} title="Rename">
+                        <Pencil size={12} />
+                      </button>
+                      <button onClick={() => download(workspacesToJson([workspace]), workspaceFileName([workspace]))} className={actionClass} title="Export as JSON">
+                        <Download size={12} />
+                      </button>
+                      <button onClick={() => handleDeleteWorkspace(workspace)} className="text-gray-500 hover:text-red-400" title="Delete">
+                        <Trash2 size={12} />
+                      </button>
+                    </div>
+                    <div className="text-[11px] text-gray-400">{snapshotLabel(workspace.snapshot)} · {describeSnapshot(workspace.snapshot)}</div>
+                    <div className="text-[10px] text-gray-500 font-mono">Saved {new Date(workspace.updatedAt).toLocaleString()}</div>
+                  </div>
+                ))}
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      {comparing && <RunDiffView before={comparing[0]} after={comparing[1]} onClose={() => setComparing(null)} />}
+    </>
+  );
+};
+
+export default WorkspacePanel;
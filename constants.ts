@@ -1,14 +1,6 @@
-export const APP_NAME = "ROTATER";
-
-// NASA API Key provided by user
-// Note: For production, use process.env.REACT_APP_NASA_KEY
-export const NASA_API_KEY = "f1FdQ25eAZKWE8bdqhxgLnFyFNVhha77KHNAdxKx";
+import { ClimateVariable, Prediction, VariableDefinition } from './types';
 
-// Note: The Gemini API Key must be set in process.env.API_KEY as per system instructions.
-// The user provided one in the prompt, but strict security rules prevent hardcoding it here 
-// if we strictly follow the 'process.env.API_KEY' rule for the GoogleGenAI SDK instantiation.
-// However, for the user provided key to work in this specific generated instance without env setup,
-// we will assume the environment is set up or the user will export it.
+export const APP_NAME = "ROTATER";
 
 export const COLORS = {
   primary: '#00f0ff', // Neon Cyan
@@ -26,4 +18,23 @@ export const MOCK_LOCATIONS = [
   { name: "Tokyo", lat: 35.6762, lon: 139.6503 },
   { name: "Mumbai", lat: 19.0760, lon: 72.8777 },
   { name: "Sydney", lat: -33.8688, lon: 151.2093 }
-];
\ No newline at end of file
+];
+
+export const CLIMATE_VARIABLES: Record<ClimateVariable, VariableDefinition> = {
+  T2M: { id: 'T2M', label: 'Temperature', unit: '°C', color: '#ff9900', resolutions: ['monthly', 'daily', 'hourly'] },
+  T2M_MAX: { id: 'T2M_MAX', label: 'Max Temperature', unit: '°C', color: '#ff3366', resolutions: ['monthly', 'daily'] },
+  T2M_MIN: { id: 'T2M_MIN', label: 'Min Temperature', unit: '°C', color: '#66ccff', resolutions: ['monthly', 'daily'] },
+  PRECTOTCORR: { id: 'PRECTOTCORR', label: 'Precipitation', unit: 'mm/day', color: '#3b82f6', resolutions: ['monthly', 'daily', 'hourly'] },
+  RH2M: { id: 'RH2M', label: 'Relative Humidity', unit: '%', color: '#a78bfa', resolutions: ['monthly', 'daily', 'hourly'] },
+  WS2M: { id: 'WS2M', label: 'Wind Speed (2m)', unit: 'm/s', color: '#e2e8f0', resolutions: ['monthly', 'daily', 'hourly'] },
+  ALLSKY_SFC_SW_DWN: { id: 'ALLSKY_SFC_SW_DWN', label: 'Solar Irradiance', unit: 'MJ/m^2/day', color: '#facc15', resolutions: ['monthly', 'daily', 'hourly'] },
+  GWETTOP: { id: 'GWETTOP', label: 'Surface Soil Wetness', unit: '0-1', color: '#a16207', resolutions: ['monthly', 'daily'] },
+  GWETROOT: { id: 'GWETROOT', label: 'Root Zone Soil Wetness', unit: '0-1', color: '#854d0e', resolutions: ['monthly', 'daily'] },
+  NDVI: { id: 'NDVI', label: 'NDVI', unit: '0-1', color: '#22c55e', resolutions: ['monthly'] }
+};
+
+// NDVI is opt-in: it needs imported MODIS/VIIRS composites for the point
+export const DEFAULT_VARIABLES: ClimateVariable[] = ['T2M', 'PRECTOTCORR'];
+
+// Ascending severity
+export const RISK_LEVELS: Prediction['riskLevel'][] = ['Low', 'Medium', 'High', 'Critical'];
@@ -0,0 +1,238 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { readFile, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+
+// API proxy that keeps provider keys on the server. The browser calls
+// /api/nasa/* and /api/llm/*; requests are forwarded with the keys added
+// and rate limited per user. Built files in dist/ are served as well, so
+// one process is enough for an internal deployment.
+//
+// Configuration comes from the environment or .env.local:
+//   GEMINI_API_KEY      key for /api/llm/gemini
+//   OPENAI_API_KEY      key for /api/llm/openai (optional for local servers)
+//   OPENAI_BASE_URL     endpoint for /api/llm/openai (default OpenAI)
+//   NASA_API_KEY        added as api_key to NASA requests (optional)
+//   PROXY_PORT          default 8787
+//   RATE_LIMIT_NASA     requests per user per minute, default 120
+//   RATE_LIMIT_LLM      requests per user per minute, default 20
+//   RATE_LIMIT_CLIENTS  users one address may hold budgets for, default 4
+//   TRUST_PROXY         set to 1 behind a reverse proxy to use X-Forwarded-For
+
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No file: rely on the environment
+}
+
+const env = process.env;
+const PORT = Number(env.PROXY_PORT ?? 8787);
+const STATIC_DIR = path.resolve('dist');
+const RATE_WINDOW_MS = 60_000;
+const MAX_BODY_BYTES = 2 * 1024 * 1024;
+
+interface Upstream {
+  base: string;
+  group: 'nasa' | 'llm'; // rate limits are shared within a group
+  methods: string[];
+  missingKey?: string; // set when the upstream cannot work without a key
+  headers: Record<string, string>;
+  query: Record<string, string>;
+}
+
+const UPSTREAMS: Record<string, Upstream> = {
+  nasa: {
+    base: env.NASA_BASE_URL ?? 'https://power.larc.nasa.gov/api',
+    group: 'nasa',
+    methods: ['GET'],
+    headers: {},
+    query: env.NASA_API_KEY ? { api_key: env.NASA_API_KEY } : {}
+  },
+  'llm/gemini': {
+    base: 'https://generativelanguage.googleapis.com',
+    group: 'llm',
+    methods: ['GET', 'POST'],
+    missingKey: env.GEMINI_API_KEY ? undefined : 'GEMINI_API_KEY',
+    headers: env.GEMINI_API_KEY ? { 'x-goog-api-key': env.GEMINI_API_KEY } : {},
+    query: {}
+  },
+  'llm/openai': {
+    base: env.OPENAI_BASE_URL ?? 'https://api.openai.com/v1',
+    group: 'llm',
+    methods: ['GET', 'POST'],
+    // Local servers such as Ollama need no key
+    missingKey: env.OPENAI_API_KEY || env.OPENAI_BASE_URL ? undefined : 'OPENAI_API_KEY',
+    headers: env.OPENAI_API_KEY ? { authorization: `Bearer ${env.OPENAI_API_KEY}` } : {},
+    query: {}
+  }
+};
+
+const LIMITS: Record<Upstream['group'], number> = {
+  nasa: Number(env.RATE_LIMIT_NASA ?? 120),
+  llm: Number(env.RATE_LIMIT_LLM ?? 20)
+};
+
+// An address may spend this many users' budgets in total, however many
+// client ids it sends
+const CLIENTS_PER_ADDRESS = Math.max(1, Number(env.RATE_LIMIT_CLIENTS ?? 4));
+
+// Request headers passed through to the upstream; everything else,
+// including any key the browser sent, is dropped.
+const FORWARDED_HEADERS = ['accept', 'content-type', 'x-goog-api-client'];
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.txt': 'text/plain; charset=utf-8',
+  '.wasm': 'application/wasm'
+};
+
+// ---- Rate limiting ----
+
+// Fixed one-minute windows, counted per address. The client id the app
+// sends is chosen by the browser, so it is not an identity: it only splits
+// an address's budget so people behind one NAT do not exhaust each other's
+// share. Each id gets one user's limit, inside an address total of
+// CLIENTS_PER_ADDRESS limits.
+const windows = new Map<string, { start: number; count: number }>();
+
+// Behind a trusted reverse proxy the client is the last hop it appended;
+// entries to the left come from the request and can be forged.
+const clientAddress = (req: IncomingMessage) => {
+  const hops = env.TRUST_PROXY === '1' ? String(req.headers['x-forwarded-for'] ?? '').split(',') : [];
+  return hops[hops.length - 1]?.trim() || req.socket.remoteAddress || 'unknown';
+};
+
+const current = (key: string, now: number) => {
+  const entry = windows.get(key);
+  return entry && now - entry.start < RATE_WINDOW_MS ? entry : null;
+};
+
+// Seconds until the user may retry, or 0 when the request is allowed. The
+// request counts against both the address and the client id, or neither.
+const takeToken = (req: IncomingMessage, group: Upstream['group'], now = Date.now()): number => {
+  const limit = LIMITS[group];
+  const address = `${group}:${clientAddress(req)}`;
+  const client = `${address}/${String(req.headers['x-client-id'] ?? '').slice(0, 64)}`;
+  const budgets: [string, number][] = [[address, limit * CLIENTS_PER_ADDRESS], [client, limit]];
+  const exhausted = budgets
+    .map(([key, max]) => ({ entry: current(key, now), max }))
+    .filter(({ entry, max }) => entry && entry.count >= max);
+  if (exhausted.length) {
+    return Math.max(...exhausted.map(({ entry }) => Math.ceil((entry!.start + RATE_WINDOW_MS - now) / 1000)));
+  }
+  budgets.forEach(([key]) => {
+    const entry = current(key, now);
+    if (entry) entry.count++;
+    else windows.set(key, { start: now, count: 1 });
+  });
+  return 0;
+};
+
+setInterval(() => {
+  const now = Date.now();
+  windows.forEach((w, key) => {
+    if (now - w.start >= RATE_WINDOW_MS) windows.delete(key);
+  });
+}, RATE_WINDOW_MS).unref();
+
+// ---- Handlers ----
+
+const sendJson = (res: ServerResponse, status: number, body: Record<string, unknown>, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'content-type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = async (req: IncomingMessage): Promise<Buffer | undefined> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new Error('Request body too large');
+    chunks.push(chunk);
+  }
+  return chunks.length ? Buffer.concat(chunks) : undefined;
+};
+
+const proxy = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+  const route = url.pathname.slice('/api/'.length);
+  const name = Object.keys(UPSTREAMS).find(n => route === n || route.startsWith(`${n}/`));
+  if (!name) return sendJson(res, 404, { error: `Unknown API route ${url.pathname}` });
+  const upstream = UPSTREAMS[name];
+
+  if (!upstream.methods.includes(req.method ?? '')) return sendJson(res, 405, { error: `${req.method} not allowed` });
+  if (upstream.missingKey) return sendJson(res, 503, { error: `${upstream.missingKey} is not configured on the proxy` });
+
+  const retryAfter = takeToken(req, upstream.group);
+  if (retryAfter) {
+    return sendJson(res, 429, { error: `Rate limit of ${LIMITS[upstream.group]} requests per minute reached` }, { 'retry-after': String(retryAfter) });
+  }
+
+  const target = new URL(`${upstream.base.replace(/\/+$/, '')}${route.slice(name.length)}`);
+  url.searchParams.forEach((value, key) => {
+    if (key !== 'key' && key !== 'api_key') target.searchParams.append(key, value);
+  });
+  Object.entries(upstream.query).forEach(([key, value]) => target.searchParams.set(key, value));
+
+  const headers: Record<string, string> = { ...upstream.headers };
+  FORWARDED_HEADERS.forEach(h => {
+    const value = req.headers[h];
+    if (typeof value === 'string') headers[h] = value;
+  });
+
+  // Stop the upstream request (and model billing) when the browser goes away
+  const abort = new AbortController();
+  res.on('close', () => abort.abort());
+
+  const response = await fetch(target, {
+    method: req.method,
+    headers,
+    body: req.method === 'GET' ? undefined : await readBody(req),
+    signal: abort.signal
+  });
+  res.writeHead(response.status, {
+    'content-type': response.headers.get('content-type') ?? 'application/octet-stream',
+    'cache-control': 'no-store'
+  });
+  if (!response.body) return res.end();
+  await pipeline(Readable.fromWeb(response.body as any), res);
+};
+
+// Serves the production build, falling back to index.html for app routes.
+const serveStatic = async (res: ServerResponse, url: URL) => {
+  const requested = path.resolve(STATIC_DIR, `.${decodeURIComponent(url.pathname)}`);
+  const inside = requested.startsWith(STATIC_DIR + path.sep);
+  const file = inside && (await stat(requested).catch(() => null))?.isFile() ? requested : path.join(STATIC_DIR, 'index.html');
+  try {
+    const body = await readFile(file);
+    res.writeHead(200, { 'content-type': CONTENT_TYPES[path.extname(file)] ?? 'application/octet-stream' });
+    res.end(body);
+  } catch {
+    sendJson(res, 404, { error: 'Not found. Run `npm run build` to serve the app from this proxy.' });
+  }
+};
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  try {
+    if (url.pathname.startsWith('/api/')) await proxy(req, res, url);
+    else await serveStatic(res, url);
+  } catch (error) {
+    if (res.headersSent) {
+      res.destroy();
+    } else {
+      console.error('Proxy error', error);
+      sendJson(res, 502, { error: error instanceof Error ? error.message : 'Upstream request failed' });
+    }
+  }
+});
+
+server.listen(PORT, () => {
+  const configured = Object.entries(UPSTREAMS).map(([name, u]) => `${name}${u.missingKey ? ` (no ${u.missingKey})` : ''}`);
+  console.log(`API proxy on http://localhost:${PORT}: ${configured.join(', ')}`);
+});
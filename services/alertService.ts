@@ -0,0 +1,210 @@
+import { AlertCondition, AlertEvent, AlertRule, ClimateStats, ClimateVariable, LocationData, MonthlyNormal, Prediction } from '../types';
+import { CLIMATE_VARIABLES, RISK_LEVELS } from '../constants';
+import { idbClear, idbDelete, idbGetAll, idbPut, idbPutAll } from './db';
+import { baselinePercentile } from './climatologyService';
+
+// User-defined alert rules, checked against every loaded dataset and its
+// predictions. Rules and the alert inbox live in IndexedDB.
+
+// Starting points offered in the rule editor
+export const RULE_PRESETS: { name: string; condition: AlertCondition }[] = [
+  {
+    name: 'Persistent extreme rainfall',
+    condition: { kind: 'series', variable: 'PRECTOTCORR', metric: 'percentile', comparator: 'above', threshold: 95, consecutive: 3 }
+  },
+  {
+    name: 'Temperature anomaly',
+    condition: { kind: 'series', variable: 'T2M', metric: 'z', comparator: 'above', threshold: 2, consecutive: 1 }
+  },
+  {
+    name: 'Critical risk predicted',
+    condition: { kind: 'prediction', minRisk: 'Critical' }
+  }
+];
+
+// Predictions from one producer, e.g. the AI analysis or a statistical model
+export interface PredictionSet {
+  source: string;
+  predictions: Prediction[];
+}
+
+export interface AlertInput {
+  location: LocationData;
+  area?: string;
+  stats?: ClimateStats[];
+  climatology?: MonthlyNormal[]; // baseline normals of the stats, for percentile rules
+  predictionSets?: PredictionSet[];
+}
+
+const ordinal = (n: number) => {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] ?? 'th';
+  return `${n}${suffix}`;
+};
+
+export const describeCondition = (condition: AlertCondition): string => {
+  if (condition.kind === 'prediction') {
+    return condition.minRisk === 'Critical' ? 'Any prediction at Critical risk' : `Any prediction at ${condition.minRisk} risk or higher`;
+  }
+  const { variable, metric, comparator, threshold, consecutive } = condition;
+  const def = CLIMATE_VARIABLES[variable];
+  const op = comparator === 'above' ? '>' : '<';
+  const test = metric === 'z'
+    ? `${def.label} anomaly ${op} ${threshold}σ`
+    : metric === 'percentile'
+      ? `${def.label} ${op} month's ${ordinal(threshold)} percentile`
+      : `${def.label} ${op} ${threshold} ${def.unit}`;
+  return consecutive > 1 ? `${test} for ${consecutive} consecutive periods` : test;
+};
+
+export const createRule = (name: string, condition: AlertCondition): AlertRule => ({
+  id: `rule_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`,
+  name: name.trim() || describeCondition(condition),
+  enabled: true,
+  condition,
+  createdAt: Date.now()
+});
+
+// ---- Evaluation ----
+
+const placeKey = (input: AlertInput) => input.area ?? `${input.location.lat.toFixed(2)},${input.location.lon.toFixed(2)}`;
+
+const placeLabel = (input: AlertInput) =>
+  input.area ?? input.location.name ?? `${input.location.lat.toFixed(2)}, ${input.location.lon.toFixed(2)}`;
+
+const metricOf = (stats: ClimateStats, variable: ClimateVariable, metric: 'value' | 'z' | 'percentile'): number | undefined => {
+  const value = metric === 'z' ? stats.anomalies[variable]?.z : stats.values[variable];
+  return typeof value === 'number' ? value : undefined;
+};
+
+const monthOf = (date: string) => parseInt(date.substring(5, 7), 10);
+
+// Percentile thresholds come from the baseline values of each record's
+// calendar month, so a wet-season month is compared with other wet seasons
+// and a short analysis window does not cap how often the rule can fire.
+const thresholdOf = (
+  condition: Extract<AlertCondition, { kind: 'series' }>,
+  stats: ClimateStats,
+  climatology: MonthlyNormal[]
+): number | undefined =>
+  condition.metric === 'percentile'
+    ? baselinePercentile(climatology[monthOf(stats.date) - 1]?.normals[condition.variable], condition.threshold)
+    : condition.threshold;
+
+// One event per run of at least `consecutive` matching records. Missing
+// values (no data, or no baseline for z and percentiles) break a run.
+const evaluateSeries = (
+  rule: AlertRule,
+  condition: Extract<AlertCondition, { kind: 'series' }>,
+  stats: ClimateStats[],
+  input: AlertInput,
+  now: number
+): AlertEvent[] => {
+  const { variable, metric, comparator, consecutive } = condition;
+  const unit = metric === 'z' ? 'σ' : ` ${CLIMATE_VARIABLES[variable].unit}`;
+
+  const events: AlertEvent[] = [];
+  let run: { date: string; value: number; threshold: number }[] = [];
+  const close = () => {
+    if (run.length >= Math.max(consecutive, 1)) {
+      const first = run[0].date;
+      const last = run[run.length - 1].date;
+      const low = Math.min(...run.map(r => r.threshold));
+      const high = Math.max(...run.map(r => r.threshold));
+      const range = low === high ? low.toFixed(2) : `${low.toFixed(2)}–${high.toFixed(2)}`;
+      const basis = metric === 'percentile' ? ` (baseline ${ordinal(condition.threshold)} percentile ${range}${unit})` : '';
+      events.push({
+        id: `${rule.id}|${placeKey(input)}|${first}|${last}`,
+        ruleId: rule.id,
+        ruleName: rule.name,
+        triggeredAt: now,
+        location: input.location,
+        area: input.area,
+        message: `${describeCondition(condition)} at ${placeLabel(input)}: ${run.length} period${run.length === 1 ? '' : 's'}, ${first === last ? first : `${first} to ${last}`}${basis}`,
+        points: run.map(({ date, value }) => ({ date, value })),
+        read: false
+      });
+    }
+    run = [];
+  };
+
+  stats.forEach(s => {
+    const value = metricOf(s, variable, metric);
+    const threshold = thresholdOf(condition, s, input.climatology ?? []);
+    const hit = value !== undefined && threshold !== undefined && (comparator === 'above' ? value > threshold : value < threshold);
+    if (hit) run.push({ date: s.date, value: value!, threshold: threshold! });
+    else close();
+  });
+  close();
+  return events;
+};
+
+// One event per prediction source listing every prediction at or above the level.
+const evaluatePredictions = (
+  rule: AlertRule,
+  condition: Extract<AlertCondition, { kind: 'prediction' }>,
+  sets: PredictionSet[],
+  input: AlertInput,
+  now: number
+): AlertEvent[] => {
+  const floor = RISK_LEVELS.indexOf(condition.minRisk);
+  return sets.flatMap(({ source, predictions }) => {
+    const hits = predictions.filter(p => RISK_LEVELS.indexOf(p.riskLevel) >= floor);
+    if (hits.length === 0) return [];
+    return [{
+      id: `${rule.id}|${placeKey(input)}|${source}|${hits.map(p => `${p.month}:${p.riskLevel}`).join(',')}`,
+      ruleId: rule.id,
+      ruleName: rule.name,
+      triggeredAt: now,
+      location: input.location,
+      area: input.area,
+      message: `${source} predicts ${hits.map(p => `${p.riskLevel} risk in ${p.month}`).join(', ')} at ${placeLabel(input)}`,
+      points: hits.map(p => ({ date: p.month, value: `${p.riskLevel}: ${p.description}` })),
+      read: false
+    }];
+  });
+};
+
+// Evaluates enabled rules against whichever parts of the input are present.
+export const evaluateRules = (rules: AlertRule[], input: AlertInput, now = Date.now()): AlertEvent[] =>
+  rules.filter(r => r.enabled).flatMap(rule => {
+    const { condition } = rule;
+    if (condition.kind === 'series') {
+      return input.stats ? evaluateSeries(rule, condition, input.stats, input, now) : [];
+    }
+    return input.predictionSets ? evaluatePredictions(rule, condition, input.predictionSets, input, now) : [];
+  });
+
+// ---- Persistence ----
+
+export const loadAlertRules = async (): Promise<AlertRule[]> =>
+  (await idbGetAll<AlertRule>('alertRules')).sort((a, b) => a.createdAt - b.createdAt);
+
+export const saveAlertRule = (rule: AlertRule) => idbPut('alertRules', rule);
+
+export const deleteAlertRule = (id: string) => idbDelete('alertRules', id);
+
+// Newest first
+export const loadAlerts = async (): Promise<AlertEvent[]> =>
+  (await idbGetAll<AlertEvent>('alerts')).sort((a, b) => b.triggeredAt - a.triggeredAt);
+
+export const markAlertsRead = (alerts: AlertEvent[]) =>
+  idbPutAll('alerts', alerts.filter(a => !a.read).map(a => ({ ...a, read: true })));
+
+export const clearAlerts = () => idbClear('alerts');
+
+// Evaluates the stored rules and records events not already in the inbox,
+// so reloading the same data does not raise the same alert twice. Returns
+// the newly recorded events.
+export const checkAlerts = async (input: AlertInput): Promise<AlertEvent[]> => {
+  try {
+    const events = evaluateRules(await loadAlertRules(), input);
+    if (events.length === 0) return [];
+    const known = new Set((await idbGetAll<AlertEvent>('alerts')).map(a => a.id));
+    const fresh = events.filter(e => !known.has(e.id));
+    if (fresh.length) await idbPutAll('alerts', fresh);
+    return fresh;
+  } catch (error) {
+    console.error('Failed to record alerts', error);
+    return [];
+  }
+};
@@ -0,0 +1,118 @@
+import { idbGet, idbGetAll, idbPut, idbDelete, idbClear } from './db';
+
+// Persistent response cache for NASA series and Gemini results. Entries are
+// keyed by namespace + request parameters, expire after a per-namespace TTL,
+// and the least recently used ones are evicted once the cap is exceeded.
+// Expired entries are kept until evicted so they can be served when offline.
+
+export type CacheNamespace = 'climate-series' | 'regional-grid' | 'insights' | 'news' | 'resources';
+
+const HOUR = 60 * 60 * 1000;
+
+export const CACHE_TTL: Record<CacheNamespace, number> = {
+  'climate-series': 7 * 24 * HOUR, // POWER reprocesses monthly data rarely
+  'regional-grid': 7 * 24 * HOUR,
+  insights: 24 * HOUR,
+  news: 6 * HOUR,
+  resources: 24 * HOUR
+};
+
+export const MAX_CACHE_BYTES = 25 * 1024 * 1024;
+
+interface CacheEntry<T> {
+  key: string;
+  namespace: CacheNamespace;
+  value: T;
+  createdAt: number;
+  lastAccessed: number;
+  expiresAt: number;
+  size: number; // approximate, from the serialized length
+}
+
+export interface CachedResult<T> {
+  value: T;
+  cachedAt: number | null; // null when the value was just fetched
+  stale: boolean; // served past its TTL because the fetch failed
+}
+
+// Serializes with sorted object keys so equal parameters give equal keys.
+const stableStringify = (value: unknown): string => {
+  if (value === null || typeof value !== 'object') return JSON.stringify(value);
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b));
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+};
+
+// FNV-1a, enough to keep keys short for large parameter payloads.
+export const hashKey = (value: unknown): string => {
+  const text = stableStringify(value);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+const evictToFit = async (incoming: number) => {
+  const entries = await idbGetAll<CacheEntry<unknown>>('cache');
+  let total = entries.reduce((acc, e) => acc + e.size, 0) + incoming;
+  const byAge = entries.sort((a, b) => a.lastAccessed - b.lastAccessed);
+  for (const entry of byAge) {
+    if (total <= MAX_CACHE_BYTES) break;
+    await idbDelete('cache', entry.key);
+    total -= entry.size;
+  }
+};
+
+export const withCache = async <T>(
+  namespace: CacheNamespace,
+  params: unknown,
+  fetcher: () => Promise<T>,
+  ttl = CACHE_TTL[namespace]
+): Promise<CachedResult<T>> => {
+  const key = `${namespace}:${hashKey(params)}`;
+
+  let entry: CacheEntry<T> | undefined;
+  try {
+    entry = await idbGet<CacheEntry<T>>('cache', key);
+  } catch (e) {
+    // No IndexedDB (private mode, old browser): behave as an uncached fetch
+    console.warn('Cache unavailable', e);
+    return { value: await fetcher(), cachedAt: null, stale: false };
+  }
+
+  const now = Date.now();
+  if (entry && entry.expiresAt > now) {
+    idbPut('cache', { ...entry, lastAccessed: now }).catch(() => undefined);
+    return { value: entry.value, cachedAt: entry.createdAt, stale: false };
+  }
+
+  let value: T;
+  try {
+    value = await fetcher();
+  } catch (error) {
+    if (entry) {
+      console.warn(`Serving stale ${namespace} cache entry`, error);
+      return { value: entry.value, cachedAt: entry.createdAt, stale: true };
+    }
+    throw error;
+  }
+
+  const size = JSON.stringify(value)?.length ?? 0;
+  if (size <= MAX_CACHE_BYTES) {
+    try {
+      await evictToFit(size - (entry?.size ?? 0));
+      await idbPut<CacheEntry<T>>('cache', {
+        key, namespace, value, createdAt: now, lastAccessed: now, expiresAt: now + ttl, size
+      });
+    } catch (e) {
+      console.warn('Failed to write cache entry', e);
+    }
+  }
+  return { value, cachedAt: null, stale: false };
+};
+
+export const clearCache = () => idbClear('cache');
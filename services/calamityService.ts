@@ -0,0 +1,251 @@
+import * as XLSX from 'xlsx';
+import { Calamity, CalamityMatch, CalamitySource, CalamityType } from '../types';
+import { parseCsv, toRecords, parseNumber } from './csvUtils';
+import { idbClear, idbGetAll, idbPutAll } from './db';
+import { findCountry, findUsState, haversineKm, normalizeCountryName } from './geoService';
+
+// Importer for disaster event exports:
+//  - EM-DAT public table (xlsx or CSV), current and pre-2023 column names
+//  - NOAA Storm Events "details" CSVs (StormEvents_details-ftp_v1.0_d*.csv)
+// Events are stored in IndexedDB and matched to the selected point on read.
+
+export const DEFAULT_CALAMITY_MATCH: CalamityMatch = { mode: 'region', radiusKm: 250 };
+
+export interface ImportSummary {
+  source: CalamitySource;
+  imported: number;
+  skipped: number; // rows whose event type has no Calamity equivalent
+}
+
+type RawRecord = Record<string, string>;
+
+// First non-empty value among alternative column names.
+const pick = (record: RawRecord, ...columns: string[]): string | undefined => {
+  for (const c of columns) {
+    if (record[c] !== undefined && record[c] !== '') return record[c];
+  }
+  return undefined;
+};
+
+const pad = (n: number | undefined) => (n === undefined ? undefined : n.toString().padStart(2, '0'));
+
+const formatDate = (year: number, month?: number, day?: number) =>
+  [year.toString(), pad(month), month ? pad(day) : undefined].filter(Boolean).join('-');
+
+// Impact-based class so EM-DAT and NOAA records read the same on the timeline.
+const impactClass = (deaths?: number, affected?: number, damageUsd?: number): string => {
+  if ((deaths ?? 0) >= 100 || (affected ?? 0) >= 1_000_000 || (damageUsd ?? 0) >= 1e9) return 'Severe';
+  if ((deaths ?? 0) >= 10 || (affected ?? 0) >= 100_000 || (damageUsd ?? 0) >= 1e8) return 'Major';
+  return 'Moderate';
+};
+
+// ---- EM-DAT ----
+
+const emdatType = (type = '', subtype = ''): CalamityType | null => {
+  const t = type.toLowerCase();
+  const st = subtype.toLowerCase();
+  if (t === 'flood') return 'Flood';
+  if (t === 'drought') return 'Drought';
+  if (t === 'wildfire') return 'Wildfire';
+  if (t === 'storm') return st.includes('tropical cyclone') ? 'Cyclone' : null;
+  if (t === 'extreme temperature') {
+    if (st.includes('heat')) return 'Heatwave';
+    if (st.includes('cold') || st.includes('winter')) return 'ColdWave';
+    return null;
+  }
+  if (t.startsWith('mass movement') || st.includes('landslide') || st.includes('mudslide')) return 'Landslide';
+  return null;
+};
+
+const parseEmdat = (records: RawRecord[]): { events: Calamity[]; skipped: number } => {
+  const events: Calamity[] = [];
+  let skipped = 0;
+  records.forEach(r => {
+    const type = emdatType(pick(r, 'Disaster Type'), pick(r, 'Disaster Subtype'));
+    const year = parseNumber(pick(r, 'Start Year', 'Year'));
+    if (!type || !year) {
+      skipped++;
+      return;
+    }
+    const month = parseNumber(pick(r, 'Start Month'));
+    const endYear = parseNumber(pick(r, 'End Year'));
+    const deaths = parseNumber(pick(r, 'Total Deaths'));
+    const affected = parseNumber(pick(r, 'Total Affected'));
+    const damageThousands = parseNumber(pick(r, "Total Damage ('000 US$)", "Total Damages ('000 US$)"));
+    const damageUsd = damageThousands === undefined ? undefined : damageThousands * 1000;
+    const magnitude = pick(r, 'Magnitude', 'Dis Mag Value');
+    const scale = pick(r, 'Magnitude Scale', 'Dis Mag Scale');
+    const intensity = impactClass(deaths, affected, damageUsd);
+
+    events.push({
+      id: `EM-DAT:${pick(r, 'DisNo.', 'Dis No') ?? `${year}-${events.length}`}`,
+      year,
+      type,
+      intensity: magnitude ? `${intensity} (${magnitude}${scale ? ` ${scale}` : ''})` : intensity,
+      month: pad(month) ?? '01',
+      startDate: formatDate(year, month, parseNumber(pick(r, 'Start Day'))),
+      endDate: endYear ? formatDate(endYear, parseNumber(pick(r, 'End Month')), parseNumber(pick(r, 'End Day'))) : undefined,
+      deaths,
+      affected,
+      damageUsd,
+      location: pick(r, 'Location'),
+      country: pick(r, 'Country'),
+      lat: parseNumber(pick(r, 'Latitude')),
+      lon: parseNumber(pick(r, 'Longitude')),
+      source: 'EM-DAT'
+    });
+  });
+  return { events, skipped };
+};
+
+// ---- NOAA Storm Events ----
+
+const NOAA_TYPES: Record<string, CalamityType> = {
+  'flood': 'Flood',
+  'flash flood': 'Flood',
+  'coastal flood': 'Flood',
+  'lakeshore flood': 'Flood',
+  'drought': 'Drought',
+  'hurricane': 'Cyclone',
+  'hurricane (typhoon)': 'Cyclone',
+  'tropical storm': 'Cyclone',
+  'tropical depression': 'Cyclone',
+  'marine hurricane/typhoon': 'Cyclone',
+  'marine tropical storm': 'Cyclone',
+  'heat': 'Heatwave',
+  'excessive heat': 'Heatwave',
+  'wildfire': 'Wildfire',
+  'debris flow': 'Landslide',
+  'cold/wind chill': 'ColdWave',
+  'extreme cold/wind chill': 'ColdWave',
+  'frost/freeze': 'ColdWave'
+};
+
+// "10.00K", "1.5M", "2B" -> dollars
+const parseNoaaDamage = (value?: string): number | undefined => {
+  if (!value) return undefined;
+  const match = value.trim().match(/^([\d.]+)\s*([KMB]?)$/i);
+  if (!match) return undefined;
+  const multiplier = { '': 1, K: 1e3, M: 1e6, B: 1e9 }[match[2].toUpperCase() as '' | 'K' | 'M' | 'B'];
+  return parseFloat(match[1]) * multiplier;
+};
+
+const titleCase = (s: string) => s.toLowerCase().replace(/\b\w/g, c => c.toUpperCase());
+
+const parseNoaa = (records: RawRecord[]): { events: Calamity[]; skipped: number } => {
+  const events: Calamity[] = [];
+  let skipped = 0;
+  records.forEach(r => {
+    const type = NOAA_TYPES[(r.EVENT_TYPE ?? '').toLowerCase()];
+    const beginYm = r.BEGIN_YEARMONTH ?? '';
+    if (!type || beginYm.length !== 6) {
+      skipped++;
+      return;
+    }
+    const year = parseInt(beginYm.substring(0, 4), 10);
+    const month = parseInt(beginYm.substring(4, 6), 10);
+    const endYm = r.END_YEARMONTH ?? '';
+    const deaths = (parseNumber(r.DEATHS_DIRECT) ?? 0) + (parseNumber(r.DEATHS_INDIRECT) ?? 0);
+    const property = parseNoaaDamage(r.DAMAGE_PROPERTY);
+    const crops = parseNoaaDamage(r.DAMAGE_CROPS);
+    const damageUsd = property === undefined && crops === undefined ? undefined : (property ?? 0) + (crops ?? 0);
+
+    events.push({
+      id: `NOAA:${r.EVENT_ID}`,
+      year,
+      type,
+      intensity: r.CATEGORY ? `${impactClass(deaths, undefined, damageUsd)} (Cat ${r.CATEGORY})` : impactClass(deaths, undefined, damageUsd),
+      month: pad(month)!,
+      startDate: formatDate(year, month, parseNumber(r.BEGIN_DAY)),
+      endDate: endYm.length === 6
+        ? formatDate(parseInt(endYm.substring(0, 4), 10), parseInt(endYm.substring(4, 6), 10), parseNumber(r.END_DAY))
+        : undefined,
+      deaths,
+      damageUsd,
+      location: [r.CZ_NAME, r.STATE].filter(Boolean).map(titleCase).join(', '),
+      country: r.STATE ? titleCase(r.STATE) : undefined,
+      lat: parseNumber(r.BEGIN_LAT),
+      lon: parseNumber(r.BEGIN_LON),
+      source: 'NOAA Storm Events'
+    });
+  });
+  return { events, skipped };
+};
+
+// ---- File handling ----
+
+const readRows = async (file: File): Promise<(string | number)[][]> => {
+  if (/\.xlsx?$/i.test(file.name)) {
+    const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    return XLSX.utils.sheet_to_json<(string | number)[]>(sheet, { header: 1, raw: true, defval: '' });
+  }
+  return parseCsv(await file.text());
+};
+
+export const importCalamityFile = async (file: File): Promise<ImportSummary> => {
+  const rows = await readRows(file);
+
+  // Older EM-DAT exports put a title block above the header row.
+  const headerIndex = rows.slice(0, 10).findIndex(r =>
+    r.some(c => c === 'Disaster Type') || r.some(c => c === 'EVENT_TYPE')
+  );
+  if (headerIndex === -1) {
+    throw new Error(`${file.name} is not an EM-DAT or NOAA Storm Events export`);
+  }
+  const header = rows[headerIndex].map(String);
+  const records = toRecords(header, rows.slice(headerIndex + 1));
+
+  const source: CalamitySource = header.includes('EVENT_TYPE') ? 'NOAA Storm Events' : 'EM-DAT';
+  const { events, skipped } = source === 'EM-DAT' ? parseEmdat(records) : parseNoaa(records);
+  await idbPutAll('calamities', events);
+  return { source, imported: events.length, skipped };
+};
+
+export const clearImportedCalamities = () => idbClear('calamities');
+
+export const countImportedCalamities = async (): Promise<number> => {
+  try {
+    return (await idbGetAll<Calamity>('calamities')).length;
+  } catch {
+    return 0;
+  }
+};
+
+// Imported events for the selected point and year range. In region mode an
+// EM-DAT event matches the country containing the point and a NOAA event the
+// US state; in radius mode only geolocated events within the radius match.
+export const fetchCalamityHistory = async (
+  lat: number,
+  lon: number,
+  startYear: number,
+  endYear: number,
+  match: CalamityMatch = DEFAULT_CALAMITY_MATCH
+): Promise<Calamity[]> => {
+  let all: Calamity[];
+  try {
+    all = await idbGetAll<Calamity>('calamities');
+  } catch (e) {
+    console.error('Failed to read imported calamities', e);
+    return [];
+  }
+  const inRange = all.filter(c => c.year >= startYear && c.year <= endYear);
+
+  let matches: Calamity[];
+  if (match.mode === 'radius') {
+    matches = inRange.filter(c =>
+      c.lat !== undefined && c.lon !== undefined && haversineKm(lat, lon, c.lat, c.lon) <= match.radiusKm
+    );
+  } else {
+    const country = await findCountry(lat, lon);
+    const state = country === 'United States of America' ? await findUsState(lat, lon) : null;
+    const countryKey = country ? normalizeCountryName(country) : null;
+    matches = inRange.filter(c => {
+      if (!c.country) return false;
+      if (c.source === 'NOAA Storm Events') return state !== null && c.country.toLowerCase() === state.toLowerCase();
+      return countryKey !== null && normalizeCountryName(c.country) === countryKey;
+    });
+  }
+
+  return matches.sort((a, b) => a.startDate.localeCompare(b.startDate));
+};
@@ -0,0 +1,63 @@
+import { ChatMessage, ChatThread } from '../types';
+import { idbDelete, idbGetAll, idbPut } from './db';
+
+// Chat conversations, kept in IndexedDB so they survive reloads. Each thread
+// stores the visible transcript; the model session is rebuilt from it.
+
+export const WELCOME_MESSAGE: ChatMessage = {
+  role: 'model',
+  text: 'Hello! I am your Climate AI. Ask me about weather patterns or analysis.'
+};
+
+const TITLE_LENGTH = 40;
+
+export const createThread = (title = 'New conversation'): ChatThread => {
+  const now = Date.now();
+  return {
+    id: `chat_${now.toString(36)}_${Math.random().toString(36).slice(2, 6)}`,
+    title,
+    createdAt: now,
+    updatedAt: now,
+    messages: [WELCOME_MESSAGE]
+  };
+};
+
+// Threads are named after the first question until renamed
+export const titleFromMessage = (text: string): string => {
+  const line = text.trim().split('\n')[0];
+  return line.length > TITLE_LENGTH ? `${line.slice(0, TITLE_LENGTH - 1).trimEnd()}…` : line;
+};
+
+// Most recently active first
+export const loadThreads = async (): Promise<ChatThread[]> =>
+  (await idbGetAll<ChatThread>('chatThreads')).sort((a, b) => b.updatedAt - a.updatedAt);
+
+export const saveThread = (thread: ChatThread) => idbPut('chatThreads', thread);
+
+export const deleteThread = (id: string) => idbDelete('chatThreads', id);
+
+// ---- Markdown export ----
+
+export const threadToMarkdown = (thread: ChatThread): string => {
+  const lines = [
+    `# ${thread.title}`,
+    '',
+    `_Exported ${new Date().toLocaleString()} · started ${new Date(thread.createdAt).toLocaleString()}_`,
+    ''
+  ];
+  thread.messages.forEach(message => {
+    lines.push(`## ${message.role === 'user' ? 'You' : 'Assistant'}`, '');
+    if (message.toolCalls?.length) {
+      lines.push(...message.toolCalls.map(call => `> Tool: ${call}`), '');
+    }
+    lines.push(message.text.trim(), '');
+    if (message.citations?.length) {
+      const cited = message.citations.map(c => (c.verified ? c.date : `${c.date} (unverified)`));
+      lines.push(`_Cited: ${cited.join(', ')}_`, '');
+    }
+  });
+  return lines.join('\n');
+};
+
+export const threadFileName = (thread: ChatThread): string =>
+  `chat_${thread.title.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'thread'}.md`;
@@ -0,0 +1,331 @@
+import {
+  AreaSummary, Calamity, ChatCitation, ClimateDataset, ClimateInsights, ClimateStats, ClimateVariable, ForecastResult, LlmToolSpec,
+  LocationData
+} from '../types';
+import { CLIMATE_VARIABLES } from '../constants';
+import { mean, stdDev } from './mathUtils';
+import { searchPlaces } from './geocodingService';
+
+// What the chat assistant can see of the dashboard, and the tools it uses to
+// query the loaded data and drive the dashboard. The state is summarised into
+// every message; the series themselves are only read through tools, so the
+// answer can cite the records it actually looked at.
+
+export interface DashboardContext {
+  location: LocationData;
+  area?: AreaSummary;
+  startYear: number;
+  endYear: number;
+  dataset: ClimateDataset | null;
+  calamities: Calamity[]; // imported and derived events, by start date
+  insights: ClimateInsights | null;
+  forecast: ForecastResult | null;
+  loading: boolean;
+}
+
+export interface ChatActions {
+  setLocation: (location: LocationData) => void;
+  runAnalysis: (period: { startYear?: number; endYear?: number }) => void;
+}
+
+export interface ToolOutcome {
+  response: Record<string, unknown>;
+  summary: string; // one line for the transcript
+  dates: string[]; // records the result was computed from
+}
+
+// Enough rows for ten years of months; longer spans should use computeStats
+const MAX_SERIES_ROWS = 240;
+
+const variableIds = Object.keys(CLIMATE_VARIABLES);
+
+export const CHAT_TOOLS: LlmToolSpec[] = [
+  {
+    name: 'getSeries',
+    description: 'Returns the loaded records of one variable between two dates, with the anomaly (z-score against the baseline) when available.',
+    parameters: {
+      type: 'object',
+      properties: {
+        variable: { type: 'string', enum: variableIds, description: 'Variable id' },
+        from: { type: 'string', description: 'First date, inclusive (YYYY-MM or YYYY-MM-DD). Defaults to the start of the data.' },
+        to: { type: 'string', description: 'Last date, inclusive. Defaults to the end of the data.' }
+      },
+      required: ['variable']
+    }
+  },
+  {
+    name: 'computeStats',
+    description: 'Computes summary statistics of one loaded variable: count, mean, standard deviation, the extreme records and the linear trend per decade. Optionally restricted to a date range and to calendar months.',
+    parameters: {
+      type: 'object',
+      properties: {
+        variable: { type: 'string', enum: variableIds, description: 'Variable id' },
+        from: { type: 'string', description: 'First date, inclusive' },
+        to: { type: 'string', description: 'Last date, inclusive' },
+        months: { type: 'array', items: { type: 'integer' }, description: 'Calendar months to keep, 1-12, e.g. [6,7,8] for June-August' }
+      },
+      required: ['variable']
+    }
+  },
+  {
+    name: 'setLocation',
+    description: 'Moves the dashboard to a new point, given either coordinates or a place name. Does not load data; call runAnalysis afterwards.',
+    parameters: {
+      type: 'object',
+      properties: {
+        lat: { type: 'number' },
+        lon: { type: 'number' },
+        place: { type: 'string', description: 'Place name to look up in the gazetteer, used when lat/lon are not given' }
+      }
+    }
+  },
+  {
+    name: 'runAnalysis',
+    description: 'Loads data for the current location (or area) and runs the analysis, optionally for a new year range. Results appear in the dashboard state of the next message.',
+    parameters: {
+      type: 'object',
+      properties: {
+        startYear: { type: 'integer' },
+        endYear: { type: 'integer' }
+      }
+    }
+  }
+];
+
+export const CHAT_SYSTEM_INSTRUCTION = `You are ROTATER's advanced climate AI assistant. Answer questions about weather patterns, climate science, and interpret the data on the dashboard for the user.
+Each user message starts with the current dashboard state. Use the getSeries and computeStats tools to read the loaded data rather than guessing values.
+When a statement relies on specific records, cite each one in square brackets by its date, e.g. [2023-07] or [2023-07-14]. Only cite dates returned by a tool.
+Use setLocation and runAnalysis when the user asks to look at another place or period.
+Format answers in Markdown; use tables for small sets of numbers. To plot a series, add a fenced code block with the language "chart" holding JSON:
+{"title": "...", "unit": "°C", "data": [{"date": "2023-01", "T2M": 20.3}, ...]}
+Every key other than "date" is drawn as a line. Only plot values returned by a tool.`;
+
+export interface ChartSpec {
+  title?: string;
+  unit?: string;
+  data: Record<string, string | number | null>[];
+  series: string[]; // numeric keys, one line each
+}
+
+// Longer series are too dense for the chat window
+const MAX_CHART_POINTS = 400;
+
+// Reads a chart block from a reply; null when it is not a usable chart.
+export const parseChartSpec = (source: string): ChartSpec | null => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(source);
+  } catch {
+    return null;
+  }
+  if (typeof raw !== 'object' || raw === null) return null;
+  const { title, unit, data } = raw as Record<string, unknown>;
+  if (!Array.isArray(data) || data.length === 0) return null;
+  const rows = data
+    .filter((r): r is Record<string, unknown> => typeof r === 'object' && r !== null && typeof (r as Record<string, unknown>).date === 'string')
+    .slice(0, MAX_CHART_POINTS);
+  const series = Array.from(new Set(rows.flatMap(r => Object.keys(r).filter(k => k !== 'date' && typeof r[k] === 'number'))));
+  if (rows.length < 2 || series.length === 0) return null;
+  return {
+    title: typeof title === 'string' ? title : undefined,
+    unit: typeof unit === 'string' ? unit : undefined,
+    data: rows.map(r => ({ date: r.date as string, ...Object.fromEntries(series.map(k => [k, typeof r[k] === 'number' ? r[k] as number : null])) })),
+    series
+  };
+};
+
+// ---- Context ----
+
+const formatValue = (v: number | null | undefined, unit?: string) =>
+  typeof v === 'number' ? `${v.toFixed(2)}${unit ? ` ${unit}` : ''}` : 'n/a';
+
+export const describeContext = (context: DashboardContext): string => {
+  const { location, area, dataset, calamities, insights, forecast } = context;
+  const lines = [
+    `Location: ${location.name ? `${location.name} ` : ''}(${location.lat.toFixed(4)}, ${location.lon.toFixed(4)})`,
+    area ? `Area: ${area.name}, ${area.areaKm2} km², mean of ${area.samples} grid points` : null,
+    `Requested period: ${context.startYear}-${context.endYear}${context.loading ? ' (loading)' : ''}`
+  ];
+  if (!dataset) {
+    lines.push('No data loaded.');
+  } else {
+    const { stats } = dataset;
+    lines.push(
+      `Data: ${stats.length} ${dataset.resolution} records, ${stats[0]?.date ?? '-'} to ${stats[stats.length - 1]?.date ?? '-'}, source ${dataset.provenance.source} (${dataset.provenance.status})`,
+      `Variables: ${dataset.variables.map(v => `${v} (${CLIMATE_VARIABLES[v].label}, ${dataset.units[v] ?? CLIMATE_VARIABLES[v].unit})`).join(', ')}`,
+      `Baseline: ${dataset.climatology.length ? `${dataset.baseline.startYear}-${dataset.baseline.endYear}` : 'none'}`
+    );
+    const last = stats[stats.length - 1];
+    if (last) {
+      lines.push(`Latest record ${last.date}: ${dataset.variables.map(v => `${v} ${formatValue(last.values[v])}`).join(', ')}`);
+    }
+    const episodes = dataset.indices?.episodes ?? [];
+    if (episodes.length) {
+      lines.push(`Detected episodes: ${episodes.map(e => `${e.category} ${e.type.toLowerCase()} ${e.start} to ${e.end}`).join('; ')}`);
+    }
+  }
+  if (calamities.length) {
+    lines.push(`Recorded events: ${calamities.slice(-10).map(c => `${c.type} ${c.startDate} (${c.intensity})`).join('; ')}${calamities.length > 10 ? ` (${calamities.length - 10} earlier)` : ''}`);
+  }
+  if (insights) {
+    lines.push(`AI analysis: ${insights.summary}`);
+    lines.push(`AI predictions: ${insights.predictions.map(p => `${p.month} ${p.riskLevel}`).join(', ')}`);
+  }
+  if (forecast) {
+    lines.push(`${forecast.model} forecast: ${forecast.predictions.map(p => `${p.month} ${p.predictedTemp.toFixed(1)}°C ${p.riskLevel}`).join(', ')}`);
+  }
+  return lines.filter(Boolean).join('\n');
+};
+
+// ---- Tools ----
+
+const inRange = (date: string, from?: string, to?: string) =>
+  (!from || date >= from) && (!to || date.slice(0, to.length) <= to);
+
+const selectRecords = (dataset: ClimateDataset, variable: ClimateVariable, from?: string, to?: string, months?: number[]) =>
+  dataset.stats
+    .filter(s => inRange(s.date, from, to))
+    .filter(s => !months?.length || months.includes(Number(s.date.slice(5, 7))))
+    .map(s => ({ record: s, value: s.values[variable] }))
+    .filter((r): r is { record: ClimateStats; value: number } => typeof r.value === 'number');
+
+// Decimal years, so the slope comes out per year whatever the resolution
+const yearOf = (date: string) => {
+  const [y, m = '1', d = '1'] = date.split(/[-T]/);
+  return Number(y) + (Number(m) - 1) / 12 + (Number(d) - 1) / 365;
+};
+
+const trendPerDecade = (points: { x: number; y: number }[]) => {
+  if (points.length < 3) return null;
+  const mx = mean(points.map(p => p.x));
+  const my = mean(points.map(p => p.y));
+  const sxx = points.reduce((acc, p) => acc + (p.x - mx) ** 2, 0);
+  if (sxx === 0) return null;
+  return (points.reduce((acc, p) => acc + (p.x - mx) * (p.y - my), 0) / sxx) * 10;
+};
+
+const failure = (message: string): ToolOutcome => ({ response: { error: message }, summary: message, dates: [] });
+
+const loadedVariable = (dataset: ClimateDataset, raw: unknown): ClimateVariable | null =>
+  dataset.variables.includes(raw as ClimateVariable) ? (raw as ClimateVariable) : null;
+
+const notLoaded = (dataset: ClimateDataset, raw: unknown) =>
+  failure(`${String(raw)} is not loaded; available: ${dataset.variables.join(', ')}`);
+
+const getSeries = (context: DashboardContext, args: Record<string, unknown>): ToolOutcome => {
+  const { dataset } = context;
+  if (!dataset) return failure('No data loaded');
+  const v = loadedVariable(dataset, args.variable);
+  if (!v) return notLoaded(dataset, args.variable);
+  const from = args.from as string | undefined;
+  const to = args.to as string | undefined;
+  const records = dataset.stats.filter(s => inRange(s.date, from, to));
+  const rows = records.slice(0, MAX_SERIES_ROWS).map(s => ({
+    date: s.date,
+    value: s.values[v] ?? null,
+    ...(s.anomalies[v] ? { z: s.anomalies[v]!.z } : {})
+  }));
+  return {
+    response: {
+      variable: v,
+      unit: dataset.units[v] ?? CLIMATE_VARIABLES[v].unit,
+      resolution: dataset.resolution,
+      rows,
+      ...(records.length > rows.length ? { truncated: `${records.length - rows.length} later records omitted; narrow the range or use computeStats` } : {})
+    },
+    summary: `Read ${rows.length} ${v} records${rows.length ? ` (${rows[0].date} to ${rows[rows.length - 1].date})` : ''}`,
+    dates: rows.map(r => r.date)
+  };
+};
+
+const computeStats = (context: DashboardContext, args: Record<string, unknown>): ToolOutcome => {
+  const { dataset } = context;
+  if (!dataset) return failure('No data loaded');
+  const v = loadedVariable(dataset, args.variable);
+  if (!v) return notLoaded(dataset, args.variable);
+  const months = Array.isArray(args.months) ? args.months.map(Number).filter(m => m >= 1 && m <= 12) : undefined;
+  const records = selectRecords(dataset, v, args.from as string | undefined, args.to as string | undefined, months);
+  if (records.length === 0) return failure(`No ${v} values in the requested range`);
+
+  const values = records.map(r => r.value);
+  const min = records.reduce((a, b) => (b.value < a.value ? b : a));
+  const max = records.reduce((a, b) => (b.value > a.value ? b : a));
+  const z = records.map(r => r.record.anomalies[v]?.z).filter((n): n is number => typeof n === 'number');
+  const trend = trendPerDecade(records.map(r => ({ x: yearOf(r.record.date), y: r.value })));
+  const round = (n: number) => parseFloat(n.toFixed(3));
+  return {
+    response: {
+      variable: v,
+      unit: dataset.units[v] ?? CLIMATE_VARIABLES[v].unit,
+      count: records.length,
+      from: records[0].record.date,
+      to: records[records.length - 1].record.date,
+      ...(months?.length ? { months } : {}),
+      mean: round(mean(values)),
+      stdDev: records.length > 1 ? round(stdDev(values)) : null,
+      min: { date: min.record.date, value: round(min.value) },
+      max: { date: max.record.date, value: round(max.value) },
+      trendPerDecade: trend === null ? null : round(trend),
+      ...(z.length ? { meanAnomalyZ: round(mean(z)) } : {})
+    },
+    summary: `Computed ${v} statistics over ${records.length} records`,
+    dates: [min.record.date, max.record.date]
+  };
+};
+
+const setLocation = async (args: Record<string, unknown>, actions: ChatActions): Promise<ToolOutcome> => {
+  const lat = Number(args.lat);
+  const lon = Number(args.lon);
+  let target: LocationData | null = null;
+  if (args.lat !== undefined && args.lon !== undefined && Number.isFinite(lat) && Number.isFinite(lon)) {
+    if (Math.abs(lat) > 90 || Math.abs(lon) > 180) return failure(`(${lat}, ${lon}) is not a valid coordinate`);
+    target = { lat, lon };
+  } else if (typeof args.place === 'string' && args.place.trim()) {
+    const [place] = await searchPlaces(args.place, 1);
+    if (!place) return failure(`No place called "${args.place}" in the gazetteer`);
+    target = { lat: place.lat, lon: place.lon, name: place.name };
+  } else {
+    return failure('Give lat and lon, or a place name');
+  }
+  actions.setLocation(target);
+  const label = `${target.name ? `${target.name} ` : ''}(${target.lat.toFixed(2)}, ${target.lon.toFixed(2)})`;
+  return { response: { location: target, note: 'Call runAnalysis to load data here' }, summary: `Moved to ${label}`, dates: [] };
+};
+
+const runAnalysis = (context: DashboardContext, args: Record<string, unknown>, actions: ChatActions): ToolOutcome => {
+  const startYear = args.startYear !== undefined ? Math.round(Number(args.startYear)) : undefined;
+  const endYear = args.endYear !== undefined ? Math.round(Number(args.endYear)) : undefined;
+  const first = startYear ?? context.startYear;
+  const last = endYear ?? context.endYear;
+  if (!Number.isFinite(first) || !Number.isFinite(last) || first > last) return failure(`Invalid year range ${first}-${last}`);
+  actions.runAnalysis({ startYear, endYear });
+  return {
+    response: { status: 'started', startYear: first, endYear: last, note: 'The loaded data is not updated until the next message' },
+    summary: `Started analysis for ${first}-${last}`,
+    dates: []
+  };
+};
+
+export const runChatTool = async (
+  name: string,
+  args: Record<string, unknown>,
+  context: DashboardContext,
+  actions: ChatActions
+): Promise<ToolOutcome> => {
+  switch (name) {
+    case 'getSeries': return getSeries(context, args);
+    case 'computeStats': return computeStats(context, args);
+    case 'setLocation': return setLocation(args, actions);
+    case 'runAnalysis': return runAnalysis(context, args, actions);
+    default: return failure(`Unknown tool ${name}`);
+  }
+};
+
+// Dates cited as [YYYY-MM] or [YYYY-MM-DD], split by whether a tool
+// returned them; unverified ones were not read from the data.
+export const extractCitations = (text: string, usedDates: string[]): ChatCitation[] => {
+  const used = new Set(usedDates);
+  const months = new Set(usedDates.map(d => d.slice(0, 7)));
+  const cited = Array.from(new Set(Array.from(text.matchAll(/\[(\d{4}-\d{2}(?:-\d{2})?)\]/g), m => m[1])));
+  return cited.sort().map(date => ({ date, verified: used.has(date) || (date.length === 7 && months.has(date)) }));
+};
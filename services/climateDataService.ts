@@ -0,0 +1,339 @@
+import { CLIMATE_VARIABLES, DEFAULT_VARIABLES } from '../constants';
+import {
+  AnalysisRegion, BaselinePeriod, ClimateDataProvider, ClimateDataset, ClimateStats, ClimateVariable, DataProvenance,
+  NdviObservation, ProviderSeries, RegionalGrid, TemporalResolution
+} from '../types';
+import { DEFAULT_BASELINE, computeClimatology, applyAnomalies } from './climatologyService';
+import { nasaPowerProvider, fetchRegionalGrid } from './nasaService';
+import { withCache, CachedResult } from './cacheService';
+import { NDVI_MATCH_KM, loadNdviObservations, mergeNdvi } from './ndviService';
+import { aggregateSamples, regionAreaKm2, regionCentroid, sampleRegion } from './regionService';
+import { computeIndices } from './indicesService';
+import { computeTrends } from './trendService';
+import { computeExtremes } from './extremesService';
+import { mean } from './mathUtils';
+
+const providers = new Map<string, ClimateDataProvider>([[nasaPowerProvider.id, nasaPowerProvider]]);
+
+export const DEFAULT_PROVIDER_ID = nasaPowerProvider.id;
+
+export const registerProvider = (provider: ClimateDataProvider) => {
+  providers.set(provider.id, provider);
+};
+
+export const getProvider = (id: string): ClimateDataProvider => {
+  const provider = providers.get(id);
+  if (!provider) throw new Error(`Unknown climate data provider: ${id}`);
+  return provider;
+};
+
+export const listProviders = (): ClimateDataProvider[] => Array.from(providers.values());
+
+export interface ClimateDataOptions {
+  providerId?: string;
+  resolution?: TemporalResolution;
+  variables?: ClimateVariable[];
+  baseline?: BaselinePeriod;
+}
+
+const yearOf = (date: string) => parseInt(date.substring(0, 4), 10);
+
+// Reads a variable as a plain number array, skipping no-data entries.
+export const seriesValues = (stats: ClimateStats[], variable: ClimateVariable): number[] =>
+  stats.map(s => s.values[variable]).filter((v): v is number => typeof v === 'number');
+
+// Averages daily or hourly rows into calendar months. POWER reports rates
+// (precipitation in mm/day, irradiance per day), so the mean keeps units intact.
+// Anomalies are dropped: they were standardized at the finer resolution.
+export const aggregateToMonthly = (stats: ClimateStats[], variables: ClimateVariable[]): ClimateStats[] => {
+  const months = new Map<string, ClimateStats[]>();
+  stats.forEach(s => {
+    const key = s.date.substring(0, 7);
+    months.set(key, [...(months.get(key) ?? []), s]);
+  });
+  return Array.from(months.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, rows]) => {
+      const values: ClimateStats['values'] = {};
+      variables.forEach(v => {
+        const valid = seriesValues(rows, v);
+        values[v] = valid.length ? parseFloat(mean(valid).toFixed(3)) : null;
+      });
+      return { date, values, anomalies: {} };
+    });
+};
+
+// Sine-wave stand-in used only when the user explicitly asks for demo data.
+const generateMockData = (start: number, end: number, variables: ClimateVariable[]): ClimateStats[] => {
+  const stats: ClimateStats[] = [];
+  for (let y = start; y <= end; y++) {
+    for (let m = 1; m <= 12; m++) {
+      const values: ClimateStats['values'] = {};
+      variables.forEach(v => {
+        if (v === 'T2M' || v === 'T2M_MAX' || v === 'T2M_MIN') {
+          const offset = v === 'T2M_MAX' ? 5 : v === 'T2M_MIN' ? -5 : 0;
+          values[v] = 15 + offset + Math.sin(m / 2) * 10 + (y - start) * 0.1;
+        } else if (v === 'PRECTOTCORR') {
+          values[v] = Math.random() * 10;
+        } else if (v === 'NDVI') {
+          values[v] = 0.45 + Math.sin(m / 2) * 0.2;
+        } else {
+          values[v] = Math.random();
+        }
+      });
+      stats.push({ date: `${y}-${m.toString().padStart(2, '0')}`, values, anomalies: {} });
+    }
+  }
+  return stats;
+};
+
+interface ResolvedRequest {
+  startYear: number;
+  endYear: number;
+  fetchStart: number;
+  fetchEnd: number;
+  resolution: TemporalResolution;
+  variables: ClimateVariable[];
+  baseline: BaselinePeriod;
+  withBaseline: boolean;
+}
+
+const resolveRequest = (startYear: number, endYear: number, options: ClimateDataOptions): ResolvedRequest => {
+  const resolution = options.resolution ?? 'monthly';
+  const baseline = options.baseline ?? DEFAULT_BASELINE;
+  // One request spans both the analysis window and the baseline period so the
+  // climatology is computed from the same source as the displayed series.
+  // Hourly baselines would mean hundreds of thousands of rows, so hourly
+  // series are shown without anomalies.
+  const withBaseline = resolution !== 'hourly';
+  return {
+    startYear,
+    endYear,
+    fetchStart: withBaseline ? Math.min(startYear, baseline.startYear) : startYear,
+    fetchEnd: withBaseline ? Math.max(endYear, baseline.endYear) : endYear,
+    resolution,
+    variables: options.variables ?? DEFAULT_VARIABLES,
+    baseline,
+    withBaseline
+  };
+};
+
+// Shared tail of the live and synthetic paths: baseline, window, anomalies,
+// drought/heat indices (PET needs the latitude), trend statistics and
+// extreme value fits (over the whole fetched record, for more years).
+const assembleDataset = (
+  stats: ClimateStats[],
+  units: ClimateDataset['units'],
+  request: ResolvedRequest,
+  provenance: DataProvenance,
+  cachedAt: number | null,
+  lat?: number
+): ClimateDataset => {
+  const notes = [...provenance.notes];
+  const climatology = request.withBaseline ? computeClimatology(stats, request.baseline, request.variables) : [];
+  const window = stats.filter(s => {
+    const y = yearOf(s.date);
+    return y >= request.startYear && y <= request.endYear;
+  });
+
+  const variables = request.variables.filter(v => v in units);
+  const missing = request.variables.filter(v => !(v in units));
+  const unprovided = missing.filter(v => v !== 'NDVI');
+  if (unprovided.length) notes.push(`Not provided by ${provenance.source}: ${unprovided.join(', ')}`);
+  if (missing.includes('NDVI')) notes.push(`NDVI: no imported MODIS/VIIRS composites within ${NDVI_MATCH_KM} km`);
+  variables.forEach(v => {
+    const gaps = window.filter(s => s.values[v] === null).length;
+    if (gaps) notes.push(`${v}: ${gaps} of ${window.length} records are no-data`);
+  });
+
+  const indices = request.withBaseline
+    ? computeIndices({
+        monthly: request.resolution === 'monthly' ? stats : aggregateToMonthly(stats, request.variables),
+        daily: request.resolution === 'daily' ? stats : undefined,
+        calibration: request.baseline,
+        window: request,
+        lat
+      }) ?? undefined
+    : undefined;
+
+  const status = provenance.status === 'synthetic' || notes.length === 0 ? provenance.status : 'partial';
+  return {
+    stats: applyAnomalies(window, climatology),
+    variables,
+    units,
+    resolution: request.resolution,
+    provenance: { ...provenance, status, notes },
+    baseline: request.baseline,
+    climatology,
+    cachedAt,
+    indices,
+    trends: computeTrends(request.resolution === 'monthly' ? window : aggregateToMonthly(window, variables), variables),
+    extremes: computeExtremes(stats, variables, request.resolution)
+  };
+};
+
+// Provider series for one point over the full fetch range, via the cache.
+const fetchPointSeries = async (
+  provider: ClimateDataProvider,
+  request: ResolvedRequest,
+  lat: number,
+  lon: number
+): Promise<CachedResult<ProviderSeries>> => {
+  const seriesRequest = {
+    lat, lon,
+    startYear: request.fetchStart,
+    endYear: request.fetchEnd,
+    resolution: request.resolution,
+    variables: request.variables
+  };
+  try {
+    return await withCache('climate-series', { provider: provider.id, ...seriesRequest }, () => provider.fetchSeries(seriesRequest));
+  } catch (error) {
+    console.error(`Failed to fetch ${provider.name} data`, error);
+    throw new Error(`${provider.name} request failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const ndviSource = (observations: NdviObservation[]) =>
+  `${Array.from(new Set(observations.map(o => o.product))).join(', ')} NDVI (imported)`;
+
+// Fetches observed data. Failures are thrown, never papered over: callers
+// decide whether to offer synthetic data via generateSyntheticDataset.
+export const fetchClimateData = async (
+  lat: number,
+  lon: number,
+  startYear: number,
+  endYear: number,
+  options: ClimateDataOptions = {}
+): Promise<ClimateDataset> => {
+  const provider = getProvider(options.providerId ?? DEFAULT_PROVIDER_ID);
+  const request = resolveRequest(startYear, endYear, options);
+  const cached = await fetchPointSeries(provider, request, lat, lon);
+
+  const notes: string[] = [];
+  if (cached.stale) notes.push(`Served from an expired cache entry because ${provider.name} could not be reached`);
+
+  // NDVI comes from imported MODIS/VIIRS composites, not from the provider
+  let { stats, units } = cached.value;
+  let source = provider.name;
+  if (request.variables.includes('NDVI') && request.resolution === 'monthly') {
+    const observations = await loadNdviObservations(lat, lon);
+    if (observations.length) {
+      stats = mergeNdvi(stats, observations);
+      units = { ...units, NDVI: CLIMATE_VARIABLES.NDVI.unit };
+      source += ` + ${ndviSource(observations)}`;
+    }
+  }
+
+  return assembleDataset(stats, units, request, {
+    status: cached.cachedAt ? 'cached' : 'live',
+    source,
+    retrievedAt: cached.cachedAt ?? Date.now(),
+    notes
+  }, cached.cachedAt, lat);
+};
+
+// Area-weighted mean series over a region, with the spread across its sample
+// points. Points are fetched one after another; the analysis fails only when
+// no point returns data. Anomalies are computed from the area mean.
+export const fetchAreaClimateData = async (
+  region: AnalysisRegion,
+  startYear: number,
+  endYear: number,
+  options: ClimateDataOptions = {}
+): Promise<ClimateDataset> => {
+  const provider = getProvider(options.providerId ?? DEFAULT_PROVIDER_ID);
+  const request = resolveRequest(startYear, endYear, options);
+  if (request.resolution === 'hourly') throw new Error('Area analyses support monthly and daily resolution only');
+
+  const points = sampleRegion(region);
+  const series: { stats: ClimateStats[]; weight: number }[] = [];
+  const units: ClimateDataset['units'] = {};
+  const notes: string[] = [];
+  const ndviProducts: NdviObservation[] = [];
+  let failed = 0;
+  let stale = 0;
+  let live = 0;
+  let oldestCache: number | null = null;
+  let lastError = '';
+
+  for (const point of points) {
+    let cached: CachedResult<ProviderSeries>;
+    try {
+      cached = await fetchPointSeries(provider, request, point.lat, point.lon);
+    } catch (error) {
+      failed++;
+      lastError = error instanceof Error ? error.message : String(error);
+      continue;
+    }
+    if (cached.stale) stale++;
+    if (cached.cachedAt) oldestCache = Math.min(oldestCache ?? cached.cachedAt, cached.cachedAt);
+    else live++;
+    let stats = cached.value.stats;
+    Object.assign(units, cached.value.units);
+    if (request.variables.includes('NDVI') && request.resolution === 'monthly') {
+      const observations = await loadNdviObservations(point.lat, point.lon);
+      if (observations.length) {
+        stats = mergeNdvi(stats, observations);
+        units.NDVI = CLIMATE_VARIABLES.NDVI.unit;
+        ndviProducts.push(...observations);
+      }
+    }
+    series.push({ stats, weight: point.weight });
+  }
+
+  if (series.length === 0) throw new Error(`No sample point in ${region.name} returned data: ${lastError}`);
+  if (failed) notes.push(`${failed} of ${points.length} sample points failed and were left out of the area mean`);
+  if (stale) notes.push(`${stale} sample points served from expired cache entries because ${provider.name} could not be reached`);
+
+  let source = `${provider.name}, area mean of ${series.length} grid points`;
+  if (ndviProducts.length) source += ` + ${ndviSource(ndviProducts)}`;
+  // Mixed fetches count as live; the age shown is that of the oldest entry
+  const cachedAt = live === 0 ? oldestCache : null;
+  const dataset = assembleDataset(aggregateSamples(series, request.variables), units, request, {
+    status: cachedAt ? 'cached' : 'live',
+    source,
+    retrievedAt: cachedAt ?? Date.now(),
+    notes
+  }, cachedAt, regionCentroid(region).lat);
+  return { ...dataset, area: { name: region.name, areaKm2: Math.round(regionAreaKm2(region)), samples: series.length } };
+};
+
+export const generateSyntheticDataset = (
+  startYear: number,
+  endYear: number,
+  options: ClimateDataOptions = {}
+): ClimateDataset => {
+  const request = { ...resolveRequest(startYear, endYear, options), resolution: 'monthly' as const, withBaseline: true };
+  const stats = generateMockData(request.fetchStart, request.fetchEnd, request.variables);
+  const units = Object.fromEntries(request.variables.map(v => [v, CLIMATE_VARIABLES[v].unit]));
+  return assembleDataset(stats, units, request, {
+    status: 'synthetic',
+    source: 'Synthetic sine-wave generator',
+    retrievedAt: Date.now(),
+    notes: ['Generated values for demonstration only — not observations']
+  }, null);
+};
+
+// Largest box the POWER regional endpoint accepts, centred on the point
+const REGIONAL_SPAN_DEG = 10;
+
+export const supportsRegionalOverlay = (variable: ClimateVariable) => nasaPowerProvider.supports(variable, 'monthly');
+
+// Gridded values of one variable around the point for the map overlay.
+export const fetchRegionalOverlay = (
+  lat: number,
+  lon: number,
+  variable: ClimateVariable,
+  startYear: number,
+  endYear: number
+): Promise<CachedResult<RegionalGrid>> => {
+  const half = REGIONAL_SPAN_DEG / 2;
+  // Shift rather than shrink the box at the poles and the antimeridian
+  const south = Math.min(Math.max(Math.round(lat - half), -90), 90 - REGIONAL_SPAN_DEG);
+  const west = Math.min(Math.max(Math.round(lon - half), -180), 180 - REGIONAL_SPAN_DEG);
+  const bbox: [number, number, number, number] = [west, south, west + REGIONAL_SPAN_DEG, south + REGIONAL_SPAN_DEG];
+  return withCache('regional-grid', { variable, bbox, startYear, endYear }, () =>
+    fetchRegionalGrid(variable, bbox, startYear, endYear)
+  );
+};
@@ -0,0 +1,89 @@
+import { ClimateStats, BaselinePeriod, MonthlyNormal, ClimateVariable, VariableNormal } from '../types';
+import { mean, quantile, stdDev } from './mathUtils';
+
+// WMO's current standard normal period.
+export const DEFAULT_BASELINE: BaselinePeriod = { startYear: 1991, endYear: 2020 };
+
+// NASA POWER monthly series start in 1981.
+export const EARLIEST_BASELINE_YEAR = 1981;
+
+const MIN_YEARS_PER_MONTH = 2;
+
+// Percentiles kept per month, for thresholds such as alert rules
+const PERCENTILE_GRID = Array.from({ length: 101 }, (_, p) => p);
+
+const yearOf = (date: string) => parseInt(date.substring(0, 4), 10);
+const monthOf = (date: string) => parseInt(date.substring(5, 7), 10);
+
+export const formatBaseline = (baseline: BaselinePeriod) => `${baseline.startYear}–${baseline.endYear}`;
+
+// Per-calendar-month mean, standard deviation and percentiles over the baseline years,
+// computed at the series' own resolution so daily departures are scaled by
+// daily variability. Variables without at least two baseline years in every
+// month are left out and get no anomalies; it is only an error when no
+// variable has a usable baseline.
+export const computeClimatology = (
+  stats: ClimateStats[],
+  baseline: BaselinePeriod,
+  variables: ClimateVariable[]
+): MonthlyNormal[] => {
+  const inBaseline = stats.filter(s => {
+    const y = yearOf(s.date);
+    return y >= baseline.startYear && y <= baseline.endYear;
+  });
+
+  const climatology: MonthlyNormal[] = Array.from({ length: 12 }, (_, i) => ({ month: i + 1, normals: {} }));
+  const usable = variables.filter(v => {
+    const normals = climatology.map(({ month }) => {
+      const rows = inBaseline.filter(s => monthOf(s.date) === month && typeof s.values[v] === 'number');
+      const values = rows.map(s => s.values[v] as number);
+      const normal: VariableNormal = {
+        mean: mean(values),
+        std: stdDev(values),
+        years: new Set(rows.map(s => yearOf(s.date))).size,
+        percentiles: PERCENTILE_GRID.map(p => parseFloat(quantile(values, p / 100).toFixed(3)))
+      };
+      return normal;
+    });
+    if (normals.some(n => n.years < MIN_YEARS_PER_MONTH)) return false;
+    normals.forEach((normal, m) => { climatology[m].normals[v] = normal; });
+    return true;
+  });
+
+  if (usable.length === 0) {
+    throw new Error(`Baseline ${formatBaseline(baseline)} has too few valid years per month; choose a longer period`);
+  }
+  return climatology;
+};
+
+// Baseline value at percentile p (0-100) of the month, interpolated between
+// the stored whole percentiles; undefined without stored percentiles.
+export const baselinePercentile = (normal: VariableNormal | undefined, p: number): number | undefined => {
+  const grid = normal?.percentiles;
+  if (!grid || grid.length !== PERCENTILE_GRID.length) return undefined;
+  const h = Math.min(Math.max(p, 0), 100);
+  const lo = Math.floor(h);
+  return grid[lo] + (h - lo) * (grid[Math.min(lo + 1, 100)] - grid[lo]);
+};
+
+const standardize = (anomaly: number, std: number) => (std > 0 ? anomaly / std : 0);
+
+// Fills the anomaly record of each row from the month's normal.
+export const applyAnomalies = (stats: ClimateStats[], climatology: MonthlyNormal[]): ClimateStats[] => {
+  if (climatology.length === 0) return stats;
+  return stats.map(s => {
+    const { normals } = climatology[monthOf(s.date) - 1];
+    const anomalies: ClimateStats['anomalies'] = {};
+    (Object.keys(normals) as ClimateVariable[]).forEach(v => {
+      const value = s.values[v];
+      const normal = normals[v];
+      if (value === null || value === undefined || !normal) return;
+      const departure = value - normal.mean;
+      anomalies[v] = {
+        value: parseFloat(departure.toFixed(2)),
+        z: parseFloat(standardize(departure, normal.std).toFixed(2))
+      };
+    });
+    return { ...s, anomalies };
+  });
+};
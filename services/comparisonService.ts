@@ -0,0 +1,127 @@
+import { ClimateDataset, ClimateStats, ComparisonSite, ClimateVariable, BaselinePeriod } from '../types';
+import { fetchClimateData } from './climateDataService';
+import { leastSquares, mean } from './mathUtils';
+
+// Side-by-side analysis of several pinned sites. Every site is fetched at
+// monthly resolution with the same window and baseline so the series align.
+
+export const MIN_COMPARISON_SITES = 2;
+export const MAX_COMPARISON_SITES = 6;
+
+// Months with a standardized anomaly at or beyond this are counted in the table
+export const ANOMALY_Z_THRESHOLD = 2;
+
+// The table needs temperature and rainfall whatever else is selected
+export const COMPARISON_VARIABLES: ClimateVariable[] = ['T2M', 'PRECTOTCORR'];
+
+const SITE_COLORS = ['#00f0ff', '#ff9900', '#a855f7', '#22c55e', '#f43f5e', '#facc15'];
+
+export interface SiteSeries {
+  site: ComparisonSite;
+  dataset: ClimateDataset | null;
+  error?: string;
+}
+
+export interface SiteSummary {
+  months: number; // months in the window
+  meanTemp: number | null; // °C
+  totalRain: number | null; // mm over the window
+  tempTrend: number | null; // °C per decade, ordinary least squares
+  anomalies: { hot: number; cold: number; wet: number; dry: number };
+}
+
+// Gives the site the first colour no other pinned site uses. Ids double as
+// chart data keys, so they avoid the dots Recharts would read as a path.
+export const createSite = (name: string, lat: number, lon: number, existing: ComparisonSite[]): ComparisonSite => {
+  const used = new Set(existing.map(s => s.color));
+  return {
+    id: `site_${Math.round(lat * 1000)}_${Math.round(lon * 1000)}`,
+    name,
+    lat,
+    lon,
+    color: SITE_COLORS.find(c => !used.has(c)) ?? SITE_COLORS[existing.length % SITE_COLORS.length]
+  };
+};
+
+// Sites are fetched one after another to stay polite to the provider; a
+// failing site is reported on its own row instead of aborting the comparison.
+export const loadComparison = async (
+  sites: ComparisonSite[],
+  startYear: number,
+  endYear: number,
+  variables: ClimateVariable[],
+  baseline: BaselinePeriod
+): Promise<SiteSeries[]> => {
+  const requested = Array.from(new Set([...COMPARISON_VARIABLES, ...variables]));
+  const results: SiteSeries[] = [];
+  for (const site of sites) {
+    try {
+      const dataset = await fetchClimateData(site.lat, site.lon, startYear, endYear, {
+        baseline,
+        variables: requested,
+        resolution: 'monthly'
+      });
+      results.push({ site, dataset });
+    } catch (e) {
+      results.push({ site, dataset: null, error: e instanceof Error ? e.message : String(e) });
+    }
+  }
+  return results;
+};
+
+const daysInMonth = (date: string) => {
+  const [y, m] = date.split('-').map(Number);
+  return new Date(Date.UTC(y, m, 0)).getUTCDate();
+};
+
+const round = (n: number, digits: number) => parseFloat(n.toFixed(digits));
+
+export const summarizeSite = (stats: ClimateStats[]): SiteSummary => {
+  const temps = stats
+    .map((s, i) => ({ t: i / 120, value: s.values.T2M })) // time in decades
+    .filter((p): p is { t: number; value: number } => typeof p.value === 'number');
+  const rain = stats.filter(s => typeof s.values.PRECTOTCORR === 'number');
+
+  let tempTrend: number | null = null;
+  if (temps.length > 2) {
+    const fit = leastSquares(temps.map(p => [1, p.t]), temps.map(p => p.value));
+    tempTrend = round(fit.coefficients[1], 2);
+  }
+
+  const count = (variable: ClimateVariable, above: boolean) =>
+    stats.filter(s => {
+      const z = s.anomalies[variable]?.z;
+      return z !== undefined && (above ? z >= ANOMALY_Z_THRESHOLD : z <= -ANOMALY_Z_THRESHOLD);
+    }).length;
+
+  return {
+    months: stats.length,
+    meanTemp: temps.length ? round(mean(temps.map(p => p.value)), 2) : null,
+    // PRECTOTCORR is a monthly mean rate in mm/day
+    totalRain: rain.length ? round(rain.reduce((acc, s) => acc + s.values.PRECTOTCORR! * daysInMonth(s.date), 0), 0) : null,
+    tempTrend,
+    anomalies: {
+      hot: count('T2M', true),
+      cold: count('T2M', false),
+      wet: count('PRECTOTCORR', true),
+      dry: count('PRECTOTCORR', false)
+    }
+  };
+};
+
+// One row per month with a column per site id, for overlay charts.
+export const mergeSiteSeries = (
+  series: SiteSeries[],
+  variable: ClimateVariable,
+  anomaly = false
+): ({ date: string } & Record<string, number | null | string>)[] => {
+  const rows = new Map<string, { date: string } & Record<string, number | null | string>>();
+  series.forEach(({ site, dataset }) => {
+    dataset?.stats.forEach(s => {
+      const row = rows.get(s.date) ?? { date: s.date };
+      row[site.id] = anomaly ? s.anomalies[variable]?.z ?? null : s.values[variable] ?? null;
+      rows.set(s.date, row);
+    });
+  });
+  return Array.from(rows.values()).sort((a, b) => a.date.localeCompare(b.date));
+};
@@ -0,0 +1,61 @@
+// RFC 4180 CSV parsing shared by the file importers.
+
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Drop blank lines
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+// Turns a header row + data rows into records keyed by trimmed header name.
+export const toRecords = (header: string[], rows: (string | number)[][]): Record<string, string>[] => {
+  const keys = header.map(h => String(h).trim());
+  return rows.map(r => {
+    const record: Record<string, string> = {};
+    keys.forEach((k, i) => { record[k] = r[i] === undefined || r[i] === null ? '' : String(r[i]).trim(); });
+    return record;
+  });
+};
+
+export const parseNumber = (value: string | undefined): number | undefined => {
+  if (value === undefined) return undefined;
+  const cleaned = value.replace(/,/g, '').trim();
+  if (cleaned === '') return undefined;
+  const n = Number(cleaned);
+  return Number.isFinite(n) ? n : undefined;
+};
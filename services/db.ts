@@ -0,0 +1,86 @@
+// Thin promise wrapper over the app's single IndexedDB database.
+// Add new object stores to STORES and bump DB_VERSION; the upgrade handler
+// creates whatever is missing.
+
+const DB_NAME = 'rotater';
+const DB_VERSION = 9;
+
+const STORES = {
+  cache: { keyPath: 'key' },
+  calamities: { keyPath: 'id' },
+  ndvi: { keyPath: 'id' },
+  alertRules: { keyPath: 'id' },
+  alerts: { keyPath: 'id' },
+  chatThreads: { keyPath: 'id' },
+  llmFixtures: { keyPath: 'key' },
+  secrets: { keyPath: 'id' },
+  workspaces: { keyPath: 'id' },
+  analysisRuns: { keyPath: 'id' },
+  projections: { keyPath: 'id' }
+} satisfies Record<string, IDBObjectStoreParameters>;
+
+export type StoreName = keyof typeof STORES;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      Object.entries(STORES).forEach(([name, options]) => {
+        if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, options);
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // Let a later call retry if opening failed (e.g. blocked upgrade)
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+const run = async <T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  action: (objectStore: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(store, mode).objectStore(store));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const idbGet = <T>(store: StoreName, key: IDBValidKey) =>
+  run<T | undefined>(store, 'readonly', s => s.get(key));
+
+export const idbGetAll = <T>(store: StoreName) =>
+  run<T[]>(store, 'readonly', s => s.getAll());
+
+export const idbPut = <T>(store: StoreName, value: T) =>
+  run<IDBValidKey>(store, 'readwrite', s => s.put(value));
+
+// Writes many records in a single transaction (bulk imports).
+export const idbPutAll = async <T>(store: StoreName, values: T[]): Promise<void> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(store, 'readwrite');
+    const objectStore = tx.objectStore(store);
+    values.forEach(v => objectStore.put(v));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+export const idbDelete = (store: StoreName, key: IDBValidKey) =>
+  run<undefined>(store, 'readwrite', s => s.delete(key));
+
+export const idbClear = (store: StoreName) =>
+  run<undefined>(store, 'readwrite', s => s.clear());
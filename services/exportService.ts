@@ -0,0 +1,529 @@
+import * as XLSX from 'xlsx';
+import { parquetWriteBuffer } from 'hyparquet-writer';
+import {
+  Calamity, CalamitySource, CalamityType, ClimateDataset, ClimateStats, ClimateVariable, ForecastResult, LocationData, Prediction
+} from '../types';
+import { CLIMATE_VARIABLES, RISK_LEVELS } from '../constants';
+import { formatBaseline } from './climatologyService';
+import { locationSlug } from './geocodingService';
+import { NcDataset, NcVariable, writeNetcdf3 } from './netcdfWriter';
+
+// Data export in several formats. Every format carries the same metadata
+// (location, source, units, provenance) and honours the same selection of
+// variables, dates and precision.
+
+export type ExportFormat = 'csv' | 'xlsx' | 'netcdf' | 'cfjson' | 'geojson' | 'parquet';
+
+export const EXPORT_FORMATS: { id: ExportFormat; name: string; extension: string; mime: string; description: string }[] = [
+  { id: 'csv', name: 'CSV', extension: 'csv', mime: 'text/csv;charset=utf-8;', description: '# metadata header; predictions and events appended as sections' },
+  { id: 'xlsx', name: 'Excel', extension: 'xlsx', mime: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', description: 'Metadata sheet and one sheet per variable' },
+  { id: 'netcdf', name: 'NetCDF-3', extension: 'nc', mime: 'application/x-netcdf', description: 'CF-1.8 single time series, classic format' },
+  { id: 'cfjson', name: 'CF-JSON', extension: 'json', mime: 'application/json', description: 'The NetCDF structure as JSON' },
+  { id: 'geojson', name: 'GeoJSON', extension: 'geojson', mime: 'application/geo+json', description: 'Point features per time step and event' },
+  { id: 'parquet', name: 'Parquet', extension: 'parquet', mime: 'application/vnd.apache.parquet', description: 'Columnar table; metadata in the file footer' }
+];
+
+export interface ExportOptions {
+  format: ExportFormat;
+  variables: ClimateVariable[];
+  from: string; // YYYY-MM-DD, inclusive
+  to: string;
+  precision: number | null; // decimal places; null keeps full precision
+  anomalies: boolean;
+  predictions: boolean; // AI and statistical forecasts
+  calamities: boolean;
+}
+
+export interface ExportSource {
+  dataset: ClimateDataset;
+  location: LocationData;
+  aiPredictions: Prediction[];
+  forecast: ForecastResult | null;
+  calamities: Calamity[];
+}
+
+// Unit strings as UDUNITS spells them, for CF
+const CF_UNITS: Record<string, string> = {
+  '°C': 'degC', 'mm/day': 'mm day-1', 'm/s': 'm s-1', 'MJ/m^2/day': 'MJ m-2 day-1', '0-1': '1', '%': 'percent'
+};
+
+const CF_STANDARD_NAMES: Partial<Record<ClimateVariable, { standardName: string; cellMethods?: string }>> = {
+  T2M: { standardName: 'air_temperature' },
+  T2M_MAX: { standardName: 'air_temperature', cellMethods: 'time: maximum' },
+  T2M_MIN: { standardName: 'air_temperature', cellMethods: 'time: minimum' },
+  PRECTOTCORR: { standardName: 'lwe_precipitation_rate' },
+  RH2M: { standardName: 'relative_humidity' },
+  WS2M: { standardName: 'wind_speed' },
+  ALLSKY_SFC_SW_DWN: { standardName: 'surface_downwelling_shortwave_flux_in_air' }
+};
+
+const CALAMITY_TYPES: CalamityType[] = ['Flood', 'Drought', 'Cyclone', 'Heatwave', 'Wildfire', 'Landslide', 'ColdWave'];
+const CALAMITY_SOURCES: CalamitySource[] = ['EM-DAT', 'NOAA Storm Events', 'Derived'];
+
+// ---- Selection ----
+
+// First day covered by a YYYY-MM, YYYY-MM-DD or YYYY-MM-DDTHH date
+const dayOf = (date: string) => (date.length === 7 ? `${date}-01` : date.slice(0, 10));
+
+// Earliest and latest day in the dataset, for the dialog's defaults
+export const datasetRange = (dataset: ClimateDataset): { from: string; to: string } => ({
+  from: dayOf(dataset.stats[0]?.date ?? ''),
+  to: dayOf(dataset.stats[dataset.stats.length - 1]?.date ?? '')
+});
+
+// Month-only dates count as in range when their month overlaps it
+const inRange = (date: string, from: string, to: string) =>
+  date.length === 7
+    ? date >= from.slice(0, 7) && date <= to.slice(0, 7)
+    : dayOf(date) >= from && dayOf(date) <= to;
+
+const selectRows = (dataset: ClimateDataset, { from, to }: ExportOptions): ClimateStats[] =>
+  dataset.stats.filter(s => inRange(s.date, from, to));
+
+const selectCalamities = (source: ExportSource, { calamities, from, to }: ExportOptions): Calamity[] =>
+  calamities ? source.calamities.filter(c => inRange(c.startDate, from, to)) : [];
+
+const rounder = (precision: number | null) => (v: number | null | undefined): number | null => {
+  if (typeof v !== 'number' || !Number.isFinite(v)) return null;
+  if (precision === null) return v;
+  const factor = 10 ** precision;
+  return Math.round(v * factor) / factor;
+};
+
+const unitOf = (dataset: ClimateDataset, v: ClimateVariable) => dataset.units[v] ?? CLIMATE_VARIABLES[v].unit;
+
+// Variables with a baseline get anomaly columns
+const anomalyVariables = (dataset: ClimateDataset, options: ExportOptions) =>
+  options.anomalies ? options.variables.filter(v => dataset.climatology[0]?.normals[v]) : [];
+
+// ---- Metadata ----
+
+const isSynthetic = (dataset: ClimateDataset) => dataset.provenance.status === 'synthetic';
+
+const placeName = ({ location }: ExportSource) => location.name ?? `${location.lat.toFixed(4)}, ${location.lon.toFixed(4)}`;
+
+// Human-readable metadata shared by the tabular formats, in display order
+const exportMetadata = (source: ExportSource, options: ExportOptions): [string, string][] => {
+  const { dataset, location } = source;
+  const entries: [string, string][] = [];
+  if (isSynthetic(dataset)) entries.push(['warning', 'SYNTHETIC DATA - NOT OBSERVATIONS. DO NOT CITE AS MEASUREMENTS.']);
+  entries.push(
+    ['title', `Climate data for ${placeName(source)}`],
+    ['latitude', String(location.lat)],
+    ['longitude', String(location.lon)]
+  );
+  if (dataset.area) {
+    entries.push(['area', `${dataset.area.name}, ${dataset.area.areaKm2} km2, mean of ${dataset.area.samples} grid points`]);
+  }
+  entries.push(
+    ['source', dataset.provenance.source],
+    ['resolution', dataset.resolution],
+    ['provenance', dataset.provenance.status],
+    ['retrieved', new Date(dataset.provenance.retrievedAt).toISOString()],
+    ['period', `${options.from} to ${options.to}`],
+    ['anomaly_baseline', dataset.climatology.length ? formatBaseline(dataset.baseline) : 'none'],
+    ['variables', options.variables.map(v => `${v} (${CLIMATE_VARIABLES[v].label}, ${unitOf(dataset, v)})`).join('; ')],
+    ['precision', options.precision === null ? 'full' : `${options.precision} decimal places`],
+    ...dataset.provenance.notes.map((note): [string, string] => ['note', note]),
+    ['generated', `${new Date().toISOString()} by ROTATER`]
+  );
+  return entries;
+};
+
+// ---- Tables ----
+
+interface Table {
+  name: string;
+  columns: string[];
+  rows: (string | number | null)[][];
+}
+
+const dataTable = (source: ExportSource, options: ExportOptions): Table => {
+  const { dataset } = source;
+  const round = rounder(options.precision);
+  const anomalyVars = anomalyVariables(dataset, options);
+  return {
+    name: 'data',
+    columns: [
+      'date',
+      ...options.variables.map(v => `${v} (${unitOf(dataset, v)})`),
+      ...anomalyVars.flatMap(v => [`${v}_anomaly`, `${v}_z`])
+    ],
+    rows: selectRows(dataset, options).map(s => [
+      s.date,
+      ...options.variables.map(v => round(s.values[v])),
+      ...anomalyVars.flatMap(v => [round(s.anomalies[v]?.value), round(s.anomalies[v]?.z)])
+    ])
+  };
+};
+
+const predictionTables = (source: ExportSource, options: ExportOptions): Table[] => {
+  if (!options.predictions) return [];
+  const round = rounder(options.precision);
+  const tables: Table[] = [];
+  if (source.aiPredictions.length) {
+    tables.push({
+      name: 'ai_predictions',
+      columns: ['month', 'risk', 'temperature (°C)', 'description'],
+      rows: source.aiPredictions.map(p => [p.month, p.riskLevel, round(p.predictedTemp), p.description])
+    });
+  }
+  if (source.forecast) {
+    tables.push({
+      name: `forecast_${source.forecast.model.toLowerCase()}`,
+      columns: ['month', 'risk', 'temperature (°C)', 'temperature_lower', 'temperature_upper', 'rainfall', 'rainfall_lower', 'rainfall_upper'],
+      rows: source.forecast.predictions.map(p => [
+        p.month, p.riskLevel, round(p.predictedTemp), round(p.tempInterval?.[0]), round(p.tempInterval?.[1]),
+        round(p.predictedRainfall), round(p.rainfallInterval?.[0]), round(p.rainfallInterval?.[1])
+      ])
+    });
+  }
+  return tables;
+};
+
+const calamityTable = (source: ExportSource, options: ExportOptions): Table[] => {
+  if (!options.calamities) return [];
+  const events = selectCalamities(source, options);
+  return [{
+    name: 'calamities',
+    columns: ['id', 'type', 'start', 'end', 'intensity', 'location', 'country', 'latitude', 'longitude', 'deaths', 'affected', 'damage_usd', 'source'],
+    rows: events.map(c => [
+      c.id, c.type, c.startDate, c.endDate ?? null, c.intensity, c.location ?? null, c.country ?? null,
+      c.lat ?? null, c.lon ?? null, c.deaths ?? null, c.affected ?? null, c.damageUsd ?? null, c.source
+    ])
+  }];
+};
+
+const csvField = (value: string | number | null) => {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (source: ExportSource, options: ExportOptions): string => {
+  const tables = [dataTable(source, options), ...predictionTables(source, options), ...calamityTable(source, options)];
+  const lines = exportMetadata(source, options).map(([key, value]) => `# ${key}: ${value}`);
+  tables.forEach((table, i) => {
+    if (i > 0) lines.push('', `# [${table.name}]`);
+    lines.push(table.columns.map(csvField).join(','));
+    table.rows.forEach(row => lines.push(row.map(csvField).join(',')));
+  });
+  return lines.join('\n');
+};
+
+// Sheet names are limited to 31 characters
+const toXlsx = (source: ExportSource, options: ExportOptions): ArrayBuffer => {
+  const { dataset } = source;
+  const round = rounder(options.precision);
+  const rows = selectRows(dataset, options);
+  const anomalyVars = anomalyVariables(dataset, options);
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['key', 'value'], ...exportMetadata(source, options)]), 'Metadata');
+  options.variables.forEach(v => {
+    const withAnomaly = anomalyVars.includes(v);
+    const withSpread = rows.some(s => s.spread?.[v]);
+    const sheet = [
+      [
+        'date', `${v} (${unitOf(dataset, v)})`,
+        ...(withAnomaly ? ['anomaly', 'z'] : []),
+        ...(withSpread ? ['area_min', 'area_p10', 'area_p90', 'area_max'] : [])
+      ],
+      ...rows.map(s => {
+        const spread = s.spread?.[v];
+        return [
+          s.date, round(s.values[v]),
+          ...(withAnomaly ? [round(s.anomalies[v]?.value), round(s.anomalies[v]?.z)] : []),
+          ...(withSpread ? [round(spread?.min), round(spread?.p10), round(spread?.p90), round(spread?.max)] : [])
+        ];
+      })
+    ];
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(sheet), v.slice(0, 31));
+  });
+  [...predictionTables(source, options), ...calamityTable(source, options)].forEach(table => {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([table.columns, ...table.rows]), table.name.slice(0, 31));
+  });
+  return XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+};
+
+// ---- CF / NetCDF ----
+
+const DAY_MS = 86_400_000;
+const TIME_UNITS = 'days since 1970-01-01 00:00:00';
+
+// Start of a YYYY-MM[-DD[THH]] period, in days since the epoch
+const toDays = (date: string): number => {
+  const [y, m, d] = date.slice(0, 10).split('-').map(Number);
+  const hour = date.length > 10 ? Number(date.slice(11, 13)) : 0;
+  return Date.UTC(y, m - 1, d || 1, hour) / DAY_MS;
+};
+
+const periodEnd = (date: string): number => {
+  if (date.length === 7) {
+    const [y, m] = date.split('-').map(Number);
+    return Date.UTC(y, m, 1) / DAY_MS;
+  }
+  return toDays(date) + (date.length > 10 ? 1 / 24 : 1);
+};
+
+const flagAttributes = (meanings: string[]) => ({
+  flag_values: meanings.map((_, i) => i),
+  flag_meanings: meanings.map(m => m.replace(/\W+/g, '_')).join(' ')
+});
+
+const num = (v: number | null | undefined) => (typeof v === 'number' ? v : NaN);
+
+// The CF model behind both the NetCDF-3 and the CF-JSON output
+const buildCfDataset = (source: ExportSource, options: ExportOptions): NcDataset => {
+  const { dataset, location } = source;
+  const round = rounder(options.precision);
+  const rows = selectRows(dataset, options);
+  if (rows.length === 0) throw new Error('No data in the selected date range');
+  const anomalyVars = anomalyVariables(dataset, options);
+  const station = placeName(source);
+  const notes = dataset.provenance.notes.join(' ');
+
+  const dimensions: Record<string, number> = { time: rows.length, nv: 2, name_strlen: Math.max(1, new TextEncoder().encode(station).length) };
+  const variables: NcVariable[] = [
+    {
+      name: 'time', dimensions: ['time'], type: 'double',
+      attributes: { standard_name: 'time', long_name: 'start of period', units: TIME_UNITS, calendar: 'standard', axis: 'T', bounds: 'time_bnds' },
+      data: rows.map(s => toDays(s.date))
+    },
+    { name: 'time_bnds', dimensions: ['time', 'nv'], type: 'double', attributes: {}, data: rows.flatMap(s => [toDays(s.date), periodEnd(s.date)]) },
+    { name: 'lat', dimensions: [], type: 'double', attributes: { standard_name: 'latitude', long_name: 'latitude', units: 'degrees_north' }, data: [location.lat] },
+    { name: 'lon', dimensions: [], type: 'double', attributes: { standard_name: 'longitude', long_name: 'longitude', units: 'degrees_east' }, data: [location.lon] },
+    { name: 'station_name', dimensions: ['name_strlen'], type: 'char', attributes: { long_name: 'location name', cf_role: 'timeseries_id' }, data: [station] }
+  ];
+
+  const cellMethods = dataset.area ? 'time: mean area: mean' : 'time: mean';
+  options.variables.forEach(v => {
+    const cf = CF_STANDARD_NAMES[v];
+    const unit = unitOf(dataset, v);
+    variables.push({
+      name: v, dimensions: ['time'], type: 'float',
+      attributes: {
+        ...(cf ? { standard_name: cf.standardName } : {}),
+        long_name: CLIMATE_VARIABLES[v].label,
+        units: CF_UNITS[unit] ?? unit,
+        cell_methods: cf?.cellMethods ?? cellMethods,
+        coordinates: 'lat lon station_name',
+        _FillValue: -9999
+      },
+      data: rows.map(s => num(round(s.values[v])))
+    });
+    if (anomalyVars.includes(v)) {
+      variables.push({
+        name: `${v}_anomaly`, dimensions: ['time'], type: 'float',
+        attributes: {
+          long_name: `${CLIMATE_VARIABLES[v].label} anomaly vs ${formatBaseline(dataset.baseline)} monthly mean`,
+          units: CF_UNITS[unit] ?? unit, coordinates: 'lat lon station_name', _FillValue: -9999
+        },
+        data: rows.map(s => num(round(s.anomalies[v]?.value)))
+      }, {
+        name: `${v}_z`, dimensions: ['time'], type: 'float',
+        attributes: {
+          long_name: `${CLIMATE_VARIABLES[v].label} standardized anomaly vs ${formatBaseline(dataset.baseline)}`,
+          units: '1', coordinates: 'lat lon station_name', _FillValue: -9999
+        },
+        data: rows.map(s => num(round(s.anomalies[v]?.z)))
+      });
+    }
+  });
+
+  // Forecasts get their own time axes
+  const addForecast = (prefix: string, label: string, predictions: Prediction[]) => {
+    if (predictions.length === 0) return;
+    dimensions[`${prefix}_time`] = predictions.length;
+    const dims = [`${prefix}_time`];
+    variables.push(
+      {
+        name: `${prefix}_time`, dimensions: dims, type: 'double',
+        attributes: { standard_name: 'time', long_name: `${label} month`, units: TIME_UNITS, calendar: 'standard' },
+        data: predictions.map(p => toDays(p.month))
+      },
+      {
+        name: `${prefix}_risk`, dimensions: dims, type: 'int',
+        attributes: { long_name: `${label} risk level`, ...flagAttributes(RISK_LEVELS) },
+        data: predictions.map(p => RISK_LEVELS.indexOf(p.riskLevel))
+      },
+      {
+        name: `${prefix}_temperature`, dimensions: dims, type: 'float',
+        attributes: { standard_name: 'air_temperature', long_name: `${label} temperature`, units: 'degC', _FillValue: -9999 },
+        data: predictions.map(p => num(round(p.predictedTemp)))
+      }
+    );
+    if (predictions.some(p => p.tempInterval)) {
+      variables.push({
+        name: `${prefix}_temperature_interval`, dimensions: [...dims, 'nv'], type: 'float',
+        attributes: { long_name: `${label} temperature prediction interval`, units: 'degC', _FillValue: -9999 },
+        data: predictions.flatMap(p => [num(round(p.tempInterval?.[0])), num(round(p.tempInterval?.[1]))])
+      });
+    }
+    if (predictions.some(p => p.predictedRainfall !== undefined)) {
+      variables.push({
+        name: `${prefix}_precipitation`, dimensions: dims, type: 'float',
+        attributes: { standard_name: 'lwe_precipitation_rate', long_name: `${label} precipitation`, units: CF_UNITS[unitOf(dataset, 'PRECTOTCORR')] ?? 'mm day-1', _FillValue: -9999 },
+        data: predictions.map(p => num(round(p.predictedRainfall)))
+      });
+    }
+  };
+  if (options.predictions) {
+    addForecast('ai_forecast', 'AI predicted', source.aiPredictions);
+    if (source.forecast) addForecast('stat_forecast', `${source.forecast.model} forecast`, source.forecast.predictions);
+  }
+
+  const events = selectCalamities(source, options);
+  if (events.length) {
+    dimensions.event = events.length;
+    const labels = events.map(c => `${c.type}${c.location ? ` - ${c.location}` : ''}`);
+    dimensions.label_strlen = Math.max(...labels.map(l => new TextEncoder().encode(l).length));
+    variables.push(
+      {
+        name: 'event_time', dimensions: ['event'], type: 'double',
+        attributes: { standard_name: 'time', long_name: 'event start', units: TIME_UNITS, calendar: 'standard' },
+        data: events.map(c => toDays(c.startDate))
+      },
+      {
+        name: 'event_type', dimensions: ['event'], type: 'int',
+        attributes: { long_name: 'calamity type', ...flagAttributes(CALAMITY_TYPES) },
+        data: events.map(c => CALAMITY_TYPES.indexOf(c.type))
+      },
+      {
+        name: 'event_source', dimensions: ['event'], type: 'int',
+        attributes: { long_name: 'event record source', ...flagAttributes(CALAMITY_SOURCES) },
+        data: events.map(c => CALAMITY_SOURCES.indexOf(c.source))
+      },
+      { name: 'event_deaths', dimensions: ['event'], type: 'float', attributes: { long_name: 'deaths', units: '1', _FillValue: -9999 }, data: events.map(c => num(c.deaths)) },
+      { name: 'event_affected', dimensions: ['event'], type: 'double', attributes: { long_name: 'people affected', units: '1', _FillValue: -9999 }, data: events.map(c => num(c.affected)) },
+      { name: 'event_damage', dimensions: ['event'], type: 'double', attributes: { long_name: 'damage', units: 'USD', _FillValue: -9999 }, data: events.map(c => num(c.damageUsd)) },
+      { name: 'event_label', dimensions: ['event', 'label_strlen'], type: 'char', attributes: { long_name: 'event type and place' }, data: labels }
+    );
+  }
+
+  return {
+    dimensions,
+    attributes: {
+      Conventions: 'CF-1.8',
+      featureType: 'timeSeries',
+      title: `Climate data for ${station}`,
+      source: `${dataset.provenance.source} (${dataset.resolution})`,
+      history: `${new Date().toISOString()}: exported by ROTATER; data retrieved ${new Date(dataset.provenance.retrievedAt).toISOString()}`,
+      comment: [isSynthetic(dataset) ? 'SYNTHETIC DATA - NOT OBSERVATIONS.' : '', notes].filter(Boolean).join(' '),
+      provenance_status: dataset.provenance.status,
+      geospatial_lat_min: location.lat,
+      geospatial_lat_max: location.lat,
+      geospatial_lon_min: location.lon,
+      geospatial_lon_max: location.lon,
+      time_coverage_start: options.from,
+      time_coverage_end: options.to,
+      anomaly_baseline: dataset.climatology.length ? formatBaseline(dataset.baseline) : 'none',
+      ...(dataset.area ? { area_name: dataset.area.name, area_km2: dataset.area.areaKm2, area_samples: dataset.area.samples } : {})
+    },
+    variables
+  };
+};
+
+// CF-JSON: dimensions, global attributes and variables with shape and data
+const toCfJson = (nc: NcDataset): string => JSON.stringify({
+  dimensions: nc.dimensions,
+  attributes: nc.attributes,
+  variables: Object.fromEntries(nc.variables.map(v => [v.name, {
+    shape: v.dimensions,
+    type: v.type,
+    attributes: v.attributes,
+    data: v.type === 'char'
+      ? (v.dimensions.length > 1 ? v.data : (v.data as string[])[0])
+      : (v.data as number[]).map(x => (Number.isFinite(x) ? x : null))
+  }]))
+}, null, 2);
+
+// ---- GeoJSON ----
+
+const toGeoJson = (source: ExportSource, options: ExportOptions): string => {
+  const { dataset, location } = source;
+  const round = rounder(options.precision);
+  const anomalyVars = anomalyVariables(dataset, options);
+  const point = (lon: number, lat: number) => ({ type: 'Point', coordinates: [lon, lat] });
+  const site = point(location.lon, location.lat);
+
+  const features: object[] = selectRows(dataset, options).map(s => ({
+    type: 'Feature',
+    geometry: site,
+    properties: {
+      kind: 'observation',
+      date: s.date,
+      ...Object.fromEntries(options.variables.map(v => [v, round(s.values[v])])),
+      ...Object.fromEntries(anomalyVars.flatMap(v => [[`${v}_anomaly`, round(s.anomalies[v]?.value)], [`${v}_z`, round(s.anomalies[v]?.z)]]))
+    }
+  }));
+  predictionTables(source, options).forEach(table => table.rows.forEach(row => features.push({
+    type: 'Feature',
+    geometry: site,
+    properties: { kind: table.name, ...Object.fromEntries(table.columns.map((c, i) => [c, row[i]])) }
+  })));
+  selectCalamities(source, options).forEach(c => features.push({
+    type: 'Feature',
+    // Events without their own coordinates are placed at the analysed site
+    geometry: c.lat !== undefined && c.lon !== undefined ? point(c.lon, c.lat) : site,
+    properties: { kind: 'calamity', ...c }
+  }));
+
+  return JSON.stringify({
+    type: 'FeatureCollection',
+    metadata: {
+      ...Object.fromEntries(exportMetadata(source, options).filter(([key]) => key !== 'note')),
+      notes: dataset.provenance.notes,
+      units: Object.fromEntries(options.variables.map(v => [v, unitOf(dataset, v)]))
+    },
+    features
+  }, null, 2);
+};
+
+// ---- Parquet ----
+
+const toParquet = (source: ExportSource, options: ExportOptions): ArrayBuffer => {
+  const table = dataTable(source, options);
+  const extras = [...predictionTables(source, options), ...calamityTable(source, options)];
+  // Column names without the unit suffix; units go into the metadata
+  const names = table.columns.map(c => c.replace(/ \(.*\)$/, ''));
+  return parquetWriteBuffer({
+    columnData: names.map((name, i) => ({
+      name,
+      data: table.rows.map(row => row[i]),
+      type: i === 0 ? 'STRING' : 'DOUBLE',
+      nullable: i !== 0
+    })),
+    kvMetadata: [
+      ...exportMetadata(source, options).map(([key, value], i) => ({ key: key === 'note' ? `note_${i}` : key, value })),
+      { key: 'units', value: JSON.stringify(Object.fromEntries(options.variables.map(v => [v, unitOf(source.dataset, v)]))) },
+      // Predictions and events do not fit the table; keep them as JSON
+      ...extras.map(t => ({ key: t.name, value: JSON.stringify({ columns: t.columns, rows: t.rows }) }))
+    ]
+  });
+};
+
+// ---- Entry point ----
+
+export const exportFileName = (source: ExportSource, format: ExportFormat) => {
+  const extension = EXPORT_FORMATS.find(f => f.id === format)!.extension;
+  return `${isSynthetic(source.dataset) ? 'SYNTHETIC_' : ''}climate_data_${locationSlug(source.location)}.${extension}`;
+};
+
+export const exportDataset = (source: ExportSource, options: ExportOptions): Blob => {
+  if (options.variables.length === 0) throw new Error('Select at least one variable');
+  const { mime } = EXPORT_FORMATS.find(f => f.id === options.format)!;
+  switch (options.format) {
+    case 'csv':
+      return new Blob([toCsv(source, options)], { type: mime });
+    case 'xlsx':
+      return new Blob([toXlsx(source, options)], { type: mime });
+    case 'netcdf':
+      return new Blob([writeNetcdf3(buildCfDataset(source, options))], { type: mime });
+    case 'cfjson':
+      return new Blob([toCfJson(buildCfDataset(source, options))], { type: mime });
+    case 'geojson':
+      return new Blob([toGeoJson(source, options)], { type: mime });
+    case 'parquet':
+      return new Blob([toParquet(source, options)], { type: mime });
+  }
+};
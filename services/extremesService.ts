@@ -0,0 +1,247 @@
+import { ClimateStats, ClimateVariable, ExtremeValueFit, ReturnLevel, TemporalResolution } from '../types';
+import { mean, nelderMead, quantile, stdDev } from './mathUtils';
+
+// Extreme value analysis of annual maxima (block maxima, Coles 2001):
+//  - the year's highest daily value at daily resolution, else its highest
+//    monthly mean
+//  - Gumbel and GEV fitted by maximum likelihood; the GEV is kept when a
+//    likelihood-ratio test says its shape parameter is needed
+//  - return levels with 95% intervals from a bootstrap of the maxima
+// The bootstrap uses a fixed seed so the same data always gives the same curves.
+
+export const EXTREME_VARIABLES: ClimateVariable[] = ['PRECTOTCORR', 'T2M_MAX', 'T2M'];
+
+// Return periods listed in the table and used by the calculator wording
+export const RETURN_PERIODS = [2, 10, 25, 50, 100];
+
+// Grid the return-level curve is evaluated on
+const CURVE_PERIODS = [1.1, 1.25, 1.5, 2, 3, 5, 10, 15, 25, 50, 100, 200];
+
+// Fewer complete years make the tail estimates meaningless
+export const MIN_EXTREME_YEARS = 10;
+
+// A year counts when at least this share of its records has data
+const MIN_COVERAGE = 0.9;
+
+const BOOTSTRAP_SAMPLES = 200;
+
+// Shape parameters beyond ±0.5 are physically implausible for these
+// variables and make short-record fits unstable
+const MAX_SHAPE = 0.5;
+
+// Chi-squared (1 df) critical value at the 5% level
+const LIKELIHOOD_RATIO_CRITICAL = 3.841;
+
+const EULER_GAMMA = 0.5772156649;
+
+interface Parameters {
+  location: number;
+  scale: number;
+  shape: number;
+}
+
+const yearOf = (date: string) => parseInt(date.substring(0, 4), 10);
+const round = (n: number, digits = 3) => parseFloat(n.toFixed(digits));
+
+// Highest value of each sufficiently complete calendar year
+const annualMaxima = (stats: ClimateStats[], variable: ClimateVariable, recordsPerYear: number) => {
+  const years = new Map<number, { count: number; date: string; value: number }>();
+  stats.forEach(s => {
+    const value = s.values[variable];
+    if (typeof value !== 'number') return;
+    const year = yearOf(s.date);
+    const current = years.get(year);
+    if (!current) years.set(year, { count: 1, date: s.date, value });
+    else {
+      current.count++;
+      if (value > current.value) Object.assign(current, { date: s.date, value });
+    }
+  });
+  return Array.from(years.entries())
+    .filter(([, y]) => y.count >= recordsPerYear * MIN_COVERAGE)
+    .map(([year, y]) => ({ year, date: y.date, value: y.value }))
+    .sort((a, b) => a.year - b.year);
+};
+
+const gumbelNll = (values: number[], location: number, scale: number) => {
+  if (!(scale > 0)) return Infinity;
+  return values.reduce((acc, x) => {
+    const z = (x - location) / scale;
+    return acc + Math.log(scale) + z + Math.exp(-z);
+  }, 0);
+};
+
+const gevNll = (values: number[], { location, scale, shape }: Parameters) => {
+  if (Math.abs(shape) < 1e-6) return gumbelNll(values, location, scale);
+  if (!(scale > 0) || Math.abs(shape) > MAX_SHAPE) return Infinity;
+  let total = 0;
+  for (const x of values) {
+    const y = 1 + shape * (x - location) / scale;
+    if (y <= 0) return Infinity;
+    total += Math.log(scale) + (1 + 1 / shape) * Math.log(y) + y ** (-1 / shape);
+  }
+  return total;
+};
+
+// Method-of-moments Gumbel, the starting point of both fits
+const gumbelMoments = (values: number[]): Parameters => {
+  const scale = Math.max(stdDev(values) * Math.sqrt(6) / Math.PI, 1e-6);
+  return { location: mean(values) - EULER_GAMMA * scale, scale, shape: 0 };
+};
+
+const fitGumbel = (values: number[]): Parameters => {
+  const start = gumbelMoments(values);
+  const [location, logScale] = nelderMead(
+    ([mu, logSigma]) => gumbelNll(values, mu, Math.exp(logSigma)),
+    [start.location, Math.log(start.scale)],
+    [start.scale * 0.5, 0.2]
+  );
+  return { location, scale: Math.exp(logScale), shape: 0 };
+};
+
+const fitGev = (values: number[], start: Parameters): Parameters => {
+  const [location, logScale, shape] = nelderMead(
+    ([mu, logSigma, xi]) => gevNll(values, { location: mu, scale: Math.exp(logSigma), shape: xi }),
+    [start.location, Math.log(start.scale), 0.05],
+    [start.scale * 0.5, 0.2, 0.1]
+  );
+  return { location, scale: Math.exp(logScale), shape };
+};
+
+// Level exceeded with probability 1/period in any year
+const returnLevel = ({ location, scale, shape }: Parameters, period: number) => {
+  const y = -Math.log(1 - 1 / period);
+  return Math.abs(shape) < 1e-6
+    ? location - scale * Math.log(y)
+    : location - (scale / shape) * (1 - y ** -shape);
+};
+
+const cdf = ({ location, scale, shape }: Parameters, x: number) => {
+  if (Math.abs(shape) < 1e-6) return Math.exp(-Math.exp(-(x - location) / scale));
+  const y = 1 + shape * (x - location) / scale;
+  if (y <= 0) return shape > 0 ? 0 : 1; // below the lower or above the upper bound
+  return Math.exp(-(y ** (-1 / shape)));
+};
+
+// Park-Miller generator, for a reproducible bootstrap
+const seededRandom = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state * 16807) % 2147483647;
+    return state / 2147483647;
+  };
+};
+
+const fitVariable = (stats: ClimateStats[], variable: ClimateVariable, block: 'day' | 'month'): ExtremeValueFit | null => {
+  const maxima = annualMaxima(stats, variable, block === 'day' ? 365 : 12);
+  if (maxima.length < MIN_EXTREME_YEARS) return null;
+  const values = maxima.map(m => m.value);
+  if (!(stdDev(values) > 0)) return null;
+
+  const gumbel = fitGumbel(values);
+  const gev = fitGev(values, gumbel);
+  const useGev = 2 * (gevNll(values, gumbel) - gevNll(values, gev)) > LIKELIHOOD_RATIO_CRITICAL;
+  const fit = useGev ? gev : gumbel;
+
+  const random = seededRandom(20240601);
+  const samples = CURVE_PERIODS.map(() => [] as number[]);
+  for (let b = 0; b < BOOTSTRAP_SAMPLES; b++) {
+    const resample = values.map(() => values[Math.floor(random() * values.length)]);
+    if (!(stdDev(resample) > 0)) continue;
+    const start = fitGumbel(resample);
+    const refit = useGev ? fitGev(resample, start) : start;
+    CURVE_PERIODS.forEach((period, i) => samples[i].push(returnLevel(refit, period)));
+  }
+
+  const returnLevels: ReturnLevel[] = CURVE_PERIODS.map((period, i) => ({
+    period,
+    level: round(returnLevel(fit, period)),
+    lower: round(quantile(samples[i], 0.025)),
+    upper: round(quantile(samples[i], 0.975))
+  }));
+
+  return {
+    variable,
+    block,
+    distribution: useGev ? 'GEV' : 'Gumbel',
+    location: round(fit.location, 4),
+    scale: round(fit.scale, 4),
+    shape: round(fit.shape, 4),
+    maxima,
+    returnLevels
+  };
+};
+
+// Fits for the rainfall and temperature variables present in a series.
+// Hourly series are not analysed.
+export const computeExtremes = (
+  stats: ClimateStats[],
+  variables: ClimateVariable[],
+  resolution: TemporalResolution
+): ExtremeValueFit[] => {
+  if (resolution === 'hourly') return [];
+  const block = resolution === 'daily' ? 'day' : 'month';
+  return EXTREME_VARIABLES
+    .filter(v => variables.includes(v))
+    .map(v => fitVariable(stats, v, block))
+    .filter((f): f is ExtremeValueFit => f !== null);
+};
+
+const parametersOf = (fit: ExtremeValueFit): Parameters => ({ location: fit.location, scale: fit.scale, shape: fit.shape });
+
+// Average years between annual maxima at or above the value; Infinity past
+// the fitted upper bound
+export const returnPeriodOf = (fit: ExtremeValueFit, value: number): number => {
+  const p = cdf(parametersOf(fit), value);
+  return p >= 1 ? Infinity : 1 / (1 - p);
+};
+
+// Return period at which a bound of the interval reaches the value, read off
+// the curve with log-linear interpolation; null beyond the curve's range
+const periodAt = (fit: ExtremeValueFit, value: number, bound: 'lower' | 'upper'): number | null => {
+  const curve = fit.returnLevels;
+  if (value <= curve[0][bound]) return curve[0].period;
+  for (let i = 1; i < curve.length; i++) {
+    const [a, b] = [curve[i - 1], curve[i]];
+    if (value <= b[bound]) {
+      const t = (value - a[bound]) / (b[bound] - a[bound] || 1);
+      return Math.exp(Math.log(a.period) + t * (Math.log(b.period) - Math.log(a.period)));
+    }
+  }
+  return null;
+};
+
+export interface ReturnPeriodEstimate {
+  period: number; // Infinity past the fitted upper bound
+  lower: number | null; // from the upper confidence bound of the return levels
+  upper: number | null; // from the lower bound; null when longer than the curve reaches
+}
+
+export const estimateReturnPeriod = (fit: ExtremeValueFit, value: number): ReturnPeriodEstimate => ({
+  period: returnPeriodOf(fit, value),
+  lower: periodAt(fit, value, 'upper'),
+  upper: periodAt(fit, value, 'lower')
+});
+
+const longestPeriod = (fit: ExtremeValueFit) => fit.returnLevels[fit.returnLevels.length - 1].period;
+
+const formatYears = (period: number) => (period < 10 ? period.toFixed(1).replace(/\.0$/, '') : Math.round(period).toString());
+
+// "roughly a 1-in-8-year event (95% interval 1-in-5 to 1-in-14 years)"
+export const describeReturnPeriod = (fit: ExtremeValueFit, value: number): string => {
+  const { period, lower, upper } = estimateReturnPeriod(fit, value);
+  const longest = longestPeriod(fit);
+  if (period < 1.5) return 'reached in most years';
+  if (!Number.isFinite(period)) return 'beyond the upper bound of the fitted distribution';
+  if (lower === null) return `rarer than a 1-in-${longest}-year event`;
+  const estimate = period > longest ? `rarer than a 1-in-${longest}-year event` : `roughly a 1-in-${formatYears(period)}-year event`;
+  return `${estimate} (95% interval 1-in-${formatYears(lower)} to ${upper === null ? `over ${longest}` : `1-in-${formatYears(upper)}`} years)`;
+};
+
+// Gringorten plotting positions of the observed maxima, for the curve chart
+export const empiricalReturnPeriods = (fit: ExtremeValueFit): { period: number; value: number; year: number }[] => {
+  const n = fit.maxima.length;
+  return [...fit.maxima]
+    .sort((a, b) => b.value - a.value)
+    .map((m, i) => ({ period: round((n + 0.12) / (i + 1 - 0.44), 2), value: m.value, year: m.year }));
+};
@@ -0,0 +1,187 @@
+import {
+  ChatMessage, LlmChat, LlmChunk, LlmFixture, LlmProvider, LlmRequest, LlmTask, LlmToolResult, LlmToolSpec, MapResult, NewsResult
+} from '../types';
+import { hashKey } from './cacheService';
+import { idbClear, idbGetAll, idbPutAll } from './db';
+
+// Deterministic replay of recorded LLM responses, for tests and offline
+// demos. Any live provider can record into the fixture store; requests
+// without a recording get the built-in response for their task.
+
+const FIXTURE_FILE_VERSION = 1;
+
+// Pause between replayed chunks so streaming renders as it would live
+const REPLAY_DELAY_MS = 15;
+
+// Built-in responses are streamed in pieces of this many characters
+const DEFAULT_CHUNK_LENGTH = 48;
+
+const chunkText = (text: string): LlmChunk[] =>
+  Array.from({ length: Math.ceil(text.length / DEFAULT_CHUNK_LENGTH) }, (_, i) => ({
+    text: text.slice(i * DEFAULT_CHUNK_LENGTH, (i + 1) * DEFAULT_CHUNK_LENGTH)
+  }));
+
+const DEFAULT_INSIGHTS = {
+  summary: 'Offline replay: temperatures have run slightly above the seasonal norm over the last two years, with a weaker-than-usual monsoon in the most recent season and vegetation recovering after the rains. No live model was consulted; this is fixture data.',
+  predictions: [
+    ['2024-01', 'Low', 18.2, 'Mild, dry winter month.'],
+    ['2024-02', 'Low', 20.9, 'Warming trend begins.'],
+    ['2024-03', 'Medium', 25.4, 'Early heat; soil moisture falling.'],
+    ['2024-04', 'High', 29.8, 'Pre-monsoon heat stress likely.'],
+    ['2024-05', 'Critical', 32.6, 'Peak heat; heatwave conditions possible.'],
+    ['2024-06', 'High', 31.0, 'Monsoon onset may be delayed.'],
+    ['2024-07', 'Medium', 28.3, 'Monsoon rains; localized flooding risk.'],
+    ['2024-08', 'Medium', 27.9, 'Heavy rain spells.'],
+    ['2024-09', 'Low', 27.1, 'Monsoon withdrawal.'],
+    ['2024-10', 'Low', 25.6, 'Post-monsoon, stable conditions.'],
+    ['2024-11', 'Low', 21.8, 'Cooling, dry.'],
+    ['2024-12', 'Low', 18.9, 'Cool, dry winter.']
+  ].map(([month, riskLevel, predictedTemp, description]) => ({ month, riskLevel, predictedTemp, description }))
+};
+
+const DEFAULT_FIXTURES: Record<LlmTask, Omit<LlmFixture, 'key' | 'recordedAt'>> = {
+  insights: { task: 'insights', chunks: [{ thought: 'Replaying recorded analysis.' }, ...chunkText(JSON.stringify(DEFAULT_INSIGHTS))] },
+  repair: { task: 'repair', chunks: [{ text: JSON.stringify(DEFAULT_INSIGHTS) }] },
+  news: {
+    task: 'news',
+    result: { summary: 'Offline replay: no news search was performed. Switch to the Gemini provider for live, search-grounded news.', sources: [] }
+  },
+  resources: {
+    task: 'resources',
+    result: { answer: 'Offline replay: no map search was performed. Switch to the Gemini provider for nearby shelters and hospitals.', points: [] }
+  },
+  chat: {
+    task: 'chat',
+    chunks: chunkText('This is an **offline replay** and no model is answering. Record a conversation with a live provider to replay it here, or switch providers in the model settings.')
+  }
+};
+
+// ---- Keys ----
+
+const streamKey = (request: LlmRequest) => `${request.task}:${hashKey({ prompt: request.prompt, schema: request.schema })}`;
+
+const lookupKey = (task: LlmTask, lat: number, lon: number) => `${task}:${hashKey({ lat, lon })}`;
+
+// Chat turns are keyed by what was sent, so a replayed conversation only
+// matches while its messages (including the dashboard state) are identical.
+const chatKey = (input: string | LlmToolResult[]) =>
+  `chat:${hashKey(typeof input === 'string' ? input : input.map(r => ({ name: r.call.name, response: r.response })))}`;
+
+// ---- Store ----
+
+export const loadFixtures = () => idbGetAll<LlmFixture>('llmFixtures');
+
+export const countFixtures = async (): Promise<number> => {
+  try {
+    return (await loadFixtures()).length;
+  } catch {
+    return 0;
+  }
+};
+
+export const clearFixtures = () => idbClear('llmFixtures');
+
+export const exportFixtures = async (): Promise<string> =>
+  JSON.stringify({ version: FIXTURE_FILE_VERSION, fixtures: await loadFixtures() }, null, 2);
+
+// Adds the fixtures in an exported file, replacing recordings with the same key.
+export const importFixtures = async (file: File): Promise<number> => {
+  const parsed = JSON.parse(await file.text());
+  const fixtures: unknown[] = Array.isArray(parsed?.fixtures) ? parsed.fixtures : [];
+  const valid = fixtures.filter((f): f is LlmFixture =>
+    typeof f === 'object' && f !== null && typeof (f as LlmFixture).key === 'string' && typeof (f as LlmFixture).task === 'string'
+    && (Array.isArray((f as LlmFixture).chunks) || typeof (f as LlmFixture).result === 'object')
+  );
+  if (valid.length === 0) throw new Error(`${file.name} contains no fixtures`);
+  await idbPutAll('llmFixtures', valid);
+  return valid.length;
+};
+
+const record = (fixture: Omit<LlmFixture, 'recordedAt'>) =>
+  idbPutAll('llmFixtures', [{ ...fixture, recordedAt: Date.now() }])
+    .catch(error => console.error('Failed to record fixture', error));
+
+// ---- Replay ----
+
+const pause = (signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal?.reason);
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, REPLAY_DELAY_MS);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+async function* replay(chunks: LlmChunk[], signal?: AbortSignal): AsyncGenerator<LlmChunk> {
+  for (const chunk of chunks) {
+    signal?.throwIfAborted();
+    await pause(signal);
+    yield chunk;
+  }
+}
+
+export const createFixtureProvider = (): LlmProvider => {
+  let store: Promise<Map<string, LlmFixture>> | null = null;
+  const find = async (key: string, task: LlmTask) => {
+    store ??= loadFixtures()
+      .catch((): LlmFixture[] => [])
+      .then(all => new Map(all.map(f => [f.key, f] as const)));
+    return (await store).get(key) ?? DEFAULT_FIXTURES[task];
+  };
+
+  const createChat = (_instruction: string, _tools: LlmToolSpec[], _history: ChatMessage[]): LlmChat => ({
+    send: async function* (input: string | LlmToolResult[]) {
+      const fixture = await find(chatKey(input), 'chat');
+      yield* replay(fixture.chunks ?? []);
+    }
+  });
+
+  return {
+    id: 'fixture',
+    model: () => 'replay',
+    stream: async function* (request: LlmRequest) {
+      const fixture = await find(streamKey(request), request.task);
+      yield* replay(fixture.chunks ?? [], request.signal);
+    },
+    searchNews: async (lat, lon) => (await find(lookupKey('news', lat, lon), 'news')).result as NewsResult,
+    findResources: async (lat, lon) => (await find(lookupKey('resources', lat, lon), 'resources')).result as MapResult,
+    createChat
+  };
+};
+
+// ---- Recording ----
+
+// Passes calls through to a live provider and stores what comes back.
+// Only complete responses are recorded; aborted or failed ones are not.
+export const withRecording = (provider: LlmProvider): LlmProvider => {
+  const collect = async function* (key: string, task: LlmTask, source: AsyncGenerator<LlmChunk>): AsyncGenerator<LlmChunk> {
+    const chunks: LlmChunk[] = [];
+    for await (const chunk of source) {
+      chunks.push(chunk);
+      yield chunk;
+    }
+    record({ key, task, chunks });
+  };
+
+  return {
+    ...provider,
+    stream: request => collect(streamKey(request), request.task, provider.stream(request)),
+    searchNews: async (lat, lon) => {
+      const result = await provider.searchNews(lat, lon);
+      record({ key: lookupKey('news', lat, lon), task: 'news', result });
+      return result;
+    },
+    findResources: async (lat, lon) => {
+      const result = await provider.findResources(lat, lon);
+      record({ key: lookupKey('resources', lat, lon), task: 'resources', result });
+      return result;
+    },
+    createChat: (instruction, tools, history) => {
+      const chat = provider.createChat(instruction, tools, history);
+      return { send: input => collect(chatKey(input), 'chat', chat.send(input)) };
+    }
+  };
+};
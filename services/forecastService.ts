@@ -0,0 +1,280 @@
+import { ClimateStats, ClimateModel, ClimateVariable, Prediction, ForecastResult, ForecastSeries, ForecastPoint } from '../types';
+import { mean, stdDev, leastSquares, dot, normalQuantile } from './mathUtils';
+
+// Models the local engine can actually fit. LSTM stays in the enum for the
+// Gemini prompt vocabulary but has no offline implementation.
+export const FORECAST_MODELS: ClimateModel[] = [ClimateModel.ARIMA, ClimateModel.PROPHET];
+
+const SEASON = 12;
+const MAX_AR_ORDER = 3;
+const FOURIER_ORDER = 3;
+const CHANGEPOINTS = 5;
+
+type ForecastVariable = Extract<ClimateVariable, 'T2M' | 'PRECTOTCORR'>;
+
+interface ModelFit {
+  points: ForecastPoint[];
+  label: string;
+  rmse: number;
+  aic?: number;
+}
+
+interface RegularSeries {
+  dates: string[];
+  values: number[];
+  imputed: number;
+}
+
+export const addMonths = (date: string, n: number): string => {
+  const [y, m] = date.split('-').map(Number);
+  const index = y * 12 + (m - 1) + n;
+  return `${Math.floor(index / 12)}-${((index % 12) + 1).toString().padStart(2, '0')}`;
+};
+
+const monthOf = (date: string): number => parseInt(date.substring(5, 7), 10);
+
+// Provider no-data months come through as null, so rebuild a gap-free monthly
+// index and fill holes with that calendar month's mean. The count is reported
+// in diagnostics.
+const toRegularSeries = (stats: ClimateStats[], variable: ForecastVariable): RegularSeries => {
+  const sorted = stats
+    .filter(s => typeof s.values[variable] === 'number')
+    .sort((a, b) => a.date.localeCompare(b.date));
+  if (sorted.length === 0) throw new Error(`No ${variable} values to forecast`);
+  const byDate = new Map(sorted.map(s => [s.date, s.values[variable] as number]));
+  const monthly: number[][] = Array.from({ length: SEASON }, () => []);
+  byDate.forEach((v, d) => monthly[monthOf(d) - 1].push(v));
+  const monthlyMean = monthly.map(v => (v.length ? mean(v) : mean(Array.from(byDate.values()))));
+
+  const dates: string[] = [];
+  const values: number[] = [];
+  let imputed = 0;
+  for (let d = sorted[0].date; d <= sorted[sorted.length - 1].date; d = addMonths(d, 1)) {
+    dates.push(d);
+    const v = byDate.get(d);
+    if (v === undefined) {
+      imputed++;
+      values.push(monthlyMean[monthOf(d) - 1]);
+    } else {
+      values.push(v);
+    }
+  }
+  return { dates, values, imputed };
+};
+
+// Seasonal ARIMA(p,0,0)(0,1,0)[12] with drift. The AR order is picked by AIC
+// on the seasonally differenced series; intervals come from the psi-weights of
+// the combined AR x seasonal-difference polynomial.
+const fitSeasonalArima = (
+  series: RegularSeries,
+  horizon: number,
+  z: number
+): ModelFit => {
+  const y = series.values;
+  const w = y.slice(SEASON).map((v, i) => v - y[i]);
+  if (w.length < MAX_AR_ORDER + 12) {
+    throw new Error('Seasonal ARIMA needs at least 3 years of monthly data');
+  }
+
+  const start = MAX_AR_ORDER; // common sample so AIC values are comparable
+  let best: { p: number; coefficients: number[]; sigma2: number; aic: number; residuals: number[] } | null = null;
+
+  for (let p = 0; p <= MAX_AR_ORDER; p++) {
+    const X: number[][] = [];
+    const target: number[] = [];
+    for (let t = start; t < w.length; t++) {
+      X.push([1, ...Array.from({ length: p }, (_, i) => w[t - i - 1])]);
+      target.push(w[t]);
+    }
+    const fit = leastSquares(X, target);
+    const n = target.length;
+    const sigma2Mle = fit.residuals.reduce((acc, r) => acc + r * r, 0) / n;
+    const aic = n * Math.log(sigma2Mle) + 2 * (p + 2);
+    if (!best || aic < best.aic) {
+      best = { p, coefficients: fit.coefficients, sigma2: fit.sigma2, aic, residuals: fit.residuals };
+    }
+  }
+  if (!best) throw new Error('ARIMA fit failed');
+
+  const [c, ...phi] = best.coefficients;
+
+  // Recursive point forecasts on the differenced scale, then undifference.
+  const wExt = [...w];
+  const yExt = [...y];
+  for (let h = 0; h < horizon; h++) {
+    const next = c + phi.reduce((acc, f, i) => acc + f * wExt[wExt.length - 1 - i], 0);
+    wExt.push(next);
+    yExt.push(yExt[yExt.length - SEASON] + next);
+  }
+
+  // y_t = c + sum(a_j y_{t-j}) + e_t  with a = phi(B)(1 - B^12) expanded
+  const lagCoefficients = new Array(SEASON + best.p + 1).fill(0);
+  phi.forEach((f, i) => { lagCoefficients[i + 1] += f; lagCoefficients[SEASON + i + 1] -= f; });
+  lagCoefficients[SEASON] += 1;
+  const psi = [1];
+  for (let j = 1; j < horizon; j++) {
+    let v = 0;
+    for (let i = 1; i <= Math.min(j, lagCoefficients.length - 1); i++) v += lagCoefficients[i] * psi[j - i];
+    psi.push(v);
+  }
+
+  const lastDate = series.dates[series.dates.length - 1];
+  let cumulative = 0;
+  const points = Array.from({ length: horizon }, (_, h) => {
+    cumulative += psi[h] ** 2;
+    const se = Math.sqrt(best!.sigma2 * cumulative);
+    const value = yExt[y.length + h];
+    return { date: addMonths(lastDate, h + 1), value, lower: value - z * se, upper: value + z * se };
+  });
+
+  return {
+    points,
+    label: `ARIMA(${best.p},0,0)(0,1,0)[12]`,
+    rmse: Math.sqrt(mean(best.residuals.map(r => r * r))),
+    aic: best.aic
+  };
+};
+
+// Prophet-style additive model: piecewise-linear trend with a handful of
+// changepoints (ridge-penalised, standing in for Prophet's Laplace prior) plus
+// yearly Fourier seasonality, fitted in a single least-squares pass.
+const fitAdditiveTrend = (
+  series: RegularSeries,
+  horizon: number,
+  z: number
+): ModelFit => {
+  const n = series.values.length;
+  if (n < 24) throw new Error('Prophet-style model needs at least 2 years of monthly data');
+
+  const changepointCount = n >= 36 ? CHANGEPOINTS : 0;
+  const changepoints = Array.from({ length: changepointCount }, (_, i) => (0.8 * (i + 1)) / (changepointCount + 1));
+
+  const design = (index: number, date: string): number[] => {
+    const t = index / (n - 1);
+    const angle = (2 * Math.PI * (monthOf(date) - 1)) / SEASON;
+    const seasonal: number[] = [];
+    for (let k = 1; k <= FOURIER_ORDER; k++) seasonal.push(Math.sin(k * angle), Math.cos(k * angle));
+    return [1, t, ...changepoints.map(s => Math.max(0, t - s)), ...seasonal];
+  };
+
+  const X = series.dates.map((d, i) => design(i, d));
+  const penalty = X[0].map((_, i) => (i >= 2 && i < 2 + changepointCount ? 0.05 * n : 0));
+  const fit = leastSquares(X, series.values, penalty);
+
+  const lastDate = series.dates[n - 1];
+  const points = Array.from({ length: horizon }, (_, h) => {
+    const date = addMonths(lastDate, h + 1);
+    const x = design(n + h, date);
+    const leverage = dot(x, fit.covarianceUnscaled.map(row => dot(row, x)));
+    const se = Math.sqrt(fit.sigma2 * (1 + leverage));
+    const value = dot(x, fit.coefficients);
+    return { date, value, lower: value - z * se, upper: value + z * se };
+  });
+
+  return {
+    points,
+    label: `Additive trend (${changepointCount} changepoints, Fourier order ${FOURIER_ORDER})`,
+    rmse: Math.sqrt(mean(fit.residuals.map(r => r * r)))
+  };
+};
+
+const fitVariable = (
+  stats: ClimateStats[],
+  variable: ForecastVariable,
+  model: ClimateModel,
+  horizon: number,
+  z: number
+): ForecastSeries => {
+  const series = toRegularSeries(stats, variable);
+  const fit: ModelFit = model === ClimateModel.ARIMA
+    ? fitSeasonalArima(series, horizon, z)
+    : fitAdditiveTrend(series, horizon, z);
+
+  // Rainfall cannot go negative; clamp both the forecast and its band.
+  const points = variable === 'PRECTOTCORR'
+    ? fit.points.map(p => ({ ...p, value: Math.max(0, p.value), lower: Math.max(0, p.lower), upper: Math.max(0, p.upper) }))
+    : fit.points;
+
+  return {
+    points,
+    label: fit.label,
+    diagnostics: {
+      rmse: fit.rmse,
+      aic: fit.aic,
+      observations: series.values.length,
+      imputed: series.imputed
+    }
+  };
+};
+
+// Risk is the largest standardised departure of the forecast from that
+// calendar month's history, across temperature and rainfall.
+const classifyRisk = (score: number): Prediction['riskLevel'] => {
+  if (score >= 2) return 'Critical';
+  if (score >= 1.5) return 'High';
+  if (score >= 1) return 'Medium';
+  return 'Low';
+};
+
+const buildPredictions = (stats: ClimateStats[], temperature: ForecastSeries, rainfall: ForecastSeries): Prediction[] => {
+  const monthlyNorms = (variable: ForecastVariable) =>
+    Array.from({ length: SEASON }, (_, m) => {
+      const values = stats
+        .filter(s => monthOf(s.date) === m + 1)
+        .map(s => s.values[variable])
+        .filter((v): v is number => typeof v === 'number');
+      return { mean: mean(values), std: stdDev(values) };
+    });
+  const tempNorms = monthlyNorms('T2M');
+  const rainNorms = monthlyNorms('PRECTOTCORR');
+  const zScore = (value: number, norm: { mean: number; std: number }) =>
+    norm.std > 0 ? (value - norm.mean) / norm.std : 0;
+  const fmt = (z: number) => `${z >= 0 ? '+' : ''}${z.toFixed(1)}σ`;
+
+  return temperature.points.map((tp, i) => {
+    const rp = rainfall.points[i];
+    const m = monthOf(tp.date) - 1;
+    const zTemp = zScore(tp.value, tempNorms[m]);
+    const zRain = zScore(rp.value, rainNorms[m]);
+
+    const notes: string[] = [];
+    if (zTemp >= 1) notes.push('heat stress');
+    if (zTemp <= -1) notes.push('cold spell');
+    if (zRain >= 1.5) notes.push('flood risk');
+    if (zRain <= -1) notes.push('drought risk');
+
+    return {
+      month: tp.date,
+      riskLevel: classifyRisk(Math.max(Math.abs(zTemp), Math.abs(zRain))),
+      predictedTemp: parseFloat(tp.value.toFixed(2)),
+      tempInterval: [parseFloat(tp.lower.toFixed(2)), parseFloat(tp.upper.toFixed(2))],
+      predictedRainfall: parseFloat(rp.value.toFixed(2)),
+      rainfallInterval: [parseFloat(rp.lower.toFixed(2)), parseFloat(rp.upper.toFixed(2))],
+      description: `Temp ${fmt(zTemp)}, rain ${fmt(zRain)} vs monthly norm${notes.length ? ` — ${notes.join(', ')}` : ''}`
+    };
+  });
+};
+
+export const forecastClimate = (
+  stats: ClimateStats[],
+  model: ClimateModel,
+  horizon = 12,
+  confidenceLevel = 0.95
+): ForecastResult => {
+  if (!FORECAST_MODELS.includes(model)) {
+    throw new Error(`${model} is not available in the local forecasting engine`);
+  }
+  if (stats.length === 0) throw new Error('No data to forecast');
+
+  const z = normalQuantile(0.5 + confidenceLevel / 2);
+  const temperature = fitVariable(stats, 'T2M', model, horizon, z);
+  const rainfall = fitVariable(stats, 'PRECTOTCORR', model, horizon, z);
+
+  return {
+    model,
+    confidenceLevel,
+    temperature,
+    rainfall,
+    predictions: buildPredictions(stats, temperature, rainfall)
+  };
+};
@@ -1,101 +1,84 @@
-import { GoogleGenAI, Type, Chat } from "@google/genai";
-import { ClimateStats, Prediction, NewsResult, MapResult, GroundingSource } from "../types";
+import { GoogleGenAI, Chat, GenerateContentResponse, Part } from "@google/genai";
+import {
+  ChatMessage, GroundingSource, LlmChat, LlmChunk, LlmProvider, LlmRequest, LlmSettings, LlmTask, LlmToolResult, LlmToolSpec,
+  MapResult, NewsResult
+} from "../types";
+import { proxyHeaders, proxyUrl } from "./keyService";
 
-// NOTE: The API Key is accessed via process.env.API_KEY as mandated.
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Gemini implementation of the LLM provider interface. Thinking, Google
+// Search and Google Maps grounding are only available here.
 
-// Feature: Think more when needed
-// Feature: Gemini intelligence (Complex tasks)
-export const getClimateInsights = async (
-  stats: ClimateStats[],
-  lat: number,
-  lon: number
-): Promise<{ summary: string; predictions: Prediction[] }> => {
-  try {
-    const recentStats = stats.slice(-24); // Last 2 years
-    const prompt = `
-      Analyze the following climate data for location (${lat}, ${lon}).
-      Data (Last 24 months): ${JSON.stringify(recentStats)}
-      
-      Task:
-      1. Provide a concise summary of recent trends (temperature, rainfall, vegetation).
-      2. Predict potential risks for the next 12 months based on historical patterns.
-      3. Identify if there are signs of drought or flood risks.
-    `;
+const DEFAULT_MODELS: Record<LlmTask, string> = {
+  insights: 'gemini-3-pro-preview', // Required for Thinking Mode
+  repair: 'gemini-3-flash-preview',
+  news: 'gemini-3-flash-preview', // Required for Search Grounding
+  resources: 'gemini-2.5-flash', // Required for Maps Grounding
+  chat: 'gemini-3-pro-preview'
+};
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview', // Required for Thinking Mode
-      contents: prompt,
+// Max thinking budget for deep analysis
+const THINKING_BUDGET = 32768;
+
+// Splits a response chunk into answer text, thought summaries and calls.
+const toChunk = (response: GenerateContentResponse): LlmChunk => {
+  const parts = response.candidates?.[0]?.content?.parts ?? [];
+  return {
+    text: parts.filter(p => !p.thought && p.text).map(p => p.text).join('') || undefined,
+    thought: parts.filter(p => p.thought && p.text).map(p => p.text).join('').trim() || undefined,
+    toolCalls: response.functionCalls?.map(call => ({ id: call.id, name: call.name ?? '', args: call.args ?? {} }))
+  };
+};
+
+const groundingSources = (response: GenerateContentResponse, kinds: ('web' | 'maps')[]): GroundingSource[] => {
+  const sources: GroundingSource[] = [];
+  response.candidates?.[0]?.groundingMetadata?.groundingChunks?.forEach((chunk: any) => {
+    const source = kinds.map(kind => chunk[kind]).find(Boolean);
+    if (source) sources.push({ title: source.title, uri: source.uri });
+  });
+  return sources;
+};
+
+// With a personal key the browser calls Google directly; otherwise requests
+// go through the proxy, which swaps the placeholder key for its own.
+export const createGeminiProvider = (settings: LlmSettings, apiKey: string | null): LlmProvider => {
+  const ai = apiKey
+    ? new GoogleGenAI({ apiKey })
+    : new GoogleGenAI({ apiKey: 'proxy', httpOptions: { baseUrl: proxyUrl('llm/gemini'), headers: proxyHeaders() } });
+  const model = (task: LlmTask) =>
+    (task === 'insights' || task === 'chat') && settings.model ? settings.model : DEFAULT_MODELS[task];
+
+  const stream = async function* (request: LlmRequest): AsyncGenerator<LlmChunk> {
+    const responses = await ai.models.generateContentStream({
+      model: model(request.task),
+      contents: request.prompt,
       config: {
-        thinkingConfig: { thinkingBudget: 32768 }, // Max thinking budget for deep analysis
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            summary: { type: Type.STRING },
-            predictions: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  month: { type: Type.STRING },
-                  riskLevel: { type: Type.STRING, enum: ['Low', 'Medium', 'High', 'Critical'] },
-                  predictedTemp: { type: Type.NUMBER },
-                  description: { type: Type.STRING }
-                }
-              }
-            }
-          }
-        }
+        ...(request.thinking ? { thinkingConfig: { thinkingBudget: THINKING_BUDGET, includeThoughts: true } } : {}),
+        ...(request.schema ? { responseMimeType: "application/json", responseJsonSchema: request.schema } : {}),
+        abortSignal: request.signal
       }
     });
+    for await (const response of responses) yield toChunk(response);
+  };
 
-    // When using responseSchema, response.text contains the valid JSON string.
-    return JSON.parse(response.text || "{}");
-  } catch (error) {
-    console.error("Gemini AI Error:", error);
-    return {
-      summary: "AI Analysis unavailable. Displaying raw data only.",
-      predictions: [
-        { month: "Next Month", riskLevel: "Medium", predictedTemp: 0, description: "Prediction unavailable" }
-      ]
-    };
-  }
-};
-
-// Feature: Use Google Search data
-export const getLocalNews = async (lat: number, lon: number): Promise<NewsResult> => {
-  try {
+  // Feature: Use Google Search data
+  const searchNews = async (lat: number, lon: number): Promise<NewsResult> => {
     const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview', // Required for Search Grounding
+      model: model('news'),
       contents: `Find recent (last 6 months) climate, weather, or environmental news events near coordinates ${lat}, ${lon}. Summarize the key situations.`,
       config: {
         tools: [{ googleSearch: {} }] // Enable Google Search
       }
     });
-
-    const sources: GroundingSource[] = [];
-    response.candidates?.[0]?.groundingMetadata?.groundingChunks?.forEach((chunk: any) => {
-      if (chunk.web) {
-        sources.push({ title: chunk.web.title, uri: chunk.web.uri });
-      }
-    });
-
     return {
       summary: response.text || "No recent news found.",
-      sources
+      sources: groundingSources(response, ['web'])
     };
-  } catch (e) {
-    console.error("Search Error", e);
-    return { summary: "Could not fetch news.", sources: [] };
-  }
-};
+  };
 
-// Feature: Use Google Maps data
-export const getNearbyResources = async (lat: number, lon: number): Promise<MapResult> => {
-  try {
+  // Feature: Use Google Maps data
+  const findResources = async (lat: number, lon: number): Promise<MapResult> => {
     const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash', // Required for Maps Grounding
+      model: model('resources'),
       contents: "List nearby emergency shelters, hospitals, and disaster relief centers.",
       config: {
         tools: [{ googleMaps: {} }], // Enable Google Maps
@@ -109,33 +92,33 @@ export const getNearbyResources = async (lat: number, lon: number): Promise<MapR
         }
       }
     });
+    return {
+      answer: response.text || "No resources found.",
+      points: groundingSources(response, ['maps', 'web'])
+    };
+  };
 
-    const points: GroundingSource[] = [];
-    response.candidates?.[0]?.groundingMetadata?.groundingChunks?.forEach((chunk: any) => {
-      // Extract map URIs
-      if (chunk.maps) {
-        points.push({ title: chunk.maps.title, uri: chunk.maps.uri });
-      } else if (chunk.web) {
-        points.push({ title: chunk.web.title, uri: chunk.web.uri });
-      }
+  // Feature: AI powered chatbot
+  const createChat = (systemInstruction: string, tools: LlmToolSpec[], history: ChatMessage[]): LlmChat => {
+    const chat: Chat = ai.chats.create({
+      model: model('chat'),
+      config: {
+        systemInstruction,
+        tools: tools.length
+          ? [{ functionDeclarations: tools.map(t => ({ name: t.name, description: t.description, parametersJsonSchema: t.parameters })) }]
+          : undefined
+      },
+      history: history.map(m => ({ role: m.role, parts: [{ text: m.text }] }))
     });
-
     return {
-      answer: response.text || "No resources found.",
-      points
+      send: async function* (input: string | LlmToolResult[]) {
+        const message: string | Part[] = typeof input === 'string'
+          ? input
+          : input.map(({ call, response }) => ({ functionResponse: { id: call.id, name: call.name, response } }));
+        for await (const response of await chat.sendMessageStream({ message })) yield toChunk(response);
+      }
     };
-  } catch (e) {
-    console.error("Maps Error", e);
-    return { answer: "Could not fetch resources.", points: [] };
-  }
-};
+  };
 
-// Feature: AI powered chatbot
-export const createChatSession = (): Chat => {
-  return ai.chats.create({
-    model: 'gemini-3-pro-preview',
-    config: {
-      systemInstruction: "You are ROTATER's advanced climate AI assistant. Answer questions about weather patterns, climate science, and interpret the data on the dashboard for the user."
-    }
-  });
-};
\ No newline at end of file
+  return { id: 'gemini', model, stream, searchNews, findResources, createChat };
+};
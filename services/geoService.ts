@@ -0,0 +1,94 @@
+import * as d3 from 'd3';
+import { feature } from 'topojson-client';
+
+// Boundary lookups for matching records to the selected point. The topologies
+// are imported lazily so they only load once an importer needs them.
+
+const EARTH_RADIUS_KM = 6371;
+
+export const haversineKm = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+};
+
+export interface NamedFeature {
+  type: 'Feature';
+  geometry: unknown;
+  properties: { name: string };
+}
+
+let countriesPromise: Promise<NamedFeature[]> | null = null;
+let statesPromise: Promise<NamedFeature[]> | null = null;
+
+export const loadCountries = (): Promise<NamedFeature[]> => {
+  countriesPromise ??= import('world-atlas/countries-50m.json').then(m => {
+    const topology = (m as any).default ?? m;
+    return (feature(topology, topology.objects.countries) as any).features as NamedFeature[];
+  }).catch(e => {
+    countriesPromise = null; // let a later call retry the chunk
+    throw e;
+  });
+  return countriesPromise;
+};
+
+const loadUsStates = (): Promise<NamedFeature[]> => {
+  statesPromise ??= import('us-atlas/states-10m.json').then(m => {
+    const topology = (m as any).default ?? m;
+    return (feature(topology, topology.objects.states) as any).features as NamedFeature[];
+  }).catch(e => {
+    statesPromise = null;
+    throw e;
+  });
+  return statesPromise;
+};
+
+const containing = (features: NamedFeature[], lat: number, lon: number) =>
+  features.find(f => d3.geoContains(f, [lon, lat]))?.properties.name ?? null;
+
+export const findCountry = async (lat: number, lon: number): Promise<string | null> =>
+  containing(await loadCountries(), lat, lon);
+
+export const findUsState = async (lat: number, lon: number): Promise<string | null> =>
+  containing(await loadUsStates(), lat, lon);
+
+// Official (UN/EM-DAT) names that differ from Natural Earth's short names.
+const COUNTRY_ALIASES: Record<string, string> = {
+  'russian federation': 'russia',
+  'viet nam': 'vietnam',
+  'republic of korea': 'south korea',
+  'korea republic of': 'south korea',
+  'democratic peoples republic of korea': 'north korea',
+  'lao peoples democratic republic': 'laos',
+  'syrian arab republic': 'syria',
+  'turkiye': 'turkey',
+  'united republic of tanzania': 'tanzania',
+  'tanzania united republic of': 'tanzania',
+  'democratic republic of the congo': 'dem rep congo',
+  'central african republic': 'central african rep',
+  'south sudan': 's sudan',
+  'bosnia and herzegovina': 'bosnia and herz',
+  'dominican republic': 'dominican rep',
+  'united kingdom of great britain and northern ireland': 'united kingdom',
+  'republic of moldova': 'moldova',
+  'united states': 'united states of america',
+  'usa': 'united states of america',
+  'equatorial guinea': 'eq guinea',
+  'solomon islands': 'solomon is',
+  'north macedonia': 'macedonia'
+};
+
+// Lower-case, accent-free, without parenthesised qualifiers or punctuation.
+export const normalizeCountryName = (name: string): string => {
+  const base = name
+    .normalize('NFD')
+    .replace(/[̀-ͯ]/g, '')
+    .toLowerCase()
+    .replace(/\(.*?\)/g, '')
+    .replace(/[^a-z\s]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return COUNTRY_ALIASES[base] ?? base;
+};
@@ -0,0 +1,164 @@
+import citiesUrl from 'cities15000/cities15000.txt?url';
+import countryInfoUrl from 'cities15000/countryInfo.txt?url';
+import { LocationData } from '../types';
+import { findCountry, haversineKm } from './geoService';
+
+// Offline place search and reverse geocoding over the GeoNames cities15000
+// gazetteer (every place with at least 15,000 inhabitants). The files ship
+// with the app as static assets and are parsed on first use.
+
+export interface Place extends LocationData {
+  name: string; // "City, Region, Country"
+  city: string;
+  region?: string;
+  country: string;
+  population: number;
+}
+
+// Beyond this a click is labelled by country rather than a "nearby" city
+const MAX_REVERSE_KM = 50;
+
+interface GazetteerEntry {
+  city: string;
+  key: string; // accent-free lower case, for matching
+  lat: number;
+  lon: number;
+  countryCode: string;
+  admin1: string;
+  population: number;
+}
+
+let gazetteerPromise: Promise<{ entries: GazetteerEntry[]; countries: Map<string, string> }> | null = null;
+
+export const normalizePlaceName = (name: string): string =>
+  name.normalize('NFD').replace(/[̀-ͯ]/g, '').toLowerCase().trim();
+
+const fetchText = async (url: string): Promise<string> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Gazetteer unavailable: ${response.statusText}`);
+  return response.text();
+};
+
+// cities15000.txt columns: geonameid, name, asciiname, alternatenames, lat,
+// lon, feature class, feature code, country code, cc2, admin1, ..., population
+const loadGazetteer = () => {
+  gazetteerPromise ??= Promise.all([fetchText(citiesUrl), fetchText(countryInfoUrl)]).then(([cities, info]) => {
+    const countries = new Map<string, string>();
+    info.split('\n').forEach(line => {
+      if (!line || line.startsWith('#')) return;
+      const cols = line.split('\t');
+      countries.set(cols[0], cols[4]);
+    });
+    const entries: GazetteerEntry[] = [];
+    cities.split('\n').forEach(line => {
+      const cols = line.split('\t');
+      if (cols.length < 15) return;
+      entries.push({
+        city: cols[1],
+        key: normalizePlaceName(cols[2] || cols[1]),
+        lat: parseFloat(cols[4]),
+        lon: parseFloat(cols[5]),
+        countryCode: cols[8],
+        admin1: cols[10],
+        population: parseInt(cols[14], 10) || 0
+      });
+    });
+    return { entries, countries };
+  });
+  // Let a later call retry if the assets failed to load
+  gazetteerPromise.catch(() => { gazetteerPromise = null; });
+  return gazetteerPromise;
+};
+
+const toPlace = (entry: GazetteerEntry, countries: Map<string, string>): Place => {
+  const country = countries.get(entry.countryCode) ?? entry.countryCode;
+  // GeoNames admin1 codes are postal abbreviations in some countries (TX, NSW,
+  // ON) and opaque numbers elsewhere; only the former are worth showing.
+  const region = /^[A-Z]{2,3}$/.test(entry.admin1) ? entry.admin1 : undefined;
+  return {
+    name: [entry.city, region, country].filter(Boolean).join(', '),
+    city: entry.city,
+    region,
+    country,
+    lat: entry.lat,
+    lon: entry.lon,
+    population: entry.population
+  };
+};
+
+// Regions without a postal abbreviation leave namesakes in one country (the
+// several Aurangabads of India) reading the same; rounded coordinates tell
+// them apart.
+const withCoordinates = (place: Place): Place => ({
+  ...place,
+  name: `${place.name} (${place.lat.toFixed(2)}, ${place.lon.toFixed(2)})`
+});
+
+// Spellings that differ only in accents (Aurangabad, Aurangābād) count as the same
+const sameLabel = (a: Place, b: Place) => normalizePlaceName(a.name) === normalizePlaceName(b.name);
+
+const disambiguate = (places: Place[]): Place[] =>
+  places.map(p => (places.some(o => o !== p && sameLabel(o, p)) ? withCoordinates(p) : p));
+
+// Places whose name starts with the query come first, then those containing
+// it; within each group the most populous wins. "city, country" narrows by country.
+export const searchPlaces = async (query: string, limit = 8): Promise<Place[]> => {
+  const [cityPart, countryPart] = query.split(',').map(normalizePlaceName);
+  if (!cityPart || cityPart.length < 2) return [];
+  const { entries, countries } = await loadGazetteer();
+
+  const matches = entries.filter(e => {
+    if (!e.key.includes(cityPart)) return false;
+    if (!countryPart) return true;
+    const country = normalizePlaceName(countries.get(e.countryCode) ?? '');
+    return country.startsWith(countryPart) || e.countryCode.toLowerCase() === countryPart;
+  });
+  const places = matches
+    .sort((a, b) =>
+      Number(b.key.startsWith(cityPart)) - Number(a.key.startsWith(cityPart)) || b.population - a.population
+    )
+    .slice(0, limit)
+    .map(e => toPlace(e, countries));
+  return disambiguate(places);
+};
+
+// Nearest gazetteer place within MAX_REVERSE_KM; further out, the country
+// containing the point, or null over open ocean.
+export const reverseGeocode = async (lat: number, lon: number): Promise<string | null> => {
+  const { entries, countries } = await loadGazetteer();
+  let nearest: GazetteerEntry | null = null;
+  let nearestKm = Infinity;
+  for (const e of entries) {
+    // Cheap latitude prefilter before the haversine
+    if (Math.abs(e.lat - lat) * 111 > Math.min(nearestKm, MAX_REVERSE_KM)) continue;
+    const km = haversineKm(lat, lon, e.lat, e.lon);
+    if (km < nearestKm) {
+      nearest = e;
+      nearestKm = km;
+    }
+  }
+  const found = nearest;
+  if (found && nearestKm <= MAX_REVERSE_KM) {
+    const place = toPlace(found, countries);
+    const namesake = entries.some(
+      e => e !== found && e.key === found.key && sameLabel(toPlace(e, countries), place)
+    );
+    return namesake ? withCoordinates(place).name : place.name;
+  }
+  return findCountry(lat, lon);
+};
+
+// Accepts "lat, lon" as typed coordinates; anything else is a place name.
+export const parseCoordinates = (query: string): LocationData | null => {
+  const match = query.trim().match(/^(-?\d+(?:\.\d+)?)\s*[,\s]\s*(-?\d+(?:\.\d+)?)$/);
+  if (!match) return null;
+  const lat = parseFloat(match[1]);
+  const lon = parseFloat(match[2]);
+  return Math.abs(lat) <= 90 && Math.abs(lon) <= 180 ? { lat, lon } : null;
+};
+
+// File-name fragment for exports: the place name when known, else coordinates.
+export const locationSlug = (location: LocationData): string =>
+  location.name
+    ? normalizePlaceName(location.name).replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '')
+    : `${location.lat.toFixed(2)}_${location.lon.toFixed(2)}`;
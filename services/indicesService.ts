@@ -0,0 +1,335 @@
+import {
+  BaselinePeriod, Calamity, ClimateEpisode, ClimateIndices, ClimateStats, ClimateVariable, IndexPoint, IndexScale
+} from '../types';
+import { gammaFunction, mean, normalQuantile, quantile, regularizedGammaP } from './mathUtils';
+
+// Drought and heat indices derived from the monthly series:
+//  - SPI (McKee et al. 1993): precipitation accumulated over 1-12 months,
+//    fitted per calendar month with a gamma distribution, mapped to N(0,1)
+//  - SPEI (Vicente-Serrano et al. 2010): the same for precipitation minus
+//    potential evapotranspiration, with a log-logistic fit. PET comes from
+//    Hargreaves when daily extremes are loaded, otherwise Thornthwaite.
+// Distributions are fitted to the baseline years, like the climatology.
+// Heatwaves and droughts are then read off as runs beyond a threshold.
+
+export const INDEX_SCALES: IndexScale[] = [1, 3, 6, 12];
+
+// Calibration years a calendar month needs before its fit is trusted
+const MIN_FIT_YEARS = 10;
+
+// Index values are bounded at ±3σ
+const MIN_PROBABILITY = 0.00135;
+
+// Drought: the 3-month index at or below -1 for at least two months
+export const DROUGHT_SCALE: IndexScale = 3;
+export const DROUGHT_THRESHOLD = -1;
+export const DROUGHT_MIN_MONTHS = 2;
+
+// Heatwave: maximum temperature above the calendar month's 90th percentile
+// for at least 3 days (daily data). Monthly means cross that percentile
+// about once a year, so a month must also exceed it by 1 °C.
+export const HEATWAVE_PERCENTILE = 90;
+const HEATWAVE_MIN_DURATION = { days: 3, months: 1 };
+const HEATWAVE_MIN_EXCESS = { days: 0, months: 1 };
+// Peak excess above the threshold, °C, for Severe and Extreme
+const HEATWAVE_CATEGORY_EXCESS = { days: [3, 6], months: [2, 3] };
+
+export interface IndicesInput {
+  monthly: ClimateStats[]; // full fetched range, calendar months
+  daily?: ClimateStats[]; // full fetched range, when loaded at daily resolution
+  calibration: BaselinePeriod;
+  window: { startYear: number; endYear: number };
+  lat?: number; // needed for PET; without it only SPI is computed
+}
+
+const yearOf = (date: string) => parseInt(date.substring(0, 4), 10);
+const monthOf = (date: string) => parseInt(date.substring(5, 7), 10);
+const round = (n: number | null) => (n === null || !Number.isFinite(n) ? null : parseFloat(n.toFixed(2)));
+
+const daysInMonth = (date: string) => new Date(Date.UTC(yearOf(date), monthOf(date), 0)).getUTCDate();
+
+const probabilityToIndex = (p: number) =>
+  normalQuantile(Math.min(Math.max(p, MIN_PROBABILITY), 1 - MIN_PROBABILITY));
+
+const numberOf = (stats: ClimateStats, variable: ClimateVariable): number | null => {
+  const value = stats.values[variable];
+  return typeof value === 'number' ? value : null;
+};
+
+// Sum over the trailing k months; null unless every month has data.
+const accumulate = (values: (number | null)[], k: number): (number | null)[] =>
+  values.map((_, i) => {
+    if (i < k - 1) return null;
+    let sum = 0;
+    for (let j = i - k + 1; j <= i; j++) {
+      if (values[j] === null) return null;
+      sum += values[j]!;
+    }
+    return sum;
+  });
+
+// ---- Distribution fits ----
+
+// Gamma fit by Thom's maximum-likelihood approximation, with the share of
+// zero totals handled separately as in McKee's SPI.
+const gammaCdf = (sample: number[]): ((x: number) => number) | null => {
+  const positive = sample.filter(v => v > 0);
+  if (positive.length < 3) return null;
+  const zeroShare = (sample.length - positive.length) / sample.length;
+  const m = mean(positive);
+  const A = Math.log(m) - mean(positive.map(Math.log));
+  if (!(A > 0)) return null;
+  const shape = (1 + Math.sqrt(1 + (4 * A) / 3)) / (4 * A);
+  const scale = m / shape;
+  return x => (x <= 0 ? zeroShare : zeroShare + (1 - zeroShare) * regularizedGammaP(shape, x / scale));
+};
+
+// Three-parameter log-logistic fit by probability-weighted moments.
+const logLogisticCdf = (sample: number[]): ((x: number) => number) | null => {
+  const sorted = [...sample].sort((a, b) => a - b);
+  const n = sorted.length;
+  const pwm = (s: number) => mean(sorted.map((x, i) => (1 - (i + 1 - 0.35) / n) ** s * x));
+  const [w0, w1, w2] = [pwm(0), pwm(1), pwm(2)];
+  const beta = (2 * w1 - w0) / (6 * w1 - w0 - 6 * w2);
+  if (!(beta > 1)) return null; // Γ(1 - 1/β) needs β > 1
+  const g = gammaFunction(1 + 1 / beta) * gammaFunction(1 - 1 / beta);
+  const alpha = ((w0 - 2 * w1) * beta) / g;
+  const gamma = w0 - alpha * g;
+  if (!(alpha > 0)) return null;
+  return x => (x <= gamma ? 0 : 1 / (1 + (alpha / (x - gamma)) ** beta));
+};
+
+// Standardizes each value against the fit for its calendar month.
+const standardizeByMonth = (
+  dates: string[],
+  values: (number | null)[],
+  calibration: BaselinePeriod,
+  fit: (sample: number[]) => ((x: number) => number) | null
+): (number | null)[] => {
+  const cdfs = Array.from({ length: 12 }, (_, m) => {
+    const sample = values.filter((v, i): v is number => {
+      const y = yearOf(dates[i]);
+      return v !== null && monthOf(dates[i]) === m + 1 && y >= calibration.startYear && y <= calibration.endYear;
+    });
+    return sample.length >= MIN_FIT_YEARS ? fit(sample) : null;
+  });
+  return values.map((v, i) => {
+    const cdf = cdfs[monthOf(dates[i]) - 1];
+    return v === null || !cdf ? null : probabilityToIndex(cdf(v));
+  });
+};
+
+// ---- Potential evapotranspiration ----
+
+const DEG = Math.PI / 180;
+
+// FAO-56 solar geometry for the middle of the month
+const solarGeometry = (date: string, lat: number) => {
+  const dayOfYear = Math.round((Date.UTC(yearOf(date), monthOf(date) - 1, 15) - Date.UTC(yearOf(date), 0, 0)) / 86400000);
+  const phi = lat * DEG;
+  const declination = 0.409 * Math.sin((2 * Math.PI * dayOfYear) / 365 - 1.39);
+  const sunset = Math.acos(Math.min(Math.max(-Math.tan(phi) * Math.tan(declination), -1), 1));
+  const inverseDistance = 1 + 0.033 * Math.cos((2 * Math.PI * dayOfYear) / 365);
+  // Extraterrestrial radiation as evaporation equivalent, mm/day
+  const radiation = 0.408 * ((24 * 60) / Math.PI) * 0.082 * inverseDistance *
+    (sunset * Math.sin(phi) * Math.sin(declination) + Math.cos(phi) * Math.cos(declination) * Math.sin(sunset));
+  return { dayLength: (24 / Math.PI) * sunset, radiation };
+};
+
+const meanTemperature = (s: ClimateStats): number | null => {
+  const t = numberOf(s, 'T2M');
+  if (t !== null) return t;
+  const [tx, tn] = [numberOf(s, 'T2M_MAX'), numberOf(s, 'T2M_MIN')];
+  return tx !== null && tn !== null ? (tx + tn) / 2 : null;
+};
+
+// Hargreaves–Samani (1985), mm/month
+const hargreaves = (monthly: ClimateStats[], lat: number): (number | null)[] =>
+  monthly.map(s => {
+    const [t, tx, tn] = [meanTemperature(s), numberOf(s, 'T2M_MAX'), numberOf(s, 'T2M_MIN')];
+    if (t === null || tx === null || tn === null) return null;
+    const { radiation } = solarGeometry(s.date, lat);
+    return Math.max(0, 0.0023 * radiation * (t + 17.8) * Math.sqrt(Math.max(tx - tn, 0)) * daysInMonth(s.date));
+  });
+
+// Thornthwaite (1948) with the heat index from the calibration climatology,
+// and Willmott's curve above 26.5 °C, mm/month
+const thornthwaite = (monthly: ClimateStats[], lat: number, calibration: BaselinePeriod): (number | null)[] | null => {
+  const normals = Array.from({ length: 12 }, (_, m) => mean(monthly
+    .filter(s => monthOf(s.date) === m + 1 && yearOf(s.date) >= calibration.startYear && yearOf(s.date) <= calibration.endYear)
+    .map(meanTemperature)
+    .filter((t): t is number => t !== null)));
+  if (normals.some(t => !Number.isFinite(t))) return null;
+  const I = normals.reduce((acc, t) => acc + (t > 0 ? (t / 5) ** 1.514 : 0), 0);
+  const a = 6.75e-7 * I ** 3 - 7.71e-5 * I ** 2 + 1.792e-2 * I + 0.49239;
+
+  return monthly.map(s => {
+    const t = meanTemperature(s);
+    if (t === null) return null;
+    if (t <= 0 || I === 0) return 0;
+    const unadjusted = t < 26.5 ? 16 * ((10 * t) / I) ** a : -415.85 + 32.24 * t - 0.43 * t * t;
+    const { dayLength } = solarGeometry(s.date, lat);
+    return unadjusted * (dayLength / 12) * (daysInMonth(s.date) / 30);
+  });
+};
+
+// ---- Episodes ----
+
+interface RunPoint {
+  date: string;
+  value: number | null; // the tested quantity
+  hit: boolean;
+}
+
+const runsOf = (points: RunPoint[], minLength: number): RunPoint[][] => {
+  const runs: RunPoint[][] = [];
+  let current: RunPoint[] = [];
+  points.forEach(p => {
+    if (p.hit) {
+      current.push(p);
+      return;
+    }
+    if (current.length >= minLength) runs.push(current);
+    current = [];
+  });
+  if (current.length >= minLength) runs.push(current);
+  return runs;
+};
+
+const detectDroughts = (series: IndexPoint[], useSpei: boolean): ClimateEpisode[] => {
+  const index = useSpei ? 'SPEI' : 'SPI';
+  const points = series.map(p => {
+    const value = (useSpei ? p.spei : p.spi)[DROUGHT_SCALE] ?? null;
+    return { date: p.date, value, hit: value !== null && value <= DROUGHT_THRESHOLD };
+  });
+  return runsOf(points, DROUGHT_MIN_MONTHS).map(run => {
+    const values = run.map(p => p.value!);
+    const peak = Math.min(...values);
+    return {
+      type: 'Drought',
+      start: run[0].date,
+      end: run[run.length - 1].date,
+      duration: run.length,
+      unit: 'months',
+      peak: round(peak)!,
+      severity: round(-values.reduce((acc, v) => acc + v, 0))!,
+      category: peak <= -2 ? 'Extreme' : peak <= -1.5 ? 'Severe' : 'Moderate',
+      criterion: `${index}-${DROUGHT_SCALE} ≤ ${DROUGHT_THRESHOLD} for ${DROUGHT_MIN_MONTHS}+ months`
+    };
+  });
+};
+
+// Thresholds are calendar-month percentiles of the calibration years.
+const detectHeatwaves = (
+  stats: ClimateStats[],
+  unit: 'days' | 'months',
+  calibration: BaselinePeriod,
+  window: IndicesInput['window']
+): ClimateEpisode[] => {
+  const variable: ClimateVariable = stats.some(s => numberOf(s, 'T2M_MAX') !== null) ? 'T2M_MAX' : 'T2M';
+  const thresholds = Array.from({ length: 12 }, (_, m) => {
+    const rows = stats.filter(s =>
+      monthOf(s.date) === m + 1 && yearOf(s.date) >= calibration.startYear && yearOf(s.date) <= calibration.endYear
+    );
+    const values = rows.map(s => numberOf(s, variable)).filter((v): v is number => v !== null);
+    const years = new Set(rows.filter(s => numberOf(s, variable) !== null).map(s => yearOf(s.date))).size;
+    return years >= MIN_FIT_YEARS ? quantile(values, HEATWAVE_PERCENTILE / 100) : null;
+  });
+  if (thresholds.every(t => t === null)) return [];
+
+  const points = stats
+    .filter(s => yearOf(s.date) >= window.startYear && yearOf(s.date) <= window.endYear)
+    .map(s => {
+      const value = numberOf(s, variable);
+      const threshold = thresholds[monthOf(s.date) - 1];
+      const excess = value !== null && threshold !== null ? value - threshold : null;
+      return { date: s.date, value: excess, hit: excess !== null && excess > HEATWAVE_MIN_EXCESS[unit] };
+    });
+  const [severe, extreme] = HEATWAVE_CATEGORY_EXCESS[unit];
+  const label = variable === 'T2M_MAX' ? 'Max temperature' : 'Temperature';
+
+  return runsOf(points, HEATWAVE_MIN_DURATION[unit]).map(run => {
+    const excesses = run.map(p => p.value!);
+    const peak = Math.max(...excesses);
+    return {
+      type: 'Heatwave',
+      start: run[0].date,
+      end: run[run.length - 1].date,
+      duration: run.length,
+      unit,
+      peak: round(peak)!,
+      severity: round(excesses.reduce((acc, v) => acc + v, 0))!,
+      category: peak >= extreme ? 'Extreme' : peak >= severe ? 'Severe' : 'Moderate',
+      criterion: `${label} > calendar-month P${HEATWAVE_PERCENTILE}${HEATWAVE_MIN_EXCESS[unit] ? ` + ${HEATWAVE_MIN_EXCESS[unit]} °C` : ''} for ${HEATWAVE_MIN_DURATION[unit]}+ ${unit}`
+    };
+  });
+};
+
+// ---- Entry point ----
+
+export const computeIndices = ({ monthly, daily, calibration, window, lat }: IndicesInput): ClimateIndices | null => {
+  const sorted = [...monthly].sort((a, b) => a.date.localeCompare(b.date));
+  const dates = sorted.map(s => s.date);
+  const hasRain = sorted.some(s => numberOf(s, 'PRECTOTCORR') !== null);
+  const hasTemperature = sorted.some(s => meanTemperature(s) !== null);
+  if (!hasRain && !hasTemperature) return null;
+
+  // PRECTOTCORR is a mean rate in mm/day
+  const precipitation = sorted.map(s => {
+    const rate = numberOf(s, 'PRECTOTCORR');
+    return rate === null ? null : rate * daysInMonth(s.date);
+  });
+
+  let petMethod: ClimateIndices['petMethod'] = null;
+  let pet: (number | null)[] = sorted.map(() => null);
+  if (hasRain && lat !== undefined) {
+    const extremes = sorted.some(s => numberOf(s, 'T2M_MAX') !== null && numberOf(s, 'T2M_MIN') !== null);
+    const estimate = extremes ? hargreaves(sorted, lat) : hasTemperature ? thornthwaite(sorted, lat, calibration) : null;
+    if (estimate) {
+      pet = estimate;
+      petMethod = extremes ? 'Hargreaves' : 'Thornthwaite';
+    }
+  }
+  const balance = precipitation.map((p, i) => (p === null || pet[i] === null ? null : p - pet[i]!));
+
+  const spi = Object.fromEntries(INDEX_SCALES.map(k => [k,
+    hasRain ? standardizeByMonth(dates, accumulate(precipitation, k), calibration, gammaCdf) : dates.map(() => null)
+  ])) as Record<IndexScale, (number | null)[]>;
+  const spei = Object.fromEntries(INDEX_SCALES.map(k => [k,
+    petMethod ? standardizeByMonth(dates, accumulate(balance, k), calibration, logLogisticCdf) : dates.map(() => null)
+  ])) as Record<IndexScale, (number | null)[]>;
+
+  const series: IndexPoint[] = [];
+  sorted.forEach((s, i) => {
+    const y = yearOf(s.date);
+    if (y < window.startYear || y > window.endYear) return;
+    series.push({
+      date: s.date,
+      pet: round(pet[i]),
+      spi: Object.fromEntries(INDEX_SCALES.map(k => [k, round(spi[k][i])])),
+      spei: Object.fromEntries(INDEX_SCALES.map(k => [k, round(spei[k][i])]))
+    });
+  });
+
+  const useSpei = series.some(p => typeof p.spei[DROUGHT_SCALE] === 'number');
+  const episodes = [
+    ...(hasRain ? detectDroughts(series, useSpei) : []),
+    ...(hasTemperature ? detectHeatwaves(daily ?? sorted, daily ? 'days' : 'months', calibration, window) : [])
+  ].sort((a, b) => a.start.localeCompare(b.start));
+
+  return { series, episodes, petMethod, calibration };
+};
+
+// Episodes as timeline entries next to imported disaster records.
+export const episodesToCalamities = (episodes: ClimateEpisode[]): Calamity[] =>
+  episodes.map(e => ({
+    id: `Derived:${e.type}:${e.start}`,
+    year: yearOf(e.start),
+    type: e.type,
+    intensity: `${e.category} · ${e.duration} ${e.duration === 1 ? e.unit.slice(0, -1) : e.unit}`,
+    month: e.start.substring(5, 7),
+    startDate: e.start,
+    endDate: e.end,
+    location: e.criterion,
+    source: 'Derived'
+  }));
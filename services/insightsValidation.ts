@@ -0,0 +1,151 @@
+import { ClimateInsights, Prediction } from '../types';
+import { RISK_LEVELS } from '../constants';
+
+// Runtime checks for model-generated insights. The response schema asks for
+// the right shape, but nothing guarantees it: responses can be truncated,
+// wrapped in code fences, or use free-form months and risk labels. Partial
+// parsing lets the summary and finished predictions render while streaming.
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+export interface ValidationResult {
+  value: ClimateInsights | null;
+  errors: string[]; // one entry per problem, with a JSON path
+}
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const validatePrediction = (raw: unknown, path: string, errors: string[]): Prediction | null => {
+  if (!isRecord(raw)) {
+    errors.push(`${path}: expected an object`);
+    return null;
+  }
+  const before = errors.length;
+  const { month, riskLevel, predictedTemp, description } = raw;
+  if (typeof month !== 'string' || !MONTH_PATTERN.test(month)) {
+    errors.push(`${path}.month: expected "YYYY-MM", got ${JSON.stringify(month)}`);
+  }
+  if (typeof riskLevel !== 'string' || !RISK_LEVELS.includes(riskLevel as Prediction['riskLevel'])) {
+    errors.push(`${path}.riskLevel: expected one of ${RISK_LEVELS.join(', ')}, got ${JSON.stringify(riskLevel)}`);
+  }
+  if (typeof predictedTemp !== 'number' || !Number.isFinite(predictedTemp)) {
+    errors.push(`${path}.predictedTemp: expected a number, got ${JSON.stringify(predictedTemp)}`);
+  }
+  if (typeof description !== 'string' || description.trim() === '') {
+    errors.push(`${path}.description: expected a non-empty string`);
+  }
+  if (errors.length > before) return null;
+  return { month: month as string, riskLevel: riskLevel as Prediction['riskLevel'], predictedTemp: predictedTemp as number, description: description as string };
+};
+
+export const validateInsights = (raw: unknown): ValidationResult => {
+  const errors: string[] = [];
+  if (!isRecord(raw)) return { value: null, errors: ['response: expected a JSON object'] };
+  if (typeof raw.summary !== 'string' || raw.summary.trim() === '') errors.push('summary: expected a non-empty string');
+  if (!Array.isArray(raw.predictions)) {
+    errors.push('predictions: expected an array');
+  } else if (raw.predictions.length === 0) {
+    errors.push('predictions: expected at least one prediction');
+  }
+  const predictions = Array.isArray(raw.predictions)
+    ? raw.predictions.map((p, i) => validatePrediction(p, `predictions[${i}]`, errors))
+    : [];
+  if (errors.length) return { value: null, errors };
+  return { value: { summary: raw.summary as string, predictions: predictions as Prediction[] }, errors };
+};
+
+// ---- Local repair ----
+
+const normalizeMonth = (month: unknown, fallbackYear: number): unknown => {
+  if (typeof month !== 'string') return month;
+  const text = month.trim();
+  if (MONTH_PATTERN.test(text)) return text;
+  const numeric = text.match(/^(\d{4})[-/.](\d{1,2})(?:[-/.]\d{1,2})?$/);
+  if (numeric) return `${numeric[1]}-${numeric[2].padStart(2, '0')}`;
+  const named = text.toLowerCase().match(/^([a-z]{3})[a-z]*\.?,?\s*(\d{4})?$/);
+  if (named && MONTH_NAMES.includes(named[1])) {
+    return `${named[2] ?? fallbackYear}-${String(MONTH_NAMES.indexOf(named[1]) + 1).padStart(2, '0')}`;
+  }
+  return month;
+};
+
+const normalizeRisk = (risk: unknown): unknown => {
+  if (typeof risk !== 'string') return risk;
+  const key = risk.trim().toLowerCase();
+  if (key === 'severe' || key === 'extreme') return 'Critical';
+  if (key === 'moderate') return 'Medium';
+  return RISK_LEVELS.find(level => level.toLowerCase() === key) ?? risk;
+};
+
+// Fixes what can be fixed without the model: month spellings, risk label
+// case and synonyms, numbers sent as strings, a missing array.
+export const repairInsights = (raw: unknown, now = new Date()): unknown => {
+  if (!isRecord(raw)) return raw;
+  // a lone prediction object instead of a one-element array
+  const predictions = isRecord(raw.predictions) ? [raw.predictions] : raw.predictions;
+  return {
+    ...raw,
+    predictions: Array.isArray(predictions)
+      ? predictions.map(p => isRecord(p) ? {
+          ...p,
+          month: normalizeMonth(p.month, now.getFullYear()),
+          riskLevel: normalizeRisk(p.riskLevel),
+          predictedTemp: typeof p.predictedTemp === 'string' ? parseFloat(p.predictedTemp) : p.predictedTemp
+        } : p)
+      : predictions
+  };
+};
+
+// ---- Parsing ----
+
+// Drops markdown code fences some responses arrive in.
+export const stripFences = (text: string) => text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+// Parses a JSON prefix by closing whatever is still open. When the prefix
+// ends inside a key or after a colon, it backs off to the previous comma.
+export const parsePartialJson = (text: string): unknown => {
+  let source = stripFences(text);
+  for (let attempt = 0; attempt < 8 && source.length; attempt++) {
+    const closers: string[] = [];
+    let inString = false;
+    let escaped = false;
+    for (const ch of source) {
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (ch === '\\') escaped = true;
+        else if (ch === '"') inString = false;
+        continue;
+      }
+      if (ch === '"') inString = true;
+      else if (ch === '{') closers.push('}');
+      else if (ch === '[') closers.push(']');
+      else if (ch === '}' || ch === ']') closers.pop();
+    }
+    let candidate = source;
+    if (inString) candidate += escaped ? '\\"' : '"';
+    candidate = candidate.replace(/[\s,:]+$/, '');
+    try {
+      return JSON.parse(candidate + closers.reverse().join(''));
+    } catch {
+      const cut = source.lastIndexOf(',');
+      if (cut <= 0) return undefined;
+      source = source.slice(0, cut);
+    }
+  }
+  return undefined;
+};
+
+// What can be shown of a response still streaming: the summary so far and
+// every prediction before the last, which may still be growing.
+export const readPartialInsights = (text: string): { summary: string; predictions: Prediction[] } => {
+  const raw = parsePartialJson(text);
+  if (!isRecord(raw)) return { summary: '', predictions: [] };
+  const finished = Array.isArray(raw.predictions) ? raw.predictions.slice(0, -1) : [];
+  const repaired = repairInsights({ predictions: finished }) as { predictions: unknown[] };
+  const predictions = repaired.predictions
+    .map(p => validatePrediction(p, '', []))
+    .filter((p): p is Prediction => p !== null);
+  return { summary: typeof raw.summary === 'string' ? raw.summary : '', predictions };
+};
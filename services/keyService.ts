@@ -0,0 +1,87 @@
+import { ApiKeyName } from '../types';
+import { idbDelete, idbGet, idbGetAll, idbPut } from './db';
+
+// Routing between the server proxy and personal API keys. Keys entered in
+// the settings are for local use only: they are encrypted with AES-GCM under
+// a device key that cannot be exported from IndexedDB, so they are never
+// stored as plain text, but any script running in the page can use them.
+
+const API_BASE = '/api';
+const DEVICE_KEY_ID = 'deviceKey';
+const CLIENT_ID_KEY = 'rotater.clientId';
+
+interface DeviceKeyRecord {
+  id: typeof DEVICE_KEY_ID;
+  key: CryptoKey;
+}
+
+interface EncryptedKey {
+  id: ApiKeyName;
+  iv: Uint8Array;
+  data: ArrayBuffer;
+  savedAt: number;
+}
+
+// ---- Proxy ----
+
+// Absolute URL of a proxied route, e.g. proxyUrl('llm/gemini')
+export const proxyUrl = (route: string) => `${window.location.origin}${API_BASE}/${route}`;
+
+// Random id per browser, sent so the proxy can rate limit users sharing an address
+export const clientId = (): string => {
+  let id = localStorage.getItem(CLIENT_ID_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    localStorage.setItem(CLIENT_ID_KEY, id);
+  }
+  return id;
+};
+
+export const proxyHeaders = (): Record<string, string> => ({ 'X-Client-Id': clientId() });
+
+// ---- Encrypted key store ----
+
+let deviceKey: Promise<CryptoKey> | null = null;
+
+const getDeviceKey = (): Promise<CryptoKey> => {
+  deviceKey ??= (async () => {
+    const stored = await idbGet<DeviceKeyRecord>('secrets', DEVICE_KEY_ID);
+    if (stored) return stored.key;
+    const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+    await idbPut<DeviceKeyRecord>('secrets', { id: DEVICE_KEY_ID, key });
+    return key;
+  })();
+  deviceKey.catch(() => { deviceKey = null; });
+  return deviceKey;
+};
+
+export const saveApiKey = async (name: ApiKeyName, value: string): Promise<void> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, await getDeviceKey(), new TextEncoder().encode(value));
+  await idbPut<EncryptedKey>('secrets', { id: name, iv, data, savedAt: Date.now() });
+};
+
+// The decrypted key, or null when none is stored or it cannot be read
+export const loadApiKey = async (name: ApiKeyName): Promise<string | null> => {
+  try {
+    const stored = await idbGet<EncryptedKey>('secrets', name);
+    if (!stored) return null;
+    const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: stored.iv }, await getDeviceKey(), stored.data);
+    return new TextDecoder().decode(plain);
+  } catch (error) {
+    console.error(`Failed to read the stored ${name} key`, error);
+    return null;
+  }
+};
+
+export const deleteApiKey = (name: ApiKeyName) => idbDelete('secrets', name);
+
+// Names of the keys stored in this browser, with when they were saved
+export const listApiKeys = async (): Promise<Partial<Record<ApiKeyName, number>>> => {
+  try {
+    const records = await idbGetAll<DeviceKeyRecord | EncryptedKey>('secrets');
+    return Object.fromEntries(records.filter((r): r is EncryptedKey => r.id !== DEVICE_KEY_ID).map(r => [r.id, r.savedAt]));
+  } catch {
+    return {};
+  }
+};
@@ -0,0 +1,297 @@
+import {
+  AreaSummary, ChatMessage, ClimateInsights, ClimateStats, JsonSchema, LlmChat, LlmProvider, LlmProviderId, LlmSettings,
+  LlmToolCall, LlmToolSpec, MapResult, NewsResult, Prediction, TrendResult
+} from '../types';
+import { CLIMATE_VARIABLES, RISK_LEVELS } from '../constants';
+import { withCache } from './cacheService';
+import { parsePartialJson, readPartialInsights, repairInsights, stripFences, validateInsights } from './insightsValidation';
+import { createGeminiProvider } from './geminiService';
+import { createOpenAiProvider } from './openAiService';
+import { createFixtureProvider, withRecording } from './fixtureService';
+import { loadApiKey, saveApiKey } from './keyService';
+import { describeTrend } from './trendService';
+
+// The app's AI features, independent of which model answers them. The
+// provider and model come from the settings panel and persist locally.
+
+export const LLM_PROVIDERS: { id: LlmProviderId; name: string; description: string }[] = [
+  { id: 'gemini', name: 'Google Gemini', description: 'Thinking, search and maps grounding' },
+  { id: 'openai', name: 'OpenAI-compatible', description: 'OpenAI, Ollama, llama.cpp, vLLM; no grounding' },
+  { id: 'fixture', name: 'Offline replay', description: 'Recorded responses; deterministic, no network' }
+];
+
+const factories: Record<LlmProviderId, (settings: LlmSettings, apiKey: string | null) => LlmProvider> = {
+  gemini: createGeminiProvider,
+  openai: createOpenAiProvider,
+  fixture: createFixtureProvider
+};
+
+export const DEFAULT_LLM_SETTINGS: LlmSettings = { provider: 'gemini', model: '', baseUrl: '', record: false };
+
+const SETTINGS_KEY = 'rotater.llmSettings';
+
+export const loadLlmSettings = (): LlmSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    if (!stored) return DEFAULT_LLM_SETTINGS;
+    const { apiKey, ...settings } = JSON.parse(stored);
+    if (apiKey) {
+      // Older settings kept the OpenAI key in plain text; move it to the key store
+      saveApiKey('openai', apiKey)
+        .then(() => localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings)))
+        .catch(error => console.error('Failed to migrate the stored API key', error));
+    }
+    return { ...DEFAULT_LLM_SETTINGS, ...settings };
+  } catch {
+    return DEFAULT_LLM_SETTINGS;
+  }
+};
+
+let active: { settings: string; provider: LlmProvider } | null = null;
+
+export const saveLlmSettings = (settings: LlmSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  active = null;
+};
+
+// Rebuilds the provider on next use, e.g. after fixtures were imported
+export const resetLlmProvider = () => {
+  active = null;
+};
+
+// The configured provider, rebuilt only when the settings or the personal
+// key for it change
+export const getLlmProvider = async (): Promise<LlmProvider> => {
+  const settings = loadLlmSettings();
+  const apiKey = settings.provider === 'fixture' ? null : await loadApiKey(settings.provider);
+  const serialized = JSON.stringify({ settings, apiKey });
+  if (active?.settings !== serialized) {
+    const provider = factories[settings.provider](settings, apiKey);
+    active = { settings: serialized, provider: settings.record && settings.provider !== 'fixture' ? withRecording(provider) : provider };
+  }
+  return active.provider;
+};
+
+// Cached answers belong to the provider and model that gave them
+const cacheScope = (provider: LlmProvider, task: 'insights' | 'news' | 'resources') => `${provider.id}:${provider.model(task)}`;
+
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException ? error.name === 'AbortError' : error instanceof Error && error.name === 'AbortError';
+
+// ---- Insights ----
+
+// Progress of a streaming analysis, for rendering before it completes
+export interface InsightsProgress {
+  phase: 'thinking' | 'streaming' | 'validating' | 'repairing';
+  summary: string;
+  predictions: Prediction[]; // only those complete and valid so far
+  thought?: string; // latest thought summary from the model
+}
+
+export interface InsightsOptions {
+  trends?: TrendResult[]; // computed statistics the model should quote rather than estimate
+  signal?: AbortSignal;
+  onProgress?: (progress: InsightsProgress) => void;
+}
+
+// The response failed validation even after local and model repair.
+export class InsightsValidationError extends Error {
+  constructor(public errors: string[]) {
+    super(`AI response did not match the expected format: ${errors.slice(0, 3).join('; ')}${errors.length > 3 ? ` (+${errors.length - 3} more)` : ''}`);
+    this.name = 'InsightsValidationError';
+  }
+}
+
+// Summary first so it can be shown while the predictions are still coming
+const INSIGHTS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string' },
+    predictions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          month: { type: 'string', description: 'Calendar month as YYYY-MM' },
+          riskLevel: { type: 'string', enum: RISK_LEVELS },
+          predictedTemp: { type: 'number' },
+          description: { type: 'string' }
+        },
+        required: ['month', 'riskLevel', 'predictedTemp', 'description']
+      }
+    }
+  },
+  required: ['summary', 'predictions']
+};
+
+// Feature: Think more when needed
+// Feature: Gemini intelligence (Complex tasks)
+// Streams the analysis, reporting partial results through onProgress.
+// Errors are thrown, including cancellation via the signal; callers show them.
+export const getClimateInsights = async (
+  stats: ClimateStats[],
+  lat: number,
+  lon: number,
+  area?: AreaSummary,
+  options: InsightsOptions = {}
+): Promise<ClimateInsights> => {
+  const provider = await getLlmProvider();
+  const recentStats = stats.slice(-24); // Last 2 years
+  const trends = (options.trends ?? []).map(t => describeTrend(t, CLIMATE_VARIABLES[t.variable].label, CLIMATE_VARIABLES[t.variable].unit));
+  const params = { llm: cacheScope(provider, 'insights'), lat, lon, area, recentStats, trends };
+  const { value, cachedAt } = await withCache('insights', params, () =>
+    requestInsights(provider, recentStats, trends, lat, lon, area, options)
+  );
+  // A cancelled request must not fall back to an expired cache entry
+  options.signal?.throwIfAborted();
+  return { ...value, cachedAt };
+};
+
+const requestInsights = async (
+  provider: LlmProvider,
+  recentStats: ClimateStats[],
+  trends: string[],
+  lat: number,
+  lon: number,
+  area: AreaSummary | undefined,
+  { signal, onProgress }: InsightsOptions
+): Promise<ClimateInsights> => {
+  const subject = area
+    ? `the area "${area.name}" (${area.areaKm2} km², centred on ${lat}, ${lon}). Values are area-weighted means of ${area.samples} grid points; "spread" gives their min, 10th/90th percentile and max`
+    : `location (${lat}, ${lon})`;
+  const lastMonth = recentStats[recentStats.length - 1]?.date.substring(0, 7);
+  const prompt = `
+    Analyze the following climate data for ${subject}.
+    Data (Last 24 months): ${JSON.stringify(recentStats)}
+${trends.length ? `
+    Trend statistics over the full analysis window, computed from monthly means
+    (seasonal Mann-Kendall test, Sen's slope, Pettitt and PELT change points).
+    Quote these figures when describing trends instead of estimating your own:
+${trends.map(t => `    - ${t}`).join('\n')}
+` : ''}
+    Task:
+    1. Provide a concise summary of recent trends (temperature, rainfall, vegetation).
+    2. Predict potential risks for the next 12 months based on historical patterns.
+    3. Identify if there are signs of drought or flood risks.
+
+    Give one prediction per month${lastMonth ? ` following ${lastMonth}` : ''}, with "month" as YYYY-MM.
+  `;
+
+  let text = '';
+  let progress: InsightsProgress = { phase: 'thinking', summary: '', predictions: [] };
+  const report = (update: Partial<InsightsProgress>) => {
+    progress = { ...progress, ...update };
+    onProgress?.(progress);
+  };
+  report({});
+
+  for await (const chunk of provider.stream({ task: 'insights', prompt, schema: INSIGHTS_SCHEMA, thinking: true, signal })) {
+    signal?.throwIfAborted();
+    if (chunk.thought) report({ thought: chunk.thought });
+    if (chunk.text) {
+      text += chunk.text;
+      report({ phase: 'streaming', ...readPartialInsights(text) });
+    }
+  }
+
+  report({ phase: 'validating' });
+  const parsed = parseResponse(text);
+  let result = validateInsights(parsed);
+  if (result.value) return result.value;
+  result = validateInsights(repairInsights(parsed));
+  if (result.value) return result.value;
+
+  // Last resort: show the model its output and what is wrong with it
+  report({ phase: 'repairing' });
+  let repaired = '';
+  const repairPrompt = `The JSON below should match the response schema but fails validation.
+Errors:
+${result.errors.map(e => `- ${e}`).join('\n')}
+
+Return the corrected JSON only, keeping the content.
+
+${text}`;
+  for await (const chunk of provider.stream({ task: 'repair', prompt: repairPrompt, schema: INSIGHTS_SCHEMA, signal })) {
+    repaired += chunk.text ?? '';
+  }
+  const retried = validateInsights(repairInsights(parseResponse(repaired)));
+  if (retried.value) return retried.value;
+  throw new InsightsValidationError(retried.errors);
+};
+
+const parseResponse = (text: string): unknown => {
+  if (!text.trim()) throw new Error("Empty insights response");
+  try {
+    return JSON.parse(stripFences(text));
+  } catch {
+    return parsePartialJson(text); // truncated output: keep what is there
+  }
+};
+
+// ---- Grounded lookups ----
+
+const describeError = (e: unknown) => (e instanceof Error ? e.message : String(e));
+
+// Feature: Use Google Search data
+export const getLocalNews = async (lat: number, lon: number): Promise<NewsResult> => {
+  try {
+    const provider = await getLlmProvider();
+    const { value, cachedAt } = await withCache('news', { llm: cacheScope(provider, 'news'), lat, lon }, () => provider.searchNews(lat, lon));
+    return { ...value, cachedAt };
+  } catch (e) {
+    console.error("Search Error", e);
+    return { summary: `Could not fetch news: ${describeError(e)}`, sources: [] };
+  }
+};
+
+// Feature: Use Google Maps data
+export const getNearbyResources = async (lat: number, lon: number): Promise<MapResult> => {
+  try {
+    const provider = await getLlmProvider();
+    const { value, cachedAt } = await withCache('resources', { llm: cacheScope(provider, 'resources'), lat, lon }, () => provider.findResources(lat, lon));
+    return { ...value, cachedAt };
+  } catch (e) {
+    console.error("Maps Error", e);
+    return { answer: `Could not fetch resources: ${describeError(e)}`, points: [] };
+  }
+};
+
+// ---- Chat ----
+
+// Feature: AI powered chatbot
+// history replays an earlier transcript so a stored thread can continue.
+export const createChatSession = async (systemInstruction: string, tools: LlmToolSpec[] = [], history: ChatMessage[] = []): Promise<LlmChat> =>
+  (await getLlmProvider()).createChat(systemInstruction, tools, history);
+
+// Streams a reply, answering tool calls in order until the model finishes
+// with text. onText receives the reply so far after every chunk; calls past
+// maxRounds go unanswered.
+export const streamChatMessage = async (
+  chat: LlmChat,
+  message: string,
+  callTool: (call: LlmToolCall) => Promise<Record<string, unknown>>,
+  onText: (text: string) => void,
+  maxRounds = 6
+): Promise<string> => {
+  let text = '';
+  let next: Parameters<LlmChat['send']>[0] = message;
+  for (let round = 0; round <= maxRounds; round++) {
+    const calls: LlmToolCall[] = [];
+    for await (const chunk of chat.send(next)) {
+      calls.push(...(chunk.toolCalls ?? []));
+      if (chunk.text) {
+        text += chunk.text;
+        onText(text);
+      }
+    }
+    if (calls.length === 0 || round === maxRounds) break;
+    const results = [];
+    for (const call of calls) {
+      results.push({ call, response: await callTool(call) });
+    }
+    // Separate any text written before the calls from what follows them
+    if (text && !text.endsWith('\n')) text += '\n\n';
+    next = results;
+  }
+  return text.trim();
+};
@@ -0,0 +1,235 @@
+// Small numeric toolkit shared by the local analysis services.
+// Everything here is deterministic so results can be reproduced offline.
+
+export const mean = (values: number[]): number => {
+  if (values.length === 0) return NaN;
+  return values.reduce((acc, v) => acc + v, 0) / values.length;
+};
+
+export const variance = (values: number[], ddof = 1): number => {
+  if (values.length <= ddof) return NaN;
+  const m = mean(values);
+  return values.reduce((acc, v) => acc + (v - m) ** 2, 0) / (values.length - ddof);
+};
+
+export const stdDev = (values: number[], ddof = 1): number => Math.sqrt(variance(values, ddof));
+
+// Linear-interpolated quantile (type 7, as in R and numpy), q in [0, 1].
+export const quantile = (values: number[], q: number): number => {
+  if (values.length === 0) return NaN;
+  const sorted = [...values].sort((a, b) => a - b);
+  const h = (sorted.length - 1) * q;
+  const lo = Math.floor(h);
+  return sorted[lo] + (h - lo) * (sorted[Math.min(lo + 1, sorted.length - 1)] - sorted[lo]);
+};
+
+// Solves A x = b with Gaussian elimination and partial pivoting.
+export const solveLinearSystem = (A: number[][], b: number[]): number[] => {
+  const n = b.length;
+  const M = A.map((row, i) => [...row, b[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(M[r][col]) > Math.abs(M[pivot][col])) pivot = r;
+    }
+    if (Math.abs(M[pivot][col]) < 1e-12) {
+      throw new Error('Singular matrix: model is not identifiable from this series');
+    }
+    [M[col], M[pivot]] = [M[pivot], M[col]];
+
+    for (let r = col + 1; r < n; r++) {
+      const factor = M[r][col] / M[col][col];
+      for (let c = col; c <= n; c++) M[r][c] -= factor * M[col][c];
+    }
+  }
+
+  const x = new Array(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let sum = M[r][n];
+    for (let c = r + 1; c < n; c++) sum -= M[r][c] * x[c];
+    x[r] = sum / M[r][r];
+  }
+  return x;
+};
+
+export const invertMatrix = (A: number[][]): number[][] => {
+  const n = A.length;
+  const columns = Array.from({ length: n }, (_, i) =>
+    solveLinearSystem(A, Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)))
+  );
+  // Columns of the inverse -> rows
+  return Array.from({ length: n }, (_, r) => columns.map(col => col[r]));
+};
+
+export interface LeastSquaresFit {
+  coefficients: number[];
+  residuals: number[];
+  sigma2: number; // residual variance
+  // (X'X + penalty)^-1, needed for prediction intervals
+  covarianceUnscaled: number[][];
+}
+
+// Ordinary (optionally ridge-penalised) least squares. `penalty[i]` is added to
+// the i-th diagonal element of X'X, so unpenalised terms pass 0.
+export const leastSquares = (X: number[][], y: number[], penalty?: number[]): LeastSquaresFit => {
+  const k = X[0]?.length ?? 0;
+  if (X.length <= k) {
+    throw new Error(`Not enough observations (${X.length}) to fit ${k} parameters`);
+  }
+
+  const XtX = Array.from({ length: k }, () => new Array(k).fill(0));
+  const Xty = new Array(k).fill(0);
+  X.forEach((row, n) => {
+    for (let i = 0; i < k; i++) {
+      Xty[i] += row[i] * y[n];
+      for (let j = 0; j < k; j++) XtX[i][j] += row[i] * row[j];
+    }
+  });
+  penalty?.forEach((p, i) => { XtX[i][i] += p; });
+
+  const coefficients = solveLinearSystem(XtX, Xty);
+  const residuals = X.map((row, n) => y[n] - dot(row, coefficients));
+  const sse = residuals.reduce((acc, r) => acc + r * r, 0);
+
+  return {
+    coefficients,
+    residuals,
+    sigma2: sse / (X.length - k),
+    covarianceUnscaled: invertMatrix(XtX)
+  };
+};
+
+export const dot = (a: number[], b: number[]): number => a.reduce((acc, v, i) => acc + v * b[i], 0);
+
+// Acklam's rational approximation of the inverse standard normal CDF.
+export const normalQuantile = (p: number): number => {
+  if (p <= 0 || p >= 1) throw new Error('normalQuantile expects 0 < p < 1');
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const pLow = 0.02425;
+
+  if (p < pLow) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - pLow) return -normalQuantile(1 - p);
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+};
+
+// Standard normal CDF via the complementary error function (Numerical
+// Recipes erfcc, fractional error below 1.2e-7).
+export const normalCdf = (x: number): number => {
+  const z = Math.abs(x) / Math.SQRT2;
+  const t = 1 / (1 + 0.5 * z);
+  const erfc = t * Math.exp(-z * z - 1.26551223 + t * (1.00002368 + t * (0.37409196 + t * (0.09678418 +
+    t * (-0.18628806 + t * (0.27886807 + t * (-1.13520398 + t * (1.48851587 + t * (-0.82215223 + t * 0.17087277)))))))));
+  return x >= 0 ? 1 - erfc / 2 : erfc / 2;
+};
+
+// Lanczos approximation (g = 7), accurate to ~15 digits for x > 0.
+export const lnGamma = (x: number): number => {
+  const c = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+    -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7
+  ];
+  if (x < 0.5) return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - lnGamma(1 - x);
+  const z = x - 1;
+  let sum = c[0];
+  for (let i = 1; i < 9; i++) sum += c[i] / (z + i);
+  const t = z + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+};
+
+export const gammaFunction = (x: number): number => {
+  if (x < 0.5) return Math.PI / (Math.sin(Math.PI * x) * gammaFunction(1 - x));
+  return Math.exp(lnGamma(x));
+};
+
+// Regularized lower incomplete gamma P(a, x): series below a + 1, Lentz's
+// continued fraction above (Numerical Recipes 6.2).
+export const regularizedGammaP = (a: number, x: number): number => {
+  if (x <= 0) return 0;
+  const lnPrefix = a * Math.log(x) - x - lnGamma(a);
+  if (x < a + 1) {
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n < 500; n++) {
+      term *= x / (a + n);
+      sum += term;
+      if (Math.abs(term) < Math.abs(sum) * 1e-14) break;
+    }
+    return sum * Math.exp(lnPrefix);
+  }
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < 500; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-14) break;
+  }
+  return 1 - Math.exp(lnPrefix) * h;
+};
+
+// Nelder-Mead simplex minimisation. `step` sets the initial simplex size per
+// parameter; non-finite function values count as worse than any finite one.
+export const nelderMead = (f: (x: number[]) => number, start: number[], step: number[], maxIterations = 500): number[] => {
+  const evaluate = (x: number[]) => {
+    const value = f(x);
+    return Number.isFinite(value) ? value : Infinity;
+  };
+  let simplex = [start, ...start.map((_, i) => start.map((v, j) => (i === j ? v + step[i] : v)))]
+    .map(x => ({ x, value: evaluate(x) }));
+  const combine = (a: number[], b: number[], t: number) => a.map((v, i) => v + t * (b[i] - v));
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    simplex.sort((a, b) => a.value - b.value);
+    const best = simplex[0];
+    const worst = simplex[simplex.length - 1];
+    if (Math.abs(worst.value - best.value) <= 1e-10 * (Math.abs(best.value) + 1e-10)) break;
+    const centroid = start.map((_, i) => mean(simplex.slice(0, -1).map(p => p.x[i])));
+
+    const reflected = combine(centroid, worst.x, -1);
+    const reflectedValue = evaluate(reflected);
+    if (reflectedValue < best.value) {
+      const expanded = combine(centroid, worst.x, -2);
+      const expandedValue = evaluate(expanded);
+      simplex[simplex.length - 1] = expandedValue < reflectedValue
+        ? { x: expanded, value: expandedValue }
+        : { x: reflected, value: reflectedValue };
+    } else if (reflectedValue < simplex[simplex.length - 2].value) {
+      simplex[simplex.length - 1] = { x: reflected, value: reflectedValue };
+    } else {
+      const contracted = combine(centroid, worst.x, 0.5);
+      const contractedValue = evaluate(contracted);
+      if (contractedValue < worst.value) {
+        simplex[simplex.length - 1] = { x: contracted, value: contractedValue };
+      } else {
+        simplex = simplex.map((p, i) => {
+          if (i === 0) return p;
+          const x = combine(best.x, p.x, 0.5);
+          return { x, value: evaluate(x) };
+        });
+      }
+    }
+  }
+  simplex.sort((a, b) => a.value - b.value);
+  return simplex[0].x;
+};
@@ -1,89 +1,140 @@
-import { NASA_API_KEY } from '../constants';
-import { ClimateStats, Calamity } from '../types';
+import { CLIMATE_VARIABLES } from '../constants';
+import {
+  ClimateStats, ClimateDataProvider, ClimateVariable, GridCell, ProviderSeries, RegionalGrid, SeriesRequest,
+  TemporalResolution
+} from '../types';
+import { loadApiKey, proxyHeaders, proxyUrl } from './keyService';
 
-const BASE_URL = "https://power.larc.nasa.gov/api/temporal/monthly/point";
+const POWER_URL = "https://power.larc.nasa.gov/api";
+const FILL_VALUE = -999; // NASA no-data value
 
-export const fetchClimateData = async (lat: number, lon: number, startYear: number, endYear: number): Promise<ClimateStats[]> => {
-  // Construct API URL
-  // Parameters: T2M (Temperature at 2 Meters), PRECTOTCORR (Precipitation)
-  const params = "T2M,PRECTOTCORR";
-  const url = `${BASE_URL}?parameters=${params}&community=AG&longitude=${lon}&latitude=${lat}&start=${startYear}&end=${endYear}&format=JSON`;
+// Hourly point requests return ~8760 rows per parameter per year.
+const MAX_HOURLY_YEARS = 1;
 
-  try {
-    const response = await fetch(url);
+// POWER reports some units in a bare form; normalise the common ones.
+const UNIT_LABELS: Record<string, string> = { C: '°C' };
+
+// Keys are YYYYMM (monthly), YYYYMMDD (daily) or YYYYMMDDHH (hourly).
+const formatDateKey = (key: string, resolution: TemporalResolution): string | null => {
+  const y = key.substring(0, 4);
+  const m = key.substring(4, 6);
+  if (resolution === 'monthly') {
+    return m === '13' ? null : `${y}-${m}`; // Monthly endpoint appends an annual mean as month 13
+  }
+  const d = key.substring(6, 8);
+  return resolution === 'daily' ? `${y}-${m}-${d}` : `${y}-${m}-${d}T${key.substring(8, 10)}`;
+};
+
+// Requests go through the server proxy unless a personal key is stored
+const fetchPower = async (path: string): Promise<Response> => {
+  const key = await loadApiKey('nasa');
+  if (key) return fetch(`${POWER_URL}/${path}&api_key=${encodeURIComponent(key)}`);
+  return fetch(`${proxyUrl('nasa')}/${path}`, { headers: proxyHeaders() });
+};
+
+const buildPath = (request: SeriesRequest): string => {
+  const { lat, lon, startYear, endYear, resolution, variables } = request;
+  const start = resolution === 'monthly' ? `${startYear}` : `${startYear}0101`;
+  const end = resolution === 'monthly' ? `${endYear}` : `${endYear}1231`;
+  return `temporal/${resolution}/point?parameters=${variables.join(',')}&community=AG` +
+    `&longitude=${lon}&latitude=${lat}&start=${start}&end=${end}&format=JSON`;
+};
+
+export const nasaPowerProvider: ClimateDataProvider = {
+  id: 'nasa-power',
+  name: 'NASA POWER',
+  resolutions: ['monthly', 'daily', 'hourly'],
+
+  supports: (variable, resolution) =>
+    variable !== 'NDVI' && CLIMATE_VARIABLES[variable].resolutions.includes(resolution),
+
+  fetchSeries: async (request): Promise<ProviderSeries> => {
+    const variables = request.variables.filter(v => nasaPowerProvider.supports(v, request.resolution));
+    if (variables.length === 0) {
+      throw new Error(`NASA POWER has none of the selected variables at ${request.resolution} resolution`);
+    }
+    if (request.resolution === 'hourly' && request.endYear - request.startYear + 1 > MAX_HOURLY_YEARS) {
+      throw new Error(`Hourly requests are limited to ${MAX_HOURLY_YEARS} year`);
+    }
+
+    const response = await fetchPower(buildPath({ ...request, variables }));
     if (!response.ok) {
       throw new Error(`NASA API Error: ${response.statusText}`);
     }
     const data = await response.json();
-    const properties = data.properties.parameter;
+    const parameters: Record<string, Record<string, number>> = data.properties.parameter;
+    const fillValue: number = data.header?.fill_value ?? FILL_VALUE;
+
+    const units: ProviderSeries['units'] = {};
+    variables.forEach(v => {
+      const reported: string | undefined = data.parameters?.[v]?.units;
+      units[v] = reported ? (UNIT_LABELS[reported] ?? reported) : CLIMATE_VARIABLES[v].unit;
+    });
 
     const stats: ClimateStats[] = [];
-    const dates = Object.keys(properties.T2M);
-
-    dates.forEach(date => {
-      const temp = properties.T2M[date];
-      const rain = properties.PRECTOTCORR[date];
-      
-      // Simulate NDVI and Anomalies for demo purposes as they require more complex separate datasets (MODIS)
-      // In a real Python backend, this would use the MODIS API with Earthdata tokens.
-      const month = parseInt(date.substring(4, 6));
-      let simulatedNDVI = 0.3;
-      if (month >= 5 && month <= 9) simulatedNDVI = 0.7; // Greener in summer (northern hemisphere assumption for simulation)
-      if (lat < 0) simulatedNDVI = (month >= 11 || month <= 3) ? 0.7 : 0.3; // Southern hemisphere
-
-      // Anomaly: Random fluctuation for demo + trend
-      const anomaly = (Math.random() * 2 - 1) * 1.5;
-
-      if (temp !== -999 && rain !== -999) { // NASA no-data value
-        stats.push({
-          date: `${date.substring(0, 4)}-${date.substring(4, 6)}`,
-          temperature: temp,
-          rainfall: rain,
-          ndvi: parseFloat((simulatedNDVI + (Math.random() * 0.1)).toFixed(2)),
-          anomaly: parseFloat(anomaly.toFixed(2))
-        });
-      }
+    Object.keys(parameters[variables[0]] ?? {}).forEach(key => {
+      const date = formatDateKey(key, request.resolution);
+      if (!date) return;
+      const values: ClimateStats['values'] = {};
+      variables.forEach((v: ClimateVariable) => {
+        const raw = parameters[v]?.[key];
+        values[v] = raw === undefined || raw === fillValue ? null : raw;
+      });
+      stats.push({ date, values, anomalies: {} });
     });
 
-    return stats;
-  } catch (error) {
-    console.error("Failed to fetch NASA data", error);
-    // Return mock data if API fails (e.g., rate limit or network issue)
-    return generateMockData(startYear, endYear);
+    return { stats, units };
   }
 };
 
-const generateMockData = (start: number, end: number): ClimateStats[] => {
-  const stats: ClimateStats[] = [];
-  for (let y = start; y <= end; y++) {
-    for (let m = 1; m <= 12; m++) {
-      stats.push({
-        date: `${y}-${m.toString().padStart(2, '0')}`,
-        temperature: 15 + Math.sin(m / 2) * 10 + (y - start) * 0.1,
-        rainfall: Math.random() * 100,
-        ndvi: 0.4 + Math.random() * 0.4,
-        anomaly: (Math.random() - 0.5) * 2
-      });
-    }
+// Regional requests cover a bounding box of 2-10 degrees per side and take
+// one parameter at a time. Each cell gets the mean of the annual values
+// (the month-13 entries) over the requested years.
+export const fetchRegionalGrid = async (
+  variable: ClimateVariable,
+  bbox: [number, number, number, number], // west, south, east, north
+  startYear: number,
+  endYear: number
+): Promise<RegionalGrid> => {
+  if (!nasaPowerProvider.supports(variable, 'monthly')) {
+    throw new Error(`NASA POWER has no gridded ${variable}`);
   }
-  return stats;
-};
+  const [west, south, east, north] = bbox;
+  const path = `temporal/monthly/regional?parameters=${variable}&community=AG` +
+    `&latitude-min=${south}&latitude-max=${north}&longitude-min=${west}&longitude-max=${east}` +
+    `&start=${startYear}&end=${endYear}&format=JSON`;
+  const response = await fetchPower(path);
+  if (!response.ok) {
+    throw new Error(`NASA API Error: ${response.statusText}`);
+  }
+  const data = await response.json();
+  const fillValue: number = data.header?.fill_value ?? FILL_VALUE;
 
-export const fetchCalamityHistory = (lat: number, lon: number): Calamity[] => {
-  // Mocking calamity data based on location lat/lon heuristics
-  // Real implementation would query NOAA or EM-DAT databases
-  const calamities: Calamity[] = [];
-  const years = [2018, 2020, 2022, 2023];
-  
-  years.forEach(year => {
-    if (Math.random() > 0.5) {
-      calamities.push({
-        year,
-        type: Math.random() > 0.5 ? 'Flood' : 'Heatwave',
-        intensity: Math.random() > 0.5 ? 'Severe' : 'Moderate',
-        month: '07'
-      });
-    }
+  const cells: GridCell[] = [];
+  (data.features ?? []).forEach((f: any) => {
+    const [lon, lat] = f.geometry.coordinates as number[];
+    const series: Record<string, number> = f.properties?.parameter?.[variable] ?? {};
+    const annual = Object.entries(series)
+      .filter(([key, value]) => key.endsWith('13') && key.length === 6 && value !== fillValue)
+      .map(([, value]) => value);
+    if (annual.length) cells.push({ lat, lon, value: annual.reduce((a, b) => a + b, 0) / annual.length });
   });
-  return calamities;
-};
\ No newline at end of file
+  if (cells.length === 0) throw new Error('NASA POWER returned no grid cells for this region');
+
+  // Spacing of the grid, from the smallest gap between distinct centres
+  const spacing = (coords: number[]) => {
+    const sorted = Array.from(new Set(coords)).sort((a, b) => a - b);
+    const gaps = sorted.slice(1).map((c, i) => c - sorted[i]).filter(g => g > 1e-6);
+    return gaps.length ? Math.min(...gaps) : 0.5;
+  };
+  const reported: string | undefined = data.parameters?.[variable]?.units;
+
+  return {
+    variable,
+    unit: reported ? (UNIT_LABELS[reported] ?? reported) : CLIMATE_VARIABLES[variable].unit,
+    cells,
+    cellSize: [spacing(cells.map(c => c.lon)), spacing(cells.map(c => c.lat))],
+    period: startYear === endYear ? `${startYear} mean` : `${startYear}-${endYear} mean`,
+    source: nasaPowerProvider.name
+  };
+};
@@ -0,0 +1,471 @@
+import { fromArrayBuffer, GeoTIFFImage } from 'geotiff';
+import { ClimateStats, NdviObservation, NdviSampling } from '../types';
+import { parseCsv, toRecords, parseNumber } from './csvUtils';
+import { idbClear, idbGetAll, idbPutAll } from './db';
+import { haversineKm } from './geoService';
+import { mean } from './mathUtils';
+
+// Importer for vegetation index exports:
+//  - ORNL DAAC MODIS/VIIRS subset CSVs (MOD13Q1, MYD13A1, VNP13A1, ...): the
+//    per-pixel download (one row per pixel, as written by MODISTools), the
+//    legacy ASCII subset (one row per band and date) and the statistics table
+//  - single-band GeoTIFFs in EPSG:4326, dated by their file name, optionally
+//    with a matching pixel_reliability / VI_Quality GeoTIFF for the same date
+// Rasters are sampled at import time and stored in IndexedDB; a series picks
+// up the samples taken within NDVI_MATCH_KM of its point.
+
+export const DEFAULT_NDVI_SAMPLING: NdviSampling = { mode: 'point', bufferKm: 1, allowMarginal: false };
+
+// Tolerates coordinates rounded when ordering a subset (0.01° is ~1.1 km).
+export const NDVI_MATCH_KM = 2;
+
+const NDVI_SCALE = 0.0001; // MOD13/VNP13 integer scale factor
+const NDVI_FILL = -3000;
+const KM_PER_DEGREE = 111.32;
+
+export interface NdviImportSummary {
+  format: 'MODIS subset CSV' | 'GeoTIFF';
+  product: string;
+  imported: number;
+  rejected: number; // composites where no pixel passed QA
+  distanceKm: number; // from the selected point to where the sample was taken
+}
+
+export interface NdviImportResult {
+  file: string;
+  summary?: NdviImportSummary;
+  error?: string;
+}
+
+// ---- Quality filtering ----
+
+type QaKind = 'reliability' | 'vi_quality';
+
+const qaKind = (band: string): QaKind | null => {
+  if (/reliability/i.test(band)) return 'reliability';
+  if (/quality|_qa\b/i.test(band)) return 'vi_quality';
+  return null;
+};
+
+// pixel_reliability: 0 good, 1 marginal, 2 snow/ice, 3 cloudy, -1 fill.
+// VI_Quality: bits 0-1 hold the MODLAND summary, 0 good and 1 "check other
+// QA"; 2 and 3 mean cloudy or not produced.
+const passesQa = (kind: QaKind, qa: number, allowMarginal: boolean): boolean => {
+  const level = kind === 'reliability' ? qa : qa & 0b11;
+  return level === 0 || (allowMarginal && level === 1);
+};
+
+interface PixelSample {
+  raw: number;
+  qa?: number;
+}
+
+// Integer products carry a 0.0001 scale factor; already scaled exports don't.
+const detectScale = (raws: number[]): number => (raws.some(v => Math.abs(v) > 1) ? NDVI_SCALE : 1);
+
+const toNdvi = (raw: number, scale: number): number | null => {
+  if (!Number.isFinite(raw) || (scale !== 1 && raw <= NDVI_FILL)) return null;
+  const value = raw * scale;
+  return value >= -1 && value <= 1 ? value : null;
+};
+
+const reducePixels = (
+  pixels: PixelSample[],
+  scale: number,
+  qa: QaKind | null,
+  sampling: NdviSampling
+): { value: number; pixels: number } | null => {
+  const valid = pixels
+    .filter(p => !qa || (p.qa !== undefined && passesQa(qa, p.qa, sampling.allowMarginal)))
+    .map(p => toNdvi(p.raw, scale))
+    .filter((v): v is number => v !== null);
+  return valid.length ? { value: parseFloat(mean(valid).toFixed(4)), pixels: valid.length } : null;
+};
+
+// ---- Dates ----
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+// "A2000049" or AppEEARS "doy2000049" (year + day of year) -> "2000-02-18"
+const fromModisDate = (code: string): string | null => {
+  const match = code.match(/(?:A|doy)(\d{4})(\d{3})/);
+  if (!match) return null;
+  return new Date(Date.UTC(parseInt(match[1], 10), 0, parseInt(match[2], 10))).toISOString().substring(0, 10);
+};
+
+// Accepts MODIS "A2020001" / AppEEARS "doy2020001" codes and YYYY-MM-DD / YYYYMMDD / YYYY_MM_DD stamps.
+const dateFromName = (name: string): string | null => {
+  const modis = fromModisDate(name);
+  if (modis) return modis;
+  const match = name.match(/(\d{4})[-_.]?(\d{2})[-_.]?(\d{2})/);
+  if (!match) return null;
+  const [year, month, day] = match.slice(1).map(Number);
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+const productFromName = (name: string): string | null =>
+  name.match(/\b(M[OY]D13[A-Z]\d|VNP13[A-Z]\d)/i)?.[1].toUpperCase() ?? null;
+
+// Nominal pixel size from band names such as "250m_16_days_NDVI" or "500_m_16_days_NDVI".
+const cellsizeFromBand = (band: string): number | undefined => {
+  const match = band.match(/^(\d+)_?m_/);
+  return match ? parseInt(match[1], 10) : undefined;
+};
+
+// ---- ORNL DAAC subset CSVs ----
+
+interface BandGrid {
+  date: string;
+  band: string;
+  values: number[]; // row-major from the north-west pixel
+  nrows: number;
+  ncols: number;
+  cellsizeM?: number;
+}
+
+interface ParsedSubset {
+  product: string;
+  lat?: number;
+  lon?: number;
+  grids: BandGrid[];
+  summarised: boolean; // statistics table: one value per date, no per-pixel QA
+}
+
+const squareSide = (n: number) => Math.max(1, Math.round(Math.sqrt(n)));
+
+// MODISTools layout: one row per pixel with band, calendar_date, pixel, value.
+const parsePixelRows = (records: Record<string, string>[]): ParsedSubset => {
+  const grids = new Map<string, BandGrid>();
+  records.forEach(r => {
+    const date = r.calendar_date || fromModisDate(r.modis_date ?? '');
+    const value = parseNumber(r.value);
+    if (!date || !r.band || value === undefined) return;
+    const key = `${date}|${r.band}`;
+    let grid = grids.get(key);
+    if (!grid) {
+      grid = {
+        date,
+        band: r.band,
+        values: [],
+        nrows: parseNumber(r.nrows) ?? 0,
+        ncols: parseNumber(r.ncols) ?? 0,
+        cellsizeM: parseNumber(r.cellsize) ?? cellsizeFromBand(r.band)
+      };
+      grids.set(key, grid);
+    }
+    const pixel = parseNumber(r.pixel);
+    grid.values[pixel !== undefined ? pixel - 1 : grid.values.length] = value;
+  });
+  grids.forEach(g => {
+    if (!g.nrows || !g.ncols) g.nrows = g.ncols = squareSide(g.values.length);
+  });
+  const first = records[0] ?? {};
+  return {
+    product: first.product || 'MODIS',
+    lat: parseNumber(first.latitude),
+    lon: parseNumber(first.longitude),
+    grids: Array.from(grids.values()),
+    summarised: false
+  };
+};
+
+// Statistics table: one row per band and date with value_center / value_mean.
+const parseStatisticsRows = (records: Record<string, string>[], sampling: NdviSampling): ParsedSubset => {
+  const column = sampling.mode === 'point' ? 'value_center' : 'value_mean';
+  const grids: BandGrid[] = [];
+  records.forEach(r => {
+    const date = r.calendar_date || fromModisDate(r.modis_date ?? '');
+    const value = parseNumber(r[column]);
+    if (!date || value === undefined || !/ndvi/i.test(r.band ?? '')) return;
+    grids.push({ date, band: r.band, values: [value], nrows: 1, ncols: 1 });
+  });
+  return { product: records[0]?.product || 'MODIS', grids, summarised: true };
+};
+
+// Legacy ASCII subset: no header; each row is
+// HDF name, product, A-date, "Lat..Lon..Samp..Line..", processing date, band, pixels...
+const LEGACY_LOCATION = /Lat(-?[\d.]+)Lon(-?[\d.]+)Samp(\d+)Line(\d+)/;
+
+const parseLegacyRows = (rows: string[][]): ParsedSubset => {
+  const grids: BandGrid[] = [];
+  let lat: number | undefined;
+  let lon: number | undefined;
+  rows.forEach(r => {
+    const location = r[3]?.match(LEGACY_LOCATION);
+    const date = fromModisDate(r[2] ?? '');
+    if (!location || !date) return;
+    lat = parseFloat(location[1]);
+    lon = parseFloat(location[2]);
+    const band = r[5].trim();
+    grids.push({
+      date,
+      band,
+      values: r.slice(6).map(v => Number(v)),
+      nrows: parseInt(location[4], 10),
+      ncols: parseInt(location[3], 10),
+      cellsizeM: cellsizeFromBand(band)
+    });
+  });
+  return { product: rows[0]?.[1]?.trim() || 'MODIS', lat, lon, grids, summarised: false };
+};
+
+// Pixels to use: the centre one, or every pixel whose centre lies within the
+// buffer (the whole subset when the cell size is unknown).
+const gridIndices = (grid: BandGrid, sampling: NdviSampling): number[] => {
+  const centreRow = Math.floor(grid.nrows / 2);
+  const centreCol = Math.floor(grid.ncols / 2);
+  if (sampling.mode === 'point') return [centreRow * grid.ncols + centreCol];
+  const indices: number[] = [];
+  for (let r = 0; r < grid.nrows; r++) {
+    for (let c = 0; c < grid.ncols; c++) {
+      const distanceM = Math.hypot(r - centreRow, c - centreCol) * (grid.cellsizeM ?? 0);
+      if (distanceM <= sampling.bufferKm * 1000) indices.push(r * grid.ncols + c);
+    }
+  }
+  return indices;
+};
+
+const sampleSubset = (subset: ParsedSubset, sampling: NdviSampling) => {
+  const byDate = new Map<string, { ndvi?: BandGrid; qa?: BandGrid; kind?: QaKind }>();
+  subset.grids.forEach(g => {
+    const entry = byDate.get(g.date) ?? {};
+    const kind = qaKind(g.band);
+    if (/ndvi/i.test(g.band)) entry.ndvi = g;
+    // Prefer pixel_reliability over the VI_Quality bit field when both are present
+    else if (kind && (!entry.qa || kind === 'reliability')) {
+      entry.qa = g;
+      entry.kind = kind;
+    }
+    byDate.set(g.date, entry);
+  });
+
+  const ndviGrids = Array.from(byDate.values()).filter(e => e.ndvi);
+  const scale = detectScale(ndviGrids.flatMap(e => e.ndvi!.values));
+  const samples: { date: string; value: number; pixels: number }[] = [];
+  let rejected = 0;
+  byDate.forEach(({ ndvi, qa, kind }, date) => {
+    if (!ndvi) return;
+    const indices = subset.summarised ? [0] : gridIndices(ndvi, sampling);
+    const pixels = indices.map(i => ({ raw: ndvi.values[i], qa: qa?.values[i] }));
+    const sample = reducePixels(pixels, scale, qa ? kind! : null, sampling);
+    if (sample) samples.push({ date, ...sample });
+    else rejected++;
+  });
+  return { samples, rejected };
+};
+
+const parseSubsetCsv = (text: string, name: string, sampling: NdviSampling): ParsedSubset => {
+  const rows = parseCsv(text);
+  if (rows.length && LEGACY_LOCATION.test(rows[0][3] ?? '')) return parseLegacyRows(rows);
+
+  const header = rows[0]?.map(h => h.trim().toLowerCase()) ?? [];
+  const records = toRecords(header, rows.slice(1));
+  if (header.includes('band') && header.includes('value')) return parsePixelRows(records);
+  if (header.includes('band') && (header.includes('value_center') || header.includes('value_mean'))) {
+    return parseStatisticsRows(records, sampling);
+  }
+  throw new Error(`${name} is not an ORNL DAAC MODIS/VIIRS subset CSV`);
+};
+
+// ---- GeoTIFF ----
+
+const openGeoTiff = async (file: File): Promise<GeoTIFFImage> => {
+  const tiff = await fromArrayBuffer(await file.arrayBuffer());
+  const image = await tiff.getImage();
+  const keys = image.getGeoKeys() ?? {};
+  const projected = keys.GTModelTypeGeoKey === 1 || keys.ProjectedCSTypeGeoKey !== undefined;
+  if (projected || (keys.GeographicTypeGeoKey !== undefined && keys.GeographicTypeGeoKey !== 4326)) {
+    throw new Error(`${file.name} is not in EPSG:4326 (reproject with gdalwarp -t_srs EPSG:4326)`);
+  }
+  if (image.getSamplesPerPixel() !== 1) {
+    throw new Error(`${file.name} has ${image.getSamplesPerPixel()} bands; export a single band`);
+  }
+  return image;
+};
+
+// Reads the pixels around the point: the containing pixel, or every pixel
+// whose centre lies within the buffer.
+const readGeoTiffPixels = async (
+  image: GeoTIFFImage,
+  lat: number,
+  lon: number,
+  sampling: NdviSampling
+): Promise<number[]> => {
+  const [originX, originY] = image.getOrigin();
+  const [resX, resY] = image.getResolution(); // resY is negative for north-up rasters
+  const width = image.getWidth();
+  const height = image.getHeight();
+  const col = Math.floor((lon - originX) / resX);
+  const row = Math.floor((lat - originY) / resY);
+  if (col < 0 || col >= width || row < 0 || row >= height) {
+    throw new Error(`the selected point (${lat.toFixed(3)}, ${lon.toFixed(3)}) is outside the raster`);
+  }
+
+  const bufferCols = sampling.mode === 'buffer'
+    ? Math.ceil(sampling.bufferKm / (KM_PER_DEGREE * Math.cos((lat * Math.PI) / 180) * Math.abs(resX)))
+    : 0;
+  const bufferRows = sampling.mode === 'buffer' ? Math.ceil(sampling.bufferKm / (KM_PER_DEGREE * Math.abs(resY))) : 0;
+  const window = [
+    Math.max(0, col - bufferCols),
+    Math.max(0, row - bufferRows),
+    Math.min(width, col + bufferCols + 1),
+    Math.min(height, row + bufferRows + 1)
+  ];
+  const [band] = await image.readRasters({ window, samples: [0] }) as unknown as ArrayLike<number>[];
+  const noData = image.getGDALNoData();
+
+  const values: number[] = [];
+  const windowWidth = window[2] - window[0];
+  for (let i = 0; i < band.length; i++) {
+    const c = window[0] + (i % windowWidth);
+    const r = window[1] + Math.floor(i / windowWidth);
+    if (sampling.mode === 'point' && (c !== col || r !== row)) continue;
+    if (sampling.mode === 'buffer') {
+      const pixelLat = originY + (r + 0.5) * resY;
+      const pixelLon = originX + (c + 0.5) * resX;
+      if (haversineKm(lat, lon, pixelLat, pixelLon) > sampling.bufferKm && (c !== col || r !== row)) continue;
+    }
+    values.push(band[i] === noData ? NaN : band[i]);
+  }
+  return values;
+};
+
+const isQaFile = (name: string) => qaKind(name.replace(/\.tiff?$/i, '')) !== null;
+
+const importGeoTiffs = async (
+  files: File[],
+  lat: number,
+  lon: number,
+  sampling: NdviSampling
+): Promise<NdviImportResult[]> => {
+  const qaFiles = new Map<string, File>();
+  files.filter(f => isQaFile(f.name)).forEach(f => {
+    const date = dateFromName(f.name);
+    if (date && (!qaFiles.has(date) || qaKind(f.name) === 'reliability')) qaFiles.set(date, f);
+  });
+
+  const results: NdviImportResult[] = [];
+  for (const file of files.filter(f => !isQaFile(f.name))) {
+    try {
+      const date = dateFromName(file.name);
+      if (!date) throw new Error('no acquisition date in the file name (e.g. A2020001 or 2020-01-01)');
+      const raws = await readGeoTiffPixels(await openGeoTiff(file), lat, lon, sampling);
+
+      const qaFile = qaFiles.get(date);
+      const qa = qaFile ? await readGeoTiffPixels(await openGeoTiff(qaFile), lat, lon, sampling) : undefined;
+      if (qa && qa.length !== raws.length) throw new Error(`${qaFile!.name} does not share the NDVI raster's grid`);
+
+      const product = productFromName(file.name) ?? 'GeoTIFF';
+      const pixels = raws.map((raw, i) => ({ raw, qa: qa?.[i] }));
+      const sample = reducePixels(pixels, detectScale(raws.filter(Number.isFinite)), qaFile ? qaKind(qaFile.name) : null, sampling);
+      if (sample) await idbPutAll('ndvi', [toObservation(lat, lon, date, product, sample)]);
+      results.push({
+        file: file.name,
+        summary: { format: 'GeoTIFF', product, imported: sample ? 1 : 0, rejected: sample ? 0 : 1, distanceKm: 0 }
+      });
+    } catch (e) {
+      results.push({ file: file.name, error: e instanceof Error ? e.message : String(e) });
+    }
+  }
+  return results;
+};
+
+// ---- Storage ----
+
+const toObservation = (
+  lat: number,
+  lon: number,
+  date: string,
+  product: string,
+  sample: { value: number; pixels: number }
+): NdviObservation => ({
+  id: `${lat.toFixed(4)},${lon.toFixed(4)}:${date}:${product}`,
+  date,
+  value: sample.value,
+  lat,
+  lon,
+  product,
+  pixels: sample.pixels
+});
+
+const importSubsetCsv = async (
+  file: File,
+  lat: number,
+  lon: number,
+  sampling: NdviSampling
+): Promise<NdviImportSummary> => {
+  const subset = parseSubsetCsv(await file.text(), file.name, sampling);
+  if (!subset.grids.some(g => /ndvi/i.test(g.band))) throw new Error(`${file.name} contains no NDVI band`);
+  // Subsets are centred on the site they were ordered for; fall back to the
+  // selected point when the export doesn't say.
+  const siteLat = subset.lat ?? lat;
+  const siteLon = subset.lon ?? lon;
+  const { samples, rejected } = sampleSubset(subset, sampling);
+  await idbPutAll('ndvi', samples.map(s => toObservation(siteLat, siteLon, s.date, subset.product, s)));
+  return {
+    format: 'MODIS subset CSV',
+    product: subset.product,
+    imported: samples.length,
+    rejected,
+    distanceKm: haversineKm(lat, lon, siteLat, siteLon)
+  };
+};
+
+// CSVs carry their own location; GeoTIFFs are sampled at the selected point.
+export const importNdviFiles = async (
+  files: File[],
+  lat: number,
+  lon: number,
+  sampling: NdviSampling = DEFAULT_NDVI_SAMPLING
+): Promise<NdviImportResult[]> => {
+  const results: NdviImportResult[] = [];
+  for (const file of files.filter(f => !/\.tiff?$/i.test(f.name))) {
+    try {
+      results.push({ file: file.name, summary: await importSubsetCsv(file, lat, lon, sampling) });
+    } catch (e) {
+      results.push({ file: file.name, error: e instanceof Error ? e.message : String(e) });
+    }
+  }
+  const tiffs = files.filter(f => /\.tiff?$/i.test(f.name));
+  if (tiffs.length) results.push(...await importGeoTiffs(tiffs, lat, lon, sampling));
+  return results;
+};
+
+export const clearImportedNdvi = () => idbClear('ndvi');
+
+export const countImportedNdvi = async (): Promise<number> => {
+  try {
+    return (await idbGetAll<NdviObservation>('ndvi')).length;
+  } catch {
+    return 0;
+  }
+};
+
+// Imported composites sampled within NDVI_MATCH_KM of the point, oldest first.
+export const loadNdviObservations = async (lat: number, lon: number): Promise<NdviObservation[]> => {
+  let all: NdviObservation[];
+  try {
+    all = await idbGetAll<NdviObservation>('ndvi');
+  } catch (e) {
+    console.error('Failed to read imported NDVI', e);
+    return [];
+  }
+  return all
+    .filter(o => haversineKm(lat, lon, o.lat, o.lon) <= NDVI_MATCH_KM)
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// Sets NDVI on monthly rows to the mean of the composites starting in that
+// month; months without a composite become no-data.
+export const mergeNdvi = (stats: ClimateStats[], observations: NdviObservation[]): ClimateStats[] => {
+  const byMonth = new Map<string, number[]>();
+  observations.forEach(o => {
+    const key = o.date.substring(0, 7);
+    byMonth.set(key, [...(byMonth.get(key) ?? []), o.value]);
+  });
+  return stats.map(s => {
+    const values = byMonth.get(s.date.substring(0, 7));
+    return { ...s, values: { ...s.values, NDVI: values ? parseFloat(mean(values).toFixed(3)) : null } };
+  });
+};
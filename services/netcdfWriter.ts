@@ -0,0 +1,170 @@
+// Minimal writer for the NetCDF classic format (CDF-1), enough for the CF
+// files the export module produces: fixed-size dimensions only, no record
+// dimension, and char/int/float/double variables.
+
+export type NcType = 'char' | 'int' | 'float' | 'double';
+
+export type NcAttribute = string | number | number[];
+
+export interface NcVariable {
+  name: string;
+  dimensions: string[]; // empty for a scalar
+  type: NcType;
+  attributes: Record<string, NcAttribute>;
+  // Numbers in row-major order (NaN becomes the fill value) or, for char
+  // variables, one string per row padded to the last dimension
+  data: number[] | string[];
+}
+
+export interface NcDataset {
+  dimensions: Record<string, number>; // all lengths must be positive
+  attributes: Record<string, NcAttribute>;
+  variables: NcVariable[];
+}
+
+const TYPE_CODES: Record<NcType, number> = { char: 2, int: 4, float: 5, double: 6 };
+const TYPE_SIZES: Record<NcType, number> = { char: 1, int: 4, float: 4, double: 8 };
+
+const NC_DIMENSION = 0x0a;
+const NC_VARIABLE = 0x0b;
+const NC_ATTRIBUTE = 0x0c;
+
+// Default fill values from the NetCDF specification
+export const NC_FILL: Record<Exclude<NcType, 'char'>, number> = {
+  int: -2147483647,
+  float: 9.969209968386869e36,
+  double: 9.969209968386869e36
+};
+
+// CF wants these attributes in the type of the variable they describe
+const TYPED_ATTRIBUTES = new Set(['_FillValue', 'missing_value', 'valid_min', 'valid_max', 'valid_range', 'flag_values']);
+
+const pad4 = (n: number) => (4 - (n % 4)) % 4;
+
+// Appends big-endian values to a growing byte list
+const createBuffer = () => {
+  const bytes: number[] = [];
+  const scratch = new DataView(new ArrayBuffer(8));
+  const push = (count: number) => {
+    for (let i = 0; i < count; i++) bytes.push(scratch.getUint8(i));
+  };
+  return {
+    bytes,
+    int: (v: number) => { scratch.setInt32(0, v); push(4); },
+    float: (v: number) => { scratch.setFloat32(0, v); push(4); },
+    double: (v: number) => { scratch.setFloat64(0, v); push(8); },
+    raw: (data: Uint8Array) => { data.forEach(b => bytes.push(b)); },
+    pad: () => { for (let i = pad4(bytes.length); i > 0; i--) bytes.push(0); }
+  };
+};
+
+type Buffer = ReturnType<typeof createBuffer>;
+
+const encoder = new TextEncoder();
+
+const writeName = (out: Buffer, name: string) => {
+  const bytes = encoder.encode(name);
+  out.int(bytes.length);
+  out.raw(bytes);
+  out.pad();
+};
+
+const writeValue = (out: Buffer, type: NcType, value: number) => {
+  if (type === 'int') out.int(Math.round(value));
+  else if (type === 'float') out.float(value);
+  else out.double(value);
+};
+
+const writeAttributes = (out: Buffer, attributes: Record<string, NcAttribute>, variableType?: NcType) => {
+  const entries = Object.entries(attributes).filter(([, v]) => v !== '' && !(Array.isArray(v) && v.length === 0));
+  if (entries.length === 0) {
+    out.int(0);
+    out.int(0);
+    return;
+  }
+  out.int(NC_ATTRIBUTE);
+  out.int(entries.length);
+  entries.forEach(([name, value]) => {
+    writeName(out, name);
+    if (typeof value === 'string') {
+      const bytes = encoder.encode(value);
+      out.int(TYPE_CODES.char);
+      out.int(bytes.length);
+      out.raw(bytes);
+      out.pad();
+      return;
+    }
+    const values = Array.isArray(value) ? value : [value];
+    const type: NcType = TYPED_ATTRIBUTES.has(name) && variableType && variableType !== 'char' ? variableType : 'double';
+    out.int(TYPE_CODES[type]);
+    out.int(values.length);
+    values.forEach(v => writeValue(out, type, v));
+  });
+};
+
+const variableLength = (dataset: NcDataset, variable: NcVariable) =>
+  variable.dimensions.reduce((n, d) => n * dataset.dimensions[d], 1);
+
+const writeHeader = (out: Buffer, dataset: NcDataset, offsets: number[]) => {
+  const dimensionNames = Object.keys(dataset.dimensions);
+  out.raw(encoder.encode('CDF'));
+  out.raw(new Uint8Array([1]));
+  out.int(0); // numrecs: no record dimension
+  out.int(NC_DIMENSION);
+  out.int(dimensionNames.length);
+  dimensionNames.forEach(name => {
+    writeName(out, name);
+    out.int(dataset.dimensions[name]);
+  });
+  writeAttributes(out, dataset.attributes);
+  out.int(NC_VARIABLE);
+  out.int(dataset.variables.length);
+  dataset.variables.forEach((variable, i) => {
+    writeName(out, variable.name);
+    out.int(variable.dimensions.length);
+    variable.dimensions.forEach(d => out.int(dimensionNames.indexOf(d)));
+    writeAttributes(out, variable.attributes, variable.type);
+    out.int(TYPE_CODES[variable.type]);
+    const size = variableLength(dataset, variable) * TYPE_SIZES[variable.type];
+    out.int(size + pad4(size));
+    out.int(offsets[i]);
+  });
+};
+
+export const writeNetcdf3 = (dataset: NcDataset): Uint8Array => {
+  Object.entries(dataset.dimensions).forEach(([name, length]) => {
+    if (!(length > 0)) throw new Error(`Dimension ${name} must have a positive length`);
+  });
+  dataset.variables.forEach(v => v.dimensions.forEach(d => {
+    if (!(d in dataset.dimensions)) throw new Error(`Variable ${v.name} uses undefined dimension ${d}`);
+  }));
+
+  // The header length does not depend on the offsets, so measure it first
+  const probe = createBuffer();
+  writeHeader(probe, dataset, dataset.variables.map(() => 0));
+  const offsets: number[] = [];
+  let offset = probe.bytes.length;
+  dataset.variables.forEach(variable => {
+    offsets.push(offset);
+    const size = variableLength(dataset, variable) * TYPE_SIZES[variable.type];
+    offset += size + pad4(size);
+  });
+
+  const out = createBuffer();
+  writeHeader(out, dataset, offsets);
+  dataset.variables.forEach(variable => {
+    if (variable.type === 'char') {
+      const width = dataset.dimensions[variable.dimensions[variable.dimensions.length - 1]];
+      (variable.data as string[]).forEach(row => {
+        const bytes = encoder.encode(row).slice(0, width);
+        out.raw(bytes);
+        for (let i = bytes.length; i < width; i++) out.raw(new Uint8Array([0]));
+      });
+    } else {
+      const fill = Number(variable.attributes._FillValue ?? NC_FILL[variable.type]);
+      (variable.data as number[]).forEach(v => writeValue(out, variable.type, Number.isFinite(v) ? v : fill));
+    }
+    out.pad();
+  });
+  return new Uint8Array(out.bytes);
+};
@@ -0,0 +1,158 @@
+import {
+  ChatMessage, LlmChat, LlmChunk, LlmProvider, LlmRequest, LlmSettings, LlmTask, LlmToolCall, LlmToolResult, LlmToolSpec,
+  MapResult, NewsResult
+} from '../types';
+import { proxyHeaders, proxyUrl } from './keyService';
+
+// OpenAI-compatible chat completions over HTTP: OpenAI itself, Ollama's /v1
+// endpoint, llama.cpp server, vLLM and the like. No grounding is available,
+// so news and resource lookups fail with an explanation.
+//
+// Without a base URL or personal key, requests go to the endpoint configured
+// on the server proxy. Model names differ between these servers and the
+// proxy's endpoint is not known here, so the model must be set explicitly.
+
+export const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1'; // for personal keys without a base URL
+
+interface WireMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null;
+  tool_calls?: { id: string; type: 'function'; function: { name: string; arguments: string } }[];
+  tool_call_id?: string;
+}
+
+interface PartialToolCall {
+  id?: string;
+  name: string;
+  arguments: string; // JSON, streamed in fragments
+}
+
+const parseArguments = (text: string): Record<string, unknown> => {
+  try {
+    const parsed = JSON.parse(text || '{}');
+    return typeof parsed === 'object' && parsed !== null ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+// Reads a server-sent event stream of chat completion chunks. Text and
+// reasoning are passed on as they arrive; tool calls once complete.
+async function* readCompletionStream(response: Response): AsyncGenerator<LlmChunk> {
+  if (!response.body) throw new Error('Empty response from the model server');
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  const calls: PartialToolCall[] = [];
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      const data = line.trim().replace(/^data:\s*/, '');
+      if (!line.trim().startsWith('data:') || data === '[DONE]') continue;
+      const delta = JSON.parse(data).choices?.[0]?.delta;
+      if (!delta) continue;
+      const thought = delta.reasoning_content ?? delta.reasoning;
+      if (delta.content || thought) yield { text: delta.content || undefined, thought: thought || undefined };
+      (delta.tool_calls ?? []).forEach((fragment: any) => {
+        const call = (calls[fragment.index ?? 0] ??= { name: '', arguments: '' });
+        if (fragment.id) call.id = fragment.id;
+        if (fragment.function?.name) call.name += fragment.function.name;
+        if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+      });
+    }
+  }
+  // Some servers omit ids; results are matched to calls by id, so make them up
+  const toolCalls: LlmToolCall[] = calls.filter(Boolean)
+    .map((c, i) => ({ id: c.id ?? `call_${i}`, name: c.name, args: parseArguments(c.arguments) }));
+  if (toolCalls.length) yield { toolCalls };
+}
+
+export const createOpenAiProvider = (settings: LlmSettings, apiKey: string | null): LlmProvider => {
+  if (!settings.model) {
+    throw new Error('No model set for the OpenAI-compatible provider; enter one in Settings (e.g. gpt-4o-mini, or llama3.1 for Ollama)');
+  }
+  const direct = Boolean(settings.baseUrl || apiKey);
+  const baseUrl = direct ? (settings.baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '') : proxyUrl('llm/openai');
+  const model = (_task: LlmTask) => settings.model;
+
+  const complete = async (body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> => {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(direct ? (apiKey ? { Authorization: `Bearer ${apiKey}` } : {}) : proxyHeaders())
+      },
+      body: JSON.stringify({ ...body, stream: true }),
+      signal
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`${baseUrl} returned ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+    }
+    return response;
+  };
+
+  const stream = async function* (request: LlmRequest): AsyncGenerator<LlmChunk> {
+    const response = await complete({
+      model: model(request.task),
+      messages: [{ role: 'user', content: request.prompt }],
+      ...(request.schema
+        ? { response_format: { type: 'json_schema', json_schema: { name: `${request.task}_response`, schema: request.schema } } }
+        : {})
+    }, request.signal);
+    yield* readCompletionStream(response);
+  };
+
+  const ungrounded = (feature: string) =>
+    Promise.reject(new Error(`${feature} needs web grounding, which only the Gemini provider offers`));
+
+  const createChat = (systemInstruction: string, tools: LlmToolSpec[], history: ChatMessage[]): LlmChat => {
+    const messages: WireMessage[] = [
+      { role: 'system', content: systemInstruction },
+      ...history.map((m): WireMessage => ({ role: m.role === 'model' ? 'assistant' : 'user', content: m.text }))
+    ];
+    return {
+      send: async function* (input: string | LlmToolResult[]) {
+        if (typeof input === 'string') {
+          messages.push({ role: 'user', content: input });
+        } else {
+          input.forEach(({ call, response }) => messages.push({ role: 'tool', tool_call_id: call.id, content: JSON.stringify(response) }));
+        }
+        const response = await complete({
+          model: model('chat'),
+          messages,
+          ...(tools.length
+            ? { tools: tools.map(t => ({ type: 'function', function: { name: t.name, description: t.description, parameters: t.parameters } })) }
+            : {})
+        });
+        let text = '';
+        const calls: LlmToolCall[] = [];
+        for await (const chunk of readCompletionStream(response)) {
+          if (chunk.text) text += chunk.text;
+          if (chunk.toolCalls) calls.push(...chunk.toolCalls);
+          yield chunk;
+        }
+        messages.push({
+          role: 'assistant',
+          content: text || null,
+          ...(calls.length
+            ? { tool_calls: calls.map(c => ({ id: c.id!, type: 'function' as const, function: { name: c.name, arguments: JSON.stringify(c.args) } })) }
+            : {})
+        });
+      }
+    };
+  };
+
+  return {
+    id: 'openai',
+    model,
+    stream,
+    searchNews: (): Promise<NewsResult> => ungrounded('Local news search'),
+    findResources: (): Promise<MapResult> => ungrounded('Nearby resource search'),
+    createChat
+  };
+};
@@ -0,0 +1,476 @@
+import { ClimateDataset, ClimateVariable, ProjectionExperiment, ProjectionSeries, SspScenario } from '../types';
+import { CLIMATE_VARIABLES } from '../constants';
+import { parseCsv, toRecords, parseNumber } from './csvUtils';
+import { idbClear, idbGet, idbGetAll, idbPutAll } from './db';
+import { haversineKm } from './geoService';
+import { mean, quantile } from './mathUtils';
+import { aggregateToMonthly } from './climateDataService';
+
+// Importer and ensemble statistics for downscaled CMIP6 point extracts such
+// as NEX-GDDP-CMIP6. Two CSV layouts are read:
+//  - long: date, model, scenario, variable, value (plus optional lat/lon)
+//  - wide: date plus one column per variable (tas, pr, ... or POWER names);
+//    model and scenario come from columns or from a CMIP6 file name like
+//    tas_day_ACCESS-CM2_ssp245_r1i1p1f1_gn_2050.csv
+// Daily rows are averaged to months on import and stored per model run.
+
+export const SSP_SCENARIOS: { id: SspScenario; label: string; color: string }[] = [
+  { id: 'ssp126', label: 'SSP1-2.6', color: '#22c55e' },
+  { id: 'ssp245', label: 'SSP2-4.5', color: '#f59e0b' },
+  { id: 'ssp585', label: 'SSP5-8.5', color: '#ef4444' }
+];
+
+export const PROJECTION_PERIODS = [
+  { id: 'mid', label: '2041–2060', startYear: 2041, endYear: 2060 },
+  { id: 'end', label: '2081–2100', startYear: 2081, endYear: 2100 }
+] as const;
+
+// NEX-GDDP cells are 0.25° (~28 km); extracts for the same place may be
+// snapped to a neighbouring cell centre.
+export const PROJECTION_MATCH_KM = 30;
+
+// A model's own historical run is the reference when it covers this many
+// baseline years; otherwise the observed baseline is.
+const MIN_REFERENCE_YEARS = 10;
+
+// FAO-56 log profile, 10 m to 2 m wind: 4.87 / ln(67.8 * 10 - 5.42)
+const WIND_10M_TO_2M = 0.748;
+
+// CMIP6 names and how to reach the POWER unit from the CMIP6 one
+const CMIP_VARIABLES: Record<string, { variable: ClimateVariable; convert: (values: number[]) => (v: number) => number }> = {
+  tas: { variable: 'T2M', convert: values => (mean(values) > 150 ? v => v - 273.15 : v => v) },
+  tasmax: { variable: 'T2M_MAX', convert: values => (mean(values) > 150 ? v => v - 273.15 : v => v) },
+  tasmin: { variable: 'T2M_MIN', convert: values => (mean(values) > 150 ? v => v - 273.15 : v => v) },
+  // kg m-2 s-1 to mm/day; already converted extracts are left alone
+  pr: { variable: 'PRECTOTCORR', convert: values => (quantile(values, 0.9) < 0.01 ? v => v * 86400 : v => v) },
+  hurs: { variable: 'RH2M', convert: () => v => v },
+  sfcWind: { variable: 'WS2M', convert: () => v => v * WIND_10M_TO_2M },
+  // W m-2 to MJ m-2 day-1
+  rsds: { variable: 'ALLSKY_SFC_SW_DWN', convert: () => v => v * 0.0864 }
+};
+
+export interface ProjectionImportSummary {
+  series: number; // model runs and variables written
+  models: string[];
+  experiments: ProjectionExperiment[];
+  variables: ClimateVariable[];
+  years: [number, number];
+  distanceKm: number; // from the selected point to the extract's site
+}
+
+export interface ProjectionImportResult {
+  file: string;
+  summary?: ProjectionImportSummary;
+  error?: string;
+}
+
+// ---- Parsing ----
+
+const normalizeExperiment = (value: string): ProjectionExperiment | null => {
+  if (/historical/i.test(value)) return 'historical';
+  const match = value.match(/ssp\s*-?\s*([125])[-_.\s]?([2-8])[-_.\s]?([5-6])/i);
+  if (!match) return null;
+  const id = `ssp${match[1]}${match[2]}${match[3]}`;
+  return SSP_SCENARIOS.some(s => s.id === id) ? (id as SspScenario) : null;
+};
+
+// CMIP6 file names put the source_id just before the experiment
+const modelFromName = (name: string): string | null => {
+  const parts = name.replace(/\.[^.]+$/, '').split('_');
+  const index = parts.findIndex(p => normalizeExperiment(p) !== null);
+  return index > 0 && !/^(day|mon|Amon|Aday)$/i.test(parts[index - 1]) ? parts[index - 1] : null;
+};
+
+const toVariable = (column: string): { variable: ClimateVariable; cmip: string | null } | null => {
+  const cmip = Object.keys(CMIP_VARIABLES).find(k => k.toLowerCase() === column.toLowerCase());
+  if (cmip) return { variable: CMIP_VARIABLES[cmip].variable, cmip };
+  const power = (Object.keys(CLIMATE_VARIABLES) as ClimateVariable[]).find(v => v.toLowerCase() === column.toLowerCase());
+  return power ? { variable: power, cmip: null } : null;
+};
+
+// "2050-01-01", "2050-01-01 12:00:00", "2050-01" or "20500101" -> "2050-01"
+const toMonth = (value: string): string | null => {
+  const match = value.trim().match(/^(\d{4})-?(\d{2})/);
+  if (!match || Number(match[2]) < 1 || Number(match[2]) > 12) return null;
+  return `${match[1]}-${match[2]}`;
+};
+
+const findColumn = (header: string[], names: string[]) =>
+  header.find(h => names.includes(h.toLowerCase()));
+
+interface RawSeries {
+  experiment: ProjectionExperiment;
+  model: string;
+  column: string; // as named in the file, for unit conversion
+  byMonth: Map<string, number[]>;
+}
+
+interface ParsedExtract {
+  lat?: number;
+  lon?: number;
+  series: RawSeries[];
+}
+
+const parseExtract = (text: string, name: string): ParsedExtract => {
+  const rows = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (rows.length < 2) throw new Error('The file has no data rows');
+  const header = rows[0].map(h => h.trim());
+  const records = toRecords(header, rows.slice(1));
+
+  const dateColumn = findColumn(header, ['date', 'time', 'datetime']);
+  if (!dateColumn) throw new Error('No date or time column');
+  const modelColumn = findColumn(header, ['model', 'source_id', 'gcm']);
+  const experimentColumn = findColumn(header, ['scenario', 'experiment', 'experiment_id', 'ssp']);
+  const variableColumn = findColumn(header, ['variable', 'var', 'variable_id']);
+  const valueColumn = findColumn(header, ['value']);
+  const latColumn = findColumn(header, ['lat', 'latitude']);
+  const lonColumn = findColumn(header, ['lon', 'longitude']);
+
+  const fileModel = modelFromName(name);
+  const fileExperiment = normalizeExperiment(name);
+  const wideColumns = variableColumn && valueColumn ? [] : header.filter(h => toVariable(h));
+  if (!(variableColumn && valueColumn) && wideColumns.length === 0) {
+    throw new Error('No variable columns (tas, tasmax, tasmin, pr, hurs, sfcWind, rsds) found');
+  }
+
+  const series = new Map<string, RawSeries>();
+  const add = (experiment: ProjectionExperiment, model: string, column: string, month: string, value: number) => {
+    const key = `${experiment}|${model}|${column}`;
+    let entry = series.get(key);
+    if (!entry) {
+      entry = { experiment, model, column, byMonth: new Map() };
+      series.set(key, entry);
+    }
+    entry.byMonth.set(month, [...(entry.byMonth.get(month) ?? []), value]);
+  };
+
+  records.forEach(r => {
+    const month = toMonth(r[dateColumn]);
+    const experiment = (experimentColumn && normalizeExperiment(r[experimentColumn])) || fileExperiment;
+    const model = (modelColumn && r[modelColumn]) || fileModel;
+    if (!month || !experiment || !model) return;
+    if (variableColumn && valueColumn) {
+      const value = parseNumber(r[valueColumn]);
+      if (value !== undefined && toVariable(r[variableColumn])) add(experiment, model, r[variableColumn], month, value);
+    } else {
+      wideColumns.forEach(column => {
+        const value = parseNumber(r[column]);
+        if (value !== undefined) add(experiment, model, column, month, value);
+      });
+    }
+  });
+  if (series.size === 0) {
+    const missing = !fileExperiment && !experimentColumn ? 'scenario' : !fileModel && !modelColumn ? 'model' : null;
+    throw new Error(missing
+      ? `Cannot tell the ${missing}; add a ${missing} column or keep the CMIP6 file name`
+      : 'No usable rows');
+  }
+
+  const first = records[0];
+  const lat = latColumn ? parseNumber(first[latColumn]) : undefined;
+  const lon = lonColumn ? parseNumber(first[lonColumn]) : undefined;
+  return {
+    lat,
+    // NEX-GDDP longitudes run 0-360
+    lon: lon !== undefined && lon > 180 ? lon - 360 : lon,
+    series: Array.from(series.values())
+  };
+};
+
+// ---- Storage ----
+
+const seriesId = (lat: number, lon: number, experiment: ProjectionExperiment, model: string, variable: ClimateVariable) =>
+  `${lat.toFixed(3)},${lon.toFixed(3)}:${experiment}:${model}:${variable}`;
+
+// Monthly means in POWER units; the conversion is chosen from the whole
+// series so a file split by year converts consistently
+const toSeries = (raw: RawSeries, lat: number, lon: number, file: string): ProjectionSeries => {
+  const target = toVariable(raw.column)!;
+  const monthly = Array.from(raw.byMonth.entries()).map(([date, values]) => ({ date, value: mean(values) }));
+  const convert = target.cmip ? CMIP_VARIABLES[target.cmip].convert(monthly.map(m => m.value)) : (v: number) => v;
+  return {
+    id: seriesId(lat, lon, raw.experiment, raw.model, target.variable),
+    lat,
+    lon,
+    experiment: raw.experiment,
+    model: raw.model,
+    variable: target.variable,
+    values: monthly
+      .map(m => ({ date: m.date, value: parseFloat(convert(m.value).toFixed(3)) }))
+      .sort((a, b) => a.date.localeCompare(b.date)),
+    sources: [file],
+    importedAt: Date.now()
+  };
+};
+
+// Extracts split into several files (one per year or period) add up
+const mergeSeries = (existing: ProjectionSeries | undefined, incoming: ProjectionSeries): ProjectionSeries => {
+  if (!existing) return incoming;
+  const byDate = new Map(existing.values.map(v => [v.date, v.value]));
+  incoming.values.forEach(v => byDate.set(v.date, v.value));
+  return {
+    ...incoming,
+    values: Array.from(byDate.entries()).map(([date, value]) => ({ date, value })).sort((a, b) => a.date.localeCompare(b.date)),
+    sources: [...new Set([...existing.sources, ...incoming.sources])]
+  };
+};
+
+const importExtract = async (file: File, lat: number, lon: number): Promise<ProjectionImportSummary> => {
+  const extract = parseExtract(await file.text(), file.name);
+  // Extracts without coordinates are taken to be for the selected point
+  const siteLat = extract.lat ?? lat;
+  const siteLon = extract.lon ?? lon;
+  const incoming = extract.series.map(raw => toSeries(raw, siteLat, siteLon, file.name));
+  const merged = await Promise.all(
+    incoming.map(async s => mergeSeries(await idbGet<ProjectionSeries>('projections', s.id), s))
+  );
+  await idbPutAll('projections', merged);
+  const years = incoming.flatMap(s => s.values.map(v => Number(v.date.slice(0, 4))));
+  return {
+    series: incoming.length,
+    models: [...new Set(incoming.map(s => s.model))],
+    experiments: [...new Set(incoming.map(s => s.experiment))],
+    variables: [...new Set(incoming.map(s => s.variable))],
+    years: [Math.min(...years), Math.max(...years)],
+    distanceKm: haversineKm(lat, lon, siteLat, siteLon)
+  };
+};
+
+export const importProjectionFiles = async (files: File[], lat: number, lon: number): Promise<ProjectionImportResult[]> => {
+  const results: ProjectionImportResult[] = [];
+  for (const file of files) {
+    try {
+      results.push({ file: file.name, summary: await importExtract(file, lat, lon) });
+    } catch (e) {
+      results.push({ file: file.name, error: e instanceof Error ? e.message : String(e) });
+    }
+  }
+  return results;
+};
+
+export const clearImportedProjections = () => idbClear('projections');
+
+export const countImportedProjections = async (): Promise<number> => {
+  try {
+    return (await idbGetAll<ProjectionSeries>('projections')).length;
+  } catch {
+    return 0;
+  }
+};
+
+// Model runs imported within PROJECTION_MATCH_KM of the point; where one run
+// was imported for several cells, the nearest wins.
+export const loadProjections = async (lat: number, lon: number): Promise<ProjectionSeries[]> => {
+  let all: ProjectionSeries[];
+  try {
+    all = await idbGetAll<ProjectionSeries>('projections');
+  } catch (e) {
+    console.error('Failed to read imported projections', e);
+    return [];
+  }
+  const nearest = new Map<string, { series: ProjectionSeries; km: number }>();
+  all.forEach(series => {
+    const km = haversineKm(lat, lon, series.lat, series.lon);
+    if (km > PROJECTION_MATCH_KM) return;
+    const key = `${series.experiment}:${series.model}:${series.variable}`;
+    const current = nearest.get(key);
+    if (!current || km < current.km) nearest.set(key, { series, km });
+  });
+  return Array.from(nearest.values()).map(n => n.series);
+};
+
+// ---- Ensemble statistics ----
+
+export type ProjectionReference = 'model historical' | 'observed' | 'mixed';
+
+export interface ProjectionDelta {
+  variable: ClimateVariable;
+  scenario: SspScenario;
+  period: typeof PROJECTION_PERIODS[number]['label'];
+  models: number; // runs covering the whole period
+  median: number; // change in the variable's unit
+  p10: number;
+  p90: number;
+  percent: number | null; // relative change, for precipitation
+}
+
+// One row per year: observed annual mean, then per scenario the ensemble
+// median (`ssp245`) and P10–P90 band (`ssp245_band`)
+export type ProjectionRow = { year: number; observed?: number } & Record<string, number | [number, number] | undefined>;
+
+export interface ProjectionSummary {
+  variables: ClimateVariable[]; // with at least one scenario run
+  scenarios: SspScenario[];
+  models: string[];
+  rows: Partial<Record<ClimateVariable, ProjectionRow[]>>;
+  deltas: ProjectionDelta[];
+  reference: Partial<Record<ClimateVariable, ProjectionReference>>;
+  baseline: { startYear: number; endYear: number };
+  adjusted: boolean; // runs shifted onto the observed baseline for display
+}
+
+const PERCENT_VARIABLES: ClimateVariable[] = ['PRECTOTCORR'];
+
+// Calendar years with all twelve months
+const annualMeans = (values: { date: string; value: number }[]): Map<number, number> => {
+  const byYear = new Map<number, number[]>();
+  values.forEach(v => {
+    const year = Number(v.date.slice(0, 4));
+    byYear.set(year, [...(byYear.get(year) ?? []), v.value]);
+  });
+  const result = new Map<number, number>();
+  byYear.forEach((months, year) => {
+    if (months.length === 12) result.set(year, mean(months));
+  });
+  return result;
+};
+
+const periodMean = (annual: Map<number, number>, startYear: number, endYear: number, minYears: number): number | null => {
+  const values: number[] = [];
+  for (let y = startYear; y <= endYear; y++) {
+    const v = annual.get(y);
+    if (v !== undefined) values.push(v);
+  }
+  return values.length >= minYears ? mean(values) : null;
+};
+
+const round = (v: number) => parseFloat(v.toFixed(3));
+
+// Observed annual means and the baseline mean, from the loaded dataset
+const observedAnnual = (dataset: ClimateDataset | null, variable: ClimateVariable) => {
+  if (!dataset || !dataset.variables.includes(variable) || dataset.provenance.status === 'synthetic') {
+    return { annual: new Map<number, number>(), baselineMean: null };
+  }
+  const monthly = dataset.resolution === 'monthly' ? dataset.stats : aggregateToMonthly(dataset.stats, [variable]);
+  const annual = annualMeans(monthly
+    .map(s => ({ date: s.date, value: s.values[variable] }))
+    .filter((v): v is { date: string; value: number } => typeof v.value === 'number'));
+  // The climatology spans the baseline even when the loaded years do not
+  const normals = dataset.climatology.map(c => c.normals[variable]?.mean).filter((v): v is number => v !== undefined);
+  const baselineMean = normals.length === 12
+    ? mean(normals)
+    : periodMean(annual, dataset.baseline.startYear, dataset.baseline.endYear, MIN_REFERENCE_YEARS);
+  return { annual, baselineMean };
+};
+
+// Ensemble view of the imported runs against the dataset's baseline. Each
+// model is compared with its own historical run where that covers the
+// baseline (the usual delta method), otherwise with the observed baseline.
+// For display the runs are shifted so their baseline matches the
+// observations, which makes them continue the observed series.
+export const summarizeProjections = (
+  series: ProjectionSeries[],
+  dataset: ClimateDataset | null,
+  baseline: { startYear: number; endYear: number }
+): ProjectionSummary => {
+  // Runs too short for a single full year cannot contribute
+  const future = series.filter(s => s.experiment !== 'historical' && annualMeans(s.values).size > 0);
+  const variables = (Object.keys(CLIMATE_VARIABLES) as ClimateVariable[]).filter(v => future.some(s => s.variable === v));
+  const scenarios = SSP_SCENARIOS.map(s => s.id).filter(id => future.some(s => s.experiment === id));
+  const rows: ProjectionSummary['rows'] = {};
+  const deltas: ProjectionDelta[] = [];
+  const reference: ProjectionSummary['reference'] = {};
+  let adjusted = false;
+
+  variables.forEach(variable => {
+    const observed = observedAnnual(dataset, variable);
+    const historical = new Map(
+      series
+        .filter(s => s.experiment === 'historical' && s.variable === variable)
+        .map(s => [s.model, periodMean(annualMeans(s.values), baseline.startYear, baseline.endYear, MIN_REFERENCE_YEARS)])
+    );
+    const kinds = new Set<ProjectionReference>();
+
+    // Per scenario: each model's annual anomaly from its reference
+    const runs = scenarios.flatMap(scenario =>
+      future
+        .filter(s => s.experiment === scenario && s.variable === variable)
+        .map(s => {
+          const own = historical.get(s.model) ?? null;
+          const ref = own ?? observed.baselineMean;
+          if (ref !== null) kinds.add(own !== null ? 'model historical' : 'observed');
+          return { scenario, model: s.model, annual: annualMeans(s.values), ref, own };
+        })
+    );
+    reference[variable] = kinds.size > 1 ? 'mixed' : kinds.values().next().value;
+
+    // Chart rows
+    const years = new Set<number>([...observed.annual.keys(), ...runs.flatMap(r => [...r.annual.keys()])]);
+    const byYear = new Map<number, ProjectionRow>();
+    [...years].sort((a, b) => a - b).forEach(year => {
+      const row: ProjectionRow = { year };
+      const obs = observed.annual.get(year);
+      if (obs !== undefined) row.observed = round(obs);
+      scenarios.forEach(scenario => {
+        const values = runs
+          .filter(r => r.scenario === scenario && r.annual.has(year))
+          .map(r => {
+            const value = r.annual.get(year)!;
+            // Shift onto the observed baseline when the model has its own
+            if (r.own !== null && observed.baselineMean !== null) {
+              adjusted = true;
+              return value - r.own + observed.baselineMean;
+            }
+            return value;
+          });
+        if (values.length === 0) return;
+        row[scenario] = round(quantile(values, 0.5));
+        if (values.length > 1) row[`${scenario}_band`] = [round(quantile(values, 0.1)), round(quantile(values, 0.9))];
+      });
+      byYear.set(year, row);
+    });
+
+    // Join each scenario to the last observed year so the lines connect
+    const lastObserved = Math.max(...observed.annual.keys());
+    scenarios.forEach(scenario => {
+      const firstProjected = [...byYear.values()].find(r => r[scenario] !== undefined)?.year;
+      if (firstProjected !== undefined && Number.isFinite(lastObserved) && firstProjected > lastObserved) {
+        const row = byYear.get(lastObserved)!;
+        row[scenario] = row.observed;
+      }
+    });
+    rows[variable] = [...byYear.values()];
+
+    // Period deltas
+    scenarios.forEach(scenario => {
+      PROJECTION_PERIODS.forEach(period => {
+        const changes: { absolute: number; percent: number | null }[] = [];
+        runs
+          .filter(r => r.scenario === scenario && r.ref !== null)
+          .forEach(r => {
+            // Require most of the 20-year window
+            const periodValue = periodMean(r.annual, period.startYear, period.endYear, 15);
+            if (periodValue === null) return;
+            changes.push({
+              absolute: periodValue - r.ref!,
+              percent: PERCENT_VARIABLES.includes(variable) && r.ref! > 0 ? (periodValue / r.ref! - 1) * 100 : null
+            });
+          });
+        if (changes.length === 0) return;
+        const absolute = changes.map(c => c.absolute);
+        const percents = changes.map(c => c.percent).filter((p): p is number => p !== null);
+        deltas.push({
+          variable,
+          scenario,
+          period: period.label,
+          models: changes.length,
+          median: round(quantile(absolute, 0.5)),
+          p10: round(quantile(absolute, 0.1)),
+          p90: round(quantile(absolute, 0.9)),
+          percent: percents.length ? parseFloat(quantile(percents, 0.5).toFixed(1)) : null
+        });
+      });
+    });
+  });
+
+  return {
+    variables,
+    scenarios,
+    models: [...new Set(future.map(s => s.model))].sort(),
+    rows,
+    deltas,
+    reference,
+    baseline,
+    adjusted
+  };
+};
@@ -0,0 +1,213 @@
+import * as d3 from 'd3';
+import shp, { parseShp } from 'shpjs';
+import { AnalysisRegion, ClimateStats, ClimateVariable, SpatialSpread } from '../types';
+
+// Study areas for area analyses: drawn boxes and polygons, or boundaries
+// uploaded as GeoJSON, KML or shapefiles. An area is analysed by sampling a
+// regular lon/lat grid inside it and averaging the point series, weighting
+// each point by the area its grid cell covers.
+
+const EARTH_RADIUS_KM = 6371;
+
+// POWER's grid is 0.5° x 0.625°; sampling any finer only repeats cells.
+const MIN_SAMPLE_SPACING_DEG = 0.5;
+
+// Every sample is one provider request (cached afterwards)
+export const MAX_REGION_SAMPLES = 16;
+
+export interface SamplePoint {
+  lat: number;
+  lon: number;
+  weight: number; // relative cell area, cos(latitude)
+}
+
+type Ring = number[][];
+type Polygon = Ring[];
+
+const multiPolygon = (polygons: Polygon[]): AnalysisRegion['geometry'] => ({ type: 'MultiPolygon', coordinates: polygons });
+
+// GeoJSON (RFC 7946) winds exterior rings counter-clockwise; d3-geo reads
+// that as the complement, covering the rest of the globe. Flip any polygon
+// that claims more than a hemisphere.
+const rewind = (polygons: Polygon[]): Polygon[] =>
+  polygons.map(polygon =>
+    d3.geoArea({ type: 'Polygon', coordinates: polygon }) > 2 * Math.PI
+      ? polygon.map(ring => [...ring].reverse())
+      : polygon
+  );
+
+const closeRing = (ring: Ring): Ring => {
+  const [first, last] = [ring[0], ring[ring.length - 1]];
+  return first[0] === last[0] && first[1] === last[1] ? ring : [...ring, first];
+};
+
+export const bboxRegion = (west: number, south: number, east: number, north: number): AnalysisRegion => ({
+  name: `Box ${south.toFixed(2)}..${north.toFixed(2)}°N, ${west.toFixed(2)}..${east.toFixed(2)}°E`,
+  source: 'bbox',
+  geometry: multiPolygon([[[[west, south], [west, north], [east, north], [east, south], [west, south]]]])
+});
+
+// vertices are [lon, lat] in drawing order, either winding
+export const polygonRegion = (vertices: number[][], name = `Polygon (${vertices.length} vertices)`): AnalysisRegion => ({
+  name,
+  source: 'polygon',
+  geometry: multiPolygon(rewind([[closeRing(vertices)]]))
+});
+
+// ---- Boundary files ----
+
+// Collects every polygon from GeoJSON geometries, features or collections.
+const geoJsonPolygons = (node: any): Polygon[] => {
+  if (!node) return [];
+  if (Array.isArray(node)) return node.flatMap(geoJsonPolygons);
+  switch (node.type) {
+    case 'FeatureCollection': return node.features.flatMap(geoJsonPolygons);
+    case 'Feature': return geoJsonPolygons(node.geometry);
+    case 'GeometryCollection': return node.geometries.flatMap(geoJsonPolygons);
+    case 'Polygon': return [node.coordinates];
+    case 'MultiPolygon': return node.coordinates;
+    default: return [];
+  }
+};
+
+const featureName = (node: any): string | undefined => {
+  const props = node?.features?.[0]?.properties ?? node?.properties;
+  if (!props) return undefined;
+  const key = Object.keys(props).find(k => /^(name|name_\d|district|dist_name|region|basin|title)$/i.test(k));
+  return key ? String(props[key]) : undefined;
+};
+
+const parseKmlCoordinates = (text: string): Ring =>
+  text.trim().split(/\s+/).map(tuple => tuple.split(',').slice(0, 2).map(Number));
+
+const kmlPolygons = (xml: string): { polygons: Polygon[]; name?: string } => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length) throw new Error('invalid KML');
+  const polygons = Array.from(doc.getElementsByTagName('Polygon')).map(polygon => {
+    const ring = (tag: string) => Array.from(polygon.getElementsByTagName(tag)).map(boundary =>
+      parseKmlCoordinates(boundary.getElementsByTagName('coordinates')[0]?.textContent ?? '')
+    );
+    return [...ring('outerBoundaryIs'), ...ring('innerBoundaryIs')].filter(r => r.length >= 3);
+  });
+  return { polygons, name: doc.getElementsByTagName('Placemark')[0]?.getElementsByTagName('name')[0]?.textContent ?? undefined };
+};
+
+// GeoJSON, KML, zipped shapefile (reprojected via its .prj) or a bare .shp in lon/lat.
+export const parseBoundaryFile = async (file: File): Promise<AnalysisRegion> => {
+  const baseName = file.name.replace(/\.[^.]+$/, '');
+  let polygons: Polygon[];
+  let name: string | undefined;
+
+  if (/\.(geo)?json$/i.test(file.name)) {
+    const json = JSON.parse(await file.text());
+    polygons = geoJsonPolygons(json);
+    name = featureName(json);
+  } else if (/\.kml$/i.test(file.name)) {
+    ({ polygons, name } = kmlPolygons(await file.text()));
+  } else if (/\.zip$/i.test(file.name)) {
+    const collection = await shp(await file.arrayBuffer());
+    polygons = geoJsonPolygons(collection);
+    name = featureName(Array.isArray(collection) ? collection[0] : collection);
+  } else if (/\.shp$/i.test(file.name)) {
+    polygons = geoJsonPolygons(parseShp(await file.arrayBuffer()));
+  } else {
+    throw new Error(`${file.name}: expected .geojson, .json, .kml, .zip or .shp`);
+  }
+
+  if (polygons.length === 0) throw new Error(`${file.name} contains no polygons`);
+  const outOfRange = polygons.some(p => p.some(r => r.some(([x, y]) => Math.abs(x) > 180 || Math.abs(y) > 90)));
+  if (outOfRange) throw new Error(`${file.name} is not in longitude/latitude (include the .prj, or reproject to EPSG:4326)`);
+
+  return { name: name ?? baseName, source: 'upload', geometry: multiPolygon(rewind(polygons)) };
+};
+
+// ---- Sampling ----
+
+export const regionAreaKm2 = (region: AnalysisRegion): number =>
+  d3.geoArea(region.geometry) * EARTH_RADIUS_KM ** 2;
+
+export const regionCentroid = (region: AnalysisRegion): { lat: number; lon: number } => {
+  const [lon, lat] = d3.geoCentroid(region.geometry);
+  return { lat, lon };
+};
+
+// Cell centres of a regular grid inside the area, coarsened until there are
+// at most MAX_REGION_SAMPLES. Areas smaller than one cell use the centroid.
+export const sampleRegion = (region: AnalysisRegion): SamplePoint[] => {
+  const [[west, south], [rawEast, north]] = d3.geoBounds(region.geometry);
+  const east = rawEast < west ? rawEast + 360 : rawEast; // crosses the antimeridian
+  const width = east - west;
+  const height = north - south;
+
+  let spacing = Math.max(MIN_SAMPLE_SPACING_DEG, Math.sqrt((width * height) / MAX_REGION_SAMPLES));
+  let points: SamplePoint[] = [];
+  for (;;) {
+    points = [];
+    for (let y = south + spacing / 2; y < north; y += spacing) {
+      for (let x = west + spacing / 2; x < east; x += spacing) {
+        const lon = x > 180 ? x - 360 : x;
+        if (d3.geoContains(region.geometry, [lon, y])) {
+          points.push({ lat: parseFloat(y.toFixed(4)), lon: parseFloat(lon.toFixed(4)), weight: Math.cos((y * Math.PI) / 180) });
+        }
+      }
+    }
+    if (points.length <= MAX_REGION_SAMPLES) break;
+    spacing *= 1.2;
+  }
+
+  if (points.length === 0) {
+    const { lat, lon } = regionCentroid(region);
+    points = [{ lat: parseFloat(lat.toFixed(4)), lon: parseFloat(lon.toFixed(4)), weight: 1 }];
+  }
+  return points;
+};
+
+// ---- Aggregation ----
+
+const weightedQuantile = (pairs: { value: number; weight: number }[], q: number): number => {
+  const sorted = [...pairs].sort((a, b) => a.value - b.value);
+  const total = sorted.reduce((acc, p) => acc + p.weight, 0);
+  let cumulative = 0;
+  for (const p of sorted) {
+    cumulative += p.weight;
+    if (cumulative / total >= q) return p.value;
+  }
+  return sorted[sorted.length - 1].value;
+};
+
+const round = (n: number) => parseFloat(n.toFixed(3));
+
+// Weighted mean per date and variable, skipping points without data, plus
+// the spread across points. Dates missing at every point stay no-data.
+export const aggregateSamples = (
+  series: { stats: ClimateStats[]; weight: number }[],
+  variables: ClimateVariable[]
+): ClimateStats[] => {
+  const dates = Array.from(new Set(series.flatMap(s => s.stats.map(r => r.date)))).sort();
+  const lookups = series.map(s => ({ weight: s.weight, rows: new Map(s.stats.map(r => [r.date, r])) }));
+
+  return dates.map(date => {
+    const values: ClimateStats['values'] = {};
+    const spread: NonNullable<ClimateStats['spread']> = {};
+    variables.forEach(v => {
+      const pairs = lookups
+        .map(l => ({ value: l.rows.get(date)?.values[v], weight: l.weight }))
+        .filter((p): p is { value: number; weight: number } => typeof p.value === 'number');
+      if (!lookups.some(l => l.rows.get(date)?.values[v] !== undefined)) return; // not requested
+      if (pairs.length === 0) {
+        values[v] = null;
+        return;
+      }
+      const totalWeight = pairs.reduce((acc, p) => acc + p.weight, 0);
+      values[v] = round(pairs.reduce((acc, p) => acc + p.value * p.weight, 0) / totalWeight);
+      const band: SpatialSpread = {
+        min: round(Math.min(...pairs.map(p => p.value))),
+        p10: round(weightedQuantile(pairs, 0.1)),
+        p90: round(weightedQuantile(pairs, 0.9)),
+        max: round(Math.max(...pairs.map(p => p.value)))
+      };
+      spread[v] = band;
+    });
+    return { date, values, anomalies: {}, spread };
+  });
+};
@@ -0,0 +1,667 @@
+import { jsPDF } from 'jspdf';
+import {
+  Calamity, ClimateDataset, ClimateInsights, ForecastResult, GroundingSource, LocationData, NewsResult, Prediction,
+  ReportSectionId, ReportTemplate
+} from '../types';
+import { CLIMATE_VARIABLES } from '../constants';
+import { formatBaseline } from './climatologyService';
+import { DROUGHT_THRESHOLD, INDEX_SCALES } from './indicesService';
+import { SIGNIFICANCE_LEVEL, formatPValue, formatShift, formatSlope, isSignificant } from './trendService';
+import { locationSlug } from './geocodingService';
+
+// Intelligence reports as a paginated PDF or a standalone HTML file. Both
+// formats render the same list of sections, built once from the dashboard
+// state; templates choose which sections appear and in what order.
+
+export interface ReportImage {
+  title: string;
+  dataUrl: string; // PNG
+  width: number; // CSS pixels as rendered on screen
+  height: number;
+}
+
+// Everything a report can show, gathered by the dashboard when it is generated
+export interface ReportContent {
+  location: LocationData;
+  startYear: number;
+  endYear: number;
+  generatedAt: number;
+  dataset: ClimateDataset | null;
+  insights: ClimateInsights | null;
+  forecast: ForecastResult | null;
+  calamities: Calamity[];
+  news: NewsResult | null;
+  llm: string; // provider and model behind the AI analysis
+  map: ReportImage | null;
+  charts: ReportImage[];
+}
+
+export const REPORT_SECTIONS: { id: ReportSectionId; label: string }[] = [
+  { id: 'cover', label: 'Cover page with location map' },
+  { id: 'summary', label: 'AI analysis summary' },
+  { id: 'predictions', label: 'Risk prediction table' },
+  { id: 'forecast', label: 'Statistical forecast' },
+  { id: 'charts', label: 'Charts' },
+  { id: 'indices', label: 'Drought & heat indices' },
+  { id: 'trends', label: 'Trend & change-point statistics' },
+  { id: 'calamities', label: 'Calamity log' },
+  { id: 'news', label: 'News sources' },
+  { id: 'methodology', label: 'Methodology & provenance' }
+];
+
+export const BUILTIN_TEMPLATES: ReportTemplate[] = [
+  {
+    id: 'district-briefing',
+    name: 'District briefing',
+    title: 'Climate Intelligence Report — {location}',
+    organization: '',
+    sections: REPORT_SECTIONS.map(s => s.id),
+    pageSize: 'a4',
+    builtIn: true
+  },
+  {
+    id: 'executive-summary',
+    name: 'Executive summary',
+    title: 'Climate Risk Summary — {location}',
+    organization: '',
+    sections: ['cover', 'summary', 'predictions', 'calamities', 'methodology'],
+    pageSize: 'a4',
+    builtIn: true
+  },
+  {
+    id: 'technical-annex',
+    name: 'Technical annex',
+    title: 'Climate Data Annex — {location}',
+    organization: '',
+    sections: ['charts', 'forecast', 'indices', 'trends', 'calamities', 'methodology'],
+    pageSize: 'a4',
+    builtIn: true
+  }
+];
+
+const TEMPLATES_KEY = 'rotater.reportTemplates';
+
+export const loadReportTemplates = (): ReportTemplate[] => {
+  try {
+    const stored: ReportTemplate[] = JSON.parse(localStorage.getItem(TEMPLATES_KEY) ?? '[]');
+    return [...BUILTIN_TEMPLATES, ...stored.filter(t => t && typeof t.id === 'string' && Array.isArray(t.sections))];
+  } catch {
+    return BUILTIN_TEMPLATES;
+  }
+};
+
+const saveCustomTemplates = (templates: ReportTemplate[]) =>
+  localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates.filter(t => !t.builtIn)));
+
+// Adds or replaces a custom template; built-in ones are saved as copies
+export const saveReportTemplate = (template: ReportTemplate): ReportTemplate => {
+  const saved = template.builtIn ? { ...template, id: `custom-${Date.now()}`, builtIn: undefined } : template;
+  const others = loadReportTemplates().filter(t => t.id !== saved.id);
+  saveCustomTemplates([...others, saved]);
+  return saved;
+};
+
+export const deleteReportTemplate = (id: string) =>
+  saveCustomTemplates(loadReportTemplates().filter(t => t.id !== id));
+
+// ---- Capture ----
+
+// Charts and the map are drawn on a dark background, so keep it in the image
+const CHART_BACKGROUND = '#0f172a';
+
+// Rasterises an on-screen SVG (a Recharts chart or the map) to a PNG.
+export const captureSvg = (svg: SVGSVGElement, title: string, scale = 2): Promise<ReportImage> => {
+  const { width, height } = svg.getBoundingClientRect();
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+  const url = URL.createObjectURL(new Blob([new XMLSerializer().serializeToString(clone)], { type: 'image/svg+xml' }));
+
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(width * scale);
+      canvas.height = Math.round(height * scale);
+      const ctx = canvas.getContext('2d')!;
+      ctx.fillStyle = CHART_BACKGROUND;
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+      URL.revokeObjectURL(url);
+      resolve({ title, dataUrl: canvas.toDataURL('image/png'), width, height });
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(`Could not render ${title}`));
+    };
+    image.src = url;
+  });
+};
+
+// Captures every chart panel marked with data-report-chart="<title>".
+// Panels that fail to render are left out rather than failing the report.
+export const captureCharts = async (container: HTMLElement | null): Promise<ReportImage[]> => {
+  const images: ReportImage[] = [];
+  for (const panel of Array.from(container?.querySelectorAll<HTMLElement>('[data-report-chart]') ?? [])) {
+    const svg = panel.querySelector<SVGSVGElement>('svg.recharts-surface');
+    if (!svg) continue;
+    try {
+      images.push(await captureSvg(svg, panel.dataset.reportChart ?? 'Chart'));
+    } catch (error) {
+      console.error('Chart capture failed', error);
+    }
+  }
+  return images;
+};
+
+// ---- Sections ----
+
+interface ReportTable {
+  columns: string[];
+  widths: number[]; // relative column widths
+  rows: string[][];
+  color?: (row: number, column: number) => string | undefined; // text colour of a cell
+}
+
+type Block =
+  | { kind: 'paragraph'; text: string }
+  | { kind: 'note'; text: string }
+  | { kind: 'list'; items: string[] }
+  | { kind: 'links'; links: GroundingSource[] }
+  | { kind: 'table'; table: ReportTable }
+  | { kind: 'image'; image: ReportImage };
+
+interface ReportSection {
+  heading: string;
+  blocks: Block[];
+}
+
+const RISK_COLORS: Record<Prediction['riskLevel'], string> = {
+  Low: '#15803d',
+  Medium: '#a16207',
+  High: '#dc2626',
+  Critical: '#7f1d1d'
+};
+
+const isSynthetic = (content: ReportContent) => content.dataset?.provenance.status === 'synthetic';
+
+const placeName = (content: ReportContent) =>
+  content.location.name ?? `${content.location.lat.toFixed(2)}, ${content.location.lon.toFixed(2)}`;
+
+export const reportTitle = (template: ReportTemplate, content: ReportContent) =>
+  template.title.replace(/\{location\}/g, placeName(content));
+
+const formatDateTime = (time: number) => new Date(time).toLocaleString();
+
+const riskTable = (predictions: Prediction[], withIntervals: boolean): ReportTable => ({
+  columns: withIntervals
+    ? ['Month', 'Risk', 'Temp (°C)', 'Temp interval', 'Rainfall', 'Rain interval']
+    : ['Month', 'Risk', 'Temp (°C)', 'Outlook'],
+  widths: withIntervals ? [1, 1, 1, 1.4, 1, 1.4] : [1, 1, 1, 4],
+  rows: predictions.map(p => withIntervals
+    ? [
+      p.month, p.riskLevel, String(p.predictedTemp),
+      p.tempInterval ? `${p.tempInterval[0]} to ${p.tempInterval[1]}` : '',
+      p.predictedRainfall !== undefined ? String(p.predictedRainfall) : '',
+      p.rainfallInterval ? `${p.rainfallInterval[0]} to ${p.rainfallInterval[1]}` : ''
+    ]
+    : [p.month, p.riskLevel, String(p.predictedTemp), p.description]),
+  color: (row, column) => (column === 1 ? RISK_COLORS[predictions[row].riskLevel] : undefined)
+});
+
+const impactOf = (c: Calamity) => [
+  c.deaths !== undefined ? `${c.deaths} deaths` : null,
+  c.affected !== undefined ? `${c.affected.toLocaleString()} affected` : null,
+  c.damageUsd !== undefined ? `US$${Math.round(c.damageUsd).toLocaleString()} damage` : null
+].filter(Boolean).join(', ');
+
+const methodology = (content: ReportContent): string[] => {
+  const { dataset, forecast, insights, calamities, news } = content;
+  const items: string[] = [];
+  if (isSynthetic(content)) {
+    items.push('SYNTHETIC DATA: the series in this report were generated, not observed, and must not be cited as measurements.');
+  }
+  if (dataset) {
+    const { provenance } = dataset;
+    items.push(`Climate data: ${provenance.source}, ${dataset.resolution} resolution, retrieved ${formatDateTime(provenance.retrievedAt)} (status: ${provenance.status}).`);
+    provenance.notes.forEach(note => items.push(note));
+    if (dataset.area) {
+      items.push(`Values are area-weighted means of ${dataset.area.samples} grid points over ${dataset.area.name} (${dataset.area.areaKm2.toLocaleString()} km²).`);
+    }
+    if (dataset.climatology.length) {
+      items.push(`Anomalies are standardised departures (z-scores) from the monthly mean and standard deviation over the ${formatBaseline(dataset.baseline)} baseline.`);
+    }
+    if (dataset.indices) {
+      const { petMethod, calibration } = dataset.indices;
+      items.push(`SPI${petMethod ? ` and SPEI (potential evapotranspiration by ${petMethod})` : ''} at ${INDEX_SCALES.join(', ')}-month scales, fitted to ${formatBaseline(calibration)}; months at or below ${DROUGHT_THRESHOLD} count towards drought episodes.`);
+    }
+    if (dataset.extremes?.length) {
+      const fits = dataset.extremes.map(f => `${f.variable} (${f.distribution}, ${f.maxima.length} years)`).join(', ');
+      items.push(`Return levels: Gumbel or GEV (kept when a likelihood-ratio test favours it) fitted by maximum likelihood to the annual maxima of complete years: ${fits}. 95% intervals from a bootstrap of the maxima.`);
+    }
+    if (dataset.trends?.length) {
+      items.push(`Trends: seasonal Mann-Kendall test and seasonal Sen's slope on monthly means over ${content.startYear}–${content.endYear}, significant at p < ${SIGNIFICANCE_LEVEL}. Change points by the Pettitt test and by PELT (BIC penalty, segments of at least 12 months) on anomalies from the period's monthly means.`);
+    }
+  }
+  if (forecast) {
+    items.push(`Statistical forecast: ${forecast.model} fitted in the browser to the monthly series, with ${Math.round(forecast.confidenceLevel * 100)}% prediction intervals. Temperature model ${forecast.temperature.label}; rainfall model ${forecast.rainfall.label}.`);
+  }
+  if (insights) {
+    items.push(`The AI summary and risk predictions were generated by ${content.llm} from the last 24 months of data. They were checked for format, not for accuracy, and are advisory.`);
+  }
+  const sources = Array.from(new Set(calamities.map(c => c.source)));
+  if (sources.length) {
+    items.push(`Calamity log sources: ${sources.join(', ')}. "Derived" events are heat and drought episodes detected in the data above.`);
+  }
+  if (news) items.push('News summary from a search-grounded model query; follow the linked sources before relying on it.');
+  items.push(`Report generated ${formatDateTime(content.generatedAt)} by ROTATER.`);
+  return items;
+};
+
+const buildSection = (id: Exclude<ReportSectionId, 'cover'>, content: ReportContent): ReportSection => {
+  const { dataset, insights, forecast, calamities, news } = content;
+  switch (id) {
+    case 'summary':
+      return {
+        heading: 'AI Analysis Summary',
+        blocks: [insights
+          ? { kind: 'paragraph', text: insights.summary }
+          : { kind: 'note', text: isSynthetic(content) ? 'AI analysis is not run on synthetic data.' : 'No AI analysis was run for this report.' }]
+      };
+    case 'predictions':
+      return {
+        heading: 'Risk Predictions (Next 12 Months)',
+        blocks: insights?.predictions.length
+          ? [{ kind: 'table', table: riskTable(insights.predictions, false) }]
+          : [{ kind: 'note', text: 'No AI risk predictions are available.' }]
+      };
+    case 'forecast':
+      return {
+        heading: forecast ? `Statistical Forecast (${forecast.model})` : 'Statistical Forecast',
+        blocks: forecast
+          ? [
+            { kind: 'paragraph', text: `Temperature model: ${forecast.temperature.label}. Rainfall model: ${forecast.rainfall.label}. Intervals are ${Math.round(forecast.confidenceLevel * 100)}%.` },
+            { kind: 'table', table: riskTable(forecast.predictions, true) }
+          ]
+          : [{ kind: 'note', text: 'Not enough monthly data for a forecast.' }]
+      };
+    case 'charts':
+      return {
+        heading: 'Climate Charts',
+        blocks: content.charts.length
+          ? content.charts.map((image): Block => ({ kind: 'image', image }))
+          : [{ kind: 'note', text: 'No charts were available when the report was generated.' }]
+      };
+    case 'indices': {
+      const indices = dataset?.indices;
+      if (!indices) return { heading: 'Drought & Heat Indices', blocks: [{ kind: 'note', text: 'Indices need a baseline period with data.' }] };
+      const latest = indices.series[indices.series.length - 1];
+      const blocks: Block[] = [];
+      if (latest) {
+        blocks.push({ kind: 'paragraph', text: `Latest month (${latest.date}): ${INDEX_SCALES.map(k => `SPI-${k} ${latest.spi[k] ?? 'n/a'}`).join(', ')}.` });
+      }
+      blocks.push(indices.episodes.length
+        ? {
+          kind: 'table',
+          table: {
+            columns: ['Type', 'Period', 'Category', 'Duration', 'Peak', 'Severity'],
+            widths: [1, 2, 1, 1, 0.8, 0.8],
+            rows: indices.episodes.map(e => [e.type, `${e.start} to ${e.end}`, e.category, `${e.duration} ${e.unit}`, String(e.peak), String(e.severity)])
+          }
+        }
+        : { kind: 'note', text: 'No heatwave or drought episodes were detected.' });
+      return { heading: 'Drought & Heat Indices', blocks };
+    }
+    case 'trends': {
+      const trends = dataset?.trends ?? [];
+      if (!trends.length) return { heading: 'Trend & Change-Point Statistics', blocks: [{ kind: 'note', text: 'Trend tests need at least three years of data.' }] };
+      const unitOf = (t: typeof trends[number]) => dataset!.units[t.variable] ?? CLIMATE_VARIABLES[t.variable].unit;
+      const significant = trends.filter(t => isSignificant(t.pValue));
+      return {
+        heading: 'Trend & Change-Point Statistics',
+        blocks: [
+          {
+            kind: 'paragraph',
+            text: significant.length
+              ? `Significant monotonic trends (p < ${SIGNIFICANCE_LEVEL}): ${significant.map(t => `${CLIMATE_VARIABLES[t.variable].label} ${formatSlope(t, unitOf(t))}`).join('; ')}.`
+              : `No variable shows a significant monotonic trend at p < ${SIGNIFICANCE_LEVEL}.`
+          },
+          {
+            kind: 'table',
+            table: {
+              columns: ["Variable", "Sen's slope", 'Mann-Kendall', 'Pettitt shift', 'PELT change points'],
+              widths: [1.2, 1.2, 1.4, 1.6, 1.8],
+              rows: trends.map(t => [
+                CLIMATE_VARIABLES[t.variable].label,
+                formatSlope(t, unitOf(t)),
+                `tau ${t.tau.toFixed(2)}, ${formatPValue(t.pValue)}, n=${t.months}`,
+                t.pettitt ? `${t.pettitt.date}, ${formatShift(t, t.pettitt, unitOf(t))}, ${formatPValue(t.pettitt.pValue!)}` : '',
+                t.changePoints.map(c => `${c.date} (${formatShift(t, c, unitOf(t))})`).join(', ') || 'none'
+              ])
+            }
+          }
+        ]
+      };
+    }
+    case 'calamities':
+      return {
+        heading: 'Calamity Log',
+        blocks: calamities.length
+          ? [{
+            kind: 'table',
+            table: {
+              columns: ['Date', 'Type', 'Intensity', 'Location', 'Source', 'Impact'],
+              widths: [1.4, 1, 1, 1.6, 1, 1.8],
+              rows: calamities.map(c => [
+                `${c.startDate}${c.endDate && c.endDate !== c.startDate ? ` to ${c.endDate}` : ''}`,
+                c.type, c.intensity, c.location ?? '', c.source, impactOf(c)
+              ])
+            }
+          }]
+          : [{ kind: 'note', text: 'No imported EM-DAT / NOAA events or detected episodes for this location and period.' }]
+      };
+    case 'news':
+      return {
+        heading: 'Recent Local News',
+        blocks: news
+          ? [{ kind: 'paragraph', text: news.summary }, ...(news.sources.length ? [{ kind: 'links', links: news.sources } as Block] : [])]
+          : [{ kind: 'note', text: 'No news search was run.' }]
+      };
+    case 'methodology':
+      return { heading: 'Methodology & Provenance', blocks: [{ kind: 'list', items: methodology(content) }] };
+  }
+};
+
+const coverFacts = (content: ReportContent): [string, string][] => {
+  const { location, dataset } = content;
+  return [
+    ['Location', `${placeName(content)} (${location.lat.toFixed(4)}, ${location.lon.toFixed(4)})`],
+    ...(dataset?.area ? [['Area', `${dataset.area.name}, ${dataset.area.areaKm2.toLocaleString()} km²`] as [string, string]] : []),
+    ['Period', `${content.startYear}–${content.endYear}`],
+    ...(dataset ? [['Data source', `${dataset.provenance.source} (${dataset.resolution})`] as [string, string]] : []),
+    ['Generated', formatDateTime(content.generatedAt)]
+  ];
+};
+
+const SYNTHETIC_WARNING = 'SYNTHETIC DATA — NOT OBSERVATIONS';
+
+export const reportFileName = (content: ReportContent, extension: 'pdf' | 'html') =>
+  `${isSynthetic(content) ? 'SYNTHETIC_' : ''}climate_report_${locationSlug(content.location)}.${extension}`;
+
+// ---- HTML ----
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+const HTML_STYLES = `
+  body { font-family: Helvetica, Arial, sans-serif; color: #111827; max-width: 52rem; margin: 2rem auto; padding: 0 1.5rem; line-height: 1.5; }
+  h1 { font-size: 1.8rem; margin: 0 0 .25rem; }
+  h2 { font-size: 1.2rem; border-bottom: 2px solid #0891b2; padding-bottom: .25rem; margin-top: 2rem; }
+  .cover { page-break-after: always; }
+  .org { color: #0e7490; font-weight: bold; text-transform: uppercase; letter-spacing: .05em; }
+  .facts td { padding: .15rem 1rem .15rem 0; vertical-align: top; }
+  .facts td:first-child { color: #6b7280; }
+  .warning { background: #fee2e2; color: #991b1b; border: 1px solid #f87171; padding: .5rem; font-weight: bold; text-align: center; }
+  .note { color: #6b7280; font-style: italic; }
+  table.data { border-collapse: collapse; width: 100%; font-size: .85rem; }
+  table.data th { background: #e5e7eb; text-align: left; }
+  table.data th, table.data td { border: 1px solid #d1d5db; padding: .3rem .4rem; vertical-align: top; }
+  figure { margin: 1rem 0; page-break-inside: avoid; }
+  figure img { width: 100%; border-radius: 4px; }
+  figcaption { font-size: .85rem; color: #4b5563; }
+  footer { margin-top: 3rem; font-size: .75rem; color: #6b7280; }
+  @page { margin: 16mm; }
+`;
+
+const htmlBlock = (block: Block): string => {
+  switch (block.kind) {
+    case 'paragraph':
+      return `<p>${escapeHtml(block.text)}</p>`;
+    case 'note':
+      return `<p class="note">${escapeHtml(block.text)}</p>`;
+    case 'list':
+      return `<ul>${block.items.map(i => `<li>${escapeHtml(i)}</li>`).join('')}</ul>`;
+    case 'links':
+      return `<ul>${block.links.map(l => `<li><a href="${escapeHtml(l.uri)}">${escapeHtml(l.title || l.uri)}</a></li>`).join('')}</ul>`;
+    case 'image':
+      return `<figure><img src="${block.image.dataUrl}" alt="${escapeHtml(block.image.title)}"><figcaption>${escapeHtml(block.image.title)}</figcaption></figure>`;
+    case 'table': {
+      const { columns, rows, color } = block.table;
+      const body = rows.map((row, r) => `<tr>${row.map((cell, c) => {
+        const tone = color?.(r, c);
+        return `<td${tone ? ` style="color:${tone};font-weight:bold"` : ''}>${escapeHtml(cell)}</td>`;
+      }).join('')}</tr>`).join('');
+      return `<table class="data"><thead><tr>${columns.map(c => `<th>${escapeHtml(c)}</th>`).join('')}</tr></thead><tbody>${body}</tbody></table>`;
+    }
+  }
+};
+
+export const renderReportHtml = (content: ReportContent, template: ReportTemplate): string => {
+  const title = reportTitle(template, content);
+  const warning = isSynthetic(content) ? `<div class="warning">${SYNTHETIC_WARNING}</div>` : '';
+  const parts = template.sections.map(id => {
+    if (id !== 'cover') {
+      const section = buildSection(id, content);
+      return `<section><h2>${escapeHtml(section.heading)}</h2>${section.blocks.map(htmlBlock).join('')}</section>`;
+    }
+    return `<section class="cover">
+      ${template.organization ? `<div class="org">${escapeHtml(template.organization)}</div>` : ''}
+      <h1>${escapeHtml(title)}</h1>
+      ${warning}
+      <table class="facts">${coverFacts(content).map(([k, v]) => `<tr><td>${escapeHtml(k)}</td><td>${escapeHtml(v)}</td></tr>`).join('')}</table>
+      ${content.map ? htmlBlock({ kind: 'image', image: content.map }) : ''}
+    </section>`;
+  });
+  const heading = template.sections.includes('cover') ? '' : `<h1>${escapeHtml(title)}</h1>${warning}`;
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+${heading}
+${parts.join('\n')}
+<footer>${escapeHtml(title)} · generated ${escapeHtml(formatDateTime(content.generatedAt))}${isSynthetic(content) ? ` · ${SYNTHETIC_WARNING}` : ''}</footer>
+</body>
+</html>`;
+};
+
+// ---- PDF ----
+
+// The built-in PDF fonts only cover Latin-1; spell out the rest
+const PDF_REPLACEMENTS: Record<string, string> = {
+  'σ': 'sigma', '→': '->', '≥': '>=', '≤': '<=', '−': '-', '—': '-', '–': '-', '‘': "'", '’': "'", '“': '"', '”': '"', '…': '...'
+};
+
+const pdfSafe = (text: string) =>
+  text.replace(/[^\x00-\xff]/g, c => PDF_REPLACEMENTS[c] ?? '?');
+
+const MM_PER_PT = 0.3528;
+const MARGIN = 16;
+const FOOTER_SPACE = 10;
+
+const hexToRgb = (hex: string): [number, number, number] =>
+  [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16)) as [number, number, number];
+
+export const renderReportPdf = (content: ReportContent, template: ReportTemplate): Blob => {
+  const doc = new jsPDF({ unit: 'mm', format: template.pageSize });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const width = pageWidth - 2 * MARGIN;
+  const title = reportTitle(template, content);
+  let y = MARGIN;
+  let pageUsed = false;
+
+  const newPage = () => {
+    doc.addPage();
+    y = MARGIN;
+    pageUsed = false;
+  };
+  // Starts a new page unless `height` more millimetres fit on this one
+  const ensure = (height: number) => {
+    if (y + height > pageHeight - MARGIN - FOOTER_SPACE && pageUsed) newPage();
+    pageUsed = true;
+  };
+  const setFont = (size: number, style: 'normal' | 'bold' | 'italic' = 'normal', color = '#111827') => {
+    doc.setFont('helvetica', style);
+    doc.setFontSize(size);
+    doc.setTextColor(...hexToRgb(color));
+  };
+  const lineHeight = (size: number) => size * MM_PER_PT * 1.35;
+
+  const write = (text: string, size = 10, style: 'normal' | 'bold' | 'italic' = 'normal', color?: string, indent = 0) => {
+    setFont(size, style, color);
+    const lines: string[] = doc.splitTextToSize(pdfSafe(text), width - indent);
+    lines.forEach(line => {
+      ensure(lineHeight(size));
+      doc.text(line, MARGIN + indent, y + size * MM_PER_PT);
+      y += lineHeight(size);
+    });
+    y += 1.5;
+  };
+
+  const image = (img: ReportImage, maxHeight = pageHeight - 2 * MARGIN - FOOTER_SPACE - 10) => {
+    let w = width;
+    let h = (img.height / img.width) * w;
+    if (h > maxHeight) {
+      w *= maxHeight / h;
+      h = maxHeight;
+    }
+    ensure(h + 8);
+    doc.addImage(img.dataUrl, 'PNG', MARGIN, y, w, h);
+    y += h + 1;
+    write(img.title, 8, 'italic', '#4b5563');
+  };
+
+  const table = ({ columns, widths, rows, color }: ReportTable) => {
+    const total = widths.reduce((a, b) => a + b, 0);
+    const columnWidths = widths.map(w => (w / total) * width);
+    const size = 8;
+    const padding = 1.2;
+    const cells = (row: string[], style: 'normal' | 'bold') => {
+      setFont(size, style);
+      return row.map((cell, i) => doc.splitTextToSize(pdfSafe(cell), columnWidths[i] - 2 * padding) as string[]);
+    };
+    const drawRow = (lines: string[][], header: boolean, rowIndex = -1) => {
+      const height = Math.max(...lines.map(l => l.length)) * lineHeight(size) + 2 * padding;
+      let x = MARGIN;
+      if (header) {
+        doc.setFillColor(229, 231, 235);
+        doc.rect(MARGIN, y, width, height, 'F');
+      }
+      doc.setDrawColor(209, 213, 219);
+      lines.forEach((cellLines, i) => {
+        doc.rect(x, y, columnWidths[i], height);
+        const tone = header ? undefined : color?.(rowIndex, i);
+        setFont(size, header || tone ? 'bold' : 'normal', tone);
+        cellLines.forEach((line, l) => doc.text(line, x + padding, y + padding + size * MM_PER_PT + l * lineHeight(size)));
+        x += columnWidths[i];
+      });
+      y += height;
+    };
+    const header = cells(columns, 'bold');
+    const headerHeight = Math.max(...header.map(l => l.length)) * lineHeight(size) + 2 * padding;
+    ensure(headerHeight * 2);
+    drawRow(header, true);
+    rows.forEach((row, r) => {
+      const lines = cells(row, 'normal');
+      const height = Math.max(...lines.map(l => l.length)) * lineHeight(size) + 2 * padding;
+      if (y + height > pageHeight - MARGIN - FOOTER_SPACE) {
+        newPage();
+        pageUsed = true;
+        drawRow(header, true); // repeat the header on each page
+      }
+      drawRow(lines, false, r);
+    });
+    y += 4;
+  };
+
+  const block = (b: Block) => {
+    switch (b.kind) {
+      case 'paragraph':
+        return write(b.text);
+      case 'note':
+        return write(b.text, 10, 'italic', '#6b7280');
+      case 'list':
+        return b.items.forEach(item => write(`• ${item}`, 9, 'normal', undefined, 2));
+      case 'links':
+        return b.links.forEach(link => {
+          ensure(lineHeight(9));
+          setFont(9, 'normal', '#0e7490');
+          const label: string = doc.splitTextToSize(pdfSafe(`• ${link.title || link.uri}`), width - 2)[0];
+          doc.textWithLink(label, MARGIN + 2, y + 9 * MM_PER_PT, { url: link.uri });
+          y += lineHeight(9) + 1;
+        });
+      case 'image':
+        return image(b.image);
+      case 'table':
+        return table(b.table);
+    }
+  };
+
+  const warning = () => {
+    ensure(10);
+    doc.setFillColor(254, 226, 226);
+    doc.rect(MARGIN, y, width, 8, 'F');
+    setFont(10, 'bold', '#991b1b');
+    doc.text(pdfSafe(SYNTHETIC_WARNING), pageWidth / 2, y + 5.3, { align: 'center' });
+    y += 12;
+  };
+
+  const cover = () => {
+    y = MARGIN + 20;
+    if (template.organization) write(template.organization.toUpperCase(), 11, 'bold', '#0e7490');
+    write(title, 22, 'bold');
+    y += 4;
+    if (isSynthetic(content)) warning();
+    coverFacts(content).forEach(([label, value]) => {
+      setFont(10, 'normal', '#6b7280');
+      doc.text(label, MARGIN, y + 10 * MM_PER_PT);
+      setFont(10);
+      const lines: string[] = doc.splitTextToSize(pdfSafe(value), width - 35);
+      doc.text(lines, MARGIN + 35, y + 10 * MM_PER_PT);
+      y += lines.length * lineHeight(10) + 1;
+    });
+    y += 6;
+    if (content.map) image(content.map, pageHeight - y - MARGIN - FOOTER_SPACE - 8);
+  };
+
+  template.sections.forEach((id, i) => {
+    if (id === 'cover') {
+      if (i > 0) newPage();
+      cover();
+      if (i < template.sections.length - 1) newPage();
+      return;
+    }
+    if (i === 0) {
+      write(title, 16, 'bold');
+      if (isSynthetic(content)) warning();
+    }
+    const section = buildSection(id, content);
+    ensure(20); // keep headings with what follows
+    y += 3;
+    write(section.heading, 13, 'bold', '#0e7490');
+    doc.setDrawColor(8, 145, 178);
+    doc.line(MARGIN, y - 1, MARGIN + width, y - 1);
+    y += 2;
+    section.blocks.forEach(block);
+  });
+
+  const pages = doc.getNumberOfPages();
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    setFont(8, 'normal', '#6b7280');
+    const footerY = pageHeight - MARGIN / 2;
+    doc.text(pdfSafe(title), MARGIN, footerY, { maxWidth: width * 0.6 });
+    doc.text(`Page ${page} of ${pages}`, pageWidth - MARGIN, footerY, { align: 'right' });
+    if (isSynthetic(content)) {
+      setFont(8, 'bold', '#991b1b');
+      doc.text(pdfSafe(SYNTHETIC_WARNING), pageWidth / 2, footerY - 4, { align: 'center' });
+    }
+  }
+  return doc.output('blob');
+};
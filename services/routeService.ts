@@ -0,0 +1,112 @@
+import { BaselinePeriod, ClimateModel, ClimateVariable, TemporalResolution, ViewState } from '../types';
+import { CLIMATE_VARIABLES } from '../constants';
+
+// Routing without a router: the path picks the view and the query string
+// carries the dashboard state, so a copied URL reopens the same analysis.
+//   /                     intro globe
+//   /dashboard?lat=..&lon=..&from=2020&to=2023&vars=T2M,PRECTOTCORR
+//             &res=monthly&base=1991-2020&model=ARIMA&panel=compare
+
+export type DashboardPanel = 'compare' | 'chat' | 'export' | 'report';
+
+export interface DashboardUrlState {
+  lat: number;
+  lon: number;
+  startYear: number;
+  endYear: number;
+  variables: ClimateVariable[];
+  resolution: TemporalResolution;
+  baseline: BaselinePeriod;
+  model: ClimateModel;
+  panel: DashboardPanel | null;
+}
+
+const DASHBOARD_PATH = '/dashboard';
+const RESOLUTIONS: TemporalResolution[] = ['monthly', 'daily', 'hourly'];
+const PANELS: DashboardPanel[] = ['compare', 'chat', 'export', 'report'];
+
+const parseNumber = (value: string | null, min: number, max: number): number | undefined => {
+  if (value === null || value.trim() === '') return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) && n >= min && n <= max ? n : undefined;
+};
+
+const parseYear = (value: string | null) => {
+  const year = parseNumber(value, 1900, 2100);
+  return year !== undefined && Number.isInteger(year) ? year : undefined;
+};
+
+export const currentView = (): ViewState['view'] =>
+  window.location.pathname.replace(/\/+$/, '') === DASHBOARD_PATH ? 'dashboard' : 'intro';
+
+// Reads whatever the URL carries; malformed or missing values are left out
+// so the dashboard falls back to its own defaults for them.
+export const readDashboardState = (search = window.location.search): Partial<DashboardUrlState> => {
+  const params = new URLSearchParams(search);
+  const state: Partial<DashboardUrlState> = {};
+
+  const lat = parseNumber(params.get('lat'), -90, 90);
+  const lon = parseNumber(params.get('lon'), -180, 180);
+  if (lat !== undefined && lon !== undefined) {
+    state.lat = lat;
+    state.lon = lon;
+  }
+
+  const from = parseYear(params.get('from'));
+  const to = parseYear(params.get('to'));
+  if (from !== undefined && to !== undefined && from <= to) {
+    state.startYear = from;
+    state.endYear = to;
+  }
+
+  const variables = (params.get('vars') ?? '')
+    .split(',')
+    .filter((v): v is ClimateVariable => Object.keys(CLIMATE_VARIABLES).includes(v));
+  if (variables.length) state.variables = [...new Set(variables)];
+
+  const res = params.get('res') as TemporalResolution | null;
+  if (res && RESOLUTIONS.includes(res)) state.resolution = res;
+
+  const [baseStart, baseEnd] = (params.get('base') ?? '').split('-').map(v => parseYear(v));
+  if (baseStart !== undefined && baseEnd !== undefined && baseStart <= baseEnd) {
+    state.baseline = { startYear: baseStart, endYear: baseEnd };
+  }
+
+  const model = Object.values(ClimateModel).find(m => m === params.get('model'));
+  if (model) state.model = model;
+
+  const panel = params.get('panel') as DashboardPanel | null;
+  if (panel && PANELS.includes(panel)) state.panel = panel;
+
+  return state;
+};
+
+export const dashboardUrl = (state: DashboardUrlState) => {
+  const params = new URLSearchParams({
+    lat: state.lat.toFixed(4),
+    lon: state.lon.toFixed(4),
+    from: String(state.startYear),
+    to: String(state.endYear),
+    vars: state.variables.join(','),
+    res: state.resolution,
+    base: `${state.baseline.startYear}-${state.baseline.endYear}`,
+    model: state.model
+  });
+  if (state.panel) params.set('panel', state.panel);
+  // Keep the commas readable in pasted links
+  return `${DASHBOARD_PATH}?${params.toString().replace(/%2C/g, ',')}`;
+};
+
+// Entering the dashboard is a navigation (Back returns to the globe); later
+// setting changes only rewrite the current entry so history stays usable.
+export const navigateTo = (view: ViewState['view']) => {
+  const path = view === 'dashboard' ? DASHBOARD_PATH : '/';
+  if (window.location.pathname !== path) window.history.pushState(null, '', path);
+};
+
+export const replaceDashboardUrl = (state: DashboardUrlState) => {
+  const url = dashboardUrl(state);
+  if (`${window.location.pathname}${window.location.search}` !== url) window.history.replaceState(null, '', url);
+};
+
+export const shareableUrl = (state: DashboardUrlState) => `${window.location.origin}${dashboardUrl(state)}`;
@@ -0,0 +1,233 @@
+import { ChangePoint, ClimateStats, ClimateVariable, TrendResult } from '../types';
+import { mean, normalCdf, quantile } from './mathUtils';
+
+// Trend and change-point statistics of the monthly series:
+//  - Seasonal Mann-Kendall test (Hirsch et al. 1982): Kendall's S summed over
+//    the calendar months, so the seasonal cycle cannot pose as a trend
+//  - Seasonal Sen's slope: median of the year-over-year slopes within each
+//    calendar month
+//  - Pettitt (1979) test for the single most likely shift in level
+//  - PELT (Killick et al. 2012) for any number of shifts in the mean
+// Change points are searched on anomalies from the window's own monthly means.
+
+export const SIGNIFICANCE_LEVEL = 0.05;
+
+// Shorter windows give too few pairs per calendar month for the test
+const MIN_YEARS = 3;
+
+// Shortest regime PELT may split off, in months
+const MIN_SEGMENT = 12;
+
+interface MonthlyPoint {
+  date: string; // YYYY-MM
+  year: number;
+  month: number;
+  time: number; // decimal year
+  value: number;
+}
+
+const yearOf = (date: string) => parseInt(date.substring(0, 4), 10);
+const monthOf = (date: string) => parseInt(date.substring(5, 7), 10);
+const round = (n: number, digits: number) => parseFloat(n.toFixed(digits));
+
+export const decimalYear = (date: string) => yearOf(date) + (monthOf(date) - 0.5) / 12;
+
+const sign = (x: number) => (x > 0 ? 1 : x < 0 ? -1 : 0);
+
+// Variance of S for n values, corrected for groups of tied values
+const kendallVariance = (values: number[]) => {
+  const n = values.length;
+  const ties = new Map<number, number>();
+  values.forEach(v => ties.set(v, (ties.get(v) ?? 0) + 1));
+  let tieTerm = 0;
+  ties.forEach(t => { tieTerm += t * (t - 1) * (2 * t + 5); });
+  return (n * (n - 1) * (2 * n + 5) - tieTerm) / 18;
+};
+
+// Ranks starting at 1, ties sharing their average rank
+const ranks = (values: number[]): number[] => {
+  const order = values.map((v, i) => [v, i] as const).sort((a, b) => a[0] - b[0]);
+  const result = new Array<number>(values.length);
+  for (let i = 0; i < order.length;) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1][0] === order[i][0]) j++;
+    const rank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) result[order[k][1]] = rank;
+    i = j + 1;
+  }
+  return result;
+};
+
+const segmentShift = (values: number[], start: number, split: number, end: number) =>
+  mean(values.slice(split, end)) - mean(values.slice(start, split));
+
+const pettitt = (anomalies: number[], dates: string[]): ChangePoint | null => {
+  const n = anomalies.length;
+  if (n < 2) return null;
+  const r = ranks(anomalies);
+  let cumulative = 0;
+  let best = 0;
+  let split = 0;
+  for (let t = 1; t < n; t++) {
+    cumulative += r[t - 1];
+    const u = Math.abs(2 * cumulative - t * (n + 1));
+    if (u > best) {
+      best = u;
+      split = t;
+    }
+  }
+  if (split === 0) return null;
+  const pValue = Math.min(1, 2 * Math.exp(-6 * best * best / (n ** 3 + n ** 2)));
+  return {
+    date: dates[split],
+    method: 'Pettitt',
+    pValue: round(pValue, 4),
+    shift: round(segmentShift(anomalies, 0, split, n), 3)
+  };
+};
+
+// Noise level from first differences, robust to the shifts being searched for
+const robustSigma = (values: number[]) => {
+  const diffs = values.slice(1).map((v, i) => v - values[i]);
+  const median = quantile(diffs, 0.5);
+  return quantile(diffs.map(d => Math.abs(d - median)), 0.5) * 1.4826 / Math.SQRT2;
+};
+
+// Exact segmentation minimizing the Gaussian mean-change cost plus a BIC
+// penalty per change, with pruning. Returns indices where new segments start.
+const pelt = (values: number[]): number[] => {
+  const n = values.length;
+  const sigma = robustSigma(values);
+  if (n < 2 * MIN_SEGMENT || !(sigma > 0)) return [];
+  const penalty = 2 * Math.log(n);
+  const sum = [0];
+  const sumSq = [0];
+  values.forEach((v, i) => {
+    sum.push(sum[i] + v);
+    sumSq.push(sumSq[i] + v * v);
+  });
+  // Scaled residual sum of squares of values[s..t)
+  const cost = (s: number, t: number) => {
+    const total = sum[t] - sum[s];
+    return (sumSq[t] - sumSq[s] - total * total / (t - s)) / (sigma * sigma);
+  };
+
+  const best = new Array<number>(n + 1).fill(Infinity);
+  const previous = new Array<number>(n + 1).fill(0);
+  best[0] = -penalty;
+  let candidates = [0];
+  for (let t = MIN_SEGMENT; t <= n; t++) {
+    if (t - MIN_SEGMENT >= MIN_SEGMENT) candidates.push(t - MIN_SEGMENT);
+    candidates.forEach(s => {
+      const total = best[s] + cost(s, t) + penalty;
+      if (total < best[t]) {
+        best[t] = total;
+        previous[t] = s;
+      }
+    });
+    const bound = best[t];
+    candidates = candidates.filter(s => best[s] + cost(s, t) <= bound);
+  }
+
+  const splits: number[] = [];
+  for (let t = n; previous[t] > 0; t = previous[t]) splits.unshift(previous[t]);
+  return splits;
+};
+
+const analyzeVariable = (monthly: ClimateStats[], variable: ClimateVariable): TrendResult | null => {
+  const points: MonthlyPoint[] = monthly.flatMap(s => {
+    const value = s.values[variable];
+    if (typeof value !== 'number') return [];
+    const date = s.date.substring(0, 7);
+    return [{ date, year: yearOf(date), month: monthOf(date), time: decimalYear(date), value }];
+  });
+  if (new Set(points.map(p => p.year)).size < MIN_YEARS) return null;
+
+  let s = 0;
+  let varianceS = 0;
+  let pairs = 0;
+  const slopes: number[] = [];
+  const monthMeans = new Map<number, number>();
+  for (let month = 1; month <= 12; month++) {
+    const series = points.filter(p => p.month === month);
+    if (series.length === 0) continue;
+    monthMeans.set(month, mean(series.map(p => p.value)));
+    if (series.length < 2) continue;
+    for (let i = 0; i < series.length; i++) {
+      for (let j = i + 1; j < series.length; j++) {
+        s += sign(series[j].value - series[i].value);
+        slopes.push((series[j].value - series[i].value) / (series[j].year - series[i].year));
+      }
+    }
+    varianceS += kendallVariance(series.map(p => p.value));
+    pairs += series.length * (series.length - 1) / 2;
+  }
+  if (pairs === 0) return null;
+
+  const z = varianceS > 0 ? (s - sign(s)) / Math.sqrt(varianceS) : 0;
+  const anomalies = points.map(p => p.value - monthMeans.get(p.month)!);
+  const dates = points.map(p => p.date);
+  const splits = pelt(anomalies);
+  const bounds = [0, ...splits, anomalies.length];
+
+  return {
+    variable,
+    months: points.length,
+    tau: round(s / pairs, 3),
+    z: round(z, 2),
+    pValue: round(2 * (1 - normalCdf(Math.abs(z))), 4),
+    slopePerDecade: round(quantile(slopes, 0.5) * 10, 4),
+    level: round(mean(points.map(p => p.value)), 3),
+    centerYear: round(mean(points.map(p => p.time)), 3),
+    pettitt: pettitt(anomalies, dates),
+    changePoints: splits.map((split, i) => ({
+      date: dates[split],
+      method: 'PELT' as const,
+      pValue: null,
+      shift: round(segmentShift(anomalies, bounds[i], split, bounds[i + 2]), 3)
+    }))
+  };
+};
+
+// Trend statistics for each variable of a monthly series. Variables with
+// fewer than three years of data are left out.
+export const computeTrends = (monthly: ClimateStats[], variables: ClimateVariable[]): TrendResult[] =>
+  variables
+    .map(v => analyzeVariable(monthly, v))
+    .filter((r): r is TrendResult => r !== null);
+
+// Value of the Sen's slope trend line at a YYYY-MM or YYYY-MM-DD date
+export const trendValueAt = (trend: TrendResult, date: string): number =>
+  trend.level + (trend.slopePerDecade / 10) * (decimalYear(date) - trend.centerYear);
+
+export const isSignificant = (pValue: number | null) => pValue !== null && pValue < SIGNIFICANCE_LEVEL;
+
+export const formatPValue = (pValue: number) => (pValue < 0.001 ? 'p < 0.001' : `p = ${pValue.toFixed(3)}`);
+
+const signed = (value: number, digits: number) => `${value > 0 ? '+' : ''}${value.toFixed(digits)}`;
+
+// Slopes of small-valued variables (NDVI, humidity ratios) need more digits
+const slopeDigits = (trend: TrendResult) => (Math.abs(trend.level) < 10 ? 3 : 2);
+
+export const formatSlope = (trend: TrendResult, unit: string) =>
+  `${signed(trend.slopePerDecade, slopeDigits(trend))} ${unit}/decade`;
+
+export const formatShift = (trend: TrendResult, point: ChangePoint, unit: string) =>
+  `${signed(point.shift, slopeDigits(trend))} ${unit}`;
+
+// One-line summary shared by the report and the AI prompt, so both quote
+// the same figures as the charts.
+export const describeTrend = (trend: TrendResult, label: string, unit: string): string => {
+  const verdict = isSignificant(trend.pValue) ? 'significant' : 'not significant';
+  const parts = [
+    `${label}: Sen's slope ${formatSlope(trend, unit)}, Mann-Kendall tau ${trend.tau.toFixed(2)}, ` +
+      `${formatPValue(trend.pValue)} (${verdict} at ${SIGNIFICANCE_LEVEL}, ${trend.months} months)`
+  ];
+  if (trend.pettitt && isSignificant(trend.pettitt.pValue)) {
+    parts.push(`Pettitt shift of ${formatShift(trend, trend.pettitt, unit)} from ${trend.pettitt.date} (${formatPValue(trend.pettitt.pValue!)})`);
+  }
+  if (trend.changePoints.length) {
+    parts.push(`PELT change points: ${trend.changePoints.map(c => `${c.date} (${formatShift(trend, c, unit)})`).join(', ')}`);
+  }
+  return parts.join('; ');
+};
@@ -0,0 +1,280 @@
+import { AnalysisRun, AnalysisSnapshot, BaselinePeriod, Calamity, ClimateModel, ClimateVariable, Prediction, Workspace } from '../types';
+import { CLIMATE_VARIABLES } from '../constants';
+import { idbDelete, idbGetAll, idbPut, idbPutAll } from './db';
+import { DEFAULT_BASELINE, formatBaseline } from './climatologyService';
+import { locationSlug } from './geocodingService';
+import { mean } from './mathUtils';
+
+// Saved workspaces and the automatic history of ANALYZE runs, both kept in
+// IndexedDB as full snapshots so they reopen without refetching anything.
+
+const MAX_RUNS = 30;
+const FILE_FORMAT = 'rotater-workspaces';
+const FILE_VERSION = 1;
+
+const newId = (prefix: string) => `${prefix}_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`;
+
+export const snapshotLabel = (snapshot: AnalysisSnapshot): string =>
+  snapshot.region?.name ?? snapshot.location.name ?? `${snapshot.location.lat.toFixed(2)}, ${snapshot.location.lon.toFixed(2)}`;
+
+// Runs can be diffed when they cover the same point (to ~1 km) or area
+export const locationKey = (snapshot: AnalysisSnapshot): string =>
+  snapshot.region
+    ? `area:${snapshot.region.name}`
+    : `${snapshot.location.lat.toFixed(2)},${snapshot.location.lon.toFixed(2)}`;
+
+// ---- Workspaces ----
+
+// Most recently saved first
+export const loadWorkspaces = async (): Promise<Workspace[]> =>
+  (await idbGetAll<Workspace>('workspaces')).sort((a, b) => b.updatedAt - a.updatedAt);
+
+export const createWorkspace = (name: string, snapshot: AnalysisSnapshot): Workspace => {
+  const now = Date.now();
+  return { id: newId('ws'), name, createdAt: now, updatedAt: now, snapshot };
+};
+
+export const saveWorkspace = (workspace: Workspace) => idbPut('workspaces', workspace);
+
+export const deleteWorkspace = (id: string) => idbDelete('workspaces', id);
+
+// ---- History ----
+
+// Newest first
+export const loadRuns = async (): Promise<AnalysisRun[]> =>
+  (await idbGetAll<AnalysisRun>('analysisRuns')).sort((a, b) => b.createdAt - a.createdAt);
+
+// Records a run and drops the oldest ones beyond the history limit
+export const recordRun = async (snapshot: AnalysisSnapshot): Promise<AnalysisRun> => {
+  const run: AnalysisRun = { id: newId('run'), createdAt: Date.now(), snapshot };
+  await idbPut('analysisRuns', run);
+  const stale = (await loadRuns()).slice(MAX_RUNS);
+  await Promise.all(stale.map(r => idbDelete('analysisRuns', r.id)));
+  return run;
+};
+
+// News and relief centres are fetched after the run; they are added to it
+export const updateRun = async (run: AnalysisRun, patch: Partial<AnalysisSnapshot>): Promise<AnalysisRun> => {
+  const updated = { ...run, snapshot: { ...run.snapshot, ...patch } };
+  await idbPut('analysisRuns', updated);
+  return updated;
+};
+
+export const deleteRun = (id: string) => idbDelete('analysisRuns', id);
+
+// ---- Diff ----
+
+export interface SettingChange {
+  label: string;
+  before: string;
+  after: string;
+}
+
+export interface VariableDiff {
+  variable: ClimateVariable;
+  unit: string;
+  overlap: number; // dates present in both runs
+  meanBefore: number | null;
+  meanAfter: number | null;
+  maxAbsDelta: number | null; // largest change at a single date, null when none moved
+  maxDeltaDate: string | null;
+  changed: number; // dates whose value moved
+}
+
+export interface PredictionChange {
+  month: string;
+  before: Prediction | null;
+  after: Prediction | null;
+}
+
+export interface RunDiff {
+  settings: SettingChange[];
+  variables: VariableDiff[];
+  datesOnlyBefore: number;
+  datesOnlyAfter: number;
+  predictions: PredictionChange[];
+  calamitiesAdded: Calamity[];
+  calamitiesRemoved: Calamity[];
+  summaryChanged: boolean;
+}
+
+// Values closer than this are rounding noise, not a change
+const EPSILON = 1e-6;
+
+const describeSettings = (s: AnalysisSnapshot): Record<string, string> => ({
+  Period: `${s.startYear}–${s.endYear}`,
+  Baseline: formatBaseline(s.baseline),
+  Variables: s.dataset.variables.join(', '),
+  Resolution: s.resolution,
+  'Forecast model': s.forecastModel,
+  Source: `${s.dataset.provenance.source} (${s.dataset.provenance.status})`
+});
+
+const predictionChanged = (a: Prediction | null, b: Prediction | null) =>
+  !a || !b || a.riskLevel !== b.riskLevel || Math.abs(a.predictedTemp - b.predictedTemp) > 0.05 ||
+  Math.abs((a.predictedRainfall ?? 0) - (b.predictedRainfall ?? 0)) > 0.05;
+
+// Compares an earlier run with a later one of the same location
+export const diffRuns = (before: AnalysisSnapshot, after: AnalysisSnapshot): RunDiff => {
+  const settingsBefore = describeSettings(before);
+  const settingsAfter = describeSettings(after);
+  const settings = Object.keys(settingsBefore)
+    .filter(label => settingsBefore[label] !== settingsAfter[label])
+    .map(label => ({ label, before: settingsBefore[label], after: settingsAfter[label] }));
+
+  const rowsBefore = new Map(before.dataset.stats.map(row => [row.date, row]));
+  const rowsAfter = new Map(after.dataset.stats.map(row => [row.date, row]));
+  const common = [...rowsAfter.keys()].filter(date => rowsBefore.has(date));
+
+  const variables = after.dataset.variables
+    .filter(v => before.dataset.variables.includes(v))
+    .map((variable): VariableDiff => {
+      const valuesBefore: number[] = [];
+      const valuesAfter: number[] = [];
+      let maxAbsDelta: number | null = null;
+      let maxDeltaDate: string | null = null;
+      let changed = 0;
+      common.forEach(date => {
+        const a = rowsBefore.get(date)!.values[variable];
+        const b = rowsAfter.get(date)!.values[variable];
+        if (typeof a === 'number') valuesBefore.push(a);
+        if (typeof b === 'number') valuesAfter.push(b);
+        if (typeof a !== 'number' || typeof b !== 'number') {
+          if ((a ?? null) !== (b ?? null)) changed++;
+          return;
+        }
+        const delta = Math.abs(b - a);
+        if (delta <= EPSILON) return;
+        changed++;
+        if (maxAbsDelta === null || delta > maxAbsDelta) {
+          maxAbsDelta = delta;
+          maxDeltaDate = date;
+        }
+      });
+      return {
+        variable,
+        unit: after.dataset.units[variable] ?? CLIMATE_VARIABLES[variable].unit,
+        overlap: common.length,
+        meanBefore: valuesBefore.length ? mean(valuesBefore) : null,
+        meanAfter: valuesAfter.length ? mean(valuesAfter) : null,
+        maxAbsDelta,
+        maxDeltaDate,
+        changed
+      };
+    });
+
+  const predictionsBefore = new Map((before.insights?.predictions ?? []).map(p => [p.month, p]));
+  const predictionsAfter = new Map((after.insights?.predictions ?? []).map(p => [p.month, p]));
+  const predictions = [...new Set([...predictionsBefore.keys(), ...predictionsAfter.keys()])]
+    .sort()
+    .map(month => ({ month, before: predictionsBefore.get(month) ?? null, after: predictionsAfter.get(month) ?? null }))
+    .filter(change => predictionChanged(change.before, change.after));
+
+  const idsBefore = new Set(before.calamities.map(c => c.id));
+  const idsAfter = new Set(after.calamities.map(c => c.id));
+
+  return {
+    settings,
+    variables,
+    datesOnlyBefore: rowsBefore.size - common.length,
+    datesOnlyAfter: rowsAfter.size - common.length,
+    predictions,
+    calamitiesAdded: after.calamities.filter(c => !idsBefore.has(c.id)),
+    calamitiesRemoved: before.calamities.filter(c => !idsAfter.has(c.id)),
+    summaryChanged: (before.insights?.summary ?? '') !== (after.insights?.summary ?? '')
+  };
+};
+
+// ---- JSON exchange ----
+
+interface WorkspaceFile {
+  format: typeof FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  workspaces: Workspace[];
+}
+
+export const workspacesToJson = (workspaces: Workspace[]): string => {
+  const file: WorkspaceFile = { format: FILE_FORMAT, version: FILE_VERSION, exportedAt: new Date().toISOString(), workspaces };
+  return JSON.stringify(file, null, 2);
+};
+
+export const workspaceFileName = (workspaces: Workspace[]): string =>
+  workspaces.length === 1
+    ? `workspace_${locationSlug(workspaces[0].snapshot.location)}_${workspaces[0].name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '')}.json`
+    : `workspaces_${new Date().toISOString().slice(0, 10)}.json`;
+
+const isSnapshot = (value: unknown): value is AnalysisSnapshot => {
+  const s = value as AnalysisSnapshot;
+  return !!s && typeof s === 'object'
+    && typeof s.location?.lat === 'number' && typeof s.location?.lon === 'number'
+    && Number.isInteger(s.startYear) && Number.isInteger(s.endYear)
+    && Array.isArray(s.variables) && Array.isArray(s.calamities)
+    && Array.isArray(s.dataset?.stats) && Array.isArray(s.dataset?.variables) && typeof s.dataset?.provenance === 'object';
+};
+
+const isBaseline = (value: unknown): value is BaselinePeriod => {
+  const b = value as BaselinePeriod;
+  return !!b && Number.isInteger(b.startYear) && Number.isInteger(b.endYear);
+};
+
+const isKnownVariable = (v: unknown): v is ClimateVariable => typeof v === 'string' && v in CLIMATE_VARIABLES;
+
+// Fills what older or hand-edited files may lack with what a run without it
+// would have: no anomalies, the default baseline and the provider's units.
+const withDefaults = (s: AnalysisSnapshot): AnalysisSnapshot => {
+  const baseline = isBaseline(s.baseline) ? s.baseline : isBaseline(s.dataset.baseline) ? s.dataset.baseline : DEFAULT_BASELINE;
+  const resolution = s.resolution ?? s.dataset.resolution ?? 'monthly';
+  return {
+    ...s,
+    region: s.region ?? null,
+    baseline,
+    variables: s.variables.filter(isKnownVariable),
+    resolution,
+    forecastModel: s.forecastModel ?? ClimateModel.ARIMA,
+    dataset: {
+      ...s.dataset,
+      variables: s.dataset.variables.filter(isKnownVariable),
+      units: s.dataset.units ?? {},
+      resolution: s.dataset.resolution ?? resolution,
+      baseline: isBaseline(s.dataset.baseline) ? s.dataset.baseline : baseline,
+      climatology: Array.isArray(s.dataset.climatology) ? s.dataset.climatology : []
+    },
+    insights: s.insights ?? null,
+    news: s.news ?? null,
+    resources: s.resources ?? null
+  };
+};
+
+// Reads a file written by workspacesToJson. Imported workspaces get fresh
+// ids so they never overwrite the recipient's own.
+export const parseWorkspaceFile = (text: string): Workspace[] => {
+  let file: WorkspaceFile;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  if (file?.format !== FILE_FORMAT || !Array.isArray(file.workspaces)) {
+    throw new Error('Not a ROTATER workspace file');
+  }
+  if (file.version > FILE_VERSION) {
+    throw new Error(`Workspace file version ${file.version} is newer than this app supports`);
+  }
+  const valid = file.workspaces.filter(w => typeof w?.name === 'string' && isSnapshot(w.snapshot));
+  if (valid.length === 0) throw new Error('The file contains no usable workspaces');
+  const now = Date.now();
+  return valid.map(w => ({
+    id: newId('ws'),
+    name: w.name,
+    createdAt: typeof w.createdAt === 'number' ? w.createdAt : now,
+    updatedAt: now,
+    snapshot: withDefaults(w.snapshot)
+  }));
+};
+
+export const importWorkspaces = async (text: string): Promise<Workspace[]> => {
+  const workspaces = parseWorkspaceFile(text);
+  await idbPutAll('workspaces', workspaces);
+  return workspaces;
+};
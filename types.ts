@@ -1,9 +1,215 @@
+// Variables use NASA POWER parameter names; NDVI comes from MODIS/VIIRS.
+export type ClimateVariable =
+  | 'T2M'
+  | 'T2M_MAX'
+  | 'T2M_MIN'
+  | 'PRECTOTCORR'
+  | 'RH2M'
+  | 'WS2M'
+  | 'ALLSKY_SFC_SW_DWN'
+  | 'GWETTOP'
+  | 'GWETROOT'
+  | 'NDVI';
+
+export type TemporalResolution = 'monthly' | 'daily' | 'hourly';
+
+export interface VariableDefinition {
+  id: ClimateVariable;
+  label: string;
+  unit: string; // default unit, overridden by what the provider reports
+  color: string;
+  resolutions: TemporalResolution[];
+}
+
+export interface AnomalyValue {
+  value: number; // departure from the baseline month, in the variable's unit
+  z: number; // standardized anomaly
+}
+
+// Distribution of a variable across the sample points of an area.
+export interface SpatialSpread {
+  min: number;
+  p10: number;
+  p90: number;
+  max: number;
+}
+
 export interface ClimateStats {
-  date: string;
-  temperature: number; // Celsius
-  rainfall: number; // mm
-  ndvi: number; // 0-1
-  anomaly: number;
+  date: string; // YYYY-MM, YYYY-MM-DD or YYYY-MM-DDTHH
+  // null marks a provider no-data value; a missing key means not requested
+  values: Partial<Record<ClimateVariable, number | null>>;
+  anomalies: Partial<Record<ClimateVariable, AnomalyValue>>;
+  spread?: Partial<Record<ClimateVariable, SpatialSpread>>; // area analyses only
+}
+
+export interface BaselinePeriod {
+  startYear: number;
+  endYear: number;
+}
+
+export interface VariableNormal {
+  mean: number;
+  std: number;
+  years: number; // valid years contributing to the normal
+  percentiles?: number[]; // baseline values at the 0th, 1st, ..., 100th percentile; absent in older saved datasets
+}
+
+export interface MonthlyNormal {
+  month: number; // 1-12
+  normals: Partial<Record<ClimateVariable, VariableNormal>>;
+}
+
+// live: fetched just now; cached: served from the local cache;
+// synthetic: generated, not observed; partial: real data with gaps or
+// simulated components (see notes)
+export type ProvenanceStatus = 'live' | 'cached' | 'synthetic' | 'partial';
+
+export interface DataProvenance {
+  status: ProvenanceStatus;
+  source: string;
+  retrievedAt: number;
+  notes: string[];
+}
+
+export interface ClimateDataset {
+  stats: ClimateStats[];
+  variables: ClimateVariable[];
+  units: Partial<Record<ClimateVariable, string>>;
+  resolution: TemporalResolution;
+  provenance: DataProvenance;
+  baseline: BaselinePeriod;
+  climatology: MonthlyNormal[]; // empty when no baseline could be computed
+  cachedAt?: number | null; // set when served from the local cache
+  area?: AreaSummary; // set when values are area means rather than a point
+  indices?: ClimateIndices; // drought and heat indices, when a baseline exists
+  trends?: TrendResult[]; // per variable, when the window is long enough
+  extremes?: ExtremeValueFit[]; // rainfall and temperature maxima, when enough complete years exist
+}
+
+// Accumulation periods, in months, of the standardized drought indices
+export type IndexScale = 1 | 3 | 6 | 12;
+
+export interface IndexPoint {
+  date: string; // YYYY-MM
+  pet: number | null; // potential evapotranspiration, mm/month
+  spi: Partial<Record<IndexScale, number | null>>;
+  spei: Partial<Record<IndexScale, number | null>>;
+}
+
+// A heat or drought spell found in the series. Heatwaves are counted in days
+// at daily resolution and in months otherwise; droughts always in months.
+export interface ClimateEpisode {
+  type: 'Heatwave' | 'Drought';
+  start: string;
+  end: string;
+  duration: number;
+  unit: 'days' | 'months';
+  peak: number; // most extreme value: °C above threshold, or lowest index
+  severity: number; // accumulated excess (°C·days) or index deficit
+  category: 'Moderate' | 'Severe' | 'Extreme';
+  criterion: string; // human-readable definition that was applied
+}
+
+export interface ClimateIndices {
+  series: IndexPoint[]; // monthly, over the analysis window
+  episodes: ClimateEpisode[];
+  petMethod: 'Thornthwaite' | 'Hargreaves' | null; // null when SPEI could not be computed
+  calibration: BaselinePeriod; // years the distributions were fitted to
+}
+
+// A shift in the mean level of a series. Shifts are measured on anomalies
+// from the window's own monthly means, so the seasonal cycle is removed.
+export interface ChangePoint {
+  date: string; // YYYY-MM, first month of the new level
+  method: 'Pettitt' | 'PELT';
+  pValue: number | null; // Pettitt only; PELT uses a penalty instead
+  shift: number; // mean after minus mean before, in the variable's unit
+}
+
+// Monotonic trend of one variable over the analysis window, computed on
+// monthly means.
+export interface TrendResult {
+  variable: ClimateVariable;
+  months: number; // monthly values tested
+  tau: number; // Kendall's tau
+  z: number;
+  pValue: number; // two-sided, seasonal Mann-Kendall
+  slopePerDecade: number; // seasonal Sen's slope, in the variable's unit
+  level: number; // trend line value at centerYear
+  centerYear: number; // decimal year
+  pettitt: ChangePoint | null; // most likely single shift, whether significant or not
+  changePoints: ChangePoint[]; // PELT segmentation, oldest first
+}
+
+export interface ReturnLevel {
+  period: number; // return period, years
+  level: number; // value exceeded on average once per period
+  lower: number; // 95% bootstrap interval
+  upper: number;
+}
+
+// Distribution of the annual maxima of one variable, fitted to every complete
+// year fetched (baseline and analysis window).
+export interface ExtremeValueFit {
+  variable: ClimateVariable;
+  block: 'day' | 'month'; // each maximum is the year's highest daily or monthly value
+  distribution: 'GEV' | 'Gumbel'; // Gumbel unless the GEV shape improves the fit significantly
+  location: number;
+  scale: number;
+  shape: number; // 0 for Gumbel
+  maxima: { year: number; date: string; value: number }[];
+  returnLevels: ReturnLevel[]; // ascending return periods, for the curve and table
+}
+
+// A study area in lon/lat, wound the way d3-geo expects (clockwise exterior).
+export interface AnalysisRegion {
+  name: string;
+  source: 'bbox' | 'polygon' | 'upload';
+  geometry: { type: 'MultiPolygon'; coordinates: number[][][][] };
+}
+
+export interface AreaSummary {
+  name: string;
+  areaKm2: number;
+  samples: number; // grid points that returned data
+}
+
+// A gridded field around the selected point, used for map overlays.
+export interface GridCell {
+  lat: number; // cell centre
+  lon: number;
+  value: number;
+}
+
+export interface RegionalGrid {
+  variable: ClimateVariable;
+  unit: string;
+  cells: GridCell[];
+  cellSize: [number, number]; // degrees of longitude, latitude
+  period: string; // what each value summarises, e.g. "2020-2023 mean"
+  source: string;
+}
+
+export interface SeriesRequest {
+  lat: number;
+  lon: number;
+  startYear: number;
+  endYear: number;
+  resolution: TemporalResolution;
+  variables: ClimateVariable[];
+}
+
+export interface ProviderSeries {
+  stats: ClimateStats[]; // values only; anomalies are filled in afterwards
+  units: Partial<Record<ClimateVariable, string>>;
+}
+
+export interface ClimateDataProvider {
+  id: string;
+  name: string;
+  resolutions: TemporalResolution[];
+  supports: (variable: ClimateVariable, resolution: TemporalResolution) => boolean;
+  fetchSeries: (request: SeriesRequest) => Promise<ProviderSeries>;
 }
 
 export interface LocationData {
@@ -12,18 +218,106 @@ export interface LocationData {
   name?: string;
 }
 
+// A location pinned for side-by-side comparison.
+export interface ComparisonSite extends LocationData {
+  id: string;
+  name: string;
+  color: string; // used for its pin, chart lines and table row
+}
+
 export interface Prediction {
   month: string;
   riskLevel: 'Low' | 'Medium' | 'High' | 'Critical';
   predictedTemp: number;
   description: string;
+  tempInterval?: [number, number];
+  predictedRainfall?: number;
+  rainfallInterval?: [number, number];
 }
 
+export type CalamityType = 'Flood' | 'Drought' | 'Cyclone' | 'Heatwave' | 'Wildfire' | 'Landslide' | 'ColdWave';
+
+export type CalamitySource = 'EM-DAT' | 'NOAA Storm Events' | 'Derived';
+
 export interface Calamity {
+  id: string; // source-qualified record id, e.g. "EM-DAT:2019-0123-IND"
   year: number;
-  type: 'Flood' | 'Drought' | 'Cyclone' | 'Heatwave';
+  type: CalamityType;
   intensity: string;
-  month: string;
+  month: string; // '01'-'12'
+  startDate: string; // YYYY-MM-DD, or YYYY-MM when the day is unknown
+  endDate?: string;
+  deaths?: number;
+  affected?: number;
+  damageUsd?: number;
+  location?: string; // free-text place description from the source
+  country?: string; // country (EM-DAT) or US state (NOAA)
+  lat?: number;
+  lon?: number;
+  source: CalamitySource;
+}
+
+// How imported events are matched to the selected point: by the country or
+// US state polygon containing it, or by distance from it.
+export interface CalamityMatch {
+  mode: 'region' | 'radius';
+  radiusKm: number;
+}
+
+// One imported vegetation index composite (e.g. a MOD13 16-day period),
+// already sampled at a point and QA-filtered.
+export interface NdviObservation {
+  id: string; // "<lat>,<lon>:<date>:<product>", so re-imports overwrite
+  date: string; // YYYY-MM-DD, first day of the composite period
+  value: number; // scaled NDVI, -1 to 1
+  lat: number; // where the sample was taken
+  lon: number;
+  product: string; // e.g. "MOD13Q1", or the GeoTIFF file name
+  pixels: number; // pixels that passed QA and went into the value
+}
+
+// How imported rasters are reduced to one value per composite: the pixel at
+// the point or the mean over a buffer around it. Marginal-quality pixels are
+// dropped unless allowed.
+export interface NdviSampling {
+  mode: 'point' | 'buffer';
+  bufferKm: number;
+  allowMarginal: boolean;
+}
+
+// What an alert rule watches. Series conditions test each record of the
+// loaded series and fire on a run of `consecutive` matching records;
+// prediction conditions fire on any prediction at or above a risk level.
+export type AlertCondition =
+  | {
+      kind: 'series';
+      variable: ClimateVariable;
+      metric: 'value' | 'z' | 'percentile'; // raw value, standardized anomaly, or percentile of the month's baseline values
+      comparator: 'above' | 'below';
+      threshold: number; // in the variable's unit, in σ, or a percentile 0-100
+      consecutive: number;
+    }
+  | { kind: 'prediction'; minRisk: Prediction['riskLevel'] };
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  condition: AlertCondition;
+  createdAt: number;
+}
+
+// One rule firing, kept in the inbox with the data that triggered it.
+export interface AlertEvent {
+  id: string; // rule, place and triggering dates, so re-evaluating does not duplicate
+  ruleId: string;
+  ruleName: string;
+  triggeredAt: number;
+  location: LocationData;
+  area?: string; // region name for area analyses
+  message: string;
+  points: { date: string; value: number | string }[];
+  read: boolean;
 }
 
 export interface ViewState {
@@ -36,9 +330,143 @@ export enum ClimateModel {
   LSTM = 'LSTM'
 }
 
+export interface ForecastPoint {
+  date: string;
+  value: number;
+  lower: number;
+  upper: number;
+}
+
+export interface ForecastSeries {
+  points: ForecastPoint[];
+  label: string;
+  diagnostics: {
+    rmse: number;
+    aic?: number;
+    observations: number;
+    imputed: number; // months filled from the monthly mean
+  };
+}
+
+export interface ForecastResult {
+  model: ClimateModel;
+  confidenceLevel: number;
+  temperature: ForecastSeries;
+  rainfall: ForecastSeries;
+  predictions: Prediction[];
+}
+
+// ---- Reports ----
+
+export type ReportSectionId =
+  'cover' | 'summary' | 'predictions' | 'forecast' | 'charts' | 'indices' | 'trends' | 'calamities' | 'news' | 'methodology';
+
+// Which sections a generated report contains, in order, and how it is titled.
+export interface ReportTemplate {
+  id: string;
+  name: string;
+  title: string; // "{location}" is replaced with the place name
+  organization: string; // issuing office shown on the cover; may be blank
+  sections: ReportSectionId[];
+  pageSize: 'a4' | 'letter';
+  builtIn?: boolean;
+}
+
+// ---- API keys ----
+
+// Services a personal key can be stored for; without one, requests go
+// through the server proxy, which holds the deployment's keys.
+export type ApiKeyName = 'gemini' | 'openai' | 'nasa';
+
+// ---- Language models ----
+
+export type LlmProviderId = 'gemini' | 'openai' | 'fixture';
+
+// What a request is for; providers pick a model per task
+export type LlmTask = 'insights' | 'repair' | 'news' | 'resources' | 'chat';
+
+export interface LlmSettings {
+  provider: LlmProviderId;
+  model: string; // analysis and chat model; blank for the provider default
+  baseUrl: string; // OpenAI-compatible endpoint, e.g. http://localhost:11434/v1 for Ollama; blank uses the proxy
+  record: boolean; // store live responses as replay fixtures
+}
+
+export type JsonSchema = Record<string, unknown>;
+
+export interface LlmToolSpec {
+  name: string;
+  description: string;
+  parameters: JsonSchema;
+}
+
+export interface LlmToolCall {
+  id?: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface LlmToolResult {
+  call: LlmToolCall;
+  response: Record<string, unknown>;
+}
+
+export interface LlmRequest {
+  task: LlmTask;
+  prompt: string;
+  schema?: JsonSchema; // ask for JSON matching this schema
+  thinking?: boolean; // allow extended reasoning where the model supports it
+  signal?: AbortSignal;
+}
+
+// A piece of a streamed response
+export interface LlmChunk {
+  text?: string;
+  thought?: string; // reasoning summary, shown but not part of the answer
+  toolCalls?: LlmToolCall[];
+}
+
+export interface LlmChat {
+  send: (input: string | LlmToolResult[]) => AsyncGenerator<LlmChunk>;
+}
+
+export interface LlmProvider {
+  id: LlmProviderId;
+  model: (task: LlmTask) => string;
+  stream: (request: LlmRequest) => AsyncGenerator<LlmChunk>;
+  searchNews: (lat: number, lon: number) => Promise<NewsResult>; // web-grounded
+  findResources: (lat: number, lon: number) => Promise<MapResult>; // map-grounded
+  createChat: (systemInstruction: string, tools: LlmToolSpec[], history: ChatMessage[]) => LlmChat;
+}
+
+// A recorded response, replayed by the fixture provider. Keys are the task
+// plus a hash of the request, so identical requests replay identically.
+export interface LlmFixture {
+  key: string;
+  task: LlmTask;
+  chunks?: LlmChunk[]; // streamed generations and chat turns
+  result?: NewsResult | MapResult; // grounded lookups
+  recordedAt: number;
+}
+
+export interface ChatCitation {
+  date: string; // record date as cited, YYYY-MM or YYYY-MM-DD
+  verified: boolean; // returned by a data tool during this answer
+}
+
 export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
+  toolCalls?: string[]; // one-line summaries of the tools used for the answer
+  citations?: ChatCitation[];
+}
+
+export interface ChatThread {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messages: ChatMessage[];
 }
 
 export interface GroundingSource {
@@ -49,9 +477,71 @@ export interface GroundingSource {
 export interface NewsResult {
   summary: string;
   sources: GroundingSource[];
+  cachedAt?: number | null;
 }
 
 export interface MapResult {
   answer: string;
   points: GroundingSource[];
-}
\ No newline at end of file
+  cachedAt?: number | null;
+}
+
+export interface ClimateInsights {
+  summary: string;
+  predictions: Prediction[];
+  cachedAt?: number | null;
+}
+// ---- Workspaces ----
+
+// Everything needed to put the dashboard back as it was after an analysis.
+export interface AnalysisSnapshot {
+  location: LocationData;
+  region: AnalysisRegion | null;
+  startYear: number;
+  endYear: number;
+  baseline: BaselinePeriod;
+  variables: ClimateVariable[];
+  resolution: TemporalResolution;
+  forecastModel: ClimateModel;
+  dataset: ClimateDataset;
+  calamities: Calamity[]; // fetched events; index episodes are rederived from the dataset
+  insights: ClimateInsights | null;
+  news: NewsResult | null;
+  resources: MapResult | null;
+}
+
+// A named snapshot the user chose to keep.
+export interface Workspace {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  snapshot: AnalysisSnapshot;
+}
+
+// One ANALYZE run, recorded automatically for the history sidebar.
+export interface AnalysisRun {
+  id: string;
+  createdAt: number;
+  snapshot: AnalysisSnapshot;
+}
+
+// ---- Projections ----
+
+export type SspScenario = 'ssp126' | 'ssp245' | 'ssp585';
+
+export type ProjectionExperiment = 'historical' | SspScenario;
+
+// Monthly means of one CMIP6 model run at one site, from an imported
+// downscaled extract (e.g. NEX-GDDP-CMIP6), converted to POWER units.
+export interface ProjectionSeries {
+  id: string; // "<lat>,<lon>:<experiment>:<model>:<variable>", so re-imports merge
+  lat: number; // grid cell or extract point
+  lon: number;
+  experiment: ProjectionExperiment;
+  model: string; // CMIP6 source_id, e.g. "ACCESS-CM2"
+  variable: ClimateVariable;
+  values: { date: string; value: number }[]; // YYYY-MM, oldest first
+  sources: string[]; // imported file names
+  importedAt: number;
+}